@@ -102,12 +102,25 @@ function fixPath(): void {
 fixPath()
 import { PtyService } from './services/pty.service'
 import { SshService } from './services/ssh.service'
-import { AiService } from './services/ai.service'
-import { ConfigService, McpServerConfig } from './services/config.service'
+import { KnownHostsService, HostKeyPromptRequest } from './services/known-hosts.service'
+import { KeyboardInteractiveService, KeyboardInteractiveRequest } from './services/keyboard-interactive.service'
+import { PortForwardService } from './services/port-forward.service'
+import { RecordingService, RecordingOptions } from './services/recording.service'
+import { AiService, type AiUsageContext } from './services/ai.service'
+import { ConfigService, McpServerConfig, type ModelPricingConfig, type RiskPolicyConfig } from './services/config.service'
 import { XshellImportService } from './services/xshell-import.service'
 import { AgentService, AgentStep, PendingConfirmation, AgentContext } from './services/agent'
+import { analyzeCommand, evaluateCommandRisk, parseRiskPolicy, serializeRiskPolicy, type RiskPolicyContext } from './services/agent/risk-assessor'
+import type { TaskPlan, PlanEdit } from './services/agent/planner'
 import { HistoryService, ChatRecord, AgentRecord } from './services/history.service'
+import { summarizeUsage } from './services/usage-stats'
+import { getTokenizerService } from './services/tokenizer'
 import { HostProfileService, HostProfile } from './services/host-profile.service'
+import { PlaybookService, type Playbook, type RenderedPlaybook } from './services/playbook.service'
+import { SchedulerService, type ScheduledTask } from './services/scheduler.service'
+import { UnattendedRunner } from './services/unattended-runner'
+import { HeadlessAgentService } from './services/headless-agent.service'
+import { parseCron, getNextCronRun } from './services/cron'
 import { getDocumentParserService, UploadedFile, ParseOptions, ParsedDocument } from './services/document-parser.service'
 import { SftpService, SftpConfig } from './services/sftp.service'
 import { McpService } from './services/mcp.service'
@@ -147,16 +160,35 @@ let mainWindow: BrowserWindow | null = null
 
 // 服务实例
 const ptyService = new PtyService()
-const sshService = new SshService()
+const knownHostsService = new KnownHostsService()
+const keyboardInteractiveService = new KeyboardInteractiveService()
+const sshService = new SshService(knownHostsService, keyboardInteractiveService)
+const portForwardService = new PortForwardService()
+const recordingService = new RecordingService()
 const aiService = new AiService()
 const configService = new ConfigService()
 const xshellImportService = new XshellImportService()
 const hostProfileService = new HostProfileService()
+const playbookService = new PlaybookService()
 const mcpService = new McpService()
 const agentService = new AgentService(aiService, ptyService, hostProfileService, mcpService, configService, sshService)
 const historyService = new HistoryService()
+// AI 请求的 token 用量逐条写入历史
+aiService.setUsageRecorder(event => {
+  historyService.saveUsageRecord({
+    id: `usage_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+    timestamp: Date.now(),
+    ...event
+  })
+})
+// 定时任务（后台运行无人值守的 Agent 任务）
+const unattendedRunner = new UnattendedRunner(agentService, sshService, configService, historyService)
+const schedulerService = new SchedulerService(unattendedRunner)
+const headlessAgentService = new HeadlessAgentService(unattendedRunner, configService)
 const documentParserService = getDocumentParserService()
-const sftpService = new SftpService()
+const sftpService = new SftpService(knownHostsService)
+sftpService.setSshService(sshService)
+agentService.setSftpService(sftpService)
 
 // 终端状态服务（CWD 追踪、命令状态等）
 const terminalStateService = initTerminalStateService(ptyService, sshService)
@@ -288,6 +320,11 @@ app.whenReady().then(async () => {
 
   createWindow()
 
+  // 启动定时任务调度
+  schedulerService.start()
+  // 启动本地 Agent 接入（未启用时不监听）
+  headlessAgentService.start()
+
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
       createWindow()
@@ -297,8 +334,14 @@ app.whenReady().then(async () => {
 
 // 所有窗口关闭时退出应用（Windows & Linux）
 app.on('window-all-closed', () => {
+  // 先保存运行中的 Agent 任务，终端关闭后任务出错也不影响下次恢复
+  agentService.suspendAll()
+  schedulerService.stop()
+  headlessAgentService.stop()
   // 清理所有 PTY、SSH、SFTP 和 MCP 连接
+  recordingService.stopAll()
   ptyService.disposeAll()
+  portForwardService.stopAll()
   sshService.disposeAll()
   sftpService.disconnectAll()
   mcpService.disconnectAll()
@@ -321,6 +364,7 @@ ipcMain.handle('pty:write', async (_event, id: string, data: string) => {
 
 ipcMain.handle('pty:resize', async (_event, id: string, cols: number, rows: number) => {
   ptyService.resize(id, cols, rows)
+  recordingService.recordResize(id, cols, rows)
 })
 
 ipcMain.handle('pty:executeInTerminal', async (_event, id: string, command: string, timeout?: number) => {
@@ -328,6 +372,7 @@ ipcMain.handle('pty:executeInTerminal', async (_event, id: string, command: stri
 })
 
 ipcMain.handle('pty:dispose', async (_event, id: string) => {
+  recordingService.stop(id)
   ptyService.dispose(id)
 })
 
@@ -350,7 +395,14 @@ ipcMain.on('pty:subscribe', (event, id: string) => {
 
 // SSH 相关
 ipcMain.handle('ssh:connect', async (_event, config) => {
-  return sshService.connect(config)
+  const id = await sshService.connect(config)
+  // 启动会话配置的端口转发，随连接断开自动停止
+  const client = sshService.getClient(id)
+  if (client && config.portForwards?.length) {
+    portForwardService.start(id, client, config.portForwards)
+    sshService.onDisconnect(id, () => portForwardService.stop(id))
+  }
+  return id
 })
 
 ipcMain.handle('ssh:write', async (_event, id: string, data: string) => {
@@ -359,6 +411,7 @@ ipcMain.handle('ssh:write', async (_event, id: string, data: string) => {
 
 ipcMain.handle('ssh:resize', async (_event, id: string, cols: number, rows: number) => {
   sshService.resize(id, cols, rows)
+  recordingService.recordResize(id, cols, rows)
 })
 
 ipcMain.handle('ssh:disconnect', async (_event, id: string) => {
@@ -373,9 +426,185 @@ ipcMain.handle('ssh:disconnect', async (_event, id: string) => {
     disconnectUnsub()
     sshDisconnectUnsubscribes.delete(id)
   }
+  recordingService.stop(id)
+  portForwardService.stop(id)
   sshService.disconnect(id)
 })
 
+// ==================== 端口转发 ====================
+
+ipcMain.handle('portForward:getStatus', async (_event, connectionId: string) => {
+  return portForwardService.getStatus(connectionId)
+})
+
+// 端口转发状态变化 - 推送到渲染进程
+portForwardService.onStatusChange((connectionId, forwards) => {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('portForward:status', { connectionId, forwards })
+  }
+})
+
+// ==================== 终端录制（asciicast v2） ====================
+
+// 开始录制终端输出
+ipcMain.handle('recording:start', async (_event, id: string, options: RecordingOptions) => {
+  const subscribe = (callback: (data: string) => void) =>
+    options.type === 'ssh' ? sshService.onData(id, callback) : ptyService.onData(id, callback)
+  return recordingService.start(id, options, subscribe)
+})
+
+// 停止录制，返回录像文件路径
+ipcMain.handle('recording:stop', async (_event, id: string) => {
+  return recordingService.stop(id)
+})
+
+// 获取录制状态
+ipcMain.handle('recording:getStatus', async (_event, id: string) => {
+  return recordingService.getStatus(id)
+})
+
+// 列出录像文件
+ipcMain.handle('recording:list', async () => {
+  return recordingService.list()
+})
+
+// 读取录像文件内容
+ipcMain.handle('recording:read', async (_event, filePath: string) => {
+  return recordingService.read(filePath)
+})
+
+// 删除录像文件
+ipcMain.handle('recording:delete', async (_event, filePath: string) => {
+  recordingService.delete(filePath)
+})
+
+// 打开录像目录
+ipcMain.handle('recording:openFolder', async () => {
+  shell.openPath(recordingService.getRecordingsDir())
+})
+
+// 选择外部录像文件
+ipcMain.handle('recording:selectFile', async () => {
+  const result = await dialog.showOpenDialog({
+    title: '选择录像文件',
+    defaultPath: recordingService.getRecordingsDir(),
+    filters: [
+      { name: 'asciicast 录像', extensions: ['cast'] },
+      { name: '所有文件', extensions: ['*'] }
+    ],
+    properties: ['openFile']
+  })
+
+  if (result.canceled || result.filePaths.length === 0) {
+    return { canceled: true, filePath: '' }
+  }
+
+  recordingService.allowExternalFile(result.filePaths[0])
+  return { canceled: false, filePath: result.filePaths[0] }
+})
+
+// ==================== SSH 自动重连 ====================
+
+// 生成 cd 命令的路径参数（~ 开头的路径保留 ~ 展开）
+const quoteShellPath = (dir: string): string => {
+  const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`
+  if (dir.startsWith('~/')) {
+    return `~/${quote(dir.slice(2))}`
+  }
+  return quote(dir)
+}
+
+sshService.onReconnect(event => {
+  if (event.state === 'waiting') {
+    // 原连接上的端口转发已失效，重连成功后重新启动
+    portForwardService.stop(event.id)
+  } else if (event.state === 'connected') {
+    const client = sshService.getClient(event.id)
+    const config = sshService.getConfig(event.id)
+    if (client && config?.portForwards?.length) {
+      portForwardService.start(event.id, client, config.portForwards)
+    }
+    // 恢复断开前的工作目录（命令前加空格，避免写入 shell 历史）
+    const cwd = terminalStateService.getCwd(event.id)
+    if (cwd && cwd !== '~') {
+      sshService.write(event.id, ` cd ${quoteShellPath(cwd)}\r`)
+    }
+  }
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('ssh:reconnect', event)
+  }
+})
+
+// ==================== SSH 主机公钥确认 ====================
+
+// 等待用户确认的主机公钥请求（需在 SSH 握手超时 30s 之前得到答复）
+const HOST_KEY_PROMPT_TIMEOUT = 25000
+const pendingHostKeyPrompts = new Map<string, { resolve: (accepted: boolean) => void; timeout: NodeJS.Timeout }>()
+
+knownHostsService.setPrompt((request: HostKeyPromptRequest) => {
+  return new Promise(resolve => {
+    if (!mainWindow || mainWindow.isDestroyed()) {
+      resolve(false)
+      return
+    }
+
+    const requestId = `hostkey-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+    const timeout = setTimeout(() => {
+      pendingHostKeyPrompts.delete(requestId)
+      mainWindow?.webContents.send('ssh:hostKeyPromptCancel', requestId)
+      resolve(false)
+    }, HOST_KEY_PROMPT_TIMEOUT)
+
+    pendingHostKeyPrompts.set(requestId, { resolve, timeout })
+    mainWindow.webContents.send('ssh:hostKeyPrompt', { requestId, ...request })
+  })
+})
+
+// 前端答复主机公钥确认
+ipcMain.handle('ssh:respondHostKey', async (_event, requestId: string, accepted: boolean) => {
+  const pending = pendingHostKeyPrompts.get(requestId)
+  if (pending) {
+    clearTimeout(pending.timeout)
+    pendingHostKeyPrompts.delete(requestId)
+    pending.resolve(accepted)
+  }
+})
+
+// ==================== SSH 键盘交互认证（密码 / OTP 验证码） ====================
+
+// 等待用户输入期间握手计时已暂停，超时时间与 sshd 默认的 LoginGraceTime 一致
+const KEYBOARD_INTERACTIVE_TIMEOUT = 120000
+const pendingKeyboardInteractive = new Map<string, { resolve: (answers: string[] | null) => void; timeout: NodeJS.Timeout }>()
+
+keyboardInteractiveService.setPrompt((request: KeyboardInteractiveRequest) => {
+  return new Promise(resolve => {
+    if (!mainWindow || mainWindow.isDestroyed()) {
+      resolve(null)
+      return
+    }
+
+    const requestId = `kbd-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+    const timeout = setTimeout(() => {
+      pendingKeyboardInteractive.delete(requestId)
+      mainWindow?.webContents.send('ssh:keyboardInteractiveCancel', requestId)
+      resolve(null)
+    }, KEYBOARD_INTERACTIVE_TIMEOUT)
+
+    pendingKeyboardInteractive.set(requestId, { resolve, timeout })
+    mainWindow.webContents.send('ssh:keyboardInteractive', { requestId, ...request })
+  })
+})
+
+// 前端答复键盘交互认证（answers 为 null 表示取消）
+ipcMain.handle('ssh:respondKeyboardInteractive', async (_event, requestId: string, answers: string[] | null) => {
+  const pending = pendingKeyboardInteractive.get(requestId)
+  if (pending) {
+    clearTimeout(pending.timeout)
+    pendingKeyboardInteractive.delete(requestId)
+    pending.resolve(answers)
+  }
+})
+
 // SSH 数据订阅的取消函数存储
 const sshDataUnsubscribes = new Map<string, () => void>()
 // SSH 断开连接订阅的取消函数存储
@@ -404,7 +633,8 @@ ipcMain.on('ssh:subscribe', (event, id: string) => {
       if (!event.sender.isDestroyed()) {
         event.sender.send(`ssh:disconnected:${id}`, {
           reason: disconnectEvent.reason,
-          error: disconnectEvent.error?.message
+          error: disconnectEvent.error?.message,
+          jumpHop: disconnectEvent.jumpHop
         })
       }
     } catch (e) {
@@ -549,11 +779,11 @@ ipcMain.handle('terminalAwareness:clear', async (_event, ptyId: string) => {
 })
 
 // AI 相关
-ipcMain.handle('ai:chat', async (_event, messages, profileId?: string) => {
-  return aiService.chat(messages, profileId)
+ipcMain.handle('ai:chat', async (_event, messages, profileId?: string, usageContext?: AiUsageContext) => {
+  return aiService.chat(messages, profileId, usageContext)
 })
 
-ipcMain.handle('ai:chatStream', async (event, messages, profileId?: string, requestId?: string) => {
+ipcMain.handle('ai:chatStream', async (event, messages, profileId?: string, requestId?: string, usageContext?: AiUsageContext) => {
   // 使用传入的 requestId 或生成新的 streamId
   const streamId = requestId || Date.now().toString()
   aiService.chatStream(
@@ -563,9 +793,9 @@ ipcMain.handle('ai:chatStream', async (event, messages, profileId?: string, requ
         event.sender.send(`ai:stream:${streamId}`, { chunk })
       }
     },
-    () => {
+    (servedBy) => {
       if (!event.sender.isDestroyed()) {
-        event.sender.send(`ai:stream:${streamId}`, { done: true })
+        event.sender.send(`ai:stream:${streamId}`, { done: true, servedBy })
       }
     },
     (error: string) => {
@@ -574,7 +804,8 @@ ipcMain.handle('ai:chatStream', async (event, messages, profileId?: string, requ
       }
     },
     profileId,
-    streamId  // 传递 requestId 给 AI 服务
+    streamId,  // 传递 requestId 给 AI 服务
+    usageContext
   )
   return streamId
 })
@@ -583,6 +814,27 @@ ipcMain.handle('ai:abort', async (_event, requestId?: string) => {
   aiService.abort(requestId)
 })
 
+ipcMain.handle('ai:listLocalModels', async (_event, apiUrl: string, proxy?: string) => {
+  return aiService.listLocalModels(apiUrl, proxy)
+})
+
+// 可用的离线 tokenizer 词表
+ipcMain.handle('ai:listTokenizers', async () => {
+  const tokenizerService = getTokenizerService()
+  return { tokenizers: tokenizerService.listTokenizers(), userDir: tokenizerService.getUserDir() }
+})
+
+// 按 AI 配置的 tokenizer 批量计算 token 数（未指定配置时使用当前配置）
+ipcMain.handle('ai:countTokens', async (_event, texts: string[], profileId?: string) => {
+  const profiles = configService.getAiProfiles()
+  const profile = profiles.find(p => p.id === (profileId || configService.getActiveAiProfile())) || profiles[0]
+  const count = getTokenizerService().getCounter(profile)
+  return {
+    tokenizer: getTokenizerService().resolveTokenizer(profile),
+    counts: texts.map(text => count(text))
+  }
+})
+
 // 应用信息
 ipcMain.handle('app:getVersion', async () => {
   return APP_VERSION
@@ -618,6 +870,85 @@ ipcMain.handle('config:setActiveAiProfile', async (_event, profileId: string) =>
   configService.setActiveAiProfile(profileId)
 })
 
+// AI 请求路由（故障转移 / 负载均衡）
+ipcMain.handle('config:getAiRouting', async () => {
+  return configService.getAiRouting()
+})
+
+ipcMain.handle('config:setAiRouting', async (_event, routing) => {
+  configService.setAiRouting(routing)
+})
+
+ipcMain.handle('config:getModelPricing', async () => {
+  return configService.getModelPricing()
+})
+
+ipcMain.handle('config:setModelPricing', async (_event, pricing: ModelPricingConfig) => {
+  configService.setModelPricing(pricing)
+})
+
+// 命令风险策略
+ipcMain.handle('config:getRiskPolicy', async () => {
+  return configService.getRiskPolicy()
+})
+
+ipcMain.handle('config:setRiskPolicy', async (_event, policy: RiskPolicyConfig) => {
+  configService.setRiskPolicy(policy)
+})
+
+// 测试命令在策略下的处理结果（policy 为设置页中尚未保存的策略）
+ipcMain.handle('config:testRiskPolicy', async (_event, command: string, context: RiskPolicyContext, policy?: RiskPolicyConfig) => {
+  const handling = analyzeCommand(command)
+  const assessment = evaluateCommandRisk(command, policy || configService.getRiskPolicy(), context)
+  return {
+    level: assessment.level,
+    source: assessment.source,
+    rule: assessment.rule,
+    reason: assessment.reason,
+    // vim 等全屏交互程序无论策略如何都不会执行
+    interactiveBlocked: handling.strategy === 'block' ? `${handling.reason}。${handling.hint}` : undefined
+  }
+})
+
+ipcMain.handle('config:exportRiskPolicy', async (_event, policy: RiskPolicyConfig) => {
+  try {
+    const result = await dialog.showSaveDialog({
+      title: '导出风险策略',
+      defaultPath: 'risk-policy.json',
+      filters: [{ name: 'JSON', extensions: ['json'] }],
+      properties: ['createDirectory', 'showOverwriteConfirmation']
+    })
+    if (result.canceled || !result.filePath) {
+      return { canceled: true }
+    }
+    fs.writeFileSync(result.filePath, serializeRiskPolicy(policy), 'utf-8')
+    return { success: true, path: result.filePath }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : '导出失败' }
+  }
+})
+
+// 导入只解析校验文件，由设置页确认后再保存
+ipcMain.handle('config:importRiskPolicy', async () => {
+  try {
+    const result = await dialog.showOpenDialog({
+      title: '导入风险策略',
+      filters: [
+        { name: 'JSON', extensions: ['json'] },
+        { name: '所有文件', extensions: ['*'] }
+      ],
+      properties: ['openFile']
+    })
+    if (result.canceled || result.filePaths.length === 0) {
+      return { canceled: true }
+    }
+    const data = JSON.parse(fs.readFileSync(result.filePaths[0], 'utf-8'))
+    return { success: true, policy: parseRiskPolicy(data) }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : '导入失败' }
+  }
+})
+
 // SSH 会话配置
 ipcMain.handle('config:getSshSessions', async () => {
   return configService.getSshSessions()
@@ -636,6 +967,23 @@ ipcMain.handle('config:setSessionGroups', async (_event, groups) => {
   configService.setSessionGroups(groups)
 })
 
+// 工作区配置
+ipcMain.handle('config:getWorkspaces', async () => {
+  return configService.getWorkspaces()
+})
+
+ipcMain.handle('config:setWorkspaces', async (_event, workspaces) => {
+  configService.setWorkspaces(workspaces)
+})
+
+ipcMain.handle('config:getStartupWorkspace', async () => {
+  return configService.getStartupWorkspace()
+})
+
+ipcMain.handle('config:setStartupWorkspace', async (_event, workspaceId: string) => {
+  configService.setStartupWorkspace(workspaceId)
+})
+
 // 主题配置
 ipcMain.handle('config:getTheme', async () => {
   return configService.getTheme()
@@ -734,50 +1082,61 @@ ipcMain.handle('xshell:scanDefaultPaths', async () => {
 
 // ==================== Agent 相关 ====================
 
-// 运行 Agent
-ipcMain.handle('agent:run', async (event, { ptyId, message, context, config, profileId }: {
-  ptyId: string
-  message: string
-  context: AgentContext
-  config?: object
-  profileId?: string
-}) => {
-  // 设置事件回调，将 Agent 事件转发到渲染进程
-  // 使用 JSON.parse(JSON.stringify()) 确保对象可序列化
+// 设置事件回调，将 Agent 事件转发到渲染进程
+// 使用 JSON.parse(JSON.stringify()) 确保对象可序列化
+const forwardAgentEvents = (sender: Electron.WebContents) => {
   agentService.setCallbacks({
     onStep: (agentId: string, step: AgentStep) => {
-      if (!event.sender.isDestroyed()) {
+      if (!sender.isDestroyed()) {
         // 序列化 step 对象，确保可以通过 IPC 传递
         const serializedStep = JSON.parse(JSON.stringify(step))
-        event.sender.send('agent:step', { agentId, step: serializedStep })
+        sender.send('agent:step', { agentId, step: serializedStep })
       }
     },
     onNeedConfirm: (confirmation: PendingConfirmation) => {
-      if (!event.sender.isDestroyed()) {
+      if (!sender.isDestroyed()) {
         // 只发送可序列化的字段，不包含 resolve 函数
-        event.sender.send('agent:needConfirm', {
+        sender.send('agent:needConfirm', {
           agentId: confirmation.agentId,
           toolCallId: confirmation.toolCallId,
           toolName: confirmation.toolName,
           toolArgs: JSON.parse(JSON.stringify(confirmation.toolArgs)),
-          riskLevel: confirmation.riskLevel
+          riskLevel: confirmation.riskLevel,
+          diff: confirmation.diff
         })
       }
     },
     onComplete: (agentId: string, result: string) => {
-      if (!event.sender.isDestroyed()) {
-        event.sender.send('agent:complete', { agentId, result })
+      if (!sender.isDestroyed()) {
+        sender.send('agent:complete', { agentId, result })
       }
     },
     onError: (agentId: string, error: string) => {
-      if (!event.sender.isDestroyed()) {
-        event.sender.send('agent:error', { agentId, error })
+      if (!sender.isDestroyed()) {
+        sender.send('agent:error', { agentId, error })
+      }
+    },
+    onPlanUpdate: (agentId: string, plan: TaskPlan) => {
+      if (!sender.isDestroyed()) {
+        sender.send('agent:planUpdate', { agentId, plan: JSON.parse(JSON.stringify(plan)) })
       }
     }
   })
+}
+
+// 运行 Agent
+ipcMain.handle('agent:run', async (event, { ptyId, message, context, config, profileId, playbook }: {
+  ptyId: string
+  message: string
+  context: AgentContext
+  config?: object
+  profileId?: string
+  playbook?: RenderedPlaybook
+}) => {
+  forwardAgentEvents(event.sender)
 
   try {
-    const result = await agentService.run(ptyId, message, context, config, profileId)
+    const result = await agentService.run(ptyId, message, context, config, profileId, playbook)
     return { success: true, result }
   } catch (error) {
     return { 
@@ -787,6 +1146,51 @@ ipcMain.handle('agent:run', async (event, { ptyId, message, context, config, pro
   }
 })
 
+// 从检查点恢复中断的 Agent 任务
+ipcMain.handle('agent:resume', async (event, { agentId, ptyId, context, config }: {
+  agentId: string
+  ptyId: string
+  context: AgentContext
+  config?: object
+}) => {
+  forwardAgentEvents(event.sender)
+
+  try {
+    const result = await agentService.resume(agentId, ptyId, context, config)
+    return { success: true, result }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '未知错误'
+    }
+  }
+})
+
+// 获取主机上最近一次中断的 Agent 任务
+ipcMain.handle('agent:getInterruptedRun', async (_event, hostId: string) => {
+  return agentService.getInterruptedRun(hostId)
+})
+
+// 放弃恢复中断的 Agent 任务
+ipcMain.handle('agent:discardInterruptedRun', async (_event, agentId: string) => {
+  return agentService.discardInterruptedRun(agentId)
+})
+
+// 获取运行修改过的文件
+ipcMain.handle('agent:getFileChanges', async (_event, agentId: string) => {
+  return agentService.getFileChanges(agentId)
+})
+
+// 撤销运行对文件的所有修改
+ipcMain.handle('agent:revertFileChanges', async (_event, agentId: string) => {
+  try {
+    const results = await agentService.revertFileChanges(agentId)
+    return { success: true, results }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+})
+
 // 中止 Agent
 ipcMain.handle('agent:abort', async (_event, agentId: string) => {
   return agentService.abort(agentId)
@@ -802,6 +1206,16 @@ ipcMain.handle('agent:confirm', async (_event, { agentId, toolCallId, approved,
   return agentService.confirmToolCall(agentId, toolCallId, approved, modifiedArgs)
 })
 
+// 审批任务计划
+ipcMain.handle('agent:approvePlan', async (_event, agentId: string, approved: boolean) => {
+  return agentService.approvePlan(agentId, approved)
+})
+
+// 调整任务计划（修改、跳过、重试步骤）
+ipcMain.handle('agent:adjustPlan', async (_event, agentId: string, edit: PlanEdit) => {
+  return agentService.adjustPlan(agentId, edit)
+})
+
 // 获取 Agent 状态
 ipcMain.handle('agent:getStatus', async (_event, agentId: string) => {
   return agentService.getRunStatus(agentId)
@@ -849,6 +1263,11 @@ ipcMain.handle('history:getAgentRecords', async (_event, startDate?: string, end
   return historyService.getAgentRecords(startDate, endDate)
 })
 
+// 获取 AI 用量汇总（费用按当前模型单价计算）
+ipcMain.handle('history:getUsageSummary', async (_event, startDate?: string, endDate?: string) => {
+  return summarizeUsage(historyService.getUsageRecords(startDate, endDate), configService.getModelPricing())
+})
+
 // 获取数据目录路径
 ipcMain.handle('history:getDataPath', async () => {
   return historyService.getDataPath()
@@ -1089,6 +1508,149 @@ ipcMain.handle('hostProfile:probeSsh', async (_event, sshId: string, hostId: str
   }
 })
 
+// ==================== 定时任务相关 ====================
+
+// 获取所有定时任务
+ipcMain.handle('scheduler:getAll', async () => {
+  return schedulerService.getAll()
+})
+
+// 新建或更新定时任务
+ipcMain.handle('scheduler:save', async (_event, task: ScheduledTask) => {
+  try {
+    return { success: true, task: schedulerService.save(task) }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : '保存失败' }
+  }
+})
+
+// 删除定时任务
+ipcMain.handle('scheduler:delete', async (_event, id: string) => {
+  return schedulerService.delete(id)
+})
+
+// 立即运行一次
+ipcMain.handle('scheduler:runNow', async (_event, id: string) => {
+  try {
+    schedulerService.runNow(id)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : '运行失败' }
+  }
+})
+
+// 校验 cron 表达式并计算接下来的运行时间
+ipcMain.handle('scheduler:previewCron', async (_event, expression: string, count: number = 3) => {
+  try {
+    const schedule = parseCron(expression)
+    const runs: number[] = []
+    let after = new Date()
+    for (let i = 0; i < count; i++) {
+      const next = getNextCronRun(schedule, after)
+      if (!next) break
+      runs.push(next.getTime())
+      after = next
+    }
+    return { valid: true, nextRuns: runs }
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : '表达式无效', nextRuns: [] }
+  }
+})
+
+// 任务状态变化 - 推送到渲染进程
+schedulerService.onTaskUpdate(task => {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('scheduler:taskUpdated', task)
+  }
+})
+
+// ==================== 本地 Agent 接入相关 ====================
+
+// 获取本地接入状态（套接字路径、令牌等）
+ipcMain.handle('headlessAgent:getStatus', async () => {
+  return headlessAgentService.getStatus()
+})
+
+// 启用/停用本地接入
+ipcMain.handle('headlessAgent:setEnabled', async (_event, enabled: boolean) => {
+  return headlessAgentService.setEnabled(enabled)
+})
+
+// 重新生成访问令牌
+ipcMain.handle('headlessAgent:regenerateToken', async () => {
+  return headlessAgentService.regenerateToken()
+})
+
+// ==================== Playbook 相关 ====================
+
+// 获取所有 Playbook
+ipcMain.handle('playbook:getAll', async () => {
+  return playbookService.getAll()
+})
+
+// 新建或更新 Playbook
+ipcMain.handle('playbook:save', async (_event, playbook: Playbook) => {
+  try {
+    return { success: true, playbook: playbookService.save(playbook) }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : '保存失败' }
+  }
+})
+
+// 删除 Playbook
+ipcMain.handle('playbook:delete', async (_event, id: string) => {
+  return playbookService.delete(id)
+})
+
+// 代入参数，生成要运行的任务
+ipcMain.handle('playbook:render', async (_event, id: string, values: Record<string, string>) => {
+  try {
+    return { success: true, playbook: playbookService.render(id, values) }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : '参数无效' }
+  }
+})
+
+// 导出为 YAML（不指定 ID 时导出全部）
+ipcMain.handle('playbook:export', async (_event, ids?: string[]) => {
+  try {
+    const result = await dialog.showSaveDialog({
+      title: '导出 Playbook',
+      defaultPath: 'playbooks.yaml',
+      filters: [{ name: 'YAML', extensions: ['yaml', 'yml'] }],
+      properties: ['createDirectory', 'showOverwriteConfirmation']
+    })
+    if (result.canceled || !result.filePath) {
+      return { canceled: true }
+    }
+    fs.writeFileSync(result.filePath, playbookService.exportYaml(ids), 'utf-8')
+    return { success: true, path: result.filePath }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : '导出失败' }
+  }
+})
+
+// 从 YAML 导入，ID 相同的 Playbook 会被覆盖
+ipcMain.handle('playbook:import', async () => {
+  try {
+    const result = await dialog.showOpenDialog({
+      title: '导入 Playbook',
+      filters: [
+        { name: 'YAML', extensions: ['yaml', 'yml'] },
+        { name: '所有文件', extensions: ['*'] }
+      ],
+      properties: ['openFile']
+    })
+    if (result.canceled || result.filePaths.length === 0) {
+      return { canceled: true }
+    }
+    const imported = playbookService.importYaml(fs.readFileSync(result.filePaths[0], 'utf-8'))
+    return { success: true, count: imported.length }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : '导入失败' }
+  }
+})
+
 // ==================== 文档解析相关 ====================
 
 // 选择文件对话框
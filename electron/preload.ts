@@ -14,13 +14,89 @@ export interface SshConfig {
   host: string
   port: number
   username: string
+  authType?: 'password' | 'privateKey' | 'agent'
   password?: string
   privateKey?: string
+  privateKeyPath?: string
   passphrase?: string
+  totpSecret?: string  // TOTP 种子，用于自动填写验证码
+  agentForward?: boolean  // 转发本地 SSH Agent
   cols?: number
   rows?: number
-  jumpHost?: JumpHostConfig  // 跳板机配置
+  jumpHost?: JumpHostConfig  // 跳板机配置（单跳，兼容旧版本）
+  jumpHosts?: JumpHostConfig[]  // 跳板机链，按顺序逐跳连接
   encoding?: string  // 字符编码，默认 utf-8
+  portForwards?: PortForwardConfig[]  // 端口转发配置
+  reconnect?: SshReconnectPolicy  // 自动重连策略
+}
+
+// 端口转发配置
+export interface PortForwardConfig {
+  id: string
+  type: 'local' | 'remote' | 'dynamic'
+  bindHost?: string
+  bindPort: number
+  targetHost?: string
+  targetPort?: number
+  enabled?: boolean
+  description?: string
+}
+
+// 端口转发运行状态
+export interface PortForwardStatus {
+  id: string
+  type: 'local' | 'remote' | 'dynamic'
+  bindHost: string
+  bindPort: number
+  targetHost?: string
+  targetPort?: number
+  description?: string
+  state: 'starting' | 'active' | 'error' | 'stopped'
+  error?: string
+  connections: number
+  bytesIn: number
+  bytesOut: number
+}
+
+// 终端录制状态
+export interface RecordingStatus {
+  terminalId: string
+  filePath: string
+  startedAt: number
+}
+
+// 录像文件信息（asciicast v2）
+export interface RecordingFileInfo {
+  filePath: string
+  fileName: string
+  title?: string
+  width: number
+  height: number
+  timestamp: number
+  duration: number
+  size: number
+}
+
+// 未知主机公钥确认请求
+export interface HostKeyPromptRequest {
+  requestId: string
+  host: string
+  port: number
+  keyType: string
+  fingerprint: string
+  isJumpHost: boolean
+}
+
+// 键盘交互认证请求（密码 / OTP 验证码等服务器提示）
+export interface KeyboardInteractiveRequest {
+  requestId: string
+  host: string
+  port: number
+  username: string
+  isJumpHost: boolean
+  name: string
+  instructions: string
+  prompts: Array<{ prompt: string; echo: boolean; autoFilled?: boolean }>
 }
 
 export interface AiMessage {
@@ -35,6 +111,178 @@ export interface AiProfile {
   apiKey: string
   model: string
   proxy?: string
+  provider?: 'openai' | 'anthropic' | 'local'  // 接口协议，默认 OpenAI 兼容
+  thinkingBudget?: number  // Anthropic 扩展思考预算（tokens），不设置则不开启
+  supportsTools?: boolean  // 模型是否支持原生工具调用，未知时为空
+  toolCallMode?: 'auto' | 'native' | 'prompt'  // 工具调用方式，默认 auto
+  tokenizer?: string  // token 计数词表：auto（按模型推断）/ heuristic（按字符估算）/ 词表名称，默认 auto
+}
+
+// AI 请求路由（故障转移 / 负载均衡）
+export interface AiRoutingConfig {
+  mode: 'single' | 'failover' | 'weighted'
+  profileIds: string[]
+  weights: Record<string, number>
+  maxRetries: number
+}
+
+// 实际响应请求的 AI 配置
+export interface AiServedProfile {
+  id: string
+  name: string
+}
+
+// 用量统计上下文（请求来源与所在主机）
+export interface AiUsageContext {
+  source: 'chat' | 'agent' | 'knowledge'
+  host?: string
+  terminalId?: string
+  agentRunId?: string
+}
+
+// 离线 tokenizer 词表
+export interface TokenizerInfo {
+  id: string
+  source: 'bundled' | 'user'
+}
+
+// 模型单价（每百万 tokens），model 以 * 结尾时按前缀匹配
+export interface ModelPrice {
+  model: string
+  inputPrice: number
+  outputPrice: number
+}
+
+export interface ModelPricingConfig {
+  currency: string
+  prices: ModelPrice[]
+}
+
+// 命令风险策略规则
+export interface RiskPolicyRule {
+  id: string
+  name?: string
+  enabled: boolean
+  pattern: string
+  action: 'allow' | 'confirm' | 'deny'
+  scope: 'all' | 'host' | 'group' | 'hostname'
+  scopeValue?: string
+}
+
+export interface RiskPolicyConfig {
+  useBuiltinRules: boolean
+  rules: RiskPolicyRule[]
+}
+
+// 策略测试使用的目标主机
+export interface RiskPolicyTestContext {
+  hostId?: string
+  hostname?: string
+  groupName?: string
+}
+
+export interface RiskPolicyTestResult {
+  level: 'safe' | 'moderate' | 'dangerous' | 'blocked'
+  source: 'policy' | 'builtin' | 'default'
+  rule?: RiskPolicyRule
+  reason?: string  // 命中内置禁止规则或跳过允许规则的说明
+  interactiveBlocked?: string
+}
+
+// 定时任务（nextRunAt 由主进程计算，保存时忽略）
+export interface ScheduledTask {
+  id: string
+  name: string
+  enabled: boolean
+  cron: string
+  sessionIds: string[]
+  task: string
+  profileId?: string
+  maxSteps: number
+  commandTimeout: number
+  autoExecuteModerate: boolean
+  notifyOnSuccess: boolean
+  createdAt: number
+  updatedAt: number
+  lastRunAt?: number
+  lastStatus?: 'running' | 'completed' | 'failed'
+  lastError?: string
+  nextRunAt?: number
+}
+
+// 本地 Agent 接入状态
+export interface HeadlessAgentStatus {
+  enabled: boolean
+  listening: boolean
+  socketPath: string
+  token: string
+  error?: string
+}
+
+// Playbook（可复用的 Agent 任务模板）
+export interface PlaybookParameter {
+  name: string
+  label?: string
+  description?: string
+  default?: string
+  required?: boolean
+  options?: string[]
+}
+
+export interface PlaybookStep {
+  description: string
+  purpose?: string
+  checkpoint?: boolean
+  alternativeApproach?: string
+}
+
+export interface PlaybookSuccessCheck {
+  description: string
+  command?: string
+  expect?: string
+}
+
+export interface Playbook {
+  id: string
+  name: string
+  description?: string
+  task: string
+  parameters: PlaybookParameter[]
+  steps: PlaybookStep[]
+  successChecks: PlaybookSuccessCheck[]
+  riskCeiling?: 'safe' | 'moderate' | 'dangerous'
+  createdAt: number
+  updatedAt: number
+}
+
+// 代入参数后的 Playbook
+export interface RenderedPlaybook {
+  playbookId: string
+  name: string
+  task: string
+  steps: PlaybookStep[]
+  successChecks: PlaybookSuccessCheck[]
+  riskCeiling?: 'safe' | 'moderate' | 'dangerous'
+}
+
+// 用量汇总项
+export interface UsageBucket {
+  key: string
+  label: string
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  cost: number
+}
+
+export interface UsageSummary {
+  currency: string
+  total: UsageBucket
+  byDay: UsageBucket[]
+  byProfile: UsageBucket[]
+  byHost: UsageBucket[]
+  byModel: UsageBucket[]
+  unpricedModels: string[]
 }
 
 // 跳板机配置
@@ -42,10 +290,38 @@ export interface JumpHostConfig {
   host: string
   port: number
   username: string
-  authType: 'password' | 'privateKey'
+  authType: 'password' | 'privateKey' | 'agent'
   password?: string
   privateKeyPath?: string
   passphrase?: string
+  totpSecret?: string   // TOTP 种子，用于自动填写验证码
+}
+
+// 自动重连策略
+export interface SshReconnectPolicy {
+  enabled: boolean
+  maxAttempts?: number   // 最多重试次数，默认 5，0 表示不限
+  initialDelay?: number  // 首次重试前等待的秒数，之后每次翻倍
+  maxDelay?: number      // 重试间隔上限（秒）
+}
+
+// 自动重连状态
+export interface SshReconnectEvent {
+  id: string
+  state: 'waiting' | 'connecting' | 'connected' | 'failed'
+  attempt: number
+  maxAttempts: number
+  delay?: number
+  reason?: string
+  error?: string
+}
+
+// 跳板机链中的某一跳
+export interface JumpHopInfo {
+  index: number
+  total: number
+  host: string
+  port: number
 }
 
 // 会话分组
@@ -53,6 +329,8 @@ export interface SessionGroup {
   id: string
   name: string
   jumpHost?: JumpHostConfig
+  jumpHosts?: JumpHostConfig[]
+  reconnect?: SshReconnectPolicy  // 组内会话默认的自动重连策略
 }
 
 export interface SshSession {
@@ -61,13 +339,47 @@ export interface SshSession {
   host: string
   port: number
   username: string
-  authType: 'password' | 'privateKey'
+  authType: 'password' | 'privateKey' | 'agent'
   password?: string
   privateKeyPath?: string
   passphrase?: string
+  totpSecret?: string      // TOTP 种子，用于自动填写验证码
+  agentForward?: boolean   // 转发本地 SSH Agent
   group?: string           // 保留旧字段，兼容迁移
   groupId?: string         // 新字段：引用分组 ID
-  jumpHostOverride?: JumpHostConfig | null  // 覆盖分组跳板机
+  jumpHostOverride?: JumpHostConfig | null  // 覆盖分组跳板机（旧字段）
+  jumpHostsOverride?: JumpHostConfig[] | null  // 覆盖分组跳板机链
+  portForwards?: PortForwardConfig[]  // 端口转发
+  reconnect?: SshReconnectPolicy  // 自动重连（未设置时继承分组）
+}
+
+// 工作区中的标签页
+export interface WorkspaceTab {
+  type: 'local' | 'ssh'
+  title?: string
+  sessionId?: string
+  shell?: string
+  cwd?: string
+}
+
+// 工作区分屏布局（tabId 替换为标签页序号）
+export interface WorkspacePane {
+  type: 'terminal' | 'split'
+  direction?: 'horizontal' | 'vertical'
+  children?: WorkspacePane[]
+  tabIndex?: number
+  size?: number
+}
+
+// 工作区
+export interface Workspace {
+  id: string
+  name: string
+  tabs: WorkspaceTab[]
+  activeTabIndex: number
+  splitLayout: WorkspacePane | null
+  createdAt: number
+  updatedAt: number
 }
 
 export interface XshellSession {
@@ -91,6 +403,7 @@ export interface SftpConfig {
   host: string
   port: number
   username: string
+  authType?: 'password' | 'privateKey' | 'agent'
   password?: string
   privateKey?: string | Buffer
   privateKeyPath?: string
@@ -198,6 +511,52 @@ export interface AgentStep {
   riskLevel?: RiskLevel
   timestamp: number
   isStreaming?: boolean
+  target?: string  // 多终端任务中执行该步骤的目标终端
+}
+
+// Agent 任务计划（由 Agent 的 create_plan 工具创建）
+export interface AgentPlanStep {
+  id: string
+  description: string
+  purpose: string
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'skipped' | 'blocked'
+  result?: string
+  error?: string
+  command?: string
+  dependencies?: string[]
+  dependencyType?: 'sequential' | 'conditional' | 'parallel'
+  retryCount?: number
+  actualDuration?: number  // 实际耗时（秒）
+  startTime?: number
+}
+
+export interface AgentPlan {
+  id: string
+  originalTask: string
+  analysis: string
+  steps: AgentPlanStep[]
+  currentStepIndex: number
+  createdAt: number
+  updatedAt: number
+  approvalStatus?: 'pending' | 'approved' | 'rejected'  // 执行前的用户审批
+}
+
+// 用户对计划的修改
+export type AgentPlanEdit =
+  | { type: 'modify'; stepId: string; description?: string; command?: string }
+  | { type: 'skip'; stepId: string }
+  | { type: 'retry'; stepId: string }
+
+// 多终端任务中的目标终端
+export interface AgentTarget {
+  id: string
+  ptyId: string
+  terminalType: 'local' | 'ssh'
+  hostId?: string
+  systemInfo: {
+    os: string
+    shell: string
+  }
 }
 
 export interface AgentContext {
@@ -210,6 +569,7 @@ export interface AgentContext {
   hostId?: string  // 主机档案 ID
   historyMessages?: { role: string; content: string }[]
   documentContext?: string  // 用户上传的文档内容
+  targets?: AgentTarget[]  // 多终端任务附加的终端（第一个为当前终端）
 }
 
 export interface AgentConfig {
@@ -221,12 +581,44 @@ export interface AgentConfig {
   strictMode?: boolean           // 严格模式：所有命令都需确认，在终端执行
 }
 
+// 应用崩溃或重启时中断的 Agent 任务
+export interface InterruptedAgentRun {
+  id: string
+  hostId?: string
+  userTask: string
+  stepCount: number
+  steps: AgentStep[]
+  createdAt: number
+  updatedAt: number
+}
+
 export interface PendingConfirmation {
   agentId: string
   toolCallId: string
   toolName: string
   toolArgs: Record<string, unknown>
   riskLevel: RiskLevel
+  diff?: string  // 写入文件的差异预览（unified diff）
+}
+
+// Agent 运行修改过的文件
+export interface AgentFileChanges {
+  runId: string
+  files: Array<{
+    path: string
+    remote: boolean
+    hostId?: string
+    existed: boolean
+    skipped?: boolean
+  }>
+  revertedAt?: number
+}
+
+export interface AgentFileRevertResult {
+  path: string
+  hostId?: string
+  success: boolean
+  error?: string
 }
 
 // 暴露给渲染进程的 API
@@ -278,15 +670,97 @@ const electronAPI = {
       }
     },
     // 监听 SSH 断开连接事件
-    onDisconnected: (id: string, callback: (event: { reason: string; error?: string }) => void) => {
-      const handler = (_event: Electron.IpcRendererEvent, data: { reason: string; error?: string }) => callback(data)
+    onDisconnected: (id: string, callback: (event: { reason: string; error?: string; jumpHop?: JumpHopInfo }) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, data: { reason: string; error?: string; jumpHop?: JumpHopInfo }) => callback(data)
       ipcRenderer.on(`ssh:disconnected:${id}`, handler)
       return () => {
         ipcRenderer.removeListener(`ssh:disconnected:${id}`, handler)
       }
+    },
+    // 监听自动重连状态（所有连接）
+    onReconnect: (callback: (event: SshReconnectEvent) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, data: SshReconnectEvent) => callback(data)
+      ipcRenderer.on('ssh:reconnect', handler)
+      return () => {
+        ipcRenderer.removeListener('ssh:reconnect', handler)
+      }
+    },
+    // 监听未知主机公钥确认请求
+    onHostKeyPrompt: (callback: (request: HostKeyPromptRequest) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, data: HostKeyPromptRequest) => callback(data)
+      ipcRenderer.on('ssh:hostKeyPrompt', handler)
+      return () => {
+        ipcRenderer.removeListener('ssh:hostKeyPrompt', handler)
+      }
+    },
+    // 监听主机公钥确认请求超时取消
+    onHostKeyPromptCancel: (callback: (requestId: string) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, requestId: string) => callback(requestId)
+      ipcRenderer.on('ssh:hostKeyPromptCancel', handler)
+      return () => {
+        ipcRenderer.removeListener('ssh:hostKeyPromptCancel', handler)
+      }
+    },
+    // 答复主机公钥确认
+    respondHostKey: (requestId: string, accepted: boolean) =>
+      ipcRenderer.invoke('ssh:respondHostKey', requestId, accepted),
+    // 监听键盘交互认证请求
+    onKeyboardInteractive: (callback: (request: KeyboardInteractiveRequest) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, data: KeyboardInteractiveRequest) => callback(data)
+      ipcRenderer.on('ssh:keyboardInteractive', handler)
+      return () => {
+        ipcRenderer.removeListener('ssh:keyboardInteractive', handler)
+      }
+    },
+    // 监听键盘交互认证请求超时取消
+    onKeyboardInteractiveCancel: (callback: (requestId: string) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, requestId: string) => callback(requestId)
+      ipcRenderer.on('ssh:keyboardInteractiveCancel', handler)
+      return () => {
+        ipcRenderer.removeListener('ssh:keyboardInteractiveCancel', handler)
+      }
+    },
+    // 答复键盘交互认证（answers 为 null 表示取消）
+    respondKeyboardInteractive: (requestId: string, answers: string[] | null) =>
+      ipcRenderer.invoke('ssh:respondKeyboardInteractive', requestId, answers)
+  },
+
+  // 端口转发
+  portForward: {
+    // 获取 SSH 连接上的端口转发状态
+    getStatus: (connectionId: string) =>
+      ipcRenderer.invoke('portForward:getStatus', connectionId) as Promise<PortForwardStatus[]>,
+    // 监听端口转发状态变化
+    onStatus: (callback: (data: { connectionId: string; forwards: PortForwardStatus[] }) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, data: { connectionId: string; forwards: PortForwardStatus[] }) => callback(data)
+      ipcRenderer.on('portForward:status', handler)
+      return () => {
+        ipcRenderer.removeListener('portForward:status', handler)
+      }
     }
   },
 
+  // 终端录制（asciicast v2）
+  recording: {
+    // 开始录制
+    start: (id: string, options: { cols: number; rows: number; title?: string; type: 'local' | 'ssh' }) =>
+      ipcRenderer.invoke('recording:start', id, options) as Promise<RecordingStatus>,
+    // 停止录制，返回录像文件路径
+    stop: (id: string) => ipcRenderer.invoke('recording:stop', id) as Promise<string | null>,
+    // 获取录制状态
+    getStatus: (id: string) => ipcRenderer.invoke('recording:getStatus', id) as Promise<RecordingStatus | null>,
+    // 列出录像文件
+    list: () => ipcRenderer.invoke('recording:list') as Promise<RecordingFileInfo[]>,
+    // 读取录像文件内容
+    read: (filePath: string) => ipcRenderer.invoke('recording:read', filePath) as Promise<string>,
+    // 删除录像文件
+    delete: (filePath: string) => ipcRenderer.invoke('recording:delete', filePath),
+    // 打开录像目录
+    openFolder: () => ipcRenderer.invoke('recording:openFolder'),
+    // 选择外部录像文件
+    selectFile: () => ipcRenderer.invoke('recording:selectFile') as Promise<{ canceled: boolean; filePath: string }>
+  },
+
   // 终端状态服务
   terminalState: {
     // 初始化终端状态
@@ -532,26 +1006,27 @@ const electronAPI = {
 
   // AI 操作
   ai: {
-    chat: (messages: AiMessage[], profileId?: string) =>
-      ipcRenderer.invoke('ai:chat', messages, profileId),
+    chat: (messages: AiMessage[], profileId?: string, usageContext?: AiUsageContext) =>
+      ipcRenderer.invoke('ai:chat', messages, profileId, usageContext),
     chatStream: (
       messages: AiMessage[],
       onChunk: (chunk: string) => void,
-      onDone: () => void,
+      onDone: (servedBy?: AiServedProfile) => void,
       onError: (error: string) => void,
       profileId?: string,
-      requestId?: string  // 支持传入请求 ID，用于支持多个终端同时请求
+      requestId?: string,  // 支持传入请求 ID，用于支持多个终端同时请求
+      usageContext?: AiUsageContext
     ) => {
-      ipcRenderer.invoke('ai:chatStream', messages, profileId, requestId).then((streamId: string) => {
+      ipcRenderer.invoke('ai:chatStream', messages, profileId, requestId, usageContext).then((streamId: string) => {
         const handler = (
           _event: Electron.IpcRendererEvent,
-          data: { chunk?: string; done?: boolean; error?: string }
+          data: { chunk?: string; done?: boolean; error?: string; servedBy?: AiServedProfile }
         ) => {
           if (data.chunk) {
             onChunk(data.chunk)
           }
           if (data.done) {
-            onDone()
+            onDone(data.servedBy)
             ipcRenderer.removeListener(`ai:stream:${streamId}`, handler)
           }
           if (data.error) {
@@ -562,7 +1037,14 @@ const electronAPI = {
         ipcRenderer.on(`ai:stream:${streamId}`, handler)
       })
     },
-    abort: (requestId?: string) => ipcRenderer.invoke('ai:abort', requestId)
+    abort: (requestId?: string) => ipcRenderer.invoke('ai:abort', requestId),
+    // 发现本地模型服务（Ollama / llama.cpp）上的可用模型
+    listLocalModels: (apiUrl: string, proxy?: string) =>
+      ipcRenderer.invoke('ai:listLocalModels', apiUrl, proxy),
+    listTokenizers: () =>
+      ipcRenderer.invoke('ai:listTokenizers') as Promise<{ tokenizers: TokenizerInfo[]; userDir: string }>,
+    countTokens: (texts: string[], profileId?: string) =>
+      ipcRenderer.invoke('ai:countTokens', texts, profileId) as Promise<{ tokenizer: string; counts: number[] }>
   },
 
   // 配置操作
@@ -578,6 +1060,23 @@ const electronAPI = {
     getActiveAiProfile: () => ipcRenderer.invoke('config:getActiveAiProfile'),
     setActiveAiProfile: (profileId: string) =>
       ipcRenderer.invoke('config:setActiveAiProfile', profileId),
+    getAiRouting: () => ipcRenderer.invoke('config:getAiRouting') as Promise<AiRoutingConfig>,
+    setAiRouting: (routing: AiRoutingConfig) =>
+      ipcRenderer.invoke('config:setAiRouting', routing),
+    getModelPricing: () => ipcRenderer.invoke('config:getModelPricing') as Promise<ModelPricingConfig>,
+    setModelPricing: (pricing: ModelPricingConfig) =>
+      ipcRenderer.invoke('config:setModelPricing', pricing),
+
+    // 命令风险策略
+    getRiskPolicy: () => ipcRenderer.invoke('config:getRiskPolicy') as Promise<RiskPolicyConfig>,
+    setRiskPolicy: (policy: RiskPolicyConfig) =>
+      ipcRenderer.invoke('config:setRiskPolicy', policy),
+    testRiskPolicy: (command: string, context: RiskPolicyTestContext, policy?: RiskPolicyConfig) =>
+      ipcRenderer.invoke('config:testRiskPolicy', command, context, policy) as Promise<RiskPolicyTestResult>,
+    exportRiskPolicy: (policy: RiskPolicyConfig) =>
+      ipcRenderer.invoke('config:exportRiskPolicy', policy) as Promise<{ success?: boolean; canceled?: boolean; error?: string; path?: string }>,
+    importRiskPolicy: () =>
+      ipcRenderer.invoke('config:importRiskPolicy') as Promise<{ success?: boolean; canceled?: boolean; error?: string; policy?: RiskPolicyConfig }>,
 
     // SSH 会话
     getSshSessions: () => ipcRenderer.invoke('config:getSshSessions'),
@@ -589,6 +1088,14 @@ const electronAPI = {
     setSessionGroups: (groups: SessionGroup[]) =>
       ipcRenderer.invoke('config:setSessionGroups', groups),
 
+    // 工作区
+    getWorkspaces: () => ipcRenderer.invoke('config:getWorkspaces') as Promise<Workspace[]>,
+    setWorkspaces: (workspaces: Workspace[]) =>
+      ipcRenderer.invoke('config:setWorkspaces', workspaces),
+    getStartupWorkspace: () => ipcRenderer.invoke('config:getStartupWorkspace') as Promise<string>,
+    setStartupWorkspace: (workspaceId: string) =>
+      ipcRenderer.invoke('config:setStartupWorkspace', workspaceId),
+
     // 主题
     getTheme: () => ipcRenderer.invoke('config:getTheme'),
     setTheme: (theme: string) => ipcRenderer.invoke('config:setTheme', theme),
@@ -631,8 +1138,33 @@ const electronAPI = {
       message: string,
       context: AgentContext,
       config?: AgentConfig,
-      profileId?: string
-    ) => ipcRenderer.invoke('agent:run', { ptyId, message, context, config, profileId }) as Promise<{ success: boolean; result?: string; error?: string }>,
+      profileId?: string,
+      playbook?: RenderedPlaybook
+    ) => ipcRenderer.invoke('agent:run', { ptyId, message, context, config, profileId, playbook }) as Promise<{ success: boolean; result?: string; error?: string }>,
+
+    // 从检查点恢复中断的任务
+    resume: (
+      agentId: string,
+      ptyId: string,
+      context: AgentContext,
+      config?: AgentConfig
+    ) => ipcRenderer.invoke('agent:resume', { agentId, ptyId, context, config }) as Promise<{ success: boolean; result?: string; error?: string }>,
+
+    // 获取主机上最近一次中断的任务
+    getInterruptedRun: (hostId: string) =>
+      ipcRenderer.invoke('agent:getInterruptedRun', hostId) as Promise<InterruptedAgentRun | null>,
+
+    // 放弃恢复中断的任务
+    discardInterruptedRun: (agentId: string) =>
+      ipcRenderer.invoke('agent:discardInterruptedRun', agentId) as Promise<boolean>,
+
+    // 获取运行修改过的文件
+    getFileChanges: (agentId: string) =>
+      ipcRenderer.invoke('agent:getFileChanges', agentId) as Promise<AgentFileChanges | null>,
+
+    // 撤销运行对文件的所有修改
+    revertFileChanges: (agentId: string) =>
+      ipcRenderer.invoke('agent:revertFileChanges', agentId) as Promise<{ success: boolean; results?: AgentFileRevertResult[]; error?: string }>,
 
     // 中止 Agent
     abort: (agentId: string) => ipcRenderer.invoke('agent:abort', agentId) as Promise<boolean>,
@@ -645,6 +1177,14 @@ const electronAPI = {
       modifiedArgs?: Record<string, unknown>
     ) => ipcRenderer.invoke('agent:confirm', { agentId, toolCallId, approved, modifiedArgs }) as Promise<boolean>,
 
+    // 审批任务计划
+    approvePlan: (agentId: string, approved: boolean) =>
+      ipcRenderer.invoke('agent:approvePlan', agentId, approved) as Promise<boolean>,
+
+    // 调整任务计划（修改、跳过、重试步骤）
+    adjustPlan: (agentId: string, edit: AgentPlanEdit) =>
+      ipcRenderer.invoke('agent:adjustPlan', agentId, edit) as Promise<{ success: boolean; error?: string }>,
+
     // 获取 Agent 状态
     getStatus: (agentId: string) => ipcRenderer.invoke('agent:getStatus', agentId),
 
@@ -693,6 +1233,15 @@ const electronAPI = {
       return () => {
         ipcRenderer.removeListener('agent:error', handler)
       }
+    },
+
+    // 监听任务计划更新
+    onPlanUpdate: (callback: (data: { agentId: string; plan: AgentPlan }) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, data: { agentId: string; plan: AgentPlan }) => callback(data)
+      ipcRenderer.on('agent:planUpdate', handler)
+      return () => {
+        ipcRenderer.removeListener('agent:planUpdate', handler)
+      }
     }
   },
 
@@ -707,6 +1256,7 @@ const electronAPI = {
       sshHost?: string
       role: 'user' | 'assistant'
       content: string
+      aiProfile?: AiServedProfile
     }) => ipcRenderer.invoke('history:saveChatRecord', record),
 
     // 批量保存聊天记录
@@ -718,6 +1268,7 @@ const electronAPI = {
       sshHost?: string
       role: 'user' | 'assistant'
       content: string
+      aiProfile?: AiServedProfile
     }>) => ipcRenderer.invoke('history:saveChatRecords', records),
 
     // 获取聊天记录
@@ -727,6 +1278,7 @@ const electronAPI = {
     // 保存 Agent 记录
     saveAgentRecord: (record: {
       id: string
+      runId?: string
       timestamp: number
       terminalId: string
       terminalType: 'local' | 'ssh'
@@ -745,12 +1297,17 @@ const electronAPI = {
       finalResult?: string
       duration: number
       status: 'completed' | 'failed' | 'aborted'
+      aiProfiles?: AiServedProfile[]
     }) => ipcRenderer.invoke('history:saveAgentRecord', record),
 
     // 获取 Agent 记录
     getAgentRecords: (startDate?: string, endDate?: string) => 
       ipcRenderer.invoke('history:getAgentRecords', startDate, endDate),
 
+    // 获取 AI 用量汇总
+    getUsageSummary: (startDate?: string, endDate?: string) =>
+      ipcRenderer.invoke('history:getUsageSummary', startDate, endDate) as Promise<UsageSummary>,
+
     // 获取数据目录路径
     getDataPath: () => ipcRenderer.invoke('history:getDataPath') as Promise<string>,
 
@@ -880,6 +1437,66 @@ const electronAPI = {
     } | null>
   },
 
+  // 定时任务
+  scheduler: {
+    getAll: () => ipcRenderer.invoke('scheduler:getAll') as Promise<ScheduledTask[]>,
+
+    save: (task: ScheduledTask) =>
+      ipcRenderer.invoke('scheduler:save', task) as Promise<{ success: boolean; task?: ScheduledTask; error?: string }>,
+
+    delete: (id: string) => ipcRenderer.invoke('scheduler:delete', id) as Promise<boolean>,
+
+    // 立即运行一次（后台执行，不等待完成）
+    runNow: (id: string) =>
+      ipcRenderer.invoke('scheduler:runNow', id) as Promise<{ success: boolean; error?: string }>,
+
+    // 校验 cron 表达式并计算接下来的运行时间
+    previewCron: (expression: string, count?: number) =>
+      ipcRenderer.invoke('scheduler:previewCron', expression, count) as Promise<{ valid: boolean; error?: string; nextRuns: number[] }>,
+
+    // 监听任务状态变化
+    onTaskUpdated: (callback: (task: ScheduledTask) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, task: ScheduledTask) => callback(task)
+      ipcRenderer.on('scheduler:taskUpdated', handler)
+      return () => {
+        ipcRenderer.removeListener('scheduler:taskUpdated', handler)
+      }
+    }
+  },
+
+  // 本地 Agent 接入
+  headlessAgent: {
+    getStatus: () => ipcRenderer.invoke('headlessAgent:getStatus') as Promise<HeadlessAgentStatus>,
+
+    setEnabled: (enabled: boolean) =>
+      ipcRenderer.invoke('headlessAgent:setEnabled', enabled) as Promise<HeadlessAgentStatus>,
+
+    // 重新生成访问令牌（旧令牌立即失效）
+    regenerateToken: () => ipcRenderer.invoke('headlessAgent:regenerateToken') as Promise<HeadlessAgentStatus>
+  },
+
+  // Playbook 操作
+  playbook: {
+    getAll: () => ipcRenderer.invoke('playbook:getAll') as Promise<Playbook[]>,
+
+    save: (playbook: Playbook) =>
+      ipcRenderer.invoke('playbook:save', playbook) as Promise<{ success: boolean; playbook?: Playbook; error?: string }>,
+
+    delete: (id: string) => ipcRenderer.invoke('playbook:delete', id) as Promise<boolean>,
+
+    // 代入参数，生成要运行的任务
+    render: (id: string, values: Record<string, string>) =>
+      ipcRenderer.invoke('playbook:render', id, values) as Promise<{ success: boolean; playbook?: RenderedPlaybook; error?: string }>,
+
+    // 导出为 YAML（不指定 ID 时导出全部）
+    export: (ids?: string[]) =>
+      ipcRenderer.invoke('playbook:export', ids) as Promise<{ success?: boolean; canceled?: boolean; error?: string; path?: string }>,
+
+    // 从 YAML 导入
+    import: () =>
+      ipcRenderer.invoke('playbook:import') as Promise<{ success?: boolean; canceled?: boolean; error?: string; count?: number }>
+  },
+
   // 文档解析操作
   document: {
     // 选择文件
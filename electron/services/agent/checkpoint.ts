@@ -0,0 +1,199 @@
+/**
+ * Agent 运行检查点
+ * 运行过程中增量保存消息、步骤和反思状态，应用崩溃或重启后可从最近一次检查点恢复
+ */
+import * as fs from 'fs'
+import * as path from 'path'
+import { app } from 'electron'
+import type { AiMessage, AiServedProfile } from '../ai.service'
+import type { AgentConfig, AgentContext, AgentRun, AgentStep, ReflectionState, RiskLevel } from './types'
+import type { TaskPlan } from './planner'
+
+// 检查点写入防抖间隔（流式输出时步骤更新很频繁）
+const SAVE_DEBOUNCE_MS = 1000
+
+// 最多保留的未完成运行数量
+const MAX_CHECKPOINTS = 20
+
+export interface AgentCheckpoint {
+  id: string
+  ptyId: string
+  hostId?: string
+  terminalType: AgentContext['terminalType']
+  systemInfo: AgentContext['systemInfo']
+  userTask: string
+  profileId?: string
+  usePromptTools: boolean
+  stepCount: number
+  riskCeiling?: RiskLevel
+  plan?: TaskPlan
+  messages: AiMessage[]
+  steps: AgentStep[]
+  reflection: ReflectionState
+  config: AgentConfig
+  servedProfiles: AiServedProfile[]
+  createdAt: number
+  updatedAt: number
+}
+
+// 供前端展示的未完成运行摘要
+export interface InterruptedRunInfo {
+  id: string
+  hostId?: string
+  userTask: string
+  stepCount: number
+  steps: AgentStep[]
+  createdAt: number
+  updatedAt: number
+}
+
+export class AgentCheckpointStore {
+  private dir: string
+  private timers: Map<string, ReturnType<typeof setTimeout>> = new Map()
+  // 应用退出时冻结的检查点：之后运行因终端关闭而出错也不再改写或删除
+  private frozen: Set<string> = new Set()
+
+  constructor() {
+    this.dir = path.join(app.getPath('userData'), 'agent-runs')
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true })
+    }
+  }
+
+  /**
+   * 延迟保存运行状态（合并短时间内的多次更新）
+   */
+  schedule(run: AgentRun): void {
+    // 无人值守运行（定时任务）不保存检查点，由下一次调度重新执行
+    if (run.config.unattended) return
+    if (this.timers.has(run.id) || this.frozen.has(run.id)) return
+    this.timers.set(run.id, setTimeout(() => {
+      this.timers.delete(run.id)
+      this.save(run)
+    }, SAVE_DEBOUNCE_MS))
+  }
+
+  /**
+   * 立即保存运行状态
+   */
+  save(run: AgentRun): void {
+    this.cancel(run.id)
+    if (this.frozen.has(run.id) || run.config.unattended) return
+    const filePath = this.getFilePath(run.id)
+    const existing = this.read(filePath)
+    const checkpoint: AgentCheckpoint = {
+      id: run.id,
+      ptyId: run.ptyId,
+      hostId: run.context.hostId,
+      terminalType: run.context.terminalType,
+      systemInfo: run.context.systemInfo,
+      userTask: run.userTask,
+      profileId: run.profileId,
+      usePromptTools: run.usePromptTools,
+      stepCount: run.stepCount,
+      riskCeiling: run.riskCeiling,
+      plan: run.plan,
+      messages: run.messages,
+      // 流式输出中的步骤恢复后不会再更新，按已完成保存
+      steps: run.steps.map(step => step.isStreaming ? { ...step, isStreaming: false } : step),
+      reflection: run.reflection,
+      config: run.config,
+      servedProfiles: run.servedProfiles,
+      createdAt: existing?.createdAt || Date.now(),
+      updatedAt: Date.now()
+    }
+    try {
+      fs.writeFileSync(filePath, JSON.stringify(checkpoint), 'utf-8')
+    } catch (e) {
+      console.error('[Agent] 保存检查点失败:', e)
+    }
+  }
+
+  /**
+   * 保存并冻结检查点（应用退出前调用）
+   */
+  freeze(run: AgentRun): void {
+    this.save(run)
+    this.frozen.add(run.id)
+  }
+
+  /**
+   * 读取检查点
+   */
+  load(id: string): AgentCheckpoint | null {
+    return this.read(this.getFilePath(id))
+  }
+
+  /**
+   * 删除检查点（运行结束或用户放弃恢复）
+   */
+  remove(id: string): void {
+    this.cancel(id)
+    if (this.frozen.has(id)) return
+    const filePath = this.getFilePath(id)
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath)
+    }
+  }
+
+  /**
+   * 获取主机上最近一次未完成的运行
+   * @param excludeIds 当前进程中仍在运行的 ID（不属于中断的运行）
+   */
+  getLatest(hostId: string, excludeIds: string[] = []): InterruptedRunInfo | null {
+    const latest = this.list()
+      .filter(c => (c.hostId || 'local') === hostId && !excludeIds.includes(c.id))
+      .sort((a, b) => b.updatedAt - a.updatedAt)[0]
+    if (!latest) return null
+
+    return {
+      id: latest.id,
+      hostId: latest.hostId,
+      userTask: latest.userTask,
+      stepCount: latest.stepCount,
+      steps: latest.steps,
+      createdAt: latest.createdAt,
+      updatedAt: latest.updatedAt
+    }
+  }
+
+  /**
+   * 清理过多的旧检查点，只保留最近的若干个
+   */
+  prune(): void {
+    const checkpoints = this.list().sort((a, b) => b.updatedAt - a.updatedAt)
+    for (const checkpoint of checkpoints.slice(MAX_CHECKPOINTS)) {
+      this.remove(checkpoint.id)
+    }
+  }
+
+  private list(): AgentCheckpoint[] {
+    return fs.readdirSync(this.dir)
+      .filter(f => f.endsWith('.json'))
+      .map(f => this.read(path.join(this.dir, f)))
+      .filter((c): c is AgentCheckpoint => c !== null)
+  }
+
+  private cancel(id: string): void {
+    const timer = this.timers.get(id)
+    if (timer) {
+      clearTimeout(timer)
+      this.timers.delete(id)
+    }
+  }
+
+  private getFilePath(id: string): string {
+    // ID 来自前端，去掉路径分隔符等字符
+    return path.join(this.dir, `${id.replace(/[^\w-]/g, '_')}.json`)
+  }
+
+  private read(filePath: string): AgentCheckpoint | null {
+    try {
+      if (!fs.existsSync(filePath)) return null
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as AgentCheckpoint
+    } catch (e) {
+      console.error('[Agent] 读取检查点失败:', filePath, e)
+      return null
+    }
+  }
+}
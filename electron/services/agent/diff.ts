@@ -0,0 +1,145 @@
+/**
+ * 文本差异
+ * 生成 unified diff 格式的行级差异，用于写入文件前的确认预览
+ */
+
+// 差异上下文行数
+const CONTEXT_LINES = 3
+
+// 编辑距离超过该值时放弃计算（避免整体重写的大文件卡住主进程）
+const MAX_EDIT_DISTANCE = 1000
+
+// 预览最多保留的差异行数
+const MAX_DIFF_LINES = 400
+
+type DiffOp = { type: 'equal' | 'delete' | 'insert'; line: string }
+
+/**
+ * Myers 差异算法，返回行级编辑序列；编辑距离过大时返回 null
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] | null {
+  const n = a.length
+  const m = b.length
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE)
+  const offset = max + 1
+  const v = new Array<number>(2 * max + 2).fill(0)
+  const trace: number[][] = []
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice())
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b, offset)
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * 根据 Myers 搜索轨迹回溯出编辑序列
+ */
+function backtrack(trace: number[][], a: string[], b: string[], offset: number): DiffOp[] {
+  const ops: DiffOp[] = []
+  let x = a.length
+  let y = b.length
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d]
+    const k = x - y
+    const prevK = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) ? k + 1 : k - 1
+    const prevX = v[offset + prevK]
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: a[--x] })
+      y--
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'insert', line: b[--y] })
+      } else {
+        ops.push({ type: 'delete', line: a[--x] })
+      }
+    }
+  }
+  return ops.reverse()
+}
+
+/**
+ * 生成 unified diff 文本
+ * @returns 无差异时返回空字符串；差异过大无法计算时返回 null
+ */
+export function createUnifiedDiff(filePath: string, oldText: string, newText: string): string | null {
+  if (oldText === newText) return ''
+
+  const oldLines = oldText === '' ? [] : oldText.split('\n')
+  const newLines = newText === '' ? [] : newText.split('\n')
+  const ops = diffLines(oldLines, newLines)
+  if (!ops) return null
+
+  // 按上下文范围把变更分成若干块
+  const output: string[] = [`--- ${filePath}`, `+++ ${filePath}`]
+  let i = 0
+  while (i < ops.length) {
+    if (ops[i].type === 'equal') {
+      i++
+      continue
+    }
+
+    // 块起点：变更前保留若干上下文行
+    let start = i
+    let contextBefore = 0
+    while (start > 0 && ops[start - 1].type === 'equal' && contextBefore < CONTEXT_LINES) {
+      start--
+      contextBefore++
+    }
+
+    // 块终点：连续相同行超过两倍上下文时结束
+    let end = i
+    let equalRun = 0
+    while (end < ops.length) {
+      if (ops[end].type === 'equal') {
+        equalRun++
+        if (equalRun > CONTEXT_LINES * 2) break
+      } else {
+        equalRun = 0
+      }
+      end++
+    }
+    end -= Math.max(0, equalRun - CONTEXT_LINES)
+
+    // 计算块在新旧文件中的起始行号
+    let oldStart = 1
+    let newStart = 1
+    for (let j = 0; j < start; j++) {
+      if (ops[j].type !== 'insert') oldStart++
+      if (ops[j].type !== 'delete') newStart++
+    }
+    const hunk = ops.slice(start, end)
+    const oldCount = hunk.filter(op => op.type !== 'insert').length
+    const newCount = hunk.filter(op => op.type !== 'delete').length
+
+    output.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`)
+    for (const op of hunk) {
+      const prefix = op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+'
+      output.push(prefix + op.line)
+    }
+    i = end
+  }
+
+  if (output.length > MAX_DIFF_LINES) {
+    const omitted = output.length - MAX_DIFF_LINES
+    return [...output.slice(0, MAX_DIFF_LINES), `... (省略 ${omitted} 行差异)`].join('\n')
+  }
+  return output.join('\n')
+}
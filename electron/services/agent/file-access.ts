@@ -0,0 +1,135 @@
+/**
+ * Agent 文件访问
+ * read_file / write_file 通过统一接口读写文件：本地终端直接访问文件系统，
+ * SSH 终端复用会话连接上的 SFTP 通道
+ */
+import * as fs from 'fs'
+import * as path from 'path'
+import type { SftpService } from '../sftp.service'
+
+// 超过该大小的文件写入前不自动备份
+const MAX_BACKUP_SIZE = 10 * 1024 * 1024
+
+export interface AgentFileStat {
+  size: number
+  isDirectory: boolean
+}
+
+export interface AgentFileAccess {
+  /** 是否为远程主机上的文件 */
+  remote: boolean
+  /** 将路径解析为绝对路径（相对路径基于终端当前工作目录） */
+  resolvePath(filePath: string, cwd: string): Promise<string>
+  /** 文件不存在时返回 null */
+  stat(filePath: string): Promise<AgentFileStat | null>
+  /** 读取文件，maxBytes 指定时只读取开头部分 */
+  readFile(filePath: string, maxBytes?: number): Promise<string>
+  /** 读取文件原始字节（不做编码转换，用于快照） */
+  readFileRaw(filePath: string): Promise<Buffer>
+  /** 写入文件，字符串按 UTF-8 编码，Buffer 原样写入 */
+  writeFile(filePath: string, content: string | Buffer): Promise<void>
+  appendFile(filePath: string, content: string): Promise<void>
+  deleteFile(filePath: string): Promise<void>
+  /** 确保目录存在 */
+  mkdir(dirPath: string): Promise<void>
+  /** 复制文件（用于写入前备份），保留原文件的权限 */
+  copyFile(srcPath: string, destPath: string): Promise<void>
+  dirname(filePath: string): string
+}
+
+/**
+ * 本地文件访问
+ */
+export function createLocalFileAccess(): AgentFileAccess {
+  return {
+    remote: false,
+    async resolvePath(filePath, cwd) {
+      return path.isAbsolute(filePath) ? filePath : path.resolve(cwd, filePath)
+    },
+    async stat(filePath) {
+      if (!fs.existsSync(filePath)) return null
+      const stats = await fs.promises.stat(filePath)
+      return { size: stats.size, isDirectory: stats.isDirectory() }
+    },
+    async readFile(filePath, maxBytes) {
+      if (maxBytes === undefined) {
+        return fs.promises.readFile(filePath, 'utf-8')
+      }
+      const buffer = Buffer.alloc(maxBytes)
+      const handle = await fs.promises.open(filePath, 'r')
+      try {
+        const { bytesRead } = await handle.read(buffer, 0, maxBytes, 0)
+        return buffer.subarray(0, bytesRead).toString('utf-8')
+      } finally {
+        await handle.close()
+      }
+    },
+    readFileRaw: (filePath) => fs.promises.readFile(filePath),
+    async writeFile(filePath, content) {
+      await fs.promises.writeFile(filePath, content, 'utf-8')
+    },
+    async appendFile(filePath, content) {
+      await fs.promises.appendFile(filePath, content, 'utf-8')
+    },
+    async deleteFile(filePath) {
+      await fs.promises.unlink(filePath)
+    },
+    async mkdir(dirPath) {
+      if (!fs.existsSync(dirPath)) {
+        await fs.promises.mkdir(dirPath, { recursive: true })
+      }
+    },
+    async copyFile(srcPath, destPath) {
+      await fs.promises.copyFile(srcPath, destPath)
+    },
+    dirname: (filePath) => path.dirname(filePath)
+  }
+}
+
+/**
+ * SSH 终端的远程文件访问（通过会话的 SFTP 通道）
+ */
+export function createSftpFileAccess(sftpService: SftpService, terminalId: string): AgentFileAccess {
+  return {
+    remote: true,
+    async resolvePath(filePath, cwd) {
+      if (path.posix.isAbsolute(filePath)) return path.posix.normalize(filePath)
+      if (filePath === '~' || filePath.startsWith('~/')) {
+        return sftpService.resolveTerminalPath(terminalId, filePath)
+      }
+      // 终端 CWD 未知时为 ~，与 SFTP 默认目录（主目录）一致
+      return sftpService.resolveTerminalPath(terminalId, path.posix.join(cwd || '~', filePath))
+    },
+    stat: (filePath) => sftpService.statTerminalFile(terminalId, filePath),
+    async readFile(filePath, maxBytes) {
+      const buffer = await sftpService.readTerminalFile(terminalId, filePath, maxBytes)
+      return buffer.toString('utf-8')
+    },
+    readFileRaw: (filePath) => sftpService.readTerminalFile(terminalId, filePath),
+    writeFile: (filePath, content) => sftpService.writeTerminalFile(terminalId, filePath, content),
+    appendFile: (filePath, content) => sftpService.writeTerminalFile(terminalId, filePath, content, true),
+    deleteFile: (filePath) => sftpService.deleteTerminalFile(terminalId, filePath),
+    mkdir: (dirPath) => sftpService.mkdirTerminal(terminalId, dirPath),
+    async copyFile(srcPath, destPath) {
+      // SFTP 新建文件默认 0o666，需沿用原文件权限，避免 0600 的文件备份后变为所有人可读
+      const stats = await sftpService.statTerminalFile(terminalId, srcPath)
+      const data = await sftpService.readTerminalFile(terminalId, srcPath)
+      await sftpService.writeTerminalFile(terminalId, destPath, data, false, stats?.mode)
+    },
+    dirname: (filePath) => path.posix.dirname(filePath)
+  }
+}
+
+/**
+ * 写入前备份已有文件，备份与原文件放在同一目录：<文件名>.<时间戳>.bak
+ * @returns 备份路径；文件过大而跳过备份时返回 null
+ */
+export async function backupFile(access: AgentFileAccess, filePath: string, size: number): Promise<string | null> {
+  if (size > MAX_BACKUP_SIZE) return null
+  const now = new Date()
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const timestamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}_${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`
+  const backupPath = `${filePath}.${timestamp}.bak`
+  await access.copyFile(filePath, backupPath)
+  return backupPath
+}
@@ -0,0 +1,209 @@
+/**
+ * Agent 文件快照
+ * 每次运行中首次修改某个文件前保存其原始内容，用于一键撤销整次运行的文件修改
+ */
+import * as fs from 'fs'
+import * as path from 'path'
+import { app } from 'electron'
+import type { AgentFileAccess } from './file-access'
+
+// 超过该大小的文件不保存快照
+const MAX_SNAPSHOT_SIZE = 10 * 1024 * 1024
+
+// 最多保留的运行快照数量
+const MAX_SNAPSHOT_RUNS = 50
+
+export interface FileSnapshotEntry {
+  path: string
+  ptyId: string
+  remote: boolean
+  hostId?: string
+  existed: boolean        // 修改前文件是否存在（不存在则撤销时删除）
+  blob?: string           // 原始内容文件名（保存原始字节，不做编码转换）
+  skipped?: boolean       // 文件过大，未保存快照
+  capturedAt: number
+}
+
+interface SnapshotManifest {
+  runId: string
+  files: FileSnapshotEntry[]
+  revertedAt?: number
+  updatedAt: number
+}
+
+// 供前端展示的快照摘要
+export interface RunFileChanges {
+  runId: string
+  files: Array<Pick<FileSnapshotEntry, 'path' | 'remote' | 'hostId' | 'existed' | 'skipped'>>
+  revertedAt?: number
+}
+
+export interface FileRevertResult {
+  path: string
+  hostId?: string
+  success: boolean
+  error?: string
+}
+
+export class AgentFileSnapshotStore {
+  private dir: string
+  // 同一运行的快照串行写入，避免并发修改 manifest
+  private queues: Map<string, Promise<void>> = new Map()
+
+  constructor() {
+    this.dir = path.join(app.getPath('userData'), 'agent-snapshots')
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true })
+    }
+  }
+
+  /**
+   * 文件首次被本次运行修改前保存原始内容（已保存过则跳过）
+   */
+  capture(
+    runId: string,
+    ptyId: string,
+    hostId: string | undefined,
+    access: AgentFileAccess,
+    filePath: string
+  ): Promise<void> {
+    const previous = this.queues.get(runId) || Promise.resolve()
+    const task = previous.then(() => this.doCapture(runId, ptyId, hostId, access, filePath))
+    this.queues.set(runId, task.catch(() => undefined))
+    return task
+  }
+
+  /**
+   * 获取运行修改过的文件
+   */
+  getChanges(runId: string): RunFileChanges | null {
+    const manifest = this.readManifest(runId)
+    if (!manifest || manifest.files.length === 0) return null
+    return {
+      runId,
+      files: manifest.files.map(f => ({
+        path: f.path,
+        remote: f.remote,
+        hostId: f.hostId,
+        existed: f.existed,
+        skipped: f.skipped
+      })),
+      revertedAt: manifest.revertedAt
+    }
+  }
+
+  /**
+   * 将运行修改过的文件恢复到修改前的状态
+   * @param getAccess 获取终端的文件访问方式（终端已关闭时抛出错误）
+   */
+  async revert(
+    runId: string,
+    getAccess: (entry: FileSnapshotEntry) => Promise<AgentFileAccess>
+  ): Promise<FileRevertResult[]> {
+    const manifest = this.readManifest(runId)
+    if (!manifest) {
+      throw new Error('没有找到该运行的文件快照')
+    }
+
+    const results: FileRevertResult[] = []
+    for (const entry of manifest.files) {
+      const result: FileRevertResult = { path: entry.path, hostId: entry.hostId, success: false }
+      try {
+        if (entry.skipped) {
+          throw new Error('文件过大，修改前未保存快照')
+        }
+        const access = await getAccess(entry)
+        if (entry.existed) {
+          // 按原始字节还原，GBK 等非 UTF-8 文件和二进制文件不会被破坏
+          const original = fs.readFileSync(path.join(this.getRunDir(runId), entry.blob!))
+          await access.writeFile(entry.path, original)
+        } else if (await access.stat(entry.path)) {
+          await access.deleteFile(entry.path)
+        }
+        result.success = true
+      } catch (e) {
+        result.error = e instanceof Error ? e.message : String(e)
+      }
+      results.push(result)
+    }
+
+    manifest.revertedAt = Date.now()
+    this.writeManifest(manifest)
+    return results
+  }
+
+  /**
+   * 清理过多的旧快照，只保留最近的若干次运行
+   */
+  prune(): void {
+    const manifests = fs.readdirSync(this.dir)
+      .map(runId => this.readManifest(runId))
+      .filter((m): m is SnapshotManifest => m !== null)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+    for (const manifest of manifests.slice(MAX_SNAPSHOT_RUNS)) {
+      fs.rmSync(this.getRunDir(manifest.runId), { recursive: true, force: true })
+    }
+  }
+
+  private async doCapture(
+    runId: string,
+    ptyId: string,
+    hostId: string | undefined,
+    access: AgentFileAccess,
+    filePath: string
+  ): Promise<void> {
+    const manifest = this.readManifest(runId) || { runId, files: [], updatedAt: Date.now() }
+    if (manifest.files.some(f => f.ptyId === ptyId && f.path === filePath)) return
+
+    const entry: FileSnapshotEntry = {
+      path: filePath,
+      ptyId,
+      remote: access.remote,
+      hostId,
+      existed: false,
+      capturedAt: Date.now()
+    }
+    const stats = await access.stat(filePath)
+    if (stats) {
+      entry.existed = true
+      if (stats.size > MAX_SNAPSHOT_SIZE) {
+        entry.skipped = true
+      } else {
+        entry.blob = `${manifest.files.length}.orig`
+        const runDir = this.getRunDir(runId)
+        if (!fs.existsSync(runDir)) {
+          fs.mkdirSync(runDir, { recursive: true })
+        }
+        fs.writeFileSync(path.join(runDir, entry.blob), await access.readFileRaw(filePath))
+      }
+    }
+
+    manifest.files.push(entry)
+    this.writeManifest(manifest)
+  }
+
+  private getRunDir(runId: string): string {
+    // ID 来自前端，去掉路径分隔符等字符
+    return path.join(this.dir, runId.replace(/[^\w-]/g, '_'))
+  }
+
+  private readManifest(runId: string): SnapshotManifest | null {
+    const filePath = path.join(this.getRunDir(runId), 'manifest.json')
+    try {
+      if (!fs.existsSync(filePath)) return null
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as SnapshotManifest
+    } catch (e) {
+      console.error('[Agent] 读取文件快照失败:', filePath, e)
+      return null
+    }
+  }
+
+  private writeManifest(manifest: SnapshotManifest): void {
+    const runDir = this.getRunDir(manifest.runId)
+    if (!fs.existsSync(runDir)) {
+      fs.mkdirSync(runDir, { recursive: true })
+    }
+    manifest.updatedAt = Date.now()
+    fs.writeFileSync(path.join(runDir, 'manifest.json'), JSON.stringify(manifest), 'utf-8')
+  }
+}
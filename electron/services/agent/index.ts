@@ -2,13 +2,17 @@
  * Agent 服务
  * 模块化重构版本
  */
-import type { AiService, AiMessage, ToolCall, ChatWithToolsResult } from '../ai.service'
+import type { AiService, AiMessage, ToolCall, ChatWithToolsResult, AiServedProfile } from '../ai.service'
 import { CommandExecutorService } from '../command-executor.service'
+import type { CommandResult } from '../command-executor.service'
 import type { PtyService } from '../pty.service'
 import type { SshService } from '../ssh.service'
+import type { SftpService } from '../sftp.service'
 import type { McpService } from '../mcp.service'
 import type { ConfigService } from '../config.service'
+import type { RenderedPlaybook } from '../playbook.service'
 import { UnifiedTerminalService } from '../unified-terminal.service'
+import * as os from 'os'
 
 // 导入子模块
 import type {
@@ -27,12 +31,33 @@ import type {
 } from './types'
 import { DEFAULT_AGENT_CONFIG } from './types'
 import { getAgentTools } from './tools'
-import { assessCommandRisk, analyzeCommand } from './risk-assessor'
-import type { CommandHandlingInfo } from './risk-assessor'
+import { assessCommandRisk, analyzeCommand, evaluateCommandRisk, applyRiskCeiling } from './risk-assessor'
+import type { CommandHandlingInfo, RiskAssessment, RiskPolicyContext } from './risk-assessor'
 import { executeTool, ToolExecutorConfig } from './tool-executor'
 import { buildSystemPrompt } from './prompt-builder'
-import { analyzeTaskComplexity, generatePlanningPrompt } from './planner'
+import { analyzeTaskComplexity, generatePlanningPrompt, generatePlaybookPrompt } from './planner'
+import { applyPlanEdit } from './planner'
+import type { TaskPlan, PlanEdit } from './planner'
+import {
+  buildPromptToolInstructions,
+  parsePromptToolCalls,
+  buildToolCallRepairPrompt,
+  formatPromptToolResult,
+  MAX_TOOL_CALL_REPAIRS
+} from './prompt-tools'
 import { getKnowledgeService } from '../knowledge'
+import { getTokenizerService } from '../tokenizer'
+import { getTerminalAwarenessService } from '../terminal-awareness'
+import { getTerminalStateService } from '../terminal-state.service'
+import { AgentCheckpointStore } from './checkpoint'
+import { createLocalFileAccess, createSftpFileAccess } from './file-access'
+import type { AgentFileAccess } from './file-access'
+import { AgentFileSnapshotStore } from './file-snapshot'
+import type { RunFileChanges, FileRevertResult } from './file-snapshot'
+import type { InterruptedRunInfo } from './checkpoint'
+
+// 每条消息的格式开销（role 标记、分隔符等）
+const MESSAGE_TOKEN_OVERHEAD = 4
 
 // 重新导出类型，供外部使用
 export type {
@@ -42,7 +67,10 @@ export type {
   ToolResult,
   PendingConfirmation,
   RiskLevel,
-  CommandHandlingInfo
+  CommandHandlingInfo,
+  InterruptedRunInfo,
+  RunFileChanges,
+  FileRevertResult
 }
 export { assessCommandRisk, analyzeCommand }
 
@@ -112,11 +140,14 @@ export class AgentService {
   private commandExecutor: CommandExecutorService
   private ptyService: PtyService
   private sshService?: SshService
+  private sftpService?: SftpService
   private unifiedTerminalService?: UnifiedTerminalService
   private hostProfileService?: HostProfileServiceInterface
   private mcpService?: McpService
   private configService?: ConfigService
   private runs: Map<string, AgentRun> = new Map()
+  private checkpoints: AgentCheckpointStore
+  private fileSnapshots: AgentFileSnapshotStore
 
   // 事件回调
   private onStepCallback?: AgentCallbacks['onStep']
@@ -124,6 +155,9 @@ export class AgentService {
   private onCompleteCallback?: AgentCallbacks['onComplete']
   private onErrorCallback?: AgentCallbacks['onError']
   private onTextChunkCallback?: AgentCallbacks['onTextChunk']
+  private onPlanUpdateCallback?: AgentCallbacks['onPlanUpdate']
+  // 按终端订阅的步骤回调（无人值守运行不推送到界面，由调用方自行订阅）
+  private stepObservers: Map<string, (step: AgentStep) => void> = new Map()
 
   constructor(
     aiService: AiService, 
@@ -140,6 +174,10 @@ export class AgentService {
     this.mcpService = mcpService
     this.configService = configService
     this.commandExecutor = new CommandExecutorService()
+    this.checkpoints = new AgentCheckpointStore()
+    this.checkpoints.prune()
+    this.fileSnapshots = new AgentFileSnapshotStore()
+    this.fileSnapshots.prune()
     
     // 如果提供了 sshService，创建统一终端服务
     if (sshService) {
@@ -157,6 +195,82 @@ export class AgentService {
     }
   }
 
+  /**
+   * 设置 SFTP 服务（SSH 终端上的文件工具使用）
+   */
+  setSftpService(sftpService: SftpService): void {
+    this.sftpService = sftpService
+  }
+
+  /**
+   * 获取终端的文件访问方式：SSH 终端通过会话的 SFTP 通道，本地终端直接访问文件系统
+   */
+  private async getFileAccess(ptyId: string): Promise<AgentFileAccess> {
+    if (this.unifiedTerminalService?.getTerminalType(ptyId) === 'ssh') {
+      if (!this.sftpService) {
+        throw new Error('SFTP 服务不可用，无法访问远程文件')
+      }
+      return createSftpFileAccess(this.sftpService, ptyId)
+    }
+    return createLocalFileAccess()
+  }
+
+  /**
+   * 在后台通道中执行命令（SSH 使用独立的 exec channel，本地使用隐藏的辅助 shell），工作目录与终端保持一致
+   */
+  private execInBackground(ptyId: string, command: string, timeout: number, signal?: AbortSignal): Promise<CommandResult> {
+    const cwd = getTerminalStateService().getCwd(ptyId)
+    if (this.unifiedTerminalService?.getTerminalType(ptyId) === 'ssh') {
+      if (!this.sshService) {
+        return Promise.resolve({ output: 'SSH 服务不可用', exitCode: -1, duration: 0 })
+      }
+      // exec channel 从用户主目录开始，先切换到终端的当前目录（~/ 需要留在引号外才会展开）
+      const quote = (text: string) => `'${text.replace(/'/g, `'\\''`)}'`
+      let target = quote(cwd)
+      if (cwd === '~') {
+        target = '~'
+      } else if (cwd.startsWith('~/')) {
+        target = `~/${quote(cwd.slice(2))}`
+      }
+      return this.sshService.exec(ptyId, `cd ${target} && ${command}`, timeout, signal)
+    }
+    const localCwd = cwd.startsWith('~') ? os.homedir() + cwd.slice(1) : cwd
+    return this.commandExecutor.execute(command, localCwd, timeout)
+  }
+
+  /**
+   * 按用户风险策略评估命令（未配置策略时使用内置规则）
+   */
+  assessRisk(ptyId: string, hostId: string | undefined, command: string): RiskAssessment {
+    const policy = this.configService?.getRiskPolicy() ?? { useBuiltinRules: true, rules: [] }
+    return evaluateCommandRisk(command, policy, this.getRiskPolicyContext(ptyId, hostId))
+  }
+
+  /**
+   * 获取策略匹配用的主机信息：主机标识、主机名、会话所属分组
+   */
+  private getRiskPolicyContext(ptyId: string, hostId: string | undefined): RiskPolicyContext {
+    const context: RiskPolicyContext = { hostId }
+    const sshConfig = this.unifiedTerminalService?.getTerminalType(ptyId) === 'ssh'
+      ? this.sshService?.getConfig(ptyId)
+      : null
+
+    if (sshConfig) {
+      context.hostId = hostId || `${sshConfig.username}@${sshConfig.host}`
+      context.hostname = sshConfig.host
+      const session = this.configService?.getSshSessions().find(s =>
+        s.host === sshConfig.host && s.port === sshConfig.port && s.username === sshConfig.username
+      )
+      if (session?.groupId) {
+        context.groupName = this.configService?.getSessionGroups().find(g => g.id === session.groupId)?.name
+      }
+    } else {
+      context.hostId = hostId || 'local'
+      context.hostname = os.hostname()
+    }
+    return context
+  }
+
   /**
    * 设置 MCP 服务
    */
@@ -173,6 +287,7 @@ export class AgentService {
     this.onCompleteCallback = callbacks.onComplete
     this.onErrorCallback = callbacks.onError
     this.onTextChunkCallback = callbacks.onTextChunk
+    this.onPlanUpdateCallback = callbacks.onPlanUpdate
   }
 
   /**
@@ -470,28 +585,27 @@ export class AgentService {
   }
 
   /**
-   * 估算消息的 token 数量（粗略估计）
-   * 中文约 1.5 token/字符，英文约 0.25 token/字符
+   * 计算文本的 token 数量
+   * 使用 AI 配置对应的离线词表，词表不可用时按字符估算
    */
-  private estimateTokens(text: string): number {
-    const chineseChars = (text.match(/[\u4e00-\u9fa5]/g) || []).length
-    const otherChars = text.length - chineseChars
-    return Math.ceil(chineseChars * 1.5 + otherChars * 0.25)
+  private estimateTokens(text: string, profileId?: string): number {
+    return getTokenizerService().countTokens(text, this.getProfile(profileId))
   }
 
   /**
-   * 估算消息数组的总 token 数
+   * 计算消息数组的总 token 数（含每条消息的格式开销）
    */
-  private estimateTotalTokens(messages: AiMessage[]): number {
+  private estimateTotalTokens(messages: AiMessage[], profileId?: string): number {
+    const count = getTokenizerService().getCounter(this.getProfile(profileId))
     return messages.reduce((sum, msg) => {
-      let tokens = this.estimateTokens(msg.content)
+      let tokens = count(msg.content) + MESSAGE_TOKEN_OVERHEAD
       // 工具调用也占用 token
       if (msg.tool_calls) {
         tokens += msg.tool_calls.reduce((t, tc) => 
-          t + this.estimateTokens(tc.function.name) + this.estimateTokens(tc.function.arguments), 0)
+          t + count(tc.function.name) + count(tc.function.arguments), 0)
       }
       if (msg.reasoning_content) {
-        tokens += this.estimateTokens(msg.reasoning_content)
+        tokens += count(msg.reasoning_content)
       }
       return sum + tokens
     }, 0)
@@ -680,28 +794,27 @@ export class AgentService {
   }
 
   /**
-   * 获取当前 AI Profile 的上下文长度
+   * 获取指定或当前的 AI Profile
    */
-  private getContextLength(profileId?: string): number {
+  private getProfile(profileId?: string) {
     if (!this.configService) {
-      return 32000  // 默认 32K
+      return undefined
     }
-    
+
     const profiles = this.configService.getAiProfiles()
-    if (profiles.length === 0) {
-      return 32000
-    }
-    
-    let profile
     if (profileId) {
-      profile = profiles.find(p => p.id === profileId)
-    } else {
-      const activeId = this.configService.getActiveAiProfile()
-      profile = profiles.find(p => p.id === activeId) || profiles[0]
+      return profiles.find(p => p.id === profileId)
     }
-    
+    const activeId = this.configService.getActiveAiProfile()
+    return profiles.find(p => p.id === activeId) || profiles[0]
+  }
+
+  /**
+   * 获取当前 AI Profile 的上下文长度
+   */
+  private getContextLength(profileId?: string): number {
     // 返回配置的上下文长度，默认 32000
-    return profile?.contextLength || 32000
+    return this.getProfile(profileId)?.contextLength || 32000
   }
 
   /**
@@ -711,11 +824,12 @@ export class AgentService {
    */
   private async compressMessages(
     messages: AiMessage[], 
+    profileId?: string,
     maxTokens?: number
   ): Promise<AiMessage[]> {
     // 如果未指定阈值，使用模型上下文长度的 80%
-    const threshold = maxTokens ?? Math.floor(this.getContextLength() * 0.8)
-    const totalTokens = this.estimateTotalTokens(messages)
+    const threshold = maxTokens ?? Math.floor(this.getContextLength(profileId) * 0.8)
+    const totalTokens = this.estimateTotalTokens(messages, profileId)
     
     // 如果在限制内，不需要压缩
     if (totalTokens <= threshold) {
@@ -759,7 +873,7 @@ export class AgentService {
 
     // 5. 计算压缩后的 token
     const allCompressedMessages = compressedGroups.flat()
-    const compressedTokens = this.estimateTotalTokens([...result, ...allCompressedMessages])
+    const compressedTokens = this.estimateTotalTokens([...result, ...allCompressedMessages], profileId)
     
     if (compressedTokens <= threshold) {
       return [...result, ...allCompressedMessages]
@@ -787,7 +901,7 @@ export class AgentService {
     })
     
     // 选择最重要的历史组
-    const targetHistoryGroups = Math.max(2, Math.floor((threshold - this.estimateTotalTokens(result)) / 2000))
+    const targetHistoryGroups = Math.max(2, Math.floor((threshold - this.estimateTotalTokens(result, profileId)) / 2000))
     const importantHistoryGroups = historyWithScore
       .sort((a, b) => b.score - a.score)
       .slice(0, targetHistoryGroups)
@@ -851,11 +965,13 @@ export class AgentService {
       timestamp: Date.now()
     }
     run.steps.push(fullStep)
+    this.checkpoints.schedule(run)
 
-    // 触发回调
-    if (this.onStepCallback) {
+    // 触发回调（无人值守运行不推送到界面）
+    if (this.onStepCallback && !run.config.unattended) {
       this.onStepCallback(agentId, fullStep)
     }
+    this.stepObservers.get(run.ptyId)?.(fullStep)
 
     return fullStep
   }
@@ -884,11 +1000,28 @@ export class AgentService {
       // 更新现有步骤
       Object.assign(step, updates)
     }
+    this.checkpoints.schedule(run)
 
-    // 触发回调
-    if (this.onStepCallback) {
+    // 触发回调（无人值守运行不推送到界面）
+    if (this.onStepCallback && !run.config.unattended) {
       this.onStepCallback(agentId, step)
     }
+    this.stepObservers.get(run.ptyId)?.(step)
+  }
+
+  /**
+   * 更新任务计划
+   */
+  private setPlan(agentId: string, plan: TaskPlan): void {
+    const run = this.runs.get(agentId)
+    if (!run) return
+
+    run.plan = plan
+    this.checkpoints.schedule(run)
+
+    if (this.onPlanUpdateCallback && !run.config.unattended) {
+      this.onPlanUpdateCallback(agentId, plan)
+    }
   }
 
   /**
@@ -899,7 +1032,8 @@ export class AgentService {
     toolCallId: string,
     toolName: string,
     toolArgs: Record<string, unknown>,
-    riskLevel: RiskLevel
+    riskLevel: RiskLevel,
+    diff?: string
   ): Promise<boolean> {
     return new Promise((resolve) => {
       const run = this.runs.get(agentId)
@@ -908,6 +1042,19 @@ export class AgentService {
         return
       }
 
+      // 无人值守运行没有用户确认，需要确认的操作一律拒绝
+      if (run.config.unattended) {
+        this.addStep(agentId, {
+          type: 'error',
+          content: `无人值守运行，已拒绝需要确认的操作: ${toolName}`,
+          toolName,
+          toolArgs,
+          riskLevel
+        })
+        resolve(false)
+        return
+      }
+
       // 添加确认步骤
       this.addStep(agentId, {
         type: 'confirm',
@@ -923,6 +1070,7 @@ export class AgentService {
         toolName,
         toolArgs,
         riskLevel,
+        diff,
         resolve: (approved, modifiedArgs) => {
           run.pendingConfirmation = undefined
           if (modifiedArgs) {
@@ -941,6 +1089,67 @@ export class AgentService {
     })
   }
 
+  /**
+   * 等待用户审批计划（审批前用户可以在计划视图中修改步骤）
+   */
+  private waitForPlanApproval(agentId: string, plan: TaskPlan): Promise<boolean> {
+    return new Promise((resolve) => {
+      const run = this.runs.get(agentId)
+      if (!run) {
+        resolve(false)
+        return
+      }
+
+      // 无人值守运行没有用户审批，直接执行
+      if (run.config.unattended) {
+        resolve(true)
+        return
+      }
+
+      run.pendingPlanApproval = (approved) => {
+        run.pendingPlanApproval = undefined
+        if (run.plan) {
+          this.setPlan(agentId, { ...run.plan, approvalStatus: approved ? 'approved' : 'rejected' })
+        }
+        resolve(approved)
+      }
+      this.setPlan(agentId, { ...plan, approvalStatus: 'pending' })
+    })
+  }
+
+  /**
+   * 处理用户对计划的审批
+   */
+  approvePlan(agentId: string, approved: boolean): boolean {
+    const run = this.runs.get(agentId)
+    if (!run || !run.pendingPlanApproval) return false
+
+    run.pendingPlanApproval(approved)
+    return true
+  }
+
+  /**
+   * 应用用户对计划的修改
+   * 执行过程中的修改会作为补充信息通知 Agent；审批前的修改随审批结果一起返回
+   */
+  adjustPlan(agentId: string, edit: PlanEdit): { success: boolean; error?: string } {
+    const run = this.runs.get(agentId)
+    if (!run || !run.isRunning || !run.plan) {
+      return { success: false, error: '当前没有运行中的计划' }
+    }
+
+    const result = applyPlanEdit(run.plan, edit)
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    this.setPlan(agentId, result.plan)
+    if (!run.pendingPlanApproval) {
+      run.pendingUserMessages.push(`[计划调整] ${result.summary}`)
+    }
+    return { success: true }
+  }
+
   /**
    * 处理用户确认
    */
@@ -968,7 +1177,8 @@ export class AgentService {
     userMessage: string,
     context: AgentContext,
     config?: Partial<AgentConfig>,
-    profileId?: string
+    profileId?: string,
+    playbook?: RenderedPlaybook
   ): Promise<string> {
     const agentId = this.generateId()
     const fullConfig = { ...DEFAULT_AGENT_CONFIG, ...config }
@@ -981,6 +1191,7 @@ export class AgentService {
       steps: [],
       isRunning: true,
       aborted: false,
+      abortController: new AbortController(),
       pendingUserMessages: [],  // 用户补充消息队列
       config: fullConfig,
       context,  // 保存上下文供工具使用
@@ -998,24 +1209,15 @@ export class AgentService {
         appliedFixes: []
       },
       // 初始化实时输出缓冲区（从传入的快照开始，然后实时更新）
-      realtimeOutputBuffer: [...context.terminalOutput]
+      realtimeOutputBuffer: [...context.terminalOutput],
+      servedProfiles: [],
+      userTask: userMessage,
+      profileId,
+      usePromptTools: false,
+      stepCount: 0,
+      riskCeiling: playbook?.riskCeiling ?? fullConfig.riskCeiling
     }
     this.runs.set(agentId, run)
-    
-    // 注册终端输出监听器，实时收集输出
-    const MAX_BUFFER_LINES = 200  // 缓冲区最大行数
-    // 使用统一终端服务（支持 PTY 和 SSH），如果没有则回退到 ptyService
-    const terminalService = this.unifiedTerminalService || this.ptyService
-    run.outputUnsubscribe = terminalService.onData(ptyId, (data: string) => {
-      // 将新输出按行分割并追加到缓冲区
-      const newLines = data.split('\n')
-      run.realtimeOutputBuffer.push(...newLines)
-      
-      // 保持缓冲区在限制内（保留最新的行）
-      if (run.realtimeOutputBuffer.length > MAX_BUFFER_LINES) {
-        run.realtimeOutputBuffer = run.realtimeOutputBuffer.slice(-MAX_BUFFER_LINES)
-      }
-    })
 
     // 构建系统提示（包含 MBTI 风格）
     const mbtiType = this.configService?.getAgentMbti() ?? null
@@ -1040,7 +1242,14 @@ export class AgentService {
       console.log('[Agent] Knowledge service error:', e)
     }
     
-    const systemPrompt = buildSystemPrompt(context, this.hostProfileService, mbtiType, knowledgeContext, knowledgeEnabled)
+    // 模型不支持 function calling 时，在系统提示中描述工具，从回复文本中解析调用
+    const usePromptTools = !(await this.aiService.supportsNativeTools(profileId))
+    run.usePromptTools = usePromptTools
+    let systemPrompt = buildSystemPrompt(context, this.hostProfileService, mbtiType, knowledgeContext, knowledgeEnabled)
+    if (usePromptTools) {
+      systemPrompt += '\n\n' + buildPromptToolInstructions(getAgentTools(this.mcpService, context.targets))
+      console.log('[Agent] 使用提示词工具协议')
+    }
     run.messages.push({ role: 'system', content: systemPrompt })
 
     // 智能添加历史对话（根据上下文长度动态计算可保留的轮数）
@@ -1049,9 +1258,9 @@ export class AgentService {
       // 预留 50% 的上下文给当前任务执行（工具调用、输出等）
       const historyBudget = Math.floor(contextLength * 0.3)
       // 已使用的 token（system prompt）
-      const systemTokens = this.estimateTokens(systemPrompt)
+      const systemTokens = this.estimateTokens(systemPrompt, profileId)
       // 当前用户消息的 token
-      const userMessageTokens = this.estimateTokens(userMessage)
+      const userMessageTokens = this.estimateTokens(userMessage, profileId)
       // 可用于历史的 token 预算
       const availableForHistory = historyBudget - systemTokens - userMessageTokens
       
@@ -1063,7 +1272,7 @@ export class AgentService {
       for (let i = context.historyMessages.length - 1; i >= 0; i--) {
         const msg = context.historyMessages[i]
         if (msg.role === 'user' || msg.role === 'assistant') {
-          const msgTokens = this.estimateTokens(msg.content)
+          const msgTokens = this.estimateTokens(msg.content, profileId)
           
           // 检查是否超出预算
           if (historyTokens + msgTokens > availableForHistory) {
@@ -1094,12 +1303,40 @@ export class AgentService {
       console.log(`[Agent] 历史对话: 保留 ${keptHistory}/${totalHistory} 条消息 (${keptRounds} 轮), 使用 ${historyTokens} tokens (预算: ${availableForHistory}, 上下文: ${contextLength})`)
     }
 
-    // 添加当前用户消息（包含任务复杂度分析和规划提示）
-    const enhancedMessage = this.enhanceUserMessage(userMessage)
+    // 添加当前用户消息（包含任务复杂度分析和规划提示；Playbook 任务使用预定义步骤）
+    const enhancedMessage = playbook
+      ? userMessage + '\n' + generatePlaybookPrompt(playbook)
+      : this.enhanceUserMessage(userMessage)
     run.messages.push({ role: 'user', content: enhancedMessage })
+    this.checkpoints.save(run)
+
+    return this.executeRun(run)
+  }
+
+  /**
+   * 执行 Agent 循环（新任务和从检查点恢复的任务共用）
+   */
+  private async executeRun(run: AgentRun): Promise<string> {
+    const agentId = run.id
+    const { ptyId, context, profileId, usePromptTools } = run
+
+    // 注册终端输出监听器，实时收集输出
+    const MAX_BUFFER_LINES = 200  // 缓冲区最大行数
+    // 使用统一终端服务（支持 PTY 和 SSH），如果没有则回退到 ptyService
+    const terminalService = this.unifiedTerminalService || this.ptyService
+    run.outputUnsubscribe = terminalService.onData(ptyId, (data: string) => {
+      // 将新输出按行分割并追加到缓冲区
+      const newLines = data.split('\n')
+      run.realtimeOutputBuffer.push(...newLines)
+      
+      // 保持缓冲区在限制内（保留最新的行）
+      if (run.realtimeOutputBuffer.length > MAX_BUFFER_LINES) {
+        run.realtimeOutputBuffer = run.realtimeOutputBuffer.slice(-MAX_BUFFER_LINES)
+      }
+    })
 
-    let stepCount = 0
     let lastResponse: ChatWithToolsResult | null = null
+    let toolCallRepairs = 0  // 提示词工具协议下连续修复格式错误的次数
 
     // 创建工具执行器配置
     // 使用统一终端服务（支持 PTY 和 SSH），如果没有则回退到 ptyService
@@ -1110,22 +1347,40 @@ export class AgentService {
       mcpService: this.mcpService,
       addStep: (step) => this.addStep(agentId, step),
       updateStep: (stepId, updates) => this.updateStep(agentId, stepId, updates),
-      waitForConfirmation: (toolCallId, toolName, toolArgs, riskLevel) =>
-        this.waitForConfirmation(agentId, toolCallId, toolName, toolArgs, riskLevel),
+      waitForConfirmation: (toolCallId, toolName, toolArgs, riskLevel, diff) =>
+        this.waitForConfirmation(agentId, toolCallId, toolName, toolArgs, riskLevel, diff),
+      waitForPlanApproval: (plan) => this.waitForPlanApproval(agentId, plan),
       isAborted: () => run.aborted,
       getHostId: () => run.context.hostId,
       hasPendingUserMessage: () => run.pendingUserMessages.length > 0,
       peekPendingUserMessage: () => run.pendingUserMessages[0],
       consumePendingUserMessage: () => run.pendingUserMessages.shift(),
       // 获取实时终端输出（Agent 运行期间收集的最新数据）
-      getRealtimeTerminalOutput: () => [...run.realtimeOutputBuffer]
+      getRealtimeTerminalOutput: () => [...run.realtimeOutputBuffer],
+      getTargets: () => run.context.targets || [],
+      getFileAccess: (ptyId) => this.getFileAccess(ptyId),
+      captureFileSnapshot: (ptyId, access, filePath) => {
+        const hostId = run.context.targets?.find(t => t.ptyId === ptyId)?.hostId ?? run.context.hostId
+        return this.fileSnapshots.capture(agentId, ptyId, hostId, access, filePath)
+      },
+      assessRisk: (ptyId, command) => {
+        const hostId = run.context.targets?.find(t => t.ptyId === ptyId)?.hostId ?? run.context.hostId
+        return applyRiskCeiling(this.assessRisk(ptyId, hostId, command), run.riskCeiling)
+      },
+      getRiskCeiling: () => run.riskCeiling,
+      getUserTask: () => run.userTask,
+      getPlan: () => run.plan,
+      setPlan: (plan) => this.setPlan(agentId, plan),
+      // 中止运行时一并结束后台通道中的命令
+      execInBackground: (ptyId, command, timeout) =>
+        this.execInBackground(ptyId, command, timeout, run.abortController.signal)
     }
 
     try {
       // Agent 执行循环
       // maxSteps = 0 表示无限制，由 Agent 自行决定何时结束
-      while ((fullConfig.maxSteps === 0 || stepCount < fullConfig.maxSteps) && run.isRunning && !run.aborted) {
-        stepCount++
+      while ((run.config.maxSteps === 0 || run.stepCount < run.config.maxSteps) && run.isRunning && !run.aborted) {
+        run.stepCount++
 
         // 处理用户补充消息（如果有）
         if (run.pendingUserMessages.length > 0) {
@@ -1145,10 +1400,13 @@ export class AgentService {
         }
 
         // 上下文压缩：如果消息过长，进行压缩
-        if (stepCount > 3) {  // 只在多轮对话后检查压缩
-          run.messages = await this.compressMessages(run.messages)
+        if (run.stepCount > 3) {  // 只在多轮对话后检查压缩
+          run.messages = await this.compressMessages(run.messages, profileId)
         }
 
+        // 每轮请求前保存检查点（此时上一轮的工具结果已全部写入消息）
+        this.checkpoints.save(run)
+
         // 创建流式消息步骤
         const streamStepId = this.generateId()
         let streamContent = ''
@@ -1173,6 +1431,8 @@ export class AgentService {
           pendingUpdate = false
         }
         
+        const tools = getAgentTools(this.mcpService, context.targets)
+
         // 使用带重试的流式 API 调用 AI
         const response = await withAiRetry(
           () => new Promise<ChatWithToolsResult>((resolve, reject) => {
@@ -1186,7 +1446,7 @@ export class AgentService {
             
             this.aiService.chatWithToolsStream(
               run.messages,
-              getAgentTools(this.mcpService),
+              usePromptTools ? [] : tools,
               // onChunk: 流式文本更新（带节流）
               (chunk) => {
                 streamContent += chunk
@@ -1274,7 +1534,9 @@ export class AgentService {
                     })
                   }
                 }
-              }
+              },
+              { source: 'agent', host: run.context.hostId, terminalId: ptyId, agentRunId: agentId },
+              run.abortController.signal
             )
           }),
           {
@@ -1291,24 +1553,68 @@ export class AgentService {
           }
         )
         
+        let toolCalls = response.tool_calls
+        let repairPrompt: string | undefined
         lastResponse = response
 
+        // 记录实际响应请求的 AI 配置
+        if (response.servedBy && !run.servedProfiles.some(p => p.id === response.servedBy!.id)) {
+          run.servedProfiles.push(response.servedBy)
+        }
+
+        // 提示词工具协议：从回复文本中解析工具调用，并从展示内容中去掉调用代码块
+        if (usePromptTools) {
+          const parsed = parsePromptToolCalls(response.content || '', tools, `call_${streamStepId}`)
+          toolCalls = parsed.toolCalls
+          lastResponse = { ...response, content: parsed.content, tool_calls: undefined }
+          if (streamContent) {
+            // 流式内容可能包含思考标记，单独去除其中的调用代码块
+            this.updateStep(agentId, streamStepId, {
+              type: 'message',
+              content: parsePromptToolCalls(streamContent, tools, streamStepId).content,
+              isStreaming: false
+            })
+          }
+
+          if (parsed.errors.length > 0) {
+            toolCallRepairs++
+            if (toolCallRepairs > MAX_TOOL_CALL_REPAIRS) {
+              throw new Error(`模型连续 ${MAX_TOOL_CALL_REPAIRS} 次输出格式错误的工具调用: ${parsed.errors[0]}`)
+            }
+            repairPrompt = buildToolCallRepairPrompt(parsed.errors)
+            this.addStep(agentId, {
+              type: 'thinking',
+              content: `⚠️ 工具调用格式错误，要求模型重新输出 (${toolCallRepairs}/${MAX_TOOL_CALL_REPAIRS})`
+            })
+          } else {
+            toolCallRepairs = 0
+          }
+
+          // 没有可执行的调用，只需要求模型修正
+          if (toolCalls.length === 0 && repairPrompt) {
+            run.messages.push({ role: 'assistant', content: response.content || '' })
+            run.messages.push({ role: 'user', content: repairPrompt })
+            continue
+          }
+        }
+
         // 如果没有流式内容但有最终内容，添加消息步骤
-        if (!streamContent && response.content) {
+        if (!streamContent && lastResponse.content) {
           this.addStep(agentId, {
             type: 'message',
-            content: response.content
+            content: lastResponse.content
           })
         }
 
         // 检查是否有工具调用
-        if (response.tool_calls && response.tool_calls.length > 0) {
+        if (toolCalls && toolCalls.length > 0) {
           // 将 assistant 消息（包含 tool_calls 和 reasoning_content）添加到历史
           // DeepSeek think 模型要求后续消息必须包含 reasoning_content
+          // 提示词工具协议下保留原始回复文本，不附带 tool_calls
           const assistantMsg: AiMessage = {
             role: 'assistant',
             content: response.content || '',  // 不使用 streamContent，因为它包含 HTML 标签
-            tool_calls: response.tool_calls
+            tool_calls: usePromptTools ? undefined : toolCalls
           }
           // 如果有思考内容，添加到消息中（DeepSeek think 模型要求）
           if (response.reasoning_content) {
@@ -1317,7 +1623,8 @@ export class AgentService {
           run.messages.push(assistantMsg)
 
           // 执行每个工具调用
-          for (const toolCall of response.tool_calls) {
+          const promptToolResults: string[] = []
+          for (const toolCall of toolCalls) {
             if (run.aborted) break
 
             // 解析工具参数
@@ -1340,13 +1647,26 @@ export class AgentService {
             this.updateReflectionTracking(run, toolCall.function.name, toolArgs, result)
 
             // 将工具结果添加到消息历史
-            run.messages.push({
-              role: 'tool',
-              content: result.success 
-                ? result.output 
-                : `错误: ${result.error}`,
-              tool_call_id: toolCall.id
-            })
+            const toolOutput = result.success 
+              ? result.output 
+              : `错误: ${result.error}`
+            if (usePromptTools) {
+              promptToolResults.push(formatPromptToolResult(toolCall.function.name, toolOutput))
+            } else {
+              run.messages.push({
+                role: 'tool',
+                content: toolOutput,
+                tool_call_id: toolCall.id
+              })
+            }
+          }
+
+          // 提示词工具协议下，工具结果（以及部分调用的修复提示）合并为一条用户消息
+          if (usePromptTools) {
+            if (repairPrompt) {
+              promptToolResults.push(repairPrompt)
+            }
+            run.messages.push({ role: 'user', content: promptToolResults.join('\n\n') })
           }
 
           // 检查是否需要触发反思
@@ -1379,7 +1699,7 @@ export class AgentService {
       const finalMessage = lastResponse?.content || '任务完成'
 
       console.log('[Agent] run completed normally, calling onCompleteCallback')
-      if (this.onCompleteCallback) {
+      if (this.onCompleteCallback && !run.config.unattended) {
         this.onCompleteCallback(agentId, finalMessage)
       }
 
@@ -1410,7 +1730,7 @@ export class AgentService {
         console.log('[Agent] AI request aborted but has valid response, treating as success')
         const finalMessage = lastResponse!.content || '任务完成'
         
-        if (this.onCompleteCallback) {
+        if (this.onCompleteCallback && !run.config.unattended) {
           this.onCompleteCallback(agentId, finalMessage)
         }
         
@@ -1423,7 +1743,7 @@ export class AgentService {
         content: `执行出错: ${errorMsg}`
       })
 
-      if (this.onErrorCallback) {
+      if (this.onErrorCallback && !run.config.unattended) {
         this.onErrorCallback(agentId, errorMsg)
       }
 
@@ -1435,9 +1755,185 @@ export class AgentService {
         run.outputUnsubscribe = undefined
         console.log('[Agent] 已清理终端输出监听器')
       }
+      // 运行已结束（完成、出错或中止），不再需要恢复
+      this.checkpoints.remove(agentId)
+    }
+  }
+
+  /**
+   * 获取主机上最近一次中断（应用崩溃或重启时仍在运行）的任务
+   */
+  getInterruptedRun(hostId: string): InterruptedRunInfo | null {
+    // 当前进程中的运行不属于中断的任务
+    return this.checkpoints.getLatest(hostId, Array.from(this.runs.keys()))
+  }
+
+  /**
+   * 放弃恢复中断的任务
+   */
+  discardInterruptedRun(agentId: string): boolean {
+    if (this.runs.get(agentId)?.isRunning) return false
+    this.checkpoints.remove(agentId)
+    return true
+  }
+
+  /**
+   * 获取运行修改过的文件
+   */
+  getFileChanges(agentId: string): RunFileChanges | null {
+    return this.fileSnapshots.getChanges(agentId)
+  }
+
+  /**
+   * 撤销运行对文件的所有修改，恢复到修改前的内容
+   * 远程文件需要主机仍有打开的 SSH 终端（原终端已关闭时使用同一主机的其他终端）
+   */
+  async revertFileChanges(agentId: string): Promise<FileRevertResult[]> {
+    if (this.runs.get(agentId)?.isRunning) {
+      throw new Error('任务仍在运行，请先停止任务')
+    }
+    return this.fileSnapshots.revert(agentId, async (entry) => {
+      if (!entry.remote) {
+        return createLocalFileAccess()
+      }
+      let ptyId: string | null = entry.ptyId
+      if (this.unifiedTerminalService?.getTerminalType(ptyId) !== 'ssh') {
+        const [username, host] = (entry.hostId || '').split('@')
+        ptyId = host ? this.sshService?.findInstanceByHost(host, username) ?? null : null
+      }
+      if (!ptyId) {
+        throw new Error(`主机 ${entry.hostId || ''} 未连接，请先打开到该主机的 SSH 终端`)
+      }
+      return this.getFileAccess(ptyId)
+    })
+  }
+
+  /**
+   * 从检查点恢复中断的任务
+   * 终端在重启后是新的会话，恢复前重新检查终端状态并告知模型
+   */
+  async resume(
+    agentId: string,
+    ptyId: string,
+    context: AgentContext,
+    config?: Partial<AgentConfig>
+  ): Promise<string> {
+    if (this.runs.get(agentId)?.isRunning) {
+      throw new Error('该 Agent 任务正在运行')
+    }
+    const checkpoint = this.checkpoints.load(agentId)
+    if (!checkpoint) {
+      throw new Error('未找到可恢复的 Agent 任务')
+    }
+
+    const run: AgentRun = {
+      id: checkpoint.id,
+      ptyId,
+      messages: checkpoint.messages,
+      steps: checkpoint.steps,
+      isRunning: true,
+      aborted: false,
+      abortController: new AbortController(),
+      pendingUserMessages: [],
+      config: { ...DEFAULT_AGENT_CONFIG, ...checkpoint.config, ...config },
+      context: { ...context, hostId: context.hostId ?? checkpoint.hostId },
+      reflection: checkpoint.reflection,
+      realtimeOutputBuffer: [...context.terminalOutput],
+      servedProfiles: checkpoint.servedProfiles,
+      userTask: checkpoint.userTask,
+      profileId: checkpoint.profileId,
+      usePromptTools: checkpoint.usePromptTools,
+      stepCount: checkpoint.stepCount,
+      riskCeiling: checkpoint.riskCeiling,
+      // 中断时尚未审批的计划无法继续等待审批
+      plan: checkpoint.plan?.approvalStatus === 'pending'
+        ? { ...checkpoint.plan, approvalStatus: undefined }
+        : checkpoint.plan
+    }
+    this.runs.set(agentId, run)
+
+    this.closeInterruptedToolCalls(run)
+    // 恢复计划视图
+    if (run.plan) {
+      this.setPlan(agentId, run.plan)
+    }
+
+    let terminalState = await this.describeTerminalState(ptyId)
+    const targets = run.context.targets || []
+    if (targets.length > 1) {
+      terminalState += `\n当前附加的目标终端: ${targets.map(t => t.id).join(', ')}`
+    }
+    this.addStep(agentId, {
+      type: 'thinking',
+      content: `🔄 从检查点恢复任务（已执行 ${run.stepCount} 轮）\n${terminalState}`
+    })
+    run.messages.push({
+      role: 'user',
+      content: `[任务恢复]\n应用在任务执行过程中退出，现已从检查点恢复。终端是重新打开的会话，之前的工作目录、环境变量和前台进程可能已不存在，之前执行的命令是否完成也需要重新确认。\n\n当前终端状态：\n${terminalState}\n\n请先检查相关状态，再继续完成原任务：${run.userTask}`
+    })
+    this.checkpoints.save(run)
+
+    return this.executeRun(run)
+  }
+
+  /**
+   * 补齐中断时没有结果的工具调用，否则模型 API 会拒绝消息序列
+   */
+  private closeInterruptedToolCalls(run: AgentRun): void {
+    // 末尾连续的 tool 消息之前应为发起调用的 assistant 消息
+    let index = run.messages.length - 1
+    while (index >= 0 && run.messages[index].role === 'tool') {
+      index--
+    }
+    const assistantMsg = run.messages[index]
+    if (!assistantMsg || assistantMsg.role !== 'assistant' || !assistantMsg.tool_calls?.length) return
+
+    const answered = new Set(run.messages.slice(index + 1).map(m => m.tool_call_id))
+    for (const toolCall of assistantMsg.tool_calls) {
+      if (!answered.has(toolCall.id)) {
+        run.messages.push({
+          role: 'tool',
+          content: '错误: 应用在执行此工具时退出，执行结果未知',
+          tool_call_id: toolCall.id
+        })
+      }
     }
   }
 
+  /**
+   * 通过终端感知服务描述终端当前状态
+   */
+  private async describeTerminalState(ptyId: string): Promise<string> {
+    try {
+      const awareness = await getTerminalAwarenessService().getAwareness(ptyId)
+      const lines = [`状态: ${awareness.status}`]
+      if (awareness.terminalState?.cwd) {
+        lines.push(`工作目录: ${awareness.terminalState.cwd}`)
+      }
+      if (awareness.input.isWaiting) {
+        lines.push(`等待输入: ${awareness.input.type}${awareness.input.prompt ? ` (${awareness.input.prompt})` : ''}`)
+      }
+      if (awareness.suggestion) {
+        lines.push(`建议: ${awareness.suggestion}`)
+      }
+      return lines.join('\n')
+    } catch (e) {
+      console.warn('[Agent] 恢复时获取终端状态失败:', e)
+      return '状态未知，请使用 check_terminal_status 检查'
+    }
+  }
+
+  /**
+   * 应用退出前保存所有运行中的任务，下次启动后可恢复
+   */
+  suspendAll(): void {
+    this.runs.forEach(run => {
+      if (run.isRunning) {
+        this.checkpoints.freeze(run)
+      }
+    })
+  }
+
   /**
    * 中止 Agent 执行
    */
@@ -1447,11 +1943,15 @@ export class AgentService {
 
     run.aborted = true
     run.isRunning = false
+    run.abortController.abort()
 
     // 如果有待确认的操作，拒绝它
     if (run.pendingConfirmation) {
       run.pendingConfirmation.resolve(false)
     }
+    if (run.pendingPlanApproval) {
+      run.pendingPlanApproval(false)
+    }
 
     // 中止所有正在执行的命令
     this.commandExecutor.abortAll()
@@ -1478,6 +1978,7 @@ export class AgentService {
     isRunning: boolean
     steps: AgentStep[]
     pendingConfirmation?: PendingConfirmation
+    aiProfiles: AiServedProfile[]
   } | null {
     const run = this.runs.get(agentId)
     if (!run) return null
@@ -1485,10 +1986,35 @@ export class AgentService {
     return {
       isRunning: run.isRunning,
       steps: run.steps,
-      pendingConfirmation: run.pendingConfirmation
+      pendingConfirmation: run.pendingConfirmation,
+      aiProfiles: run.servedProfiles
+    }
+  }
+
+  /**
+   * 订阅终端上运行的步骤（新增和更新都会回调）
+   * @returns 取消订阅函数
+   */
+  observeSteps(ptyId: string, callback: (step: AgentStep) => void): () => void {
+    this.stepObservers.set(ptyId, callback)
+    return () => {
+      if (this.stepObservers.get(ptyId) === callback) {
+        this.stepObservers.delete(ptyId)
+      }
     }
   }
 
+  /**
+   * 查找终端上最近一次运行的 ID
+   */
+  findRunIdByPtyId(ptyId: string): string | null {
+    let latest: string | null = null
+    this.runs.forEach(run => {
+      if (run.ptyId === ptyId) latest = run.id
+    })
+    return latest
+  }
+
   /**
    * 更新运行中的 Agent 配置（如严格模式）
    */
@@ -24,6 +24,7 @@ export interface TaskStep {
   alternativeApproach?: string  // 备选方案描述
   dependencies?: string[]    // 依赖的步骤 ID
   dependencyType?: DependencyType  // 依赖类型
+  command?: string           // 步骤对应的命令（并行步骤由系统在后台通道执行）
   checkpoint?: boolean       // 是否为关键检查点
   estimatedDuration?: number // 预估耗时（秒）
   actualDuration?: number    // 实际耗时（秒）
@@ -38,6 +39,15 @@ export interface PlanAdjustment {
   details: string
 }
 
+// 用户对计划的修改（在 AI 面板的计划视图中操作）
+export type PlanEdit =
+  | { type: 'modify'; stepId: string; description?: string; command?: string }
+  | { type: 'skip'; stepId: string }
+  | { type: 'retry'; stepId: string }
+
+// 计划审批状态
+export type PlanApprovalStatus = 'pending' | 'approved' | 'rejected'
+
 // 执行策略
 export type ExecutionStrategy = 'default' | 'conservative' | 'aggressive' | 'diagnostic'
 
@@ -56,6 +66,7 @@ export interface TaskPlan {
   riskAssessment?: string         // 风险评估
   successCriteria?: string[]      // 成功标准
   fallbackPlan?: string           // 备选计划描述
+  approvalStatus?: PlanApprovalStatus  // 执行前的用户审批（无人值守运行不需要审批）
 }
 
 // 任务复杂度
@@ -157,11 +168,57 @@ export function generatePlanningPrompt(task: string, complexity: TaskComplexity)
 - 如果步骤 N 失败：[备选方案]
 - 发现新信息时：重新评估后续步骤
 
+**🧭 结构化计划**
+- 用 create_plan 工具提交计划，用户批准后再执行，执行中用 update_plan_step 更新步骤状态
+- 互不依赖的检查类步骤（如分别查看磁盘、内存、服务状态）可标记 parallel 并给出 command，
+  再调用 run_parallel_steps 在后台通道并发执行，结果会合并回计划
+
 ---
 制定计划后开始执行。执行中如需调整，说明原因后继续。
 `
 }
 
+/**
+ * 生成 Playbook 任务的执行提示：步骤已预先定义，不再重新规划
+ */
+export function generatePlaybookPrompt(playbook: {
+  name: string
+  steps: Array<{ description: string; purpose?: string; checkpoint?: boolean; alternativeApproach?: string }>
+  successChecks: Array<{ description: string; command?: string; expect?: string }>
+  riskCeiling?: string
+}): string {
+  const lines: string[] = ['', `【Playbook：${playbook.name}】`]
+
+  if (playbook.steps.length > 0) {
+    lines.push('', '**📋 预定义步骤**（按顺序执行，不要重新规划；某步失败时先尝试备选方案，仍失败则说明原因并停止）')
+    playbook.steps.forEach((step, index) => {
+      let line = `${index + 1}. ${step.description}`
+      if (step.purpose) line += ` - 目的：${step.purpose}`
+      if (step.checkpoint) line += '（检查点：确认结果正确后再继续）'
+      lines.push(line)
+      if (step.alternativeApproach) {
+        lines.push(`   备选方案：${step.alternativeApproach}`)
+      }
+    })
+  }
+
+  if (playbook.successChecks.length > 0) {
+    lines.push('', '**✅ 成功检查**（全部步骤完成后逐项验证，并在总结中报告每项结果）')
+    playbook.successChecks.forEach((check, index) => {
+      let line = `${index + 1}. ${check.description}`
+      if (check.command) line += `\n   验证命令：${check.command}`
+      if (check.expect) line += `\n   输出应匹配：${check.expect}`
+      lines.push(line)
+    })
+  }
+
+  if (playbook.riskCeiling) {
+    lines.push('', `**🛡️ 风险上限**：本任务只允许执行风险等级不超过 ${playbook.riskCeiling} 的命令，超出的命令会被拒绝，请改用更安全的方式。`)
+  }
+
+  return lines.join('\n') + '\n'
+}
+
 /**
  * 推荐执行策略
  */
@@ -268,6 +325,9 @@ export function createTaskPlan(
     purpose: string
     checkpoint?: boolean
     alternativeApproach?: string
+    command?: string
+    dependencies?: string[]
+    dependencyType?: DependencyType
   }>,
   options?: {
     strategy?: ExecutionStrategy
@@ -286,6 +346,9 @@ export function createTaskPlan(
       status: 'pending' as TaskStepStatus,
       checkpoint: step.checkpoint,
       alternativeApproach: step.alternativeApproach,
+      command: step.command,
+      dependencies: step.dependencies,
+      dependencyType: step.dependencyType,
       maxRetries: 2,
       retryCount: 0
     })),
@@ -438,7 +501,7 @@ export function removeStep(
 export function modifyStep(
   plan: TaskPlan,
   stepIndex: number,
-  updates: Partial<Pick<TaskStep, 'description' | 'purpose' | 'alternativeApproach'>>,
+  updates: Partial<Pick<TaskStep, 'description' | 'purpose' | 'alternativeApproach' | 'command'>>,
   reason?: string
 ): TaskPlan {
   if (stepIndex < 0 || stepIndex >= plan.steps.length) {
@@ -457,7 +520,9 @@ export function modifyStep(
     timestamp: Date.now(),
     type: 'modify_step',
     reason: reason ?? '根据执行情况调整步骤',
-    details: `修改步骤 ${stepIndex + 1}: ${originalStep.description} -> ${updates.description ?? originalStep.description}`
+    details: updates.command !== undefined && updates.command !== originalStep.command
+      ? `修改步骤 ${stepIndex + 1}: ${originalStep.description} -> ${updates.description ?? originalStep.description}，命令: ${updates.command || '（无）'}`
+      : `修改步骤 ${stepIndex + 1}: ${originalStep.description} -> ${updates.description ?? originalStep.description}`
   }
   
   return {
@@ -491,16 +556,46 @@ export function changeStrategy(
   }
 }
 
+/**
+ * 跳过步骤
+ */
+export function skipStep(
+  plan: TaskPlan,
+  stepIndex: number,
+  reason?: string
+): TaskPlan {
+  if (stepIndex < 0 || stepIndex >= plan.steps.length) {
+    return plan
+  }
+
+  const step = plan.steps[stepIndex]
+  const updated = updateStepStatus(plan, stepIndex, 'skipped', step.result, step.error)
+
+  // 记录调整
+  const adjustment: PlanAdjustment = {
+    timestamp: Date.now(),
+    type: 'modify_step',
+    reason: reason ?? '步骤不再需要',
+    details: `跳过步骤 ${stepIndex + 1}: ${step.description}`
+  }
+
+  return {
+    ...updated,
+    adjustments: [...(plan.adjustments ?? []), adjustment]
+  }
+}
+
 /**
  * 重试失败的步骤
+ * @param force 忽略重试次数上限（用户手动重试）
  */
-export function retryStep(plan: TaskPlan, stepIndex: number): TaskPlan {
+export function retryStep(plan: TaskPlan, stepIndex: number, force: boolean = false): TaskPlan {
   if (stepIndex < 0 || stepIndex >= plan.steps.length) {
     return plan
   }
   
   const step = plan.steps[stepIndex]
-  if (!canRetryStep(step)) {
+  if (force ? step.status !== 'failed' : !canRetryStep(step)) {
     return plan
   }
   
@@ -547,7 +642,8 @@ export function formatPlanAsText(plan: TaskPlan): string {
     in_progress: '🔄',
     completed: '✅',
     failed: '❌',
-    skipped: '⏭️'
+    skipped: '⏭️',
+    blocked: '🚫'
   }
   
   let text = `**任务计划** (进度: ${progress.percentage}%)\n\n`
@@ -561,7 +657,11 @@ export function formatPlanAsText(plan: TaskPlan): string {
   plan.steps.forEach((step, index) => {
     const icon = statusIcons[step.status]
     const current = index === plan.currentStepIndex ? ' 👈 当前' : ''
-    text += `${icon} ${index + 1}. ${step.description}${current}\n`
+    const parallel = step.dependencyType === 'parallel' ? ' [并行]' : ''
+    text += `${icon} ${index + 1}. [${step.id}] ${step.description}${parallel}${current}\n`
+    if (step.command) {
+      text += `   命令: ${step.command}\n`
+    }
     if (step.result) {
       text += `   结果: ${step.result}\n`
     }
@@ -573,6 +673,70 @@ export function formatPlanAsText(plan: TaskPlan): string {
   return text
 }
 
+/**
+ * 获取可以并行执行的步骤：标记为 parallel、带有命令、尚未执行且依赖的步骤均已完成或跳过
+ */
+export function getReadyParallelSteps(plan: TaskPlan): TaskStep[] {
+  const done = new Set(
+    plan.steps.filter(s => s.status === 'completed' || s.status === 'skipped').map(s => s.id)
+  )
+  return plan.steps.filter(step =>
+    step.dependencyType === 'parallel' &&
+    !!step.command &&
+    step.status === 'pending' &&
+    (step.dependencies ?? []).every(id => done.has(id))
+  )
+}
+
+/**
+ * 应用用户对计划的修改
+ * 返回修改后的计划和给 Agent 的说明；修改不适用于步骤当前状态时返回错误
+ */
+export function applyPlanEdit(
+  plan: TaskPlan,
+  edit: PlanEdit
+): { plan: TaskPlan; summary: string } | { error: string } {
+  const stepIndex = plan.steps.findIndex(s => s.id === edit.stepId)
+  if (stepIndex < 0) {
+    return { error: `步骤不存在: ${edit.stepId}` }
+  }
+  const step = plan.steps[stepIndex]
+
+  switch (edit.type) {
+    case 'modify': {
+      if (step.status === 'in_progress' || step.status === 'completed') {
+        return { error: '正在执行或已完成的步骤不能修改' }
+      }
+      const description = edit.description?.trim() || step.description
+      const command = edit.command === undefined ? step.command : (edit.command.trim() || undefined)
+      if (description === step.description && command === step.command) {
+        return { error: '步骤没有变化' }
+      }
+      const updated = modifyStep(plan, stepIndex, { description, command }, '用户修改')
+      // 没有命令的步骤无法在后台执行，按顺序步骤处理
+      if (!command && step.dependencyType === 'parallel') {
+        updated.steps[stepIndex] = { ...updated.steps[stepIndex], dependencyType: 'sequential' }
+      }
+      const changes: string[] = []
+      if (description !== step.description) changes.push(`描述改为「${description}」`)
+      if (command !== step.command) changes.push(command ? `命令改为 \`${command}\`` : '移除了命令')
+      return { plan: updated, summary: `${step.id} ${changes.join('，')}` }
+    }
+    case 'skip': {
+      if (step.status !== 'pending' && step.status !== 'failed' && step.status !== 'blocked') {
+        return { error: '只能跳过尚未执行或失败的步骤' }
+      }
+      return { plan: skipStep(plan, stepIndex, '用户跳过'), summary: `${step.id} 已跳过，不要执行该步骤` }
+    }
+    case 'retry': {
+      if (step.status !== 'failed') {
+        return { error: '只能重试失败的步骤' }
+      }
+      return { plan: retryStep(plan, stepIndex, true), summary: `${step.id} 需要重新执行` }
+    }
+  }
+}
+
 /**
  * 检查计划是否完成
  */
@@ -619,7 +783,7 @@ export class TaskPlanner {
   createPlan(
     task: string, 
     analysis: string, 
-    steps: Array<{ description: string; purpose: string; checkpoint?: boolean; alternativeApproach?: string }>,
+    steps: Parameters<typeof createTaskPlan>[2],
     options?: {
       strategy?: ExecutionStrategy
       riskAssessment?: string
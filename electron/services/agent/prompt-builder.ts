@@ -1,7 +1,7 @@
 /**
  * Agent 系统提示构建器
  */
-import type { AgentContext, HostProfileServiceInterface } from './types'
+import type { AgentContext, AgentTarget, HostProfileServiceInterface } from './types'
 import type { AgentMbtiType } from '../config.service'
 import type { KnowledgeService } from '../knowledge'
 
@@ -251,6 +251,45 @@ java 进程占用 280% CPU，这是主要问题。我来确认是哪个 Java 应
 /**
  * 构建系统提示
  */
+/**
+ * 构建多终端任务的目标终端说明
+ */
+function buildTargetsSection(targets: AgentTarget[], hostProfileService?: HostProfileServiceInterface): string {
+  let section = `## 多终端任务（重要！）
+本次任务附加了 ${targets.length} 个终端，可以在一个任务中操作多台主机。
+终端相关工具（execute_command、check_terminal_status、get_terminal_context、send_control_key、send_input、read_file、write_file、remember_info）都有 \`target\` 参数：
+- **每次调用都要明确指定 target**，不指定时默认为 \`${targets[0].id}\`
+- 各终端相互独立，工作目录、环境变量不共享
+- read_file / write_file 操作 target 所在主机的文件（SSH 目标通过 SFTP 读写远程文件）
+- 对比或同步多台主机时，先分别收集信息，再说明差异，修改前确认要以哪台主机为准
+
+| target | 终端类型 | 操作系统 | Shell |
+|--------|----------|----------|-------|`
+  for (const target of targets) {
+    section += `\n| ${target.id} | ${target.terminalType === 'ssh' ? 'SSH' : '本地'} | ${target.systemInfo.os} | ${target.systemInfo.shell} |`
+  }
+
+  // 各主机的已知信息
+  for (const target of targets) {
+    const profile = target.hostId ? hostProfileService?.getProfile(target.hostId) : null
+    if (!profile) continue
+    const details: string[] = []
+    if (profile.hostname) {
+      details.push(`- 主机名: ${profile.hostname}`)
+    }
+    if (profile.installedTools && profile.installedTools.length > 0) {
+      details.push(`- 已安装工具: ${profile.installedTools.join(', ')}`)
+    }
+    for (const note of (profile.notes || []).slice(-5)) {
+      details.push(`- ${note}`)
+    }
+    if (details.length > 0) {
+      section += `\n\n### ${target.id}\n${details.join('\n')}`
+    }
+  }
+  return section
+}
+
 export function buildSystemPrompt(
   context: AgentContext,
   hostProfileService?: HostProfileServiceInterface,
@@ -297,6 +336,12 @@ export function buildSystemPrompt(
     }
   }
 
+  // 多终端任务：列出所有目标终端及其主机档案
+  const targets = context.targets || []
+  if (targets.length > 1) {
+    hostContext += `\n\n${buildTargetsSection(targets, hostProfileService)}`
+  }
+
   // 文档上下文
   let documentSection = ''
   let documentRule = ''
@@ -374,19 +419,16 @@ ${buildPlanningGuidance()}
 | get_terminal_context | 获取终端最近的输出内容 |${isSshTerminal ? ' ✅ |' : ''}
 | send_control_key | 发送 Ctrl+C/D/Z 等控制键 |${isSshTerminal ? ' ✅ |' : ''}
 | wait | 等待指定时间 |${isSshTerminal ? ' ✅ |' : ''}
-| read_file | 读取**本地**文件内容 |${isSshTerminal ? ' ❌ 不可用 |' : ''}
-| write_file | 写入**本地**文件 |${isSshTerminal ? ' ❌ 不可用 |' : ''}
+| read_file | 读取文件内容 |${isSshTerminal ? ' ✅ 远程文件 |' : ''}
+| write_file | 写入文件（修改前自动备份） |${isSshTerminal ? ' ✅ 远程文件 |' : ''}
 | remember_info | 记住重要的静态信息 |${isSshTerminal ? ' ✅ |' : ''}${isSshTerminal ? `
 
-### ⚠️ 重要：SSH 远程终端文件操作限制
-
-当前是 **SSH 远程终端**，\`read_file\` 和 \`write_file\` 工具**不可用**！
-这两个工具只能操作运行本程序的本地机器上的文件，无法操作 SSH 远程主机上的文件。
+### SSH 远程终端文件操作
 
-**远程文件操作替代方案**：
-- 读取远程文件：使用 \`execute_command\` 执行 \`cat\`、\`head\`、\`tail\`、\`sed -n 'Np'\` 等命令
-- 写入远程文件：使用 \`execute_command\` 执行 \`echo "内容" > 文件\`、\`cat << 'EOF' > 文件\` 等命令
-- 编辑远程文件：使用 \`execute_command\` 执行 \`sed -i\` 等命令` : ''}
+当前是 **SSH 远程终端**，\`read_file\` 和 \`write_file\` 通过当前会话的 SFTP 通道直接读写**远程主机**上的文件，支持全部读取/写入模式。
+- 查看、编辑远程文件时优先使用这两个工具，不要用 \`cat << EOF\`、\`sed -i\` 等命令拼接内容
+- 相对路径基于终端当前工作目录解析，无法确定时请使用绝对路径
+- SFTP 以登录用户身份读写，需要 root 权限的文件仍需通过 \`execute_command\` 配合 sudo 操作` : ''}
 
 ## 时间控制能力（重要！）
 
@@ -441,8 +483,8 @@ ${buildPlanningGuidance()}
    - **关键信息必须完整准确**：禁止缩写、简化或"创造性"压缩！如 /Users/yushen/Source/SFTerminal/ 不能写成 /Users/yushen/SouSFT/
 6. **【强制】关键文件保护**：
    - **修改重要配置文件前必须先备份**：.zshrc, .bashrc, .bash_profile, .profile, .zprofile, .vimrc, .gitconfig, .ssh/config, /etc/ 下的配置文件等
-   - 备份命令示例：\`cp ~/.zshrc ~/.zshrc.bak.$(date +%Y%m%d%H%M%S)\`
-   - 修改前告知用户已创建备份文件路径
+   - \`write_file\` 会自动备份被修改的文件；通过 \`execute_command\` 修改时需手动备份，如：\`cp ~/.zshrc ~/.zshrc.bak.$(date +%Y%m%d%H%M%S)\`
+   - 告知用户备份文件路径
    - 如果修改失败或用户不满意，指导用户如何恢复备份
 7. **【强制】系统环境约束**：
    - 当前操作系统：**${osType}**
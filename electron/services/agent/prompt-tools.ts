@@ -0,0 +1,195 @@
+/**
+ * 提示词工具协议
+ * 用于不支持 function calling 的模型：在系统提示中描述可用工具，
+ * 由模型在回复中输出 ```tool_call 代码块，再从纯文本中解析出工具调用
+ */
+import type { ToolDefinition, ToolCall } from '../ai.service'
+
+// 工具调用代码块的语言标记
+export const TOOL_CALL_FENCE = 'tool_call'
+
+// 连续修复失败的最大次数，超过后放弃本次运行
+export const MAX_TOOL_CALL_REPAIRS = 3
+
+// 解析结果
+export interface PromptToolParseResult {
+  content: string        // 去除工具调用代码块后的文本
+  toolCalls: ToolCall[]  // 成功解析的工具调用
+  errors: string[]       // 无法解析或校验失败的调用说明
+}
+
+// 匹配 ```tool_call / ```json 代码块（json 块仅在包含 "name" 字段时视为工具调用）
+const FENCE_PATTERN = /```[ \t]*(tool_call|json)?[ \t]*\r?\n([\s\S]*?)```/g
+
+/**
+ * 生成工具说明，追加到系统提示中
+ */
+export function buildPromptToolInstructions(tools: ToolDefinition[]): string {
+  const toolDocs = tools.map(tool => {
+    const { name, description, parameters } = tool.function
+    const required = new Set(parameters.required || [])
+    const params = Object.entries(parameters.properties).map(([key, prop]) => {
+      const enumHint = prop.enum ? `，可选值: ${prop.enum.join(' / ')}` : ''
+      const itemProps = prop.items?.properties as Record<string, unknown> | undefined
+      const itemsHint = itemProps ? `，元素字段: ${Object.keys(itemProps).join(' / ')}` : ''
+      return `  - ${key} (${prop.type}${required.has(key) ? '，必填' : ''}${enumHint}${itemsHint}): ${prop.description}`
+    })
+    return `### ${name}\n${description}\n参数:\n${params.length > 0 ? params.join('\n') : '  （无）'}`
+  })
+
+  return `## 工具调用协议
+
+当前模型不支持原生工具调用。需要使用工具时，在回复中输出如下格式的代码块（每个代码块一个调用，可以有多个）：
+
+\`\`\`${TOOL_CALL_FENCE}
+{"name": "工具名称", "arguments": {"参数名": "参数值"}}
+\`\`\`
+
+规则：
+- 代码块内必须是合法 JSON，字符串中的换行和引号需要转义
+- 输出工具调用后立即结束本次回复，等待工具结果，不要自行编造结果
+- 工具结果会以「[工具结果]」开头的消息返回给你
+- 任务完成、不再需要工具时，直接回复总结，不要输出工具调用代码块
+
+## 可用工具
+
+${toolDocs.join('\n\n')}`
+}
+
+/**
+ * 尝试修复常见的 JSON 格式问题
+ * 处理注释、尾随逗号、单引号字符串以及字符串中未转义的换行
+ */
+export function repairJson(text: string): string {
+  let result = text.trim()
+    .replace(/^\s*\/\/.*$/gm, '')
+    .replace(/,\s*([}\]])/g, '$1')
+
+  // 单引号字符串改为双引号（仅在没有双引号时处理，避免破坏内容）
+  if (!result.includes('"')) {
+    result = result.replace(/'/g, '"')
+  }
+
+  // 转义字符串中的原始换行和制表符
+  let repaired = ''
+  let inString = false
+  for (let i = 0; i < result.length; i++) {
+    const ch = result[i]
+    if (ch === '"' && result[i - 1] !== '\\') {
+      inString = !inString
+    }
+    if (inString && ch === '\n') {
+      repaired += '\\n'
+    } else if (inString && ch === '\r') {
+      continue
+    } else if (inString && ch === '\t') {
+      repaired += '\\t'
+    } else {
+      repaired += ch
+    }
+  }
+
+  // 补全缺失的右括号
+  const opens = (repaired.match(/{/g) || []).length
+  const closes = (repaired.match(/}/g) || []).length
+  if (opens > closes) {
+    repaired += '}'.repeat(opens - closes)
+  }
+
+  return repaired
+}
+
+function parseJsonLoose(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return JSON.parse(repairJson(text))
+  }
+}
+
+/**
+ * 从模型回复中解析工具调用
+ */
+export function parsePromptToolCalls(text: string, tools: ToolDefinition[], idPrefix: string): PromptToolParseResult {
+  const toolMap = new Map(tools.map(t => [t.function.name, t]))
+  const toolCalls: ToolCall[] = []
+  const errors: string[] = []
+
+  const content = text.replace(FENCE_PATTERN, (block, lang: string | undefined, body: string) => {
+    // 普通 json 代码块只有看起来像工具调用时才处理
+    if (lang !== TOOL_CALL_FENCE && !/"name"\s*:/.test(body)) {
+      return block
+    }
+
+    let parsed: unknown
+    try {
+      parsed = parseJsonLoose(body)
+    } catch (e) {
+      errors.push(`无法解析的 JSON: ${(e as Error).message}\n${body.trim().slice(0, 200)}`)
+      return ''
+    }
+
+    const call = parsed as { name?: unknown; arguments?: unknown; parameters?: unknown }
+    if (typeof call.name !== 'string' || !call.name) {
+      errors.push(`缺少 "name" 字段: ${body.trim().slice(0, 200)}`)
+      return ''
+    }
+
+    const tool = toolMap.get(call.name)
+    if (!tool) {
+      errors.push(`未知工具 "${call.name}"，可用工具: ${tools.map(t => t.function.name).join(', ')}`)
+      return ''
+    }
+
+    // 兼容 parameters 字段以及字符串形式的 arguments
+    let args: unknown = call.arguments ?? call.parameters ?? {}
+    if (typeof args === 'string') {
+      try {
+        args = parseJsonLoose(args)
+      } catch {
+        errors.push(`工具 ${call.name} 的 arguments 不是合法 JSON`)
+        return ''
+      }
+    }
+    if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+      errors.push(`工具 ${call.name} 的 arguments 必须是对象`)
+      return ''
+    }
+
+    const argObject = args as Record<string, unknown>
+    const missing = (tool.function.parameters.required || []).filter(key => !(key in argObject))
+    if (missing.length > 0) {
+      errors.push(`工具 ${call.name} 缺少必填参数: ${missing.join(', ')}`)
+      return ''
+    }
+
+    toolCalls.push({
+      id: `${idPrefix}_${toolCalls.length}`,
+      type: 'function',
+      function: {
+        name: call.name,
+        arguments: JSON.stringify(argObject)
+      }
+    })
+    return ''
+  })
+
+  return { content: content.replace(/\n{3,}/g, '\n\n').trim(), toolCalls, errors }
+}
+
+/**
+ * 生成修复提示，要求模型重新输出格式正确的工具调用
+ */
+export function buildToolCallRepairPrompt(errors: string[]): string {
+  return `[工具调用格式错误]
+${errors.map(e => `- ${e}`).join('\n')}
+
+请重新输出格式正确的 \`\`\`${TOOL_CALL_FENCE} 代码块，内容为 {"name": "...", "arguments": {...}} 形式的合法 JSON。`
+}
+
+/**
+ * 将工具执行结果格式化为用户消息
+ */
+export function formatPromptToolResult(toolName: string, output: string): string {
+  return `[工具结果] ${toolName}\n${output}`
+}
@@ -2,6 +2,7 @@
  * 命令风险评估
  */
 import type { RiskLevel } from './types'
+import type { RiskPolicyConfig, RiskPolicyRule } from '../config.service'
 
 /**
  * 命令处理信息
@@ -216,67 +217,279 @@ export function detectInteractiveCommand(command: string): InteractiveCommandInf
   return { isInteractive: false }
 }
 
+// 黑名单 - 直接拒绝
+const BLOCKED_PATTERNS = [
+  /rm\s+(-[rf]+\s+)*\/(?:\s|$)/,    // rm -rf /
+  /rm\s+(-[rf]+\s+)*\/\*/,           // rm -rf /*
+  /:\(\)\{.*:\|:.*\}/,               // fork bomb
+  /mkfs\./,                           // 格式化磁盘
+  /dd\s+.*of=\/dev\/[sh]d[a-z]/,     // dd 写入磁盘
+  />\s*\/dev\/[sh]d[a-z]/,           // 重定向到磁盘
+  /chmod\s+777\s+\//,                 // chmod 777 /
+  /chown\s+.*\s+\//,                  // chown /
+  />\s*\/etc\/(passwd|shadow|sudoers)/, // 清空系统关键文件
+]
+
+// 高危 - 需要确认
+const DANGEROUS_PATTERNS = [
+  /\brm\s+(-[rf]+\s+)*/,             // rm 命令
+  /\bkill\s+(-9\s+)?/,               // kill 命令
+  /\bkillall\b/,                      // killall
+  /\bpkill\b/,                        // pkill
+  /\bchmod\s+/,                       // chmod
+  /\bchown\s+/,                       // chown
+  /\bshutdown\b/,                     // shutdown
+  /\breboot\b/,                       // reboot
+  /\bhalt\b/,                         // halt
+  /\bpoweroff\b/,                     // poweroff
+  /\bsystemctl\s+(stop|restart|disable)/, // systemctl 危险操作
+  /\bservice\s+\w+\s+(stop|restart)/,     // service 停止/重启
+  /\bapt\s+remove/,                   // apt remove
+  /\byum\s+remove/,                   // yum remove
+  /\bdnf\s+remove/,                   // dnf remove
+  />\s*\/etc\//,                      // 重定向到 /etc
+  />\s*\/var\//,                      // 重定向到 /var
+  /\bcurl\s+.*\|\s*(ba)?sh/,          // curl ... | bash (远程代码执行)
+  /\bwget\s+.*-O\s*-?\s*\|\s*(ba)?sh/, // wget -O- | sh (远程代码执行)
+]
+
+// 中危 - 显示但可自动执行
+const MODERATE_PATTERNS = [
+  /\bmv\s+/,                          // mv
+  /\bcp\s+/,                          // cp
+  /\bmkdir\s+/,                       // mkdir
+  /\btouch\s+/,                       // touch
+  /\bsystemctl\s+(start|enable|status)/, // systemctl 非危险操作
+  /\bservice\s+\w+\s+start/,          // service start
+  /\bapt\s+install/,                  // apt install
+  /\byum\s+install/,                  // yum install
+  /\bdnf\s+install/,                  // dnf install
+  /\bnpm\s+install/,                  // npm install
+  /\bpip\s+install/,                  // pip install
+  /\bgit\s+(pull|push|commit)/        // git 修改操作
+]
+
+/**
+ * 是否命中内置黑名单（不受用户风险策略影响）
+ */
+function isBuiltinBlocked(command: string): boolean {
+  const cmd = command.toLowerCase().trim()
+  return BLOCKED_PATTERNS.some(p => p.test(cmd))
+}
+
 /**
- * 评估命令风险等级
+ * 评估命令风险等级（内置规则）
  */
 export function assessCommandRisk(command: string): RiskLevel {
   const cmd = command.toLowerCase().trim()
 
-  // 黑名单 - 直接拒绝
-  const blocked = [
-    /rm\s+(-[rf]+\s+)*\/(?:\s|$)/,    // rm -rf /
-    /rm\s+(-[rf]+\s+)*\/\*/,           // rm -rf /*
-    /:\(\)\{.*:\|:.*\}/,               // fork bomb
-    /mkfs\./,                           // 格式化磁盘
-    /dd\s+.*of=\/dev\/[sh]d[a-z]/,     // dd 写入磁盘
-    />\s*\/dev\/[sh]d[a-z]/,           // 重定向到磁盘
-    /chmod\s+777\s+\//,                 // chmod 777 /
-    /chown\s+.*\s+\//,                  // chown /
-    />\s*\/etc\/(passwd|shadow|sudoers)/, // 清空系统关键文件
-  ]
-  if (blocked.some(p => p.test(cmd))) return 'blocked'
-
-  // 高危 - 需要确认
-  const dangerous = [
-    /\brm\s+(-[rf]+\s+)*/,             // rm 命令
-    /\bkill\s+(-9\s+)?/,               // kill 命令
-    /\bkillall\b/,                      // killall
-    /\bpkill\b/,                        // pkill
-    /\bchmod\s+/,                       // chmod
-    /\bchown\s+/,                       // chown
-    /\bshutdown\b/,                     // shutdown
-    /\breboot\b/,                       // reboot
-    /\bhalt\b/,                         // halt
-    /\bpoweroff\b/,                     // poweroff
-    /\bsystemctl\s+(stop|restart|disable)/, // systemctl 危险操作
-    /\bservice\s+\w+\s+(stop|restart)/,     // service 停止/重启
-    /\bapt\s+remove/,                   // apt remove
-    /\byum\s+remove/,                   // yum remove
-    /\bdnf\s+remove/,                   // dnf remove
-    />\s*\/etc\//,                      // 重定向到 /etc
-    />\s*\/var\//,                      // 重定向到 /var
-    /\bcurl\s+.*\|\s*(ba)?sh/,          // curl ... | bash (远程代码执行)
-    /\bwget\s+.*-O\s*-?\s*\|\s*(ba)?sh/, // wget -O- | sh (远程代码执行)
-  ]
-  if (dangerous.some(p => p.test(cmd))) return 'dangerous'
-
-  // 中危 - 显示但可自动执行
-  const moderate = [
-    /\bmv\s+/,                          // mv
-    /\bcp\s+/,                          // cp
-    /\bmkdir\s+/,                       // mkdir
-    /\btouch\s+/,                       // touch
-    /\bsystemctl\s+(start|enable|status)/, // systemctl 非危险操作
-    /\bservice\s+\w+\s+start/,          // service start
-    /\bapt\s+install/,                  // apt install
-    /\byum\s+install/,                  // yum install
-    /\bdnf\s+install/,                  // dnf install
-    /\bnpm\s+install/,                  // npm install
-    /\bpip\s+install/,                  // pip install
-    /\bgit\s+(pull|push|commit)/        // git 修改操作
-  ]
-  if (moderate.some(p => p.test(cmd))) return 'moderate'
+  if (isBuiltinBlocked(cmd)) return 'blocked'
+  if (DANGEROUS_PATTERNS.some(p => p.test(cmd))) return 'dangerous'
+  if (MODERATE_PATTERNS.some(p => p.test(cmd))) return 'moderate'
 
   // 安全 - 直接执行
   return 'safe'
 }
+
+// ==================== 用户风险策略 ====================
+
+// 策略导入导出文件格式标识
+export const RISK_POLICY_FORMAT = 'sfterm-risk-policy'
+export const RISK_POLICY_VERSION = 1
+
+/**
+ * 策略匹配使用的目标主机信息
+ */
+export interface RiskPolicyContext {
+  /** 主机标识：user@host 或 local */
+  hostId?: string
+  /** 主机名 */
+  hostname?: string
+  /** 会话所属分组名 */
+  groupName?: string
+}
+
+/**
+ * 风险评估结果
+ */
+export interface RiskAssessment {
+  level: RiskLevel
+  /** policy: 命中用户规则，builtin: 内置规则，default: 未启用内置规则时的默认值 */
+  source: 'policy' | 'builtin' | 'default'
+  rule?: RiskPolicyRule
+  /** 被阻止时的说明 */
+  reason?: string
+}
+
+const ACTION_RISK_LEVEL: Record<RiskPolicyRule['action'], RiskLevel> = {
+  allow: 'safe',
+  confirm: 'dangerous',
+  deny: 'blocked'
+}
+
+/**
+ * 主机名通配符匹配（支持 * 和 ?，不区分大小写）
+ */
+function matchHostnamePattern(pattern: string, hostname: string): boolean {
+  const source = pattern
+    .split('')
+    .map(ch => ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('')
+  return new RegExp(`^${source}$`, 'i').test(hostname)
+}
+
+/**
+ * 判断规则的作用范围是否包含目标主机
+ */
+function matchRuleScope(rule: RiskPolicyRule, context: RiskPolicyContext): boolean {
+  const value = rule.scopeValue?.trim()
+  switch (rule.scope) {
+    case 'all':
+      return true
+    case 'host':
+      return !!value && !!context.hostId && context.hostId.toLowerCase() === value.toLowerCase()
+    case 'group':
+      return !!value && !!context.groupName && context.groupName.toLowerCase() === value.toLowerCase()
+    case 'hostname':
+      return !!value && !!context.hostname && matchHostnamePattern(value, context.hostname)
+    default:
+      return false
+  }
+}
+
+/**
+ * 规则的命令匹配，无效的正则视为不匹配
+ */
+function matchRulePattern(rule: RiskPolicyRule, command: string): boolean {
+  try {
+    return new RegExp(rule.pattern, 'i').test(command)
+  } catch {
+    return false
+  }
+}
+
+// 复合命令：包含命令分隔、管道、后台执行、命令替换或重定向
+const COMPOUND_COMMAND_PATTERN = /[;&|`\n<>]|\$\(/
+
+/**
+ * 按用户策略评估命令风险
+ * 内置黑名单始终生效；之后规则按顺序匹配，第一条命中的规则生效；没有命中时回退到内置规则
+ * 允许规则不作用于复合命令，避免 `允许的命令; 其他命令` 整体被放行
+ */
+export function evaluateCommandRisk(
+  command: string,
+  policy: RiskPolicyConfig,
+  context: RiskPolicyContext = {}
+): RiskAssessment {
+  const cmd = command.trim()
+  if (isBuiltinBlocked(cmd)) {
+    return { level: 'blocked', source: 'builtin', reason: '命令命中内置的禁止规则' }
+  }
+
+  const compound = COMPOUND_COMMAND_PATTERN.test(cmd)
+  let skippedAllowRule: RiskPolicyRule | undefined
+  for (const rule of policy.rules) {
+    if (!rule.enabled || !rule.pattern) continue
+    if (matchRuleScope(rule, context) && matchRulePattern(rule, cmd)) {
+      if (rule.action === 'allow' && compound) {
+        skippedAllowRule = skippedAllowRule ?? rule
+        continue
+      }
+      return { level: ACTION_RISK_LEVEL[rule.action], source: 'policy', rule }
+    }
+  }
+
+  // 跳过允许规则时说明原因（用于策略测试预览）
+  const reason = skippedAllowRule
+    ? `复合命令不适用允许规则「${skippedAllowRule.name || skippedAllowRule.pattern}」`
+    : undefined
+  if (policy.useBuiltinRules) {
+    return { level: assessCommandRisk(cmd), source: 'builtin', reason }
+  }
+  return { level: 'safe', source: 'default', reason }
+}
+
+const RISK_LEVEL_ORDER: RiskLevel[] = ['safe', 'moderate', 'dangerous', 'blocked']
+
+/**
+ * 应用任务的风险上限（如 Playbook 限定的最高风险等级），超过上限的命令被阻止
+ */
+export function applyRiskCeiling(assessment: RiskAssessment, ceiling?: RiskLevel): RiskAssessment {
+  if (!ceiling || assessment.level === 'blocked') return assessment
+  if (RISK_LEVEL_ORDER.indexOf(assessment.level) <= RISK_LEVEL_ORDER.indexOf(ceiling)) {
+    return assessment
+  }
+  return {
+    ...assessment,
+    level: 'blocked',
+    reason: `命令风险等级（${assessment.level}）超过本次任务允许的上限（${ceiling}）`
+  }
+}
+
+/**
+ * 校验导入的策略文件，返回规范化后的策略
+ * @throws 格式不正确时抛出错误
+ */
+export function parseRiskPolicy(data: unknown): RiskPolicyConfig {
+  if (!data || typeof data !== 'object') {
+    throw new Error('策略文件格式不正确')
+  }
+  const raw = data as Record<string, unknown>
+  if (raw.format !== undefined && raw.format !== RISK_POLICY_FORMAT) {
+    throw new Error('不是风险策略文件')
+  }
+  if (typeof raw.version === 'number' && raw.version > RISK_POLICY_VERSION) {
+    throw new Error(`不支持的策略文件版本: ${raw.version}`)
+  }
+  if (!Array.isArray(raw.rules)) {
+    throw new Error('策略文件缺少 rules 列表')
+  }
+
+  const actions: RiskPolicyRule['action'][] = ['allow', 'confirm', 'deny']
+  const scopes: RiskPolicyRule['scope'][] = ['all', 'host', 'group', 'hostname']
+  const rules = raw.rules.map((item, index): RiskPolicyRule => {
+    const rule = (item || {}) as Record<string, unknown>
+    const position = index + 1
+    if (typeof rule.pattern !== 'string' || !rule.pattern) {
+      throw new Error(`第 ${position} 条规则缺少 pattern`)
+    }
+    try {
+      new RegExp(rule.pattern, 'i')
+    } catch {
+      throw new Error(`第 ${position} 条规则的正则表达式无效: ${rule.pattern}`)
+    }
+    if (!actions.includes(rule.action as RiskPolicyRule['action'])) {
+      throw new Error(`第 ${position} 条规则的 action 无效: ${String(rule.action)}`)
+    }
+    const scope = (rule.scope ?? 'all') as RiskPolicyRule['scope']
+    if (!scopes.includes(scope)) {
+      throw new Error(`第 ${position} 条规则的 scope 无效: ${String(rule.scope)}`)
+    }
+    return {
+      id: typeof rule.id === 'string' && rule.id ? rule.id : `rule-${Date.now()}-${index}`,
+      name: typeof rule.name === 'string' ? rule.name : undefined,
+      enabled: rule.enabled !== false,
+      pattern: rule.pattern,
+      action: rule.action as RiskPolicyRule['action'],
+      scope,
+      scopeValue: scope !== 'all' && typeof rule.scopeValue === 'string' ? rule.scopeValue : undefined
+    }
+  })
+
+  return {
+    useBuiltinRules: raw.useBuiltinRules !== false,
+    rules
+  }
+}
+
+/**
+ * 生成策略导出文件内容
+ */
+export function serializeRiskPolicy(policy: RiskPolicyConfig): string {
+  return JSON.stringify({
+    format: RISK_POLICY_FORMAT,
+    version: RISK_POLICY_VERSION,
+    useBuiltinRules: policy.useBuiltinRules,
+    rules: policy.rules
+  }, null, 2)
+}
@@ -1,8 +1,6 @@
 /**
  * Agent 工具执行器
  */
-import * as fs from 'fs'
-import * as path from 'path'
 import stripAnsi from 'strip-ansi'
 import type { ToolCall } from '../ai.service'
 import type { McpService } from '../mcp.service'
@@ -12,14 +10,23 @@ import type {
   ToolResult, 
   RiskLevel,
   PendingConfirmation,
-  HostProfileServiceInterface 
+  HostProfileServiceInterface,
+  AgentTarget
 } from './types'
-import { assessCommandRisk, analyzeCommand, isSudoCommand, detectPasswordPrompt } from './risk-assessor'
+import { TARGETED_TOOLS } from './tools'
+import { analyzeCommand, isSudoCommand, detectPasswordPrompt, applyRiskCeiling } from './risk-assessor'
+import type { RiskAssessment } from './risk-assessor'
 import { getKnowledgeService } from '../knowledge'
 import { getTerminalStateService } from '../terminal-state.service'
 import { getTerminalAwarenessService, getProcessMonitor } from '../terminal-awareness'
 import { getLastNLinesFromBuffer, getScreenAnalysisFromFrontend } from '../screen-content.service'
 import type { UnifiedTerminalInterface } from '../unified-terminal.service'
+import { backupFile } from './file-access'
+import type { AgentFileAccess, AgentFileStat } from './file-access'
+import { createUnifiedDiff } from './diff'
+import { createTaskPlan, updateStepStatus, getReadyParallelSteps, formatPlanAsText } from './planner'
+import type { TaskPlan, TaskStep, TaskStepStatus, DependencyType } from './planner'
+import type { CommandResult } from '../command-executor.service'
 
 // 错误分类
 type ErrorCategory = 'transient' | 'permission' | 'not_found' | 'timeout' | 'fatal'
@@ -123,6 +130,9 @@ async function withRetry<T>(
   throw lastError
 }
 
+// 覆盖/追加写入时读取原文件生成差异预览的大小上限
+const MAX_DIFF_PREVIEW_SIZE = 1024 * 1024
+
 // 工具执行器配置
 export interface ToolExecutorConfig {
   /** 统一终端服务（支持 PTY 和 SSH） */
@@ -135,14 +145,25 @@ export interface ToolExecutorConfig {
     toolCallId: string,
     toolName: string,
     toolArgs: Record<string, unknown>,
-    riskLevel: RiskLevel
+    riskLevel: RiskLevel,
+    diff?: string  // 写入文件时的差异预览（unified diff）
   ) => Promise<boolean>
+  waitForPlanApproval: (plan: TaskPlan) => Promise<boolean>  // 等待用户审批计划（无人值守运行直接通过）
   isAborted: () => boolean
   getHostId: () => string | undefined
   hasPendingUserMessage: () => boolean  // 检查是否有待处理的用户消息
   peekPendingUserMessage: () => string | undefined  // 查看（不消费）第一条待处理消息
   consumePendingUserMessage: () => string | undefined  // 消费并返回第一条待处理消息
   getRealtimeTerminalOutput: () => string[]  // 获取实时终端输出（Agent 运行期间收集）
+  getTargets: () => AgentTarget[]  // 多终端任务的目标终端（第一个为当前终端）
+  getFileAccess: (ptyId: string) => Promise<AgentFileAccess>  // 文件工具的访问方式（本地文件系统 / SSH 会话的 SFTP 通道）
+  captureFileSnapshot: (ptyId: string, access: AgentFileAccess, filePath: string) => Promise<void>  // 首次修改文件前保存原始内容（用于撤销本次运行的修改）
+  assessRisk: (ptyId: string, command: string) => RiskAssessment  // 按用户风险策略和内置规则评估命令风险（已应用风险上限）
+  getRiskCeiling: () => RiskLevel | undefined  // 本次任务的风险上限（由 Playbook 或本地接入请求指定）
+  getUserTask: () => string  // 用户原始任务
+  getPlan: () => TaskPlan | undefined  // 当前任务计划
+  setPlan: (plan: TaskPlan) => void  // 更新任务计划（同步到界面）
+  execInBackground: (ptyId: string, command: string, timeout: number) => Promise<CommandResult>  // 在不占用终端的后台通道执行命令
 }
 
 /**
@@ -168,6 +189,28 @@ export async function executeTool(
     return { success: false, output: '', error: '工具参数解析失败' }
   }
 
+  // 多终端任务：按 target 参数切换终端，步骤和主机档案都归属到目标终端
+  const targets = executor.getTargets()
+  if (targets.length > 1 && TARGETED_TOOLS.includes(name)) {
+    const targetId = (args.target as string | undefined) || targets[0].id
+    const target = targets.find(t => t.id === targetId)
+    if (!target) {
+      return {
+        success: false,
+        output: '',
+        error: `未知的目标终端: ${targetId}，可用目标: ${targets.map(t => t.id).join(', ')}`
+      }
+    }
+    ptyId = target.ptyId
+    const baseExecutor = executor
+    executor = {
+      ...baseExecutor,
+      addStep: (step) => baseExecutor.addStep({ ...step, target: target.id }),
+      updateStep: (stepId, updates) => baseExecutor.updateStep(stepId, { ...updates, target: target.id }),
+      getHostId: () => target.hostId
+    }
+  }
+
   // 根据工具类型执行
   switch (name) {
     case 'execute_command':
@@ -183,7 +226,7 @@ export async function executeTool(
       return sendControlKey(ptyId, args, executor)
 
     case 'send_input':
-      return sendInput(ptyId, args, executor)
+      return sendInput(ptyId, args, toolCall.id, config, executor)
 
     case 'read_file':
       return readFile(ptyId, args, executor)
@@ -201,12 +244,25 @@ export async function executeTool(
       return wait(args, executor)
 
     case 'ask_user':
+      // 无人值守运行时没有用户可以回答
+      if (config.unattended) {
+        return { success: false, output: '', error: '当前为无人值守运行，无法向用户提问，请根据已有信息自行判断或在总结中说明' }
+      }
       return askUser(args, executor)
 
+    case 'create_plan':
+      return createPlan(args, executor)
+
+    case 'update_plan_step':
+      return updatePlanStep(args, executor)
+
+    case 'run_parallel_steps':
+      return runParallelSteps(ptyId, args, toolCall.id, config, executor)
+
     default:
       // 检查是否是 MCP 工具调用
       if (name.startsWith('mcp_') && executor.mcpService) {
-        return executeMcpTool(name, args, toolCall.id, executor)
+        return executeMcpTool(name, args, toolCall.id, config, executor)
       }
       return { success: false, output: '', error: `未知工具: ${name}` }
   }
@@ -219,6 +275,7 @@ async function executeMcpTool(
   fullName: string,
   args: Record<string, unknown>,
   toolCallId: string,
+  config: AgentConfig,
   executor: ToolExecutorConfig
 ): Promise<ToolResult> {
   if (!executor.mcpService) {
@@ -238,6 +295,15 @@ async function executeMcpTool(
     return { success: false, output: '', error: `MCP 服务器 ${serverId} 未连接` }
   }
 
+  // 受限运行中 MCP 工具按中风险处理：超过风险上限时阻止，否则需要确认（无人值守运行会被拒绝）
+  const restricted = isRestrictedRun(config, executor)
+  if (restricted) {
+    const assessment = applyRiskCeiling({ level: 'moderate', source: 'builtin' }, executor.getRiskCeiling())
+    if (assessment.level === 'blocked') {
+      return { success: false, output: '', error: describeBlockedCommand(assessment) }
+    }
+  }
+
   // 添加工具调用步骤
   executor.addStep({
     type: 'tool_call',
@@ -247,6 +313,13 @@ async function executeMcpTool(
     riskLevel: 'moderate'
   })
 
+  if (restricted) {
+    const approved = await executor.waitForConfirmation(toolCallId, fullName, args, 'moderate')
+    if (!approved) {
+      return { success: false, output: '', error: '用户拒绝调用该 MCP 工具' }
+    }
+  }
+
   try {
     const result = await executor.mcpService.callTool(serverId, toolName, args)
 
@@ -378,27 +451,19 @@ async function executeCommand(
     command = handling.fixedCommand
   }
 
-  // 评估风险
-  const riskLevel = assessCommandRisk(command)
+  // 评估风险（用户策略优先，未命中时使用内置规则）
+  const assessment = executor.assessRisk(ptyId, command)
+  const riskLevel = assessment.level
 
   // 检查是否被安全策略阻止
   if (riskLevel === 'blocked') {
-    return { 
-      success: false, 
-      output: '', 
-      error: '该命令被安全策略阻止执行' 
-    }
+    return { success: false, output: '', error: describeBlockedCommand(assessment) }
   }
 
   // 严格模式：所有命令都需要确认（包括自动修正和限时执行的命令）
+  // 策略规则：confirm 始终需要确认，allow 直接执行
   // 普通模式：根据风险级别决定，自动修正和限时执行的命令可以自动执行
-  const needConfirm = config.strictMode || (
-    handling.strategy === 'allow' && (
-      (riskLevel === 'dangerous') ||
-      (riskLevel === 'moderate' && !config.autoExecuteModerate) ||
-      (riskLevel === 'safe' && !config.autoExecuteSafe)
-    )
-  )
+  const needConfirm = requiresConfirmation(assessment, config, handling.strategy === 'allow')
 
   // 添加工具调用步骤（统一显示最终要执行的命令）
   executor.addStep({
@@ -866,6 +931,40 @@ async function executeTimedCommand(
   })
 }
 
+/**
+ * 命令被阻止的原因
+ */
+function describeBlockedCommand(assessment: RiskAssessment): string {
+  const ruleName = assessment.rule ? (assessment.rule.name || assessment.rule.pattern) : ''
+  if (assessment.reason) return `该命令被阻止执行：${assessment.reason}`
+  if (ruleName) return `该命令被风险策略规则「${ruleName}」阻止执行`
+  return '该命令被安全策略阻止执行'
+}
+
+/**
+ * 是否为受限运行（无人值守或指定了风险上限）
+ * 受限运行中所有能执行操作的工具都要经过风险评估，不能绕过风险上限
+ */
+function isRestrictedRun(config: AgentConfig, executor: ToolExecutorConfig): boolean {
+  return !!config.unattended || !!executor.getRiskCeiling()
+}
+
+/**
+ * 判断命令是否需要用户确认
+ * @param byRiskLevel 是否按风险等级判断（自动修正和限时执行的命令为 false）
+ */
+function requiresConfirmation(assessment: RiskAssessment, config: AgentConfig, byRiskLevel: boolean): boolean {
+  const riskLevel = assessment.level
+  const policyAction = assessment.source === 'policy' ? assessment.rule?.action : undefined
+  return config.strictMode || policyAction === 'confirm' || (
+    policyAction !== 'allow' && byRiskLevel && (
+      (riskLevel === 'dangerous') ||
+      (riskLevel === 'moderate' && !config.autoExecuteModerate) ||
+      (riskLevel === 'safe' && !config.autoExecuteSafe)
+    )
+  )
+}
+
 /**
  * 从后向前截断字符串，保留最新的内容
  * @param text 要截断的文本
@@ -1283,6 +1382,8 @@ async function sendControlKey(
 async function sendInput(
   ptyId: string,
   args: Record<string, unknown>,
+  toolCallId: string,
+  config: AgentConfig,
   executor: ToolExecutorConfig
 ): Promise<ToolResult> {
   const text = args.text as string
@@ -1297,14 +1398,33 @@ async function sendInput(
     return { success: false, output: '', error: '输入文本过长（最大 1000 字符），请使用 write_file 工具处理大量内容' }
   }
 
+  // 受限运行中输入的文本可能被 shell 当作命令执行（包括先输入再单独发送回车），按命令评估风险
+  let riskLevel: RiskLevel = 'safe'
+  let needConfirm = false
+  if (isRestrictedRun(config, executor) && text.trim()) {
+    const assessment = executor.assessRisk(ptyId, text.trim())
+    if (assessment.level === 'blocked') {
+      return { success: false, output: '', error: describeBlockedCommand(assessment) }
+    }
+    riskLevel = assessment.level
+    needConfirm = requiresConfirmation(assessment, config, true)
+  }
+
   executor.addStep({
     type: 'tool_call',
     content: `发送输入: "${text}"${pressEnter ? ' + Enter' : ''}`,
     toolName: 'send_input',
     toolArgs: { text, press_enter: pressEnter },
-    riskLevel: 'safe'
+    riskLevel
   })
 
+  if (needConfirm) {
+    const approved = await executor.waitForConfirmation(toolCallId, 'send_input', { text, press_enter: pressEnter }, riskLevel)
+    if (!approved) {
+      return { success: false, output: '', error: '用户拒绝发送该输入' }
+    }
+  }
+
   try {
     // 发送文本
     executor.terminalService.write(ptyId, text)
@@ -1338,25 +1458,40 @@ async function sendInput(
   }
 }
 
+/**
+ * 获取终端的文件访问方式，并基于终端当前工作目录解析路径
+ */
+async function resolveFileTarget(
+  ptyId: string,
+  filePath: string,
+  executor: ToolExecutorConfig
+): Promise<{ access: AgentFileAccess; filePath: string }> {
+  const access = await executor.getFileAccess(ptyId)
+  const cwd = getTerminalStateService().getCwd(ptyId)
+  return { access, filePath: await access.resolvePath(filePath, cwd) }
+}
+
 /**
  * 读取文件
  * 支持多种读取方式：完整读取、按行范围读取、从开头/末尾读取、仅查询文件信息
+ * SSH 终端通过会话的 SFTP 通道读取远程文件
  */
-function readFile(
+async function readFile(
   ptyId: string,
   args: Record<string, unknown>,
   executor: ToolExecutorConfig
-): ToolResult {
-  let filePath = args.path as string
-  if (!filePath) {
+): Promise<ToolResult> {
+  if (!args.path) {
     return { success: false, output: '', error: '文件路径不能为空' }
   }
 
-  // 如果是相对路径，基于终端当前工作目录解析
-  if (!path.isAbsolute(filePath)) {
-    const terminalStateService = getTerminalStateService()
-    const cwd = terminalStateService.getCwd(ptyId)
-    filePath = path.resolve(cwd, filePath)
+  let access: AgentFileAccess
+  let filePath: string
+  try {
+    ({ access, filePath } = await resolveFileTarget(ptyId, args.path as string, executor))
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : '无法访问文件'
+    return { success: false, output: '', error: errorMsg }
   }
 
   const infoOnly = args.info_only === true
@@ -1367,17 +1502,22 @@ function readFile(
 
   executor.addStep({
     type: 'tool_call',
-    content: `读取文件: ${filePath}${infoOnly ? ' (仅查询信息)' : ''}`,
+    content: `读取${access.remote ? '远程' : ''}文件: ${filePath}${infoOnly ? ' (仅查询信息)' : ''}`,
     toolName: 'read_file',
     toolArgs: args,
     riskLevel: 'safe'
   })
 
   try {
-    const stats = fs.statSync(filePath)
+    const stats = await access.stat(filePath)
+    if (!stats) {
+      throw new Error(`No such file or directory: ${filePath}`)
+    }
+    if (stats.isDirectory) {
+      throw new Error(`路径是目录而不是文件: ${filePath}`)
+    }
     const fileSize = stats.size
     const sizeMB = (fileSize / (1024 * 1024)).toFixed(2)
-    const sizeKB = (fileSize / 1024).toFixed(2)
 
     // 如果只查询文件信息
     if (infoOnly) {
@@ -1389,19 +1529,14 @@ function readFile(
       try {
         // 对于小文件，直接读取全部
         if (fileSize <= 10 * 1024 * 1024) { // 10MB 以下
-          const fullContent = fs.readFileSync(filePath, 'utf-8')
+          const fullContent = await access.readFile(filePath)
           const lines = fullContent.split('\n')
           totalLines = lines.length
           sampleContent = lines.slice(0, 10).join('\n') // 前10行作为预览
         } else {
           // 对于大文件，只读取前 100KB 来估算
           const sampleSize = Math.min(100 * 1024, fileSize)
-          const buffer = Buffer.alloc(sampleSize)
-          const fd = fs.openSync(filePath, 'r')
-          fs.readSync(fd, buffer, 0, sampleSize, 0)
-          fs.closeSync(fd)
-          
-          const sample = buffer.toString('utf-8')
+          const sample = await access.readFile(filePath, sampleSize)
           const sampleLines = sample.split('\n')
           // 基于采样估算总行数
           const avgLineLength = sample.length / sampleLines.length
@@ -1438,7 +1573,7 @@ ${sampleContent ? `### 文件预览（前10行）\n\`\`\`\n${sampleContent}\n\`\
 
     // 如果指定了行范围
     if (startLine !== undefined || endLine !== undefined) {
-      const fullContent = fs.readFileSync(filePath, 'utf-8')
+      const fullContent = await access.readFile(filePath)
       const allLines = fullContent.split('\n')
       const start = startLine !== undefined ? Math.max(1, startLine) - 1 : 0 // 转换为0-based索引
       const end = endLine !== undefined ? Math.min(allLines.length, endLine) : allLines.length
@@ -1447,14 +1582,14 @@ ${sampleContent ? `### 文件预览（前10行）\n\`\`\`\n${sampleContent}\n\`\
     }
     // 如果指定了最大行数（从开头读取）
     else if (maxLines !== undefined) {
-      const fullContent = fs.readFileSync(filePath, 'utf-8')
+      const fullContent = await access.readFile(filePath)
       const allLines = fullContent.split('\n')
       actualLines = allLines.slice(0, maxLines)
       content = actualLines.join('\n')
     }
     // 如果指定了从末尾读取的行数
     else if (tailLines !== undefined) {
-      const fullContent = fs.readFileSync(filePath, 'utf-8')
+      const fullContent = await access.readFile(filePath)
       const allLines = fullContent.split('\n')
       actualLines = allLines.slice(-tailLines)
       content = actualLines.join('\n')
@@ -1476,7 +1611,7 @@ ${sampleContent ? `### 文件预览（前10行）\n\`\`\`\n${sampleContent}\n\`\
         })
         return { success: false, output: '', error: errorMsg }
       }
-      content = fs.readFileSync(filePath, 'utf-8')
+      content = await access.readFile(filePath)
       actualLines = content.split('\n')
     }
 
@@ -1520,6 +1655,7 @@ ${sampleContent ? `### 文件预览（前10行）\n\`\`\`\n${sampleContent}\n\`\
 /**
  * 写入文件
  * 支持多种模式：overwrite（覆盖）、append（追加）、insert（插入）、replace_lines（行替换）、regex_replace（正则替换）
+ * 修改已有文件前自动备份；SSH 终端通过会话的 SFTP 通道写入远程文件
  */
 async function writeFile(
   ptyId: string,
@@ -1527,7 +1663,7 @@ async function writeFile(
   toolCallId: string,
   executor: ToolExecutorConfig
 ): Promise<ToolResult> {
-  let filePath = args.path as string
+  const rawPath = args.path as string
   const content = args.content as string | undefined
   const mode = (args.mode as string) || 'overwrite'
   const insertAtLine = args.insert_at_line as number | undefined
@@ -1537,7 +1673,7 @@ async function writeFile(
   const replacement = args.replacement as string | undefined
   const replaceAll = args.replace_all !== false // 默认 true
 
-  if (!filePath) {
+  if (!rawPath) {
     return { success: false, output: '', error: '文件路径不能为空' }
   }
 
@@ -1578,33 +1714,71 @@ async function writeFile(
     }
   }
 
-  // 如果是相对路径，基于终端当前工作目录解析
-  if (!path.isAbsolute(filePath)) {
-    const terminalStateService = getTerminalStateService()
-    const cwd = terminalStateService.getCwd(ptyId)
-    filePath = path.resolve(cwd, filePath)
+  // 写入文件按中风险处理，超过任务的风险上限时阻止
+  const ceilingAssessment = applyRiskCeiling({ level: 'moderate', source: 'builtin' }, executor.getRiskCeiling())
+  if (ceilingAssessment.level === 'blocked') {
+    return { success: false, output: '', error: `该操作被阻止执行：${ceilingAssessment.reason}` }
+  }
+
+  let access: AgentFileAccess
+  let filePath: string
+  try {
+    ({ access, filePath } = await resolveFileTarget(ptyId, rawPath, executor))
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : '无法访问文件'
+    return { success: false, output: '', error: errorMsg }
   }
+  const location = access.remote ? '远程' : ''
 
   // 生成操作描述
   let operationDesc = ''
   switch (mode) {
     case 'overwrite':
-      operationDesc = `覆盖写入文件: ${filePath}`
+      operationDesc = `覆盖写入${location}文件: ${filePath}`
       break
     case 'append':
-      operationDesc = `追加写入文件: ${filePath}`
+      operationDesc = `追加写入${location}文件: ${filePath}`
       break
     case 'insert':
-      operationDesc = `在第 ${insertAtLine} 行插入内容: ${filePath}`
+      operationDesc = `在第 ${insertAtLine} 行插入内容: ${location}${filePath}`
       break
     case 'replace_lines':
-      operationDesc = `替换第 ${startLine}-${endLine} 行: ${filePath}`
+      operationDesc = `替换第 ${startLine}-${endLine} 行: ${location}${filePath}`
       break
     case 'regex_replace':
-      operationDesc = `正则替换 (${replaceAll ? '全部' : '首个'}): ${filePath}`
+      operationDesc = `正则替换 (${replaceAll ? '全部' : '首个'}): ${location}${filePath}`
       break
   }
 
+  // 确认前先读取原文件并计算写入结果，用于差异预览（参数错误在确认前直接返回）
+  let stats: AgentFileStat | null
+  let original: string | undefined
+  let plan: WritePlan
+  try {
+    stats = await access.stat(filePath)
+    if (stats?.isDirectory) {
+      throw new Error(`路径是目录而不是文件: ${filePath}`)
+    }
+    // 覆盖/追加大文件时不读取原内容，跳过差异预览
+    const needOriginal = mode === 'insert' || mode === 'replace_lines' || mode === 'regex_replace'
+    original = stats && (needOriginal || stats.size <= MAX_DIFF_PREVIEW_SIZE)
+      ? await access.readFile(filePath)
+      : undefined
+    plan = planWrite(mode, filePath, stats !== null, original, {
+      content, insertAtLine, startLine, endLine, pattern, replacement, replaceAll
+    })
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : '读取失败'
+    return { success: false, output: '', error: errorMsg }
+  }
+  if ('error' in plan) {
+    return { success: false, output: '', error: plan.error }
+  }
+
+  const diff = plan.original !== undefined && plan.content !== undefined
+    ? createUnifiedDiff(filePath, plan.original, plan.content)
+    : null
+
   // 文件写入需要确认
   executor.addStep({
     type: 'tool_call',
@@ -1623,17 +1797,42 @@ async function writeFile(
     riskLevel: 'moderate'
   })
 
-  // 等待确认
+  // 等待确认（附带差异预览）
   const approved = await executor.waitForConfirmation(
     toolCallId, 
     'write_file', 
     args, 
-    'moderate'
+    'moderate',
+    diff ?? undefined
   )
   if (!approved) {
     return { success: false, output: '', error: '用户拒绝写入文件' }
   }
 
+  // 等待确认期间文件可能被修改（用户编辑、服务重写、其他终端写入），写入前重新检查，避免覆盖这些修改
+  // 追加写入不会丢失已有内容，不需要检查
+  if (mode !== 'append') {
+    try {
+      const current = await access.stat(filePath)
+      let changed = (current !== null) !== (stats !== null)
+      if (!changed && current && stats) {
+        changed = original !== undefined
+          ? await access.readFile(filePath) !== original
+          : current.size !== stats.size
+      }
+      if (changed) {
+        return {
+          success: false,
+          output: '',
+          error: '等待确认期间文件已被修改，未写入。请重新读取文件，基于最新内容重新修改'
+        }
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : '读取失败'
+      return { success: false, output: '', error: errorMsg }
+    }
+  }
+
   // 计算内容大小，用于进度提示
   const contentLength = content?.length || 0
   const contentSizeKB = (contentLength / 1024).toFixed(1)
@@ -1655,74 +1854,22 @@ async function writeFile(
 
   try {
     // 确保目录存在
-    const dir = path.dirname(filePath)
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true })
+    await access.mkdir(access.dirname(filePath))
+
+    // 保存本次运行的修改前快照（用于撤销），并在原文件旁备份
+    await executor.captureFileSnapshot(ptyId, access, filePath)
+    let resultMsg = plan.message
+    if (stats) {
+      const backupPath = await backupFile(access, filePath, stats.size)
+      resultMsg += backupPath
+        ? `\n已备份原文件: ${backupPath}`
+        : '\n文件过大，未自动备份'
     }
 
-    let resultMsg = ''
-    const fileExists = fs.existsSync(filePath)
-
-    switch (mode) {
-      case 'overwrite': {
-        fs.writeFileSync(filePath, content!, 'utf-8')
-        resultMsg = `文件已${fileExists ? '覆盖' : '创建'}: ${filePath}`
-        break
-      }
-      case 'append': {
-        fs.appendFileSync(filePath, content!, 'utf-8')
-        resultMsg = `内容已追加到: ${filePath}`
-        break
-      }
-      case 'insert': {
-        if (!fileExists) {
-          return { success: false, output: '', error: '文件不存在，无法执行插入操作' }
-        }
-        const lines = fs.readFileSync(filePath, 'utf-8').split('\n')
-        const insertIndex = Math.min(insertAtLine! - 1, lines.length)
-        const contentLines = content!.split('\n')
-        lines.splice(insertIndex, 0, ...contentLines)
-        fs.writeFileSync(filePath, lines.join('\n'), 'utf-8')
-        resultMsg = `已在第 ${insertAtLine} 行插入 ${contentLines.length} 行内容: ${filePath}`
-        break
-      }
-      case 'replace_lines': {
-        if (!fileExists) {
-          return { success: false, output: '', error: '文件不存在，无法执行行替换操作' }
-        }
-        const lines = fs.readFileSync(filePath, 'utf-8').split('\n')
-        const totalLines = lines.length
-        if (startLine! > totalLines) {
-          return { success: false, output: '', error: `起始行 ${startLine} 超出文件总行数 ${totalLines}` }
-        }
-        const actualEndLine = Math.min(endLine!, totalLines)
-        const deleteCount = actualEndLine - startLine! + 1
-        const contentLines = content!.split('\n')
-        lines.splice(startLine! - 1, deleteCount, ...contentLines)
-        fs.writeFileSync(filePath, lines.join('\n'), 'utf-8')
-        resultMsg = `已替换第 ${startLine}-${actualEndLine} 行（共 ${deleteCount} 行）为 ${contentLines.length} 行新内容: ${filePath}`
-        break
-      }
-      case 'regex_replace': {
-        if (!fileExists) {
-          return { success: false, output: '', error: '文件不存在，无法执行正则替换操作' }
-        }
-        const fileContent = fs.readFileSync(filePath, 'utf-8')
-        let regex: RegExp
-        try {
-          regex = new RegExp(pattern!, replaceAll ? 'g' : '')
-        } catch (e) {
-          return { success: false, output: '', error: `无效的正则表达式: ${pattern}` }
-        }
-        const matches = fileContent.match(regex)
-        if (!matches || matches.length === 0) {
-          return { success: false, output: '', error: `未找到匹配的内容: ${pattern}` }
-        }
-        const newContent = fileContent.replace(regex, replacement!)
-        fs.writeFileSync(filePath, newContent, 'utf-8')
-        resultMsg = `已替换 ${matches.length} 处匹配内容: ${filePath}`
-        break
-      }
+    if (mode === 'append') {
+      await access.appendFile(filePath, content!)
+    } else {
+      await access.writeFile(filePath, plan.content!)
     }
 
     // 如果有进度步骤，更新为完成状态
@@ -1767,6 +1914,104 @@ async function writeFile(
   }
 }
 
+// 写入计划：写入后的完整内容（追加模式且未读取原文件时为 undefined）
+type WritePlan =
+  | { original?: string; content?: string; message: string }
+  | { error: string }
+
+/**
+ * 按写入模式计算写入后的文件内容
+ * @param original 原文件内容（文件不存在或未读取时为 undefined）
+ */
+function planWrite(
+  mode: string,
+  filePath: string,
+  fileExists: boolean,
+  original: string | undefined,
+  params: {
+    content?: string
+    insertAtLine?: number
+    startLine?: number
+    endLine?: number
+    pattern?: string
+    replacement?: string
+    replaceAll: boolean
+  }
+): WritePlan {
+  const { content, insertAtLine, startLine, endLine, pattern, replacement, replaceAll } = params
+  // 新建文件按空文件计算差异
+  const base = fileExists ? original : ''
+
+  switch (mode) {
+    case 'overwrite':
+      return {
+        original: base,
+        content: content!,
+        message: `文件已${fileExists ? '覆盖' : '创建'}: ${filePath}`
+      }
+    case 'append':
+      return {
+        original: base,
+        content: base !== undefined ? base + content! : undefined,
+        message: `内容已追加到: ${filePath}`
+      }
+    case 'insert': {
+      if (!fileExists) {
+        return { error: '文件不存在，无法执行插入操作' }
+      }
+      const lines = original!.split('\n')
+      const insertIndex = Math.min(insertAtLine! - 1, lines.length)
+      const contentLines = content!.split('\n')
+      lines.splice(insertIndex, 0, ...contentLines)
+      return {
+        original,
+        content: lines.join('\n'),
+        message: `已在第 ${insertAtLine} 行插入 ${contentLines.length} 行内容: ${filePath}`
+      }
+    }
+    case 'replace_lines': {
+      if (!fileExists) {
+        return { error: '文件不存在，无法执行行替换操作' }
+      }
+      const lines = original!.split('\n')
+      const totalLines = lines.length
+      if (startLine! > totalLines) {
+        return { error: `起始行 ${startLine} 超出文件总行数 ${totalLines}` }
+      }
+      const actualEndLine = Math.min(endLine!, totalLines)
+      const deleteCount = actualEndLine - startLine! + 1
+      const contentLines = content!.split('\n')
+      lines.splice(startLine! - 1, deleteCount, ...contentLines)
+      return {
+        original,
+        content: lines.join('\n'),
+        message: `已替换第 ${startLine}-${actualEndLine} 行（共 ${deleteCount} 行）为 ${contentLines.length} 行新内容: ${filePath}`
+      }
+    }
+    case 'regex_replace':
+    default: {
+      if (!fileExists) {
+        return { error: '文件不存在，无法执行正则替换操作' }
+      }
+      let regex: RegExp
+      try {
+        regex = new RegExp(pattern!, replaceAll ? 'g' : '')
+      } catch (e) {
+        return { error: `无效的正则表达式: ${pattern}` }
+      }
+      const matches = original!.match(regex)
+      if (!matches || matches.length === 0) {
+        return { error: `未找到匹配的内容: ${pattern}` }
+      }
+      return {
+        original,
+        content: original!.replace(regex, replacement!),
+        message: `已替换 ${matches.length} 处匹配内容: ${filePath}`
+      }
+    }
+  }
+}
+
 /**
  * 记住信息
  */
@@ -2190,3 +2435,290 @@ async function askUser(
     }
   }
 }
+
+// 并行步骤写入计划的结果长度上限（完整输出返回给模型）
+const MAX_PLAN_RESULT_LENGTH = 500
+const MAX_PARALLEL_OUTPUT_LENGTH = 4000
+
+const PLAN_STEP_STATUSES: TaskStepStatus[] = ['in_progress', 'completed', 'failed', 'skipped']
+
+/**
+ * 已就绪的并行步骤提示
+ */
+function readyParallelHint(plan: TaskPlan): string {
+  const ready = getReadyParallelSteps(plan)
+  if (ready.length === 0) return ''
+  return `\n\n可并行执行的步骤: ${ready.map(s => s.id).join(', ')}，调用 run_parallel_steps 并发执行`
+}
+
+/**
+ * 创建任务计划（再次调用时替换当前计划）
+ * 计划需要用户审批后才开始执行，审批前用户可以修改步骤
+ */
+async function createPlan(
+  args: Record<string, unknown>,
+  executor: ToolExecutorConfig
+): Promise<ToolResult> {
+  const analysis = typeof args.analysis === 'string' ? args.analysis : ''
+  const rawSteps = Array.isArray(args.steps) ? args.steps as Array<Record<string, unknown>> : []
+  if (rawSteps.length === 0) {
+    return { success: false, output: '', error: '计划至少需要一个步骤' }
+  }
+
+  const stepIds = new Set(rawSteps.map((_, index) => `step_${index + 1}`))
+  const steps = []
+  for (let index = 0; index < rawSteps.length; index++) {
+    const raw = rawSteps[index]
+    const description = typeof raw.description === 'string' ? raw.description.trim() : ''
+    if (!description) {
+      return { success: false, output: '', error: `第 ${index + 1} 个步骤缺少 description` }
+    }
+    const command = typeof raw.command === 'string' && raw.command.trim() ? raw.command.trim() : undefined
+    const dependencies = Array.isArray(raw.dependencies) ? raw.dependencies.map(String) : []
+    const unknown = dependencies.filter(id => !stepIds.has(id) || id === `step_${index + 1}`)
+    if (unknown.length > 0) {
+      return { success: false, output: '', error: `step_${index + 1} 的依赖无效: ${unknown.join(', ')}` }
+    }
+    // 没有命令的步骤无法在后台执行，按顺序步骤处理
+    const dependencyType: DependencyType = raw.parallel && command ? 'parallel' : 'sequential'
+    steps.push({
+      description,
+      purpose: typeof raw.purpose === 'string' ? raw.purpose : '',
+      command,
+      dependencies: dependencies.length > 0 ? dependencies : undefined,
+      dependencyType
+    })
+  }
+
+  const plan = createTaskPlan(executor.getUserTask(), analysis, steps)
+  executor.setPlan(plan)
+
+  const parallelCount = steps.filter(s => s.dependencyType === 'parallel').length
+  const title = parallelCount > 0
+    ? `📋 制定计划：${steps.length} 个步骤，其中 ${parallelCount} 个可并行`
+    : `📋 制定计划：${steps.length} 个步骤`
+  const step = executor.addStep({
+    type: 'tool_call',
+    content: title,
+    toolName: 'create_plan',
+    toolArgs: args,
+    riskLevel: 'safe'
+  })
+
+  const approved = await executor.waitForPlanApproval(plan)
+  if (executor.isAborted()) {
+    return { success: false, output: '', error: '操作已中止' }
+  }
+  if (!approved) {
+    executor.updateStep(step.id, { content: `${title}（用户未批准）` })
+    return {
+      success: false,
+      output: '',
+      error: '用户没有批准该计划，不要按该计划执行。请使用 ask_user 询问用户的意见，或根据用户的补充信息重新制定计划'
+    }
+  }
+
+  // 审批前用户可能修改过步骤，以最新的计划为准
+  const latestPlan = executor.getPlan() ?? plan
+  const edited = latestPlan.adjustments?.length
+    ? '\n\n⚠️ 用户在批准前调整了计划，请按调整后的步骤执行：\n' + latestPlan.adjustments.map(a => `- ${a.details}`).join('\n')
+    : ''
+  return {
+    success: true,
+    output: `计划已由用户批准。\n\n${formatPlanAsText(latestPlan)}${edited}${readyParallelHint(latestPlan)}`
+  }
+}
+
+/**
+ * 更新计划步骤状态
+ */
+function updatePlanStep(
+  args: Record<string, unknown>,
+  executor: ToolExecutorConfig
+): ToolResult {
+  const plan = executor.getPlan()
+  if (!plan) {
+    return { success: false, output: '', error: '当前没有任务计划，请先调用 create_plan' }
+  }
+
+  const stepId = args.step_id as string
+  const stepIndex = plan.steps.findIndex(s => s.id === stepId)
+  if (stepIndex < 0) {
+    return { success: false, output: '', error: `步骤不存在: ${stepId}，可用步骤: ${plan.steps.map(s => s.id).join(', ')}` }
+  }
+
+  const status = args.status as TaskStepStatus
+  if (!PLAN_STEP_STATUSES.includes(status)) {
+    return { success: false, output: '', error: `无效的状态: ${status}` }
+  }
+
+  const result = typeof args.result === 'string' ? args.result : undefined
+  let updated = status === 'failed'
+    ? updateStepStatus(plan, stepIndex, status, undefined, result)
+    : updateStepStatus(plan, stepIndex, status, result)
+  if (status === 'in_progress') {
+    updated = { ...updated, currentStepIndex: stepIndex }
+  }
+  executor.setPlan(updated)
+
+  return {
+    success: true,
+    output: `${stepId} 已更新为 ${status}${readyParallelHint(updated)}`
+  }
+}
+
+/**
+ * 并发执行已就绪的并行步骤
+ * 需要确认的命令先逐个确认，通过的步骤在后台通道同时执行，结果写回计划
+ */
+async function runParallelSteps(
+  ptyId: string,
+  args: Record<string, unknown>,
+  toolCallId: string,
+  config: AgentConfig,
+  executor: ToolExecutorConfig
+): Promise<ToolResult> {
+  const plan = executor.getPlan()
+  if (!plan) {
+    return { success: false, output: '', error: '当前没有任务计划，请先调用 create_plan' }
+  }
+
+  let ready = getReadyParallelSteps(plan)
+  if (Array.isArray(args.step_ids) && args.step_ids.length > 0) {
+    const requested = args.step_ids.map(String)
+    const notReady = requested.filter(id => !ready.some(s => s.id === id))
+    if (notReady.length > 0) {
+      return {
+        success: false,
+        output: '',
+        error: `以下步骤不是已就绪的并行步骤: ${notReady.join(', ')}（需要 parallel=true、带有 command、尚未执行且依赖已完成）`
+      }
+    }
+    ready = ready.filter(s => requested.includes(s.id))
+  }
+  if (ready.length === 0) {
+    return { success: false, output: '', error: '没有已就绪的并行步骤，请按顺序执行剩余步骤' }
+  }
+
+  // 逐个检查命令，需要确认的先请求确认
+  const approved: Array<{ step: TaskStep; command: string; timeout: number; riskLevel: RiskLevel }> = []
+  const rejected: Array<{ step: TaskStep; reason: string; status: TaskStepStatus }> = []
+  for (const step of ready) {
+    if (executor.isAborted()) {
+      return { success: false, output: '', error: '操作已中止' }
+    }
+
+    let command = step.command as string
+    const handling = analyzeCommand(command)
+    if (handling.strategy === 'block' || handling.strategy === 'fire_and_forget' || isSudoCommand(command)) {
+      rejected.push({ step, reason: '后台通道不支持交互、持续运行或需要 sudo 密码的命令，请在终端中按顺序执行', status: 'failed' })
+      continue
+    }
+    if (handling.strategy === 'auto_fix' && handling.fixedCommand) {
+      command = handling.fixedCommand
+    }
+
+    const assessment = executor.assessRisk(ptyId, command)
+    if (assessment.level === 'blocked') {
+      rejected.push({ step, reason: describeBlockedCommand(assessment), status: 'failed' })
+      continue
+    }
+    if (requiresConfirmation(assessment, config, handling.strategy === 'allow')) {
+      const confirmed = await executor.waitForConfirmation(toolCallId, 'execute_command', { command }, assessment.level)
+      if (!confirmed) {
+        rejected.push({ step, reason: '用户拒绝执行', status: 'skipped' })
+        continue
+      }
+    }
+
+    const timeout = handling.strategy === 'timed_execution' && handling.suggestedTimeout
+      ? handling.suggestedTimeout
+      : config.commandTimeout
+    approved.push({ step, command, timeout, riskLevel: assessment.level })
+  }
+
+  // 写回未执行的步骤，并把通过的步骤标记为进行中
+  let current = executor.getPlan() ?? plan
+  for (const { step, reason, status } of rejected) {
+    const index = current.steps.findIndex(s => s.id === step.id)
+    current = status === 'failed'
+      ? updateStepStatus(current, index, status, undefined, reason)
+      : updateStepStatus(current, index, status, reason)
+  }
+  for (const { step } of approved) {
+    current = updateStepStatus(current, current.steps.findIndex(s => s.id === step.id), 'in_progress')
+  }
+  executor.setPlan(current)
+
+  const results: Array<{ step: TaskStep; command: string; result: CommandResult }> = []
+  if (approved.length > 0) {
+    const riskOrder: RiskLevel[] = ['safe', 'moderate', 'dangerous', 'blocked']
+    const highestRisk = approved.reduce<RiskLevel>(
+      (highest, item) => riskOrder.indexOf(item.riskLevel) > riskOrder.indexOf(highest) ? item.riskLevel : highest,
+      'safe'
+    )
+    executor.addStep({
+      type: 'tool_call',
+      content: `⇉ 并行执行 ${approved.length} 个步骤\n${approved.map(({ step, command }) => `[${step.id}] ${command}`).join('\n')}`,
+      toolName: 'run_parallel_steps',
+      toolArgs: { step_ids: approved.map(({ step }) => step.id) },
+      riskLevel: highestRisk
+    })
+
+    // 各分支完成时立即写回计划，界面可以看到每个分支的进度
+    await Promise.all(approved.map(async ({ step, command, timeout }) => {
+      const result = await executor.execInBackground(ptyId, command, timeout)
+      results.push({ step, command, result })
+
+      const latest = executor.getPlan()
+      const index = latest ? latest.steps.findIndex(s => s.id === step.id) : -1
+      if (!latest || index < 0) return
+      const output = truncateFromEnd(result.output, MAX_PLAN_RESULT_LENGTH)
+      if (result.exitCode === 0) {
+        executor.setPlan(updateStepStatus(latest, index, 'completed', output || '（无输出）'))
+      } else {
+        const error = result.aborted
+          ? `命令超时（${Math.round(timeout / 1000)} 秒）`
+          : `退出码 ${result.exitCode}${output ? `\n${output}` : ''}`
+        executor.setPlan(updateStepStatus(latest, index, 'failed', undefined, error))
+      }
+    }))
+  }
+
+  if (executor.isAborted()) {
+    return { success: false, output: '', error: '操作已中止' }
+  }
+
+  const succeeded = results.filter(r => r.result.exitCode === 0).length
+  const failed = results.length - succeeded + rejected.filter(r => r.status === 'failed').length
+  const skipped = rejected.filter(r => r.status === 'skipped').length
+  const summary = `并行执行完成：成功 ${succeeded}，失败 ${failed}，跳过 ${skipped}`
+  executor.addStep({
+    type: 'tool_result',
+    content: summary,
+    toolName: 'run_parallel_steps',
+    toolResult: summary
+  })
+
+  // 按计划顺序合并各分支的结果
+  const sections = ready.map(step => {
+    const executed = results.find(r => r.step.id === step.id)
+    if (executed) {
+      const { result, command } = executed
+      const status = result.exitCode === 0
+        ? '成功'
+        : result.aborted ? '超时' : `失败（退出码 ${result.exitCode}）`
+      const output = truncateFromEnd(result.output, MAX_PARALLEL_OUTPUT_LENGTH) || '（无输出）'
+      return `### [${step.id}] ${step.description} — ${status}，耗时 ${(result.duration / 1000).toFixed(1)} 秒\n$ ${command}\n${output}`
+    }
+    const skippedStep = rejected.find(r => r.step.id === step.id)
+    return `### [${step.id}] ${step.description} — 未执行：${skippedStep?.reason ?? '未知原因'}`
+  })
+
+  const latestPlan = executor.getPlan() ?? current
+  return {
+    success: failed === 0,
+    output: `${summary}\n\n${sections.join('\n\n')}${readyParallelHint(latestPlan)}`,
+    error: failed > 0 ? `${failed} 个并行步骤失败，请根据输出决定重试或调整计划` : undefined
+  }
+}
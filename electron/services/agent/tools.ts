@@ -3,12 +3,26 @@
  */
 import type { ToolDefinition } from '../ai.service'
 import type { McpService } from '../mcp.service'
+import type { AgentTarget } from './types'
+
+// 多终端任务中可以通过 target 参数指定终端的工具
+export const TARGETED_TOOLS = [
+  'execute_command',
+  'check_terminal_status',
+  'get_terminal_context',
+  'send_control_key',
+  'send_input',
+  'read_file',
+  'write_file',
+  'remember_info'
+]
 
 /**
  * 获取可用工具定义
  * @param mcpService 可选的 MCP 服务，用于动态加载 MCP 工具
+ * @param targets 多终端任务的目标终端，多于一个时为终端相关工具添加 target 参数
  */
-export function getAgentTools(mcpService?: McpService): ToolDefinition[] {
+export function getAgentTools(mcpService?: McpService, targets?: AgentTarget[]): ToolDefinition[] {
   // 内置工具
   const builtinTools: ToolDefinition[] = [
     {
@@ -137,15 +151,14 @@ export function getAgentTools(mcpService?: McpService): ToolDefinition[] {
       type: 'function',
       function: {
         name: 'read_file',
-        description: `读取本地文件内容。支持多种读取方式：
+        description: `读取文件内容。支持多种读取方式：
 1. **完整读取**：不指定任何范围参数，读取整个文件（文件需小于 500KB）
 2. **按行范围读取**：使用 start_line 和 end_line 指定行号范围（从1开始）
 3. **按行数读取**：使用 max_lines 指定从文件开头读取的行数
 4. **从末尾读取**：使用 tail_lines 指定从文件末尾读取的行数
 5. **文件信息查询**：只设置 info_only=true，获取文件大小、行数等信息，不读取内容
 
-⚠️ **仅支持本地文件**：此工具只能读取运行终端程序的本地机器上的文件。
-对于 SSH 远程主机，请使用 execute_command 执行 cat/head/tail/sed 等命令读取远程文件。
+本地终端读取本机文件；SSH 终端通过当前会话的 SFTP 通道读取远程主机上的文件，无需使用 cat/sed 等命令。
 
 对于大文件，建议先使用 info_only=true 查看文件信息，然后根据需要读取特定部分。`,
         parameters: {
@@ -184,7 +197,7 @@ export function getAgentTools(mcpService?: McpService): ToolDefinition[] {
       type: 'function',
       function: {
         name: 'write_file',
-        description: `写入或创建本地文件。支持多种写入模式：
+        description: `写入或创建文件。支持多种写入模式：
 
 1. **覆盖模式（默认）**：mode='overwrite'，用 content 替换整个文件
 2. **追加模式**：mode='append'，在文件末尾追加 content
@@ -192,18 +205,15 @@ export function getAgentTools(mcpService?: McpService): ToolDefinition[] {
 4. **行替换模式**：mode='replace_lines'，用 content 替换 start_line 到 end_line 的内容
 5. **正则替换模式**：mode='regex_replace'，用正则表达式查找替换
 
-⚠️ **重要文件请先备份**：修改配置文件、脚本等重要文件前，必须先执行备份命令：
-\`cp file.txt file.txt.$(date +%Y%m%d_%H%M%S).bak\`
-不需要备份：新建文件、临时文件、日志文件、明确不重要的文件
+**自动备份**：修改已有文件前会自动备份为 \`<文件名>.<时间戳>.bak\`（与原文件同目录），备份路径会在结果中返回，无需手动执行备份命令。
 
-⚠️ **仅支持本地文件**：此工具只能写入本地机器上的文件。
-对于 SSH 远程主机，请使用 execute_command 执行命令来写入。`,
+本地终端写入本机文件；SSH 终端通过当前会话的 SFTP 通道写入远程主机上的文件，无需使用 echo/sed 等命令。`,
         parameters: {
           type: 'object',
           properties: {
             path: {
               type: 'string',
-              description: '本地文件路径'
+              description: '文件路径（绝对路径或相对于当前目录）'
             },
             content: {
               type: 'string',
@@ -323,6 +333,96 @@ export function getAgentTools(mcpService?: McpService): ToolDefinition[] {
         }
       }
     },
+    {
+      type: 'function',
+      function: {
+        name: 'create_plan',
+        description: `为复杂任务提交结构化执行计划，计划会显示在界面上并随执行更新。再次调用会替换当前计划。
+计划需要用户批准后才能执行，用户可能在批准前修改、跳过步骤，以返回的计划为准。
+执行中用户也可能调整计划（以 [计划调整] 补充信息告知），收到后按调整后的计划继续。
+
+步骤依赖：
+- 默认按顺序执行，由你用 execute_command 等工具逐步完成，并用 update_plan_step 更新状态
+- 互不依赖、可以同时进行的检查类步骤设置 parallel=true 并给出 command，之后调用 run_parallel_steps 并发执行
+- 并行步骤在后台通道中执行（不占用当前终端，不支持交互和持续运行的命令）`,
+        parameters: {
+          type: 'object',
+          properties: {
+            analysis: {
+              type: 'string',
+              description: '任务分析（目标、风险点，1-3 句）'
+            },
+            steps: {
+              type: 'array',
+              description: '执行步骤，步骤 ID 依次为 step_1、step_2 ...',
+              items: {
+                type: 'object',
+                properties: {
+                  description: { type: 'string', description: '步骤描述' },
+                  purpose: { type: 'string', description: '这一步的目的' },
+                  command: { type: 'string', description: '并行步骤要执行的命令（非交互、会自行结束）' },
+                  parallel: { type: 'boolean', description: '是否可以与其他步骤并行执行，需要同时提供 command' },
+                  dependencies: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: '依赖的步骤 ID，如 ["step_1"]，依赖完成后才会执行'
+                  }
+                },
+                required: ['description', 'purpose']
+              }
+            }
+          },
+          required: ['analysis', 'steps']
+        }
+      }
+    },
+    {
+      type: 'function',
+      function: {
+        name: 'update_plan_step',
+        description: '更新计划中某个步骤的状态。按顺序执行的步骤开始和结束时调用，让用户了解进度。',
+        parameters: {
+          type: 'object',
+          properties: {
+            step_id: {
+              type: 'string',
+              description: '步骤 ID，如 step_2'
+            },
+            status: {
+              type: 'string',
+              enum: ['in_progress', 'completed', 'failed', 'skipped'],
+              description: '新的状态'
+            },
+            result: {
+              type: 'string',
+              description: '步骤结果或失败原因（简短）'
+            }
+          },
+          required: ['step_id', 'status']
+        }
+      }
+    },
+    {
+      type: 'function',
+      function: {
+        name: 'run_parallel_steps',
+        description: `并发执行计划中已就绪的并行步骤（parallel=true、依赖已完成），各步骤的命令在独立的后台通道中同时运行，结果合并回计划并一起返回。
+
+注意：
+- 需要确认的命令会先逐个请求用户确认，被拒绝的步骤标记为跳过
+- 命令的超时与 execute_command 相同，超时的步骤标记为失败`,
+        parameters: {
+          type: 'object',
+          properties: {
+            step_ids: {
+              type: 'array',
+              items: { type: 'string' },
+              description: '要执行的步骤 ID，不指定时执行所有已就绪的并行步骤'
+            }
+          }
+        }
+      }
+    },
     {
       type: 'function',
       function: {
@@ -368,6 +468,20 @@ export function getAgentTools(mcpService?: McpService): ToolDefinition[] {
     }
   ]
 
+  // 多终端任务：终端相关工具增加 target 参数
+  if (targets && targets.length > 1) {
+    const targetIds = targets.map(t => t.id)
+    for (const tool of builtinTools) {
+      if (TARGETED_TOOLS.includes(tool.function.name)) {
+        tool.function.parameters.properties.target = {
+          type: 'string',
+          enum: targetIds,
+          description: `目标终端（主机），不指定时为 ${targetIds[0]}`
+        }
+      }
+    }
+  }
+
   // 如果有 MCP 服务，添加 MCP 工具
   if (mcpService) {
     const mcpTools = mcpService.getToolDefinitions()
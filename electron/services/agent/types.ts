@@ -10,6 +10,8 @@ export interface AgentConfig {
   autoExecuteSafe: boolean      // safe 命令自动执行
   autoExecuteModerate: boolean  // moderate 命令是否自动执行
   strictMode: boolean           // 严格模式：所有命令都需确认，在终端执行
+  unattended: boolean           // 无人值守（定时任务）：需要确认的操作直接拒绝，不向用户提问
+  riskCeiling?: RiskLevel       // 允许的最高风险等级，超过的命令被阻止
 }
 
 // 命令风险等级
@@ -26,6 +28,19 @@ export interface AgentStep {
   riskLevel?: RiskLevel
   timestamp: number
   isStreaming?: boolean  // 是否正在流式输出
+  target?: string        // 多终端任务中执行该步骤的目标终端
+}
+
+// 多终端任务中的目标终端
+export interface AgentTarget {
+  id: string                      // 目标名称（工具调用的 target 参数），如 root@web1
+  ptyId: string
+  terminalType: 'local' | 'ssh'
+  hostId?: string                 // 主机档案 ID
+  systemInfo: {
+    os: string
+    shell: string
+  }
 }
 
 // Agent 上下文
@@ -40,6 +55,7 @@ export interface AgentContext {
   hostId?: string  // 主机档案 ID
   historyMessages?: { role: string; content: string }[]  // 历史对话记录
   documentContext?: string  // 用户上传的文档内容
+  targets?: AgentTarget[]  // 多终端任务附加的终端（第一个为当前终端）
 }
 
 // 工具执行结果
@@ -57,6 +73,7 @@ export interface PendingConfirmation {
   toolName: string
   toolArgs: Record<string, unknown>
   riskLevel: RiskLevel
+  diff?: string  // 写入文件的差异预览（unified diff）
   resolve: (approved: boolean, modifiedArgs?: Record<string, unknown>) => void
 }
 
@@ -106,7 +123,9 @@ export interface AgentRun {
   steps: AgentStep[]
   isRunning: boolean
   aborted: boolean
+  abortController: AbortController  // 中止时取消进行中的 AI 请求
   pendingConfirmation?: PendingConfirmation
+  pendingPlanApproval?: (approved: boolean) => void  // 等待用户审批计划
   pendingUserMessages: string[]  // 用户补充消息队列
   config: AgentConfig
   context: AgentContext  // 运行上下文
@@ -116,6 +135,15 @@ export interface AgentRun {
   realtimeOutputBuffer: string[]
   // 终端输出监听器的取消订阅函数
   outputUnsubscribe?: () => void
+  // 响应过本次运行请求的 AI 配置（按首次使用顺序，故障转移时可能有多个）
+  servedProfiles: import('../ai.service').AiServedProfile[]
+  // 以下字段随检查点保存，用于崩溃或重启后恢复
+  userTask: string           // 用户原始任务
+  profileId?: string         // 指定的 AI 配置
+  usePromptTools: boolean    // 是否使用提示词工具协议
+  stepCount: number          // 已执行的轮数
+  riskCeiling?: RiskLevel    // 命令风险上限（由 Playbook 指定）
+  plan?: import('./planner').TaskPlan  // 结构化任务计划（由 create_plan 工具创建）
 }
 
 // 主机档案服务接口
@@ -139,6 +167,7 @@ export interface AgentCallbacks {
   onComplete?: (agentId: string, result: string) => void
   onError?: (agentId: string, error: string) => void
   onTextChunk?: (agentId: string, chunk: string) => void  // 流式文本回调
+  onPlanUpdate?: (agentId: string, plan: import('./planner').TaskPlan) => void  // 任务计划更新
 }
 
 // 默认配置
@@ -148,5 +177,6 @@ export const DEFAULT_AGENT_CONFIG: AgentConfig = {
   commandTimeout: 30000,
   autoExecuteSafe: true,
   autoExecuteModerate: true,
-  strictMode: false           // 默认关闭严格模式
+  strictMode: false,          // 默认关闭严格模式
+  unattended: false
 }
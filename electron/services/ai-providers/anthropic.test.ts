@@ -0,0 +1,241 @@
+/**
+ * Anthropic Messages API 适配测试
+ * 在本机启动模拟的 Messages API 服务，验证请求转换以及流式事件还原为 OpenAI 风格数据块
+ */
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as http from 'http'
+import type { AddressInfo } from 'net'
+import type { AiMessage, ToolCall, ToolDefinition } from '../ai.service'
+import {
+  ANTHROPIC_VERSION,
+  AnthropicStreamTranslator,
+  buildAnthropicRequest,
+  type OpenAiStreamChunk
+} from './anthropic'
+
+// 模拟服务收到的请求
+interface ReceivedRequest {
+  path: string
+  headers: http.IncomingHttpHeaders
+  body: Record<string, unknown>
+}
+
+const TOOLS: ToolDefinition[] = [{
+  type: 'function',
+  function: {
+    name: 'execute_command',
+    description: '在终端执行命令',
+    parameters: {
+      type: 'object',
+      properties: { command: { type: 'string', description: '要执行的命令' } },
+      required: ['command']
+    }
+  }
+}]
+
+/**
+ * 启动模拟服务：记录请求，并按 SSE 格式逐条返回给定的事件
+ */
+async function startMockServer(events: object[]): Promise<{ url: string; received: ReceivedRequest[]; close: () => Promise<void> }> {
+  const received: ReceivedRequest[] = []
+  const server = http.createServer((req, res) => {
+    let data = ''
+    req.on('data', chunk => { data += chunk })
+    req.on('end', () => {
+      received.push({ path: req.url || '', headers: req.headers, body: JSON.parse(data) })
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+      for (const event of events) {
+        res.write(`event: ${(event as { type: string }).type}\ndata: ${JSON.stringify(event)}\n\n`)
+      }
+      res.end()
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  return {
+    url: `http://127.0.0.1:${port}/v1/messages`,
+    received,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  }
+}
+
+/**
+ * 发送流式请求，返回经转换器还原后的数据块（与 AiService 相同的请求头和 SSE 解析方式）
+ */
+function streamThroughTranslator(
+  url: string,
+  body: Record<string, unknown>,
+  translator: AnthropicStreamTranslator
+): Promise<OpenAiStreamChunk[]> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': 'test-key',
+        'anthropic-version': ANTHROPIC_VERSION
+      }
+    }, res => {
+      const chunks: OpenAiStreamChunk[] = []
+      let buffer = ''
+      res.setEncoding('utf-8')
+      res.on('data', (data: string) => {
+        buffer += data
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || ''
+        for (const line of lines) {
+          if (!line.startsWith('data: ')) continue
+          const chunk = translator.translate(JSON.parse(line.slice(6)))
+          if (chunk) chunks.push(chunk)
+        }
+      })
+      res.on('end', () => resolve(chunks))
+    })
+    req.on('error', reject)
+    req.end(JSON.stringify(body))
+  })
+}
+
+/**
+ * 按 AiService 的方式合并数据块：拼接文本、按序号累积工具调用参数
+ */
+function collect(chunks: OpenAiStreamChunk[]) {
+  let content = ''
+  let reasoning = ''
+  let finishReason: string | undefined
+  let usage: OpenAiStreamChunk['usage']
+  const toolCalls: ToolCall[] = []
+  for (const chunk of chunks) {
+    if (chunk.usage) usage = chunk.usage
+    const choice = chunk.choices?.[0]
+    if (choice?.finish_reason) finishReason = choice.finish_reason
+    content += choice?.delta?.content || ''
+    reasoning += choice?.delta?.reasoning_content || ''
+    for (const tc of choice?.delta?.tool_calls || []) {
+      if (!toolCalls[tc.index]) {
+        toolCalls[tc.index] = { id: tc.id || '', type: 'function', function: { name: tc.function?.name || '', arguments: '' } }
+      }
+      toolCalls[tc.index].function.arguments += tc.function?.arguments || ''
+    }
+  }
+  return { content, reasoning, finishReason, usage, toolCalls }
+}
+
+test('流式工具调用：请求按 Messages API 格式发送，事件还原为 OpenAI 风格的工具调用', async () => {
+  const server = await startMockServer([
+    { type: 'message_start', message: { usage: { input_tokens: 120, cache_read_input_tokens: 30, output_tokens: 1 } } },
+    { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+    { type: 'ping' },
+    { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '先查看' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '磁盘占用。' } },
+    { type: 'content_block_stop', index: 0 },
+    { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_01', name: 'execute_command', input: {} } },
+    { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"command": ' } },
+    { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"df -h"}' } },
+    { type: 'content_block_stop', index: 1 },
+    { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 42 } },
+    { type: 'message_stop' }
+  ])
+
+  try {
+    // 包含上一轮工具调用及结果的 Agent 消息历史
+    const messages: AiMessage[] = [
+      { role: 'system', content: '你是运维助手' },
+      { role: 'user', content: '检查服务器状态' },
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [{ id: 'toolu_00', type: 'function', function: { name: 'execute_command', arguments: '{"command":"uptime"}' } }]
+      },
+      { role: 'tool', content: 'up 3 days', tool_call_id: 'toolu_00' },
+      { role: 'user', content: '再看看磁盘' }
+    ]
+    const body = buildAnthropicRequest(messages, { model: 'claude-test', maxTokens: 4096, temperature: 0.7, tools: TOOLS, stream: true })
+    const translator = new AnthropicStreamTranslator()
+    const result = collect(await streamThroughTranslator(server.url, body, translator))
+
+    // 请求：鉴权头、顶层 system、tool_use / tool_result 内容块、工具定义
+    const [request] = server.received
+    assert.equal(request.path, '/v1/messages')
+    assert.equal(request.headers['x-api-key'], 'test-key')
+    assert.equal(request.headers['anthropic-version'], ANTHROPIC_VERSION)
+    assert.equal(request.headers.authorization, undefined)
+    assert.equal(request.body.system, '你是运维助手')
+    assert.equal(request.body.stream, true)
+    assert.equal(request.body.temperature, 0.7)
+    assert.deepEqual(request.body.messages, [
+      { role: 'user', content: [{ type: 'text', text: '检查服务器状态' }] },
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_00', name: 'execute_command', input: { command: 'uptime' } }] },
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'toolu_00', content: 'up 3 days' },
+          { type: 'text', text: '再看看磁盘' }
+        ]
+      }
+    ])
+    assert.deepEqual(request.body.tools, [{
+      name: 'execute_command',
+      description: '在终端执行命令',
+      input_schema: TOOLS[0].function.parameters
+    }])
+
+    // 响应：文本、工具调用、停止原因和用量（输入用量包含缓存命中部分）
+    assert.equal(result.content, '先查看磁盘占用。')
+    assert.equal(result.finishReason, 'tool_calls')
+    assert.deepEqual(result.usage, { prompt_tokens: 150, completion_tokens: 42 })
+    assert.equal(result.toolCalls.length, 1)
+    assert.equal(result.toolCalls[0].id, 'toolu_01')
+    assert.equal(result.toolCalls[0].function.name, 'execute_command')
+    assert.deepEqual(JSON.parse(result.toolCalls[0].function.arguments), { command: 'df -h' })
+    assert.equal(translator.done, true)
+  } finally {
+    await server.close()
+  }
+})
+
+test('扩展思考：思考块连同签名被收集，并在下一轮请求中随工具调用回传', async () => {
+  const server = await startMockServer([
+    { type: 'message_start', message: { usage: { input_tokens: 50 } } },
+    { type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: '需要先确认' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: '系统负载。' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'signature_delta', signature: 'sig-abc' } },
+    { type: 'content_block_stop', index: 0 },
+    { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_02', name: 'execute_command', input: {} } },
+    { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"command":"uptime"}' } },
+    { type: 'content_block_stop', index: 1 },
+    { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 30 } },
+    { type: 'message_stop' }
+  ])
+
+  try {
+    const options = { model: 'claude-test', maxTokens: 4096, temperature: 0.7, tools: TOOLS, stream: true, thinkingBudget: 2048 }
+    const body = buildAnthropicRequest([{ role: 'user', content: '服务器卡顿' }], options)
+    const translator = new AnthropicStreamTranslator()
+    const result = collect(await streamThroughTranslator(server.url, body, translator))
+
+    // 开启思考时不发送 temperature，max_tokens 包含思考预算
+    const [request] = server.received
+    assert.deepEqual(request.body.thinking, { type: 'enabled', budget_tokens: 2048 })
+    assert.equal(request.body.temperature, undefined)
+    assert.equal(request.body.max_tokens, 2048 + 4096)
+
+    assert.equal(result.reasoning, '需要先确认系统负载。')
+    assert.equal(result.toolCalls[0].id, 'toolu_02')
+    assert.deepEqual(translator.thinkingBlocks, [{ type: 'thinking', thinking: '需要先确认系统负载。', signature: 'sig-abc' }])
+
+    // 下一轮请求：思考块必须位于 assistant 消息的工具调用之前
+    const nextBody = buildAnthropicRequest([
+      { role: 'user', content: '服务器卡顿' },
+      { role: 'assistant', content: '', tool_calls: result.toolCalls, reasoning_content: result.reasoning },
+      { role: 'tool', content: 'load average: 0.10', tool_call_id: 'toolu_02' }
+    ], { ...options, getThinkingBlocks: id => id === 'toolu_02' ? translator.thinkingBlocks : undefined })
+    const assistant = (nextBody.messages as Array<{ role: string; content: Array<{ type: string }> }>)[1]
+    assert.equal(assistant.role, 'assistant')
+    assert.deepEqual(assistant.content.map(block => block.type), ['thinking', 'tool_use'])
+  } finally {
+    await server.close()
+  }
+})
@@ -0,0 +1,378 @@
+/**
+ * Anthropic Messages API 适配
+ * 将内部使用的 OpenAI 风格消息 / 工具定义转换为 Messages API 请求，
+ * 并把响应与流式事件还原为 OpenAI 风格的结构，使 AiService 与 Agent 无需区分服务商
+ */
+import type { AiMessage, ToolDefinition, ToolCall } from '../ai.service'
+
+// Messages API 版本
+export const ANTHROPIC_VERSION = '2023-06-01'
+
+// ==================== Messages API 类型 ====================
+
+// 思考块（回传时必须保留签名）
+export type AnthropicThinkingBlock =
+  | { type: 'thinking'; thinking: string; signature: string }
+  | { type: 'redacted_thinking'; data: string }
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string }
+  | AnthropicThinkingBlock
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant'
+  content: AnthropicContentBlock[]
+}
+
+// token 用量（输入 token 不含缓存部分，需要加上缓存写入与命中的数量）
+interface AnthropicUsage {
+  input_tokens?: number
+  output_tokens?: number
+  cache_creation_input_tokens?: number
+  cache_read_input_tokens?: number
+}
+
+export interface AnthropicResponse {
+  content?: AnthropicContentBlock[]
+  stop_reason?: string
+  usage?: AnthropicUsage
+  error?: { type?: string; message?: string }
+}
+
+// 流式事件（https://docs.anthropic.com/en/api/messages-streaming）
+interface AnthropicStreamEvent {
+  type: string
+  index?: number
+  content_block?: AnthropicContentBlock
+  delta?: {
+    type?: string
+    text?: string
+    partial_json?: string
+    thinking?: string
+    signature?: string
+    stop_reason?: string
+  }
+  message?: { usage?: AnthropicUsage }  // message_start
+  usage?: AnthropicUsage                // message_delta（output_tokens 为累计值）
+  error?: { type?: string; message?: string }
+}
+
+// OpenAI 风格的 token 用量
+export interface OpenAiUsage {
+  prompt_tokens?: number
+  completion_tokens?: number
+}
+
+// 还原后的 OpenAI 风格流式数据块
+export interface OpenAiStreamChunk {
+  choices?: {
+    delta?: {
+      content?: string
+      reasoning_content?: string
+      tool_calls?: { index: number; id?: string; function?: { name?: string; arguments?: string } }[]
+    }
+    finish_reason?: string
+  }[]
+  usage?: OpenAiUsage
+  error?: { message?: string }
+}
+
+// 还原后的 OpenAI 风格非流式响应
+export interface OpenAiResponse {
+  choices?: {
+    message?: {
+      content?: string | null
+      tool_calls?: ToolCall[]
+      reasoning_content?: string
+    }
+    finish_reason?: string
+  }[]
+  usage?: OpenAiUsage
+  error?: { message?: string; code?: string; type?: string }
+}
+
+export interface AnthropicRequestOptions {
+  model: string
+  maxTokens: number
+  temperature?: number
+  tools?: ToolDefinition[]
+  stream?: boolean
+  thinkingBudget?: number  // 扩展思考预算（tokens），未设置时不开启
+  // 查找 assistant 工具调用消息对应的思考块（开启扩展思考时必须随工具调用一起回传）
+  getThinkingBlocks?: (toolCallId: string) => AnthropicThinkingBlock[] | undefined
+}
+
+// ==================== 请求转换 ====================
+
+/**
+ * 停止原因映射为 OpenAI 的 finish_reason
+ */
+function toFinishReason(stopReason?: string): string | undefined {
+  switch (stopReason) {
+    case 'end_turn':
+    case 'stop_sequence':
+      return 'stop'
+    case 'tool_use':
+      return 'tool_calls'
+    case 'max_tokens':
+      return 'length'
+    default:
+      return stopReason
+  }
+}
+
+/**
+ * 解析工具参数 JSON（解析失败时传空对象，避免整个请求被拒绝）
+ */
+function parseToolInput(args: string): unknown {
+  try {
+    return args ? JSON.parse(args) : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * 追加消息，相同角色的连续消息合并为一条（工具结果需要放在同一条 user 消息中）
+ */
+function appendMessage(messages: AnthropicMessage[], role: 'user' | 'assistant', blocks: AnthropicContentBlock[]): void {
+  if (blocks.length === 0) return
+  const last = messages[messages.length - 1]
+  if (last && last.role === role) {
+    last.content.push(...blocks)
+  } else {
+    messages.push({ role, content: blocks })
+  }
+}
+
+/**
+ * 构建 Messages API 请求体
+ * system 消息合并为顶层 system 字段，tool 消息转换为 tool_result 内容块
+ */
+export function buildAnthropicRequest(messages: AiMessage[], options: AnthropicRequestOptions): Record<string, unknown> {
+  const systemParts: string[] = []
+  const converted: AnthropicMessage[] = []
+
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      if (msg.content) systemParts.push(msg.content)
+      continue
+    }
+
+    if (msg.role === 'tool') {
+      appendMessage(converted, 'user', [{
+        type: 'tool_result',
+        tool_use_id: msg.tool_call_id || '',
+        content: msg.content
+      }])
+      continue
+    }
+
+    if (msg.role === 'assistant') {
+      const blocks: AnthropicContentBlock[] = []
+      if (msg.tool_calls?.length && options.thinkingBudget) {
+        blocks.push(...(options.getThinkingBlocks?.(msg.tool_calls[0].id) || []))
+      }
+      if (msg.content) {
+        blocks.push({ type: 'text', text: msg.content })
+      }
+      for (const call of msg.tool_calls || []) {
+        blocks.push({
+          type: 'tool_use',
+          id: call.id,
+          name: call.function.name,
+          input: parseToolInput(call.function.arguments)
+        })
+      }
+      appendMessage(converted, 'assistant', blocks)
+      continue
+    }
+
+    appendMessage(converted, 'user', [{ type: 'text', text: msg.content || ' ' }])
+  }
+
+  const body: Record<string, unknown> = {
+    model: options.model,
+    max_tokens: options.maxTokens,
+    messages: converted
+  }
+  if (systemParts.length > 0) {
+    body.system = systemParts.join('\n\n')
+  }
+  if (options.tools?.length) {
+    body.tools = options.tools.map(tool => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: tool.function.parameters
+    }))
+  }
+  if (options.thinkingBudget) {
+    // 开启扩展思考时不能设置 temperature，且 max_tokens 必须大于思考预算
+    body.thinking = { type: 'enabled', budget_tokens: options.thinkingBudget }
+    body.max_tokens = options.thinkingBudget + options.maxTokens
+  } else if (options.temperature !== undefined) {
+    body.temperature = options.temperature
+  }
+  if (options.stream) {
+    body.stream = true
+  }
+  return body
+}
+
+// ==================== 响应转换 ====================
+
+/**
+ * 非流式响应转换为 OpenAI 风格
+ */
+export function toOpenAiResponse(data: AnthropicResponse): OpenAiResponse & { thinkingBlocks: AnthropicThinkingBlock[] } {
+  const thinkingBlocks: AnthropicThinkingBlock[] = []
+  if (data.error) {
+    return { error: { message: data.error.message, type: data.error.type }, thinkingBlocks }
+  }
+
+  let content = ''
+  let reasoning = ''
+  const toolCalls: ToolCall[] = []
+  for (const block of data.content || []) {
+    if (block.type === 'text') {
+      content += block.text
+    } else if (block.type === 'tool_use') {
+      toolCalls.push({
+        id: block.id,
+        type: 'function',
+        function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) }
+      })
+    } else if (block.type === 'thinking') {
+      reasoning += block.thinking
+      thinkingBlocks.push(block)
+    } else if (block.type === 'redacted_thinking') {
+      thinkingBlocks.push(block)
+    }
+  }
+
+  return {
+    choices: [{
+      message: {
+        content: content || null,
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+        reasoning_content: reasoning || undefined
+      },
+      finish_reason: toFinishReason(data.stop_reason)
+    }],
+    usage: data.usage ? toOpenAiUsage(data.usage) : undefined,
+    thinkingBlocks
+  }
+}
+
+/**
+ * token 用量转换为 OpenAI 风格
+ */
+function toOpenAiUsage(usage: AnthropicUsage): OpenAiUsage {
+  return {
+    prompt_tokens: (usage.input_tokens || 0) + (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0),
+    completion_tokens: usage.output_tokens || 0
+  }
+}
+
+/**
+ * 流式事件转换器
+ * 每个请求使用一个实例：将 Messages API 的 SSE 事件逐条转换为 OpenAI 风格的数据块，
+ * 同时收集思考块（含签名）供后续回传
+ */
+export class AnthropicStreamTranslator {
+  // 内容块序号 → 工具调用序号
+  private toolIndexes: Map<number, number> = new Map()
+  // 内容块序号 → 正在接收的思考块
+  private thinking: Map<number, AnthropicThinkingBlock> = new Map()
+  readonly thinkingBlocks: AnthropicThinkingBlock[] = []
+  // message_start 给出输入用量，message_delta 给出累计输出用量
+  private usage: AnthropicUsage = {}
+  done = false
+
+  /**
+   * 转换一条 SSE data；返回 null 表示该事件无需处理（ping、content_block_stop 等）
+   */
+  translate(event: AnthropicStreamEvent): OpenAiStreamChunk | null {
+    const index = event.index ?? 0
+
+    switch (event.type) {
+      case 'content_block_start': {
+        const block = event.content_block
+        if (block?.type === 'tool_use') {
+          const toolIndex = this.toolIndexes.size
+          this.toolIndexes.set(index, toolIndex)
+          return { choices: [{ delta: { tool_calls: [{ index: toolIndex, id: block.id, function: { name: block.name, arguments: '' } }] } }] }
+        }
+        if (block?.type === 'thinking') {
+          this.thinking.set(index, { type: 'thinking', thinking: block.thinking || '', signature: block.signature || '' })
+          return block.thinking ? { choices: [{ delta: { reasoning_content: block.thinking } }] } : null
+        }
+        if (block?.type === 'redacted_thinking') {
+          this.thinkingBlocks.push(block)
+          return null
+        }
+        if (block?.type === 'text' && block.text) {
+          return { choices: [{ delta: { content: block.text } }] }
+        }
+        return null
+      }
+
+      case 'content_block_delta': {
+        const delta = event.delta
+        if (delta?.type === 'text_delta' && delta.text) {
+          return { choices: [{ delta: { content: delta.text } }] }
+        }
+        if (delta?.type === 'input_json_delta' && delta.partial_json) {
+          const toolIndex = this.toolIndexes.get(index)
+          if (toolIndex === undefined) return null
+          return { choices: [{ delta: { tool_calls: [{ index: toolIndex, function: { arguments: delta.partial_json } }] } }] }
+        }
+        const block = this.thinking.get(index)
+        if (delta?.type === 'thinking_delta' && delta.thinking) {
+          if (block?.type === 'thinking') block.thinking += delta.thinking
+          return { choices: [{ delta: { reasoning_content: delta.thinking } }] }
+        }
+        if (delta?.type === 'signature_delta' && delta.signature && block?.type === 'thinking') {
+          block.signature += delta.signature
+        }
+        return null
+      }
+
+      case 'content_block_stop': {
+        const block = this.thinking.get(index)
+        if (block) {
+          this.thinkingBlocks.push(block)
+          this.thinking.delete(index)
+        }
+        return null
+      }
+
+      case 'message_start':
+        this.usage = { ...event.message?.usage }
+        return null
+
+      case 'message_delta': {
+        if (event.usage) {
+          this.usage = { ...this.usage, ...event.usage }
+        }
+        const chunk: OpenAiStreamChunk = { usage: toOpenAiUsage(this.usage) }
+        if (event.delta?.stop_reason) {
+          chunk.choices = [{ finish_reason: toFinishReason(event.delta.stop_reason) }]
+        }
+        return chunk
+      }
+
+      case 'message_stop':
+        this.done = true
+        return null
+
+      case 'error':
+        return { error: { message: event.error?.message || event.error?.type || 'unknown error' } }
+
+      default:
+        return null
+    }
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * 本地模型服务适配（Ollama / llama.cpp server）
+ * 对话请求走两者都提供的 OpenAI 兼容接口；这里负责拼接接口地址，
+ * 以及从服务端发现可用模型、上下文长度和是否支持工具调用
+ */
+import * as https from 'https'
+import * as http from 'http'
+
+// 本地模型信息
+export interface LocalModelInfo {
+  name: string
+  contextLength?: number    // 上下文长度（tokens），未知时为空
+  supportsTools?: boolean   // 是否支持原生工具调用，未知时为空
+  size?: number             // 模型文件大小（字节）
+  parameterSize?: string    // 参数规模，如 7B
+}
+
+// 模型发现结果
+export interface LocalModelDiscovery {
+  server: 'ollama' | 'llamacpp' | 'openai'
+  baseUrl: string
+  models: LocalModelInfo[]
+}
+
+// 请求超时（本地服务，无需等待太久）
+const REQUEST_TIMEOUT = 10000
+
+// OpenAI 兼容对话接口路径
+const CHAT_COMPLETIONS_PATH = '/v1/chat/completions'
+
+/**
+ * 从用户填写的地址推断服务根地址
+ * 支持填写 http://host:11434、http://host:11434/v1 或完整的 /v1/chat/completions 等
+ */
+export function getLocalServerBase(apiUrl: string): string {
+  const url = new URL(apiUrl)
+  const pathname = url.pathname
+    .replace(/\/+$/, '')
+    .replace(/\/(chat\/completions|completions|api\/chat|api\/generate)$/, '')
+    .replace(/\/(v1|api)$/, '')
+  return url.origin + pathname
+}
+
+/**
+ * 获取本地服务的 OpenAI 兼容对话接口地址
+ */
+export function resolveLocalChatUrl(apiUrl: string): string {
+  if (/\/chat\/completions\/?$/.test(new URL(apiUrl).pathname)) {
+    return apiUrl
+  }
+  return getLocalServerBase(apiUrl) + CHAT_COMPLETIONS_PATH
+}
+
+/**
+ * 发送 JSON 请求
+ */
+function requestJson<T>(target: string, method: 'GET' | 'POST', body?: object, agent?: http.Agent): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const url = new URL(target)
+    const isHttps = url.protocol === 'https:'
+    const httpModule = isHttps ? https : http
+
+    const req = httpModule.request({
+      hostname: url.hostname,
+      port: url.port || (isHttps ? 443 : 80),
+      path: url.pathname + url.search,
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      agent,
+      timeout: REQUEST_TIMEOUT
+    }, (res) => {
+      let data = ''
+      res.on('data', (chunk) => { data += chunk })
+      res.on('end', () => {
+        if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
+          try {
+            resolve(JSON.parse(data))
+          } catch {
+            reject(new Error(`响应解析失败: ${data.slice(0, 200)}`))
+          }
+        } else {
+          reject(new Error(`${res.statusCode} - ${data.slice(0, 200)}`))
+        }
+      })
+    })
+
+    req.on('timeout', () => {
+      req.destroy(new Error('请求超时'))
+    })
+    req.on('error', reject)
+
+    if (body) {
+      req.write(JSON.stringify(body))
+    }
+    req.end()
+  })
+}
+
+// ==================== Ollama ====================
+
+interface OllamaTagsResponse {
+  models?: {
+    name: string
+    size?: number
+    details?: { parameter_size?: string }
+  }[]
+}
+
+interface OllamaShowResponse {
+  capabilities?: string[]             // 新版本提供，如 ["completion", "tools"]
+  model_info?: Record<string, unknown> // 包含 "<架构>.context_length"
+  parameters?: string                 // Modelfile 参数，可能包含 num_ctx
+  template?: string
+}
+
+/**
+ * 读取 Ollama 模型详情
+ * 上下文长度优先取 Modelfile 中的 num_ctx（实际生效值），否则取模型训练上下文长度
+ */
+async function showOllamaModel(baseUrl: string, name: string, agent?: http.Agent): Promise<Pick<LocalModelInfo, 'contextLength' | 'supportsTools'>> {
+  try {
+    const info = await requestJson<OllamaShowResponse>(`${baseUrl}/api/show`, 'POST', { model: name }, agent)
+
+    const numCtx = info.parameters?.match(/^\s*num_ctx\s+(\d+)/m)
+    let contextLength = numCtx ? parseInt(numCtx[1], 10) : undefined
+    if (!contextLength && info.model_info) {
+      const key = Object.keys(info.model_info).find(k => k.endsWith('.context_length'))
+      const value = key ? info.model_info[key] : undefined
+      contextLength = typeof value === 'number' ? value : undefined
+    }
+
+    // 旧版本没有 capabilities 字段，通过模板是否引用 .Tools 判断
+    const supportsTools = info.capabilities
+      ? info.capabilities.includes('tools')
+      : info.template !== undefined ? info.template.includes('.Tools') : undefined
+
+    return { contextLength, supportsTools }
+  } catch (e) {
+    console.warn(`[LocalModels] 读取模型 ${name} 详情失败:`, e)
+    return {}
+  }
+}
+
+async function discoverOllama(baseUrl: string, agent?: http.Agent): Promise<LocalModelInfo[]> {
+  const tags = await requestJson<OllamaTagsResponse>(`${baseUrl}/api/tags`, 'GET', undefined, agent)
+  const models = tags.models || []
+  return Promise.all(models.map(async model => ({
+    name: model.name,
+    size: model.size,
+    parameterSize: model.details?.parameter_size,
+    ...(await showOllamaModel(baseUrl, model.name, agent))
+  })))
+}
+
+// ==================== llama.cpp / OpenAI 兼容 ====================
+
+interface OpenAiModelsResponse {
+  data?: {
+    id: string
+    meta?: { n_ctx_train?: number; size?: number }  // llama.cpp 扩展字段
+  }[]
+}
+
+interface LlamaCppPropsResponse {
+  default_generation_settings?: { n_ctx?: number }
+  chat_template?: string
+  chat_template_caps?: { supports_tool_calls?: boolean; supports_tools?: boolean }
+}
+
+async function discoverOpenAiCompatible(baseUrl: string, agent?: http.Agent): Promise<LocalModelDiscovery> {
+  const list = await requestJson<OpenAiModelsResponse>(`${baseUrl}/v1/models`, 'GET', undefined, agent)
+
+  // llama.cpp server 提供 /props，可读取实际上下文长度与对话模板
+  let props: LlamaCppPropsResponse | null = null
+  try {
+    props = await requestJson<LlamaCppPropsResponse>(`${baseUrl}/props`, 'GET', undefined, agent)
+  } catch {
+    // 非 llama.cpp 服务
+  }
+
+  let supportsTools: boolean | undefined
+  if (props?.chat_template_caps) {
+    supportsTools = !!(props.chat_template_caps.supports_tool_calls ?? props.chat_template_caps.supports_tools)
+  } else if (props?.chat_template !== undefined) {
+    supportsTools = props.chat_template.includes('tools')
+  }
+
+  const models = (list.data || []).map(model => ({
+    name: model.id,
+    size: model.meta?.size,
+    contextLength: props?.default_generation_settings?.n_ctx || model.meta?.n_ctx_train,
+    supportsTools
+  }))
+
+  return { server: props ? 'llamacpp' : 'openai', baseUrl, models }
+}
+
+/**
+ * 发现本地服务上的可用模型
+ * 先按 Ollama 原生接口查询，失败后按 OpenAI 兼容接口（llama.cpp 等）查询
+ */
+export async function discoverLocalModels(apiUrl: string, agent?: http.Agent): Promise<LocalModelDiscovery> {
+  const baseUrl = getLocalServerBase(apiUrl)
+
+  try {
+    const models = await discoverOllama(baseUrl, agent)
+    return { server: 'ollama', baseUrl, models }
+  } catch (ollamaError) {
+    try {
+      return await discoverOpenAiCompatible(baseUrl, agent)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      const ollamaMessage = ollamaError instanceof Error ? ollamaError.message : String(ollamaError)
+      throw new Error(`无法获取模型列表（${baseUrl}）: ${ollamaMessage}; ${message}`)
+    }
+  }
+}
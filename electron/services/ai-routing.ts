@@ -0,0 +1,132 @@
+/**
+ * AI 请求路由
+ * 按配置的故障转移链或加权池决定请求依次尝试哪些 AI Profile，
+ * 并判断失败是否值得重试（限流、服务端错误、超时与网络错误）
+ */
+import type { AiProfile, AiRoutingConfig } from './config.service'
+
+// 实际响应请求的 AI 配置，写入聊天 / Agent 历史记录
+export interface AiServedProfile {
+  id: string
+  name: string
+}
+
+// 重试退避基础间隔与上限（毫秒）
+const RETRY_BASE_DELAY = 1000
+const RETRY_MAX_DELAY = 15000
+
+// 请求超时（毫秒）：一段时间内没有收到任何数据即视为超时
+export const AI_REQUEST_TIMEOUT = 60000
+
+/**
+ * 生成本次请求依次尝试的 Profile 列表
+ * - single：只使用指定 / 当前配置
+ * - failover：指定 / 当前配置优先，之后按链顺序
+ * - weighted：按权重随机选出首选，其余按权重从高到低作为备选
+ * 显式指定的 profileId 总是排在第一位
+ */
+export function resolveProfileChain(
+  profiles: AiProfile[],
+  activeId: string,
+  routing: AiRoutingConfig,
+  profileId?: string
+): AiProfile[] {
+  if (profiles.length === 0) return []
+
+  const byId = (id: string) => profiles.find(p => p.id === id)
+  const explicit = profileId ? byId(profileId) : undefined
+  if (profileId && !explicit) return []
+
+  const primary = explicit || byId(activeId) || profiles[0]
+  if (routing.mode === 'single') {
+    return [primary]
+  }
+
+  const pool = routing.profileIds
+    .map(byId)
+    .filter((p): p is AiProfile => !!p)
+
+  let ordered: AiProfile[]
+  if (routing.mode === 'weighted' && pool.length > 0) {
+    const weightOf = (p: AiProfile) => Math.max(0, routing.weights[p.id] ?? 1)
+    const picked = explicit || pickWeighted(pool, weightOf)
+    const rest = pool.filter(p => p !== picked).sort((a, b) => weightOf(b) - weightOf(a))
+    ordered = [picked, ...rest]
+  } else {
+    ordered = [primary, ...pool]
+  }
+
+  // 去重，保留首次出现的位置
+  return ordered.filter((p, i) => ordered.findIndex(o => o.id === p.id) === i)
+}
+
+/**
+ * 按权重随机选择（权重全为 0 时取第一个）
+ */
+function pickWeighted(pool: AiProfile[], weightOf: (p: AiProfile) => number): AiProfile {
+  const total = pool.reduce((sum, p) => sum + weightOf(p), 0)
+  if (total <= 0) return pool[0]
+
+  let r = Math.random() * total
+  for (const p of pool) {
+    r -= weightOf(p)
+    if (r < 0) return p
+  }
+  return pool[pool.length - 1]
+}
+
+/**
+ * 判断请求失败是否可重试 / 切换到下一个配置
+ * 429 限流、5xx 服务端错误、超时以及连接类网络错误可重试；
+ * 鉴权失败、参数错误、上下文超限等换个时间重试也不会成功
+ */
+export function isRetryableAiError(errorMessage: string): boolean {
+  if (errorMessage.includes('上下文超出')) return false
+
+  const status = errorMessage.match(/请求失败: (\d{3})\b/)
+  if (status) {
+    const code = parseInt(status[1], 10)
+    return code === 429 || code >= 500
+  }
+
+  const lowerMsg = errorMessage.toLowerCase()
+  return [
+    '请求超时',
+    'timeout',
+    'etimedout',
+    'econnreset',
+    'econnrefused',
+    'enotfound',
+    'enetunreach',
+    'ehostunreach',
+    'epipe',
+    'socket hang up',
+    'overloaded',
+    'rate limit'
+  ].some(pattern => lowerMsg.includes(pattern))
+}
+
+/**
+ * 计算第 attempt 次重试前的等待时间（指数退避 + 抖动）
+ */
+export function getRetryDelay(attempt: number): number {
+  const delay = Math.min(RETRY_BASE_DELAY * Math.pow(2, attempt), RETRY_MAX_DELAY)
+  return delay + Math.floor(Math.random() * RETRY_BASE_DELAY / 2)
+}
+
+/**
+ * 等待指定时间，中止时提前结束
+ */
+export function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve()
+      return
+    }
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      resolve()
+    })
+  })
+}
@@ -3,6 +3,27 @@ import { HttpsProxyAgent } from 'https-proxy-agent'
 import { SocksProxyAgent } from 'socks-proxy-agent'
 import * as https from 'https'
 import * as http from 'http'
+import {
+  ANTHROPIC_VERSION,
+  AnthropicStreamTranslator,
+  buildAnthropicRequest,
+  toOpenAiResponse,
+  type AnthropicResponse,
+  type AnthropicThinkingBlock,
+  type OpenAiStreamChunk,
+  type OpenAiUsage
+} from './ai-providers/anthropic'
+import { discoverLocalModels, resolveLocalChatUrl, type LocalModelDiscovery } from './ai-providers/local'
+import {
+  AI_REQUEST_TIMEOUT,
+  resolveProfileChain,
+  isRetryableAiError,
+  getRetryDelay,
+  waitForRetry,
+  type AiServedProfile
+} from './ai-routing'
+
+export type { AiServedProfile }
 
 export interface AiMessage {
   role: 'system' | 'user' | 'assistant' | 'tool'
@@ -24,6 +45,7 @@ export interface ToolDefinition {
         type: string
         description: string
         enum?: string[]
+        items?: Record<string, unknown>  // 数组参数的元素定义
       }>
       required?: string[]
     }
@@ -44,8 +66,32 @@ export interface ChatWithToolsResult {
   tool_calls?: ToolCall[]
   finish_reason?: 'stop' | 'tool_calls' | 'length'
   reasoning_content?: string  // think 模型的思考内容
+  servedBy?: AiServedProfile  // 实际响应请求的 AI 配置（故障转移后可能不是首选配置）
 }
 
+// 用量统计上下文：请求来源以及所在的主机 / 终端
+export interface AiUsageContext {
+  source: 'chat' | 'agent' | 'knowledge'
+  host?: string         // 主机 ID（local 或 user@host）
+  terminalId?: string
+  agentRunId?: string
+}
+
+// 一次请求的实际 token 用量（取自接口返回的 usage）
+export interface AiUsageEvent extends AiUsageContext {
+  profileId: string
+  profileName: string
+  model: string
+  promptTokens: number
+  completionTokens: number
+}
+
+// AI 接口协议：OpenAI 兼容（Chat Completions）、Anthropic Messages API 或本地模型服务（Ollama / llama.cpp）
+export type AiProvider = 'openai' | 'anthropic' | 'local'
+
+// Agent 工具调用方式：auto 按模型能力判断，native 使用 function calling，prompt 使用提示词工具协议
+export type ToolCallMode = 'auto' | 'native' | 'prompt'
+
 export interface AiProfile {
   id: string
   name: string
@@ -54,17 +100,84 @@ export interface AiProfile {
   model: string
   proxy?: string
   contextLength?: number  // 模型上下文长度（tokens），默认 8000
+  provider?: AiProvider  // 默认 openai
+  thinkingBudget?: number  // Anthropic 扩展思考预算（tokens），不设置则不开启
+  supportsTools?: boolean  // 模型是否支持原生工具调用（本地模型发现时写入，未知时为空）
+  toolCallMode?: ToolCallMode  // 工具调用方式，默认 auto
+  tokenizer?: string  // token 计数词表：auto（按模型推断）/ heuristic（按字符估算）/ 词表名称，默认 auto
 }
 
+// 思考块缓存上限（按工具调用缓存，超出后淘汰最早的）
+const MAX_THINKING_CACHE = 200
+
+// 严格校验参数的网关拒绝 stream_options 时的错误特征
+const STREAM_OPTIONS_REJECTED_PATTERN = /stream_options|include_usage|unrecognized|unknown (field|param|argument|key)|extra (field|input)|additional propert/
+
 export class AiService {
   private configService: ConfigService
   // 使用 Map 存储多个请求的 AbortController，支持多个终端同时请求
   private abortControllers: Map<string, AbortController> = new Map()
+  // Anthropic 扩展思考块（含签名），按首个工具调用 ID 缓存
+  // 工具调用的后续请求必须原样回传这些块，Agent 的消息历史中只保存了思考文本
+  private thinkingBlocks: Map<string, AnthropicThinkingBlock[]> = new Map()
+  // 用量记录回调，由主进程设置并写入历史
+  private usageRecorder?: (event: AiUsageEvent) => void
+  // 拒绝 stream_options 参数的 Profile，之后的流式请求不再携带
+  private streamOptionsUnsupported: Set<string> = new Set()
 
   constructor() {
     this.configService = new ConfigService()
   }
 
+  /**
+   * 设置用量记录回调
+   */
+  setUsageRecorder(recorder: (event: AiUsageEvent) => void): void {
+    this.usageRecorder = recorder
+  }
+
+  /**
+   * 流式请求的用量参数（已知不支持的 Profile 不携带）
+   */
+  private streamOptionsFor(profile: AiProfile): { stream_options?: { include_usage: boolean } } {
+    return this.streamOptionsUnsupported.has(profile.id) ? {} : { stream_options: { include_usage: true } }
+  }
+
+  /**
+   * 判断流式请求是否因 stream_options 被拒绝，是则记录该 Profile 以便去掉参数重试
+   */
+  private rejectedStreamOptions(profile: AiProfile, statusCode: number | undefined, errorData: string): boolean {
+    if (profile.provider === 'anthropic' || this.streamOptionsUnsupported.has(profile.id)) return false
+    if (statusCode !== 400 && statusCode !== 422) return false
+    if (!STREAM_OPTIONS_REJECTED_PATTERN.test(errorData.toLowerCase())) return false
+    this.streamOptionsUnsupported.add(profile.id)
+    return true
+  }
+
+  /**
+   * 上报一次请求的 token 用量（接口未返回 usage 时跳过）
+   */
+  private reportUsage(profile: AiProfile, usage: OpenAiUsage | undefined, context?: AiUsageContext): void {
+    if (!usage || !this.usageRecorder) return
+    const promptTokens = usage.prompt_tokens || 0
+    const completionTokens = usage.completion_tokens || 0
+    if (promptTokens === 0 && completionTokens === 0) return
+
+    try {
+      this.usageRecorder({
+        source: 'chat',
+        ...context,
+        profileId: profile.id,
+        profileName: profile.name,
+        model: profile.model,
+        promptTokens,
+        completionTokens
+      })
+    } catch (e) {
+      console.error('[AI] 记录用量失败:', e)
+    }
+  }
+
   /**
    * 中止指定请求，如果不传 requestId 则中止所有请求
    */
@@ -95,6 +208,97 @@ export class AiService {
     }
   }
 
+  /**
+   * 构建 HTTP 请求参数（按接口协议设置鉴权头，并应用代理）
+   */
+  private buildRequestOptions(profile: AiProfile) {
+    // 本地模型服务允许只填写服务地址，对话走其 OpenAI 兼容接口
+    const url = new URL(profile.provider === 'local' ? resolveLocalChatUrl(profile.apiUrl) : profile.apiUrl)
+    const isHttps = url.protocol === 'https:'
+    const httpModule = isHttps ? https : http
+
+    const headers: Record<string, string> = profile.provider === 'anthropic'
+      ? {
+          'Content-Type': 'application/json',
+          'x-api-key': profile.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION
+        }
+      : {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${profile.apiKey}`
+        }
+
+    const options: https.RequestOptions = {
+      hostname: url.hostname,
+      port: url.port || (isHttps ? 443 : 80),
+      path: url.pathname + url.search,
+      method: 'POST',
+      headers,
+      timeout: AI_REQUEST_TIMEOUT
+    }
+
+    // 应用代理
+    if (profile.proxy) {
+      options.agent = this.getProxyAgent(profile.proxy)
+    }
+
+    return { httpModule, options }
+  }
+
+  /**
+   * 构建 Anthropic 请求体
+   */
+  private buildAnthropicBody(
+    profile: AiProfile,
+    messages: AiMessage[],
+    maxTokens: number,
+    extra: { tools?: ToolDefinition[]; stream?: boolean } = {}
+  ): Record<string, unknown> {
+    return buildAnthropicRequest(messages, {
+      model: profile.model,
+      maxTokens,
+      temperature: 0.7,
+      tools: extra.tools,
+      stream: extra.stream,
+      thinkingBudget: profile.thinkingBudget,
+      getThinkingBlocks: id => this.thinkingBlocks.get(id)
+    })
+  }
+
+  /**
+   * 缓存工具调用对应的思考块
+   */
+  private cacheThinkingBlocks(toolCalls: ToolCall[] | undefined, blocks: AnthropicThinkingBlock[]): void {
+    if (!toolCalls?.length || blocks.length === 0) return
+    this.thinkingBlocks.set(toolCalls[0].id, blocks)
+    if (this.thinkingBlocks.size > MAX_THINKING_CACHE) {
+      const oldest = this.thinkingBlocks.keys().next().value
+      if (oldest !== undefined) {
+        this.thinkingBlocks.delete(oldest)
+      }
+    }
+  }
+
+  /**
+   * 发现本地模型服务（Ollama / llama.cpp）上的可用模型
+   */
+  async listLocalModels(apiUrl: string, proxy?: string): Promise<LocalModelDiscovery> {
+    return discoverLocalModels(apiUrl, proxy ? this.getProxyAgent(proxy) : undefined)
+  }
+
+  /**
+   * 当前模型是否使用原生工具调用
+   * auto 模式下仅在本地模型发现明确判定不支持时返回 false，供 Agent 决定是否改用提示词工具协议
+   */
+  async supportsNativeTools(profileId?: string): Promise<boolean> {
+    const profile = await this.getCurrentProfile(profileId)
+    const mode = profile?.toolCallMode || 'auto'
+    if (mode !== 'auto') {
+      return mode === 'native'
+    }
+    return profile?.supportsTools !== false
+  }
+
   /**
    * 获取当前 AI Profile
    */
@@ -115,46 +319,73 @@ export class AiService {
   }
 
   /**
-   * 发送聊天请求（非流式）
+   * 获取本次请求依次尝试的 AI Profile（按故障转移链或加权池排序）
    */
-  async chat(messages: AiMessage[], profileId?: string): Promise<string> {
-    const profile = await this.getCurrentProfile(profileId)
-    if (!profile) {
+  private getProfileChain(profileId?: string): AiProfile[] {
+    return resolveProfileChain(
+      this.configService.getAiProfiles(),
+      this.configService.getActiveAiProfile(),
+      this.configService.getAiRouting(),
+      profileId
+    )
+  }
+
+  /**
+   * 按路由配置依次尝试各 Profile
+   * 遇到 429 / 5xx / 超时先按退避重试当前配置，重试用尽后切换到下一个配置
+   * @param canRetry 返回 false 时不再重试（如流式请求已输出内容）
+   */
+  private async runWithFailover<T>(
+    profileId: string | undefined,
+    attempt: (profile: AiProfile) => Promise<T>,
+    options: { signal?: AbortSignal; canRetry?: () => boolean } = {}
+  ): Promise<{ result: T; servedBy: AiServedProfile }> {
+    const chain = this.getProfileChain(profileId)
+    if (chain.length === 0) {
       throw new Error('未配置 AI 模型，请先在设置中添加 AI 配置')
     }
 
-    const requestBody = {
-      model: profile.model,
-      messages,
-      temperature: 0.7,
-      max_tokens: 2048
-    }
+    const { maxRetries } = this.configService.getAiRouting()
+    let lastError = new Error('AI 请求失败')
 
-    try {
-      const data = await this.makeRequest<{
-        choices?: { message?: { content?: string } }[]
-        error?: { message?: string; code?: string; type?: string }
-      }>(profile, requestBody)
-
-      if (data.error) {
-        // 检测上下文超限错误
-        const errorMsg = data.error.message?.toLowerCase() || ''
-        const errorCode = data.error.code?.toLowerCase() || ''
-        
-        if (errorMsg.includes('context_length') || 
-            errorMsg.includes('maximum context') ||
-            (errorMsg.includes('token') && errorMsg.includes('limit')) ||
-            errorCode.includes('context_length')) {
-          throw new Error(`上下文超出模型限制。请清除部分对话历史后重试。`)
+    for (let i = 0; i < chain.length; i++) {
+      const profile = chain[i]
+      for (let retry = 0; retry <= maxRetries; retry++) {
+        if (options.signal?.aborted) {
+          throw new Error('请求已中止')
+        }
+        try {
+          const result = await attempt(profile)
+          return { result, servedBy: { id: profile.id, name: profile.name } }
+        } catch (error) {
+          lastError = error instanceof Error ? error : new Error(String(error))
+          if (!isRetryableAiError(lastError.message) || (options.canRetry && !options.canRetry())) {
+            throw lastError
+          }
+          if (retry < maxRetries) {
+            const delay = getRetryDelay(retry)
+            console.log(`[AI] ${profile.name} 请求失败 (${lastError.message})，${delay}ms 后重试 (${retry + 1}/${maxRetries})`)
+            await waitForRetry(delay, options.signal)
+          } else if (i < chain.length - 1) {
+            console.log(`[AI] ${profile.name} 请求失败，切换到 ${chain[i + 1].name}`)
+          }
         }
-        
-        throw new Error(`AI API 错误: ${data.error.message}`)
       }
+    }
+
+    throw lastError
+  }
 
-      return data.choices?.[0]?.message?.content || ''
+  /**
+   * 发送聊天请求（非流式）
+   */
+  async chat(messages: AiMessage[], profileId?: string, usageContext?: AiUsageContext): Promise<string> {
+    try {
+      const { result } = await this.runWithFailover(profileId, profile => this.requestChat(profile, messages, usageContext))
+      return result
     } catch (error) {
       if (error instanceof Error) {
-        if (error.message.includes('上下文超出')) {
+        if (error.message.includes('上下文超出') || error.message.includes('未配置 AI 模型')) {
           throw error
         }
         const msg = error.message.toLowerCase()
@@ -170,29 +401,51 @@ export class AiService {
   }
 
   /**
-   * 发送 HTTP 请求（支持代理）
+   * 使用指定 Profile 发送一次非流式聊天请求
    */
-  private makeRequest<T>(profile: AiProfile, body: object, signal?: AbortSignal): Promise<T> {
-    return new Promise((resolve, reject) => {
-      const url = new URL(profile.apiUrl)
-      const isHttps = url.protocol === 'https:'
-      const httpModule = isHttps ? https : http
-
-      const options: https.RequestOptions = {
-        hostname: url.hostname,
-        port: url.port || (isHttps ? 443 : 80),
-        path: url.pathname + url.search,
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${profile.apiKey}`
+  private async requestChat(profile: AiProfile, messages: AiMessage[], usageContext?: AiUsageContext): Promise<string> {
+    const isAnthropic = profile.provider === 'anthropic'
+    const requestBody = isAnthropic
+      ? this.buildAnthropicBody(profile, messages, 2048)
+      : {
+          model: profile.model,
+          messages,
+          temperature: 0.7,
+          max_tokens: 2048
         }
-      }
 
-      // 应用代理
-      if (profile.proxy) {
-        options.agent = this.getProxyAgent(profile.proxy)
+    const response = await this.makeRequest<{
+      choices?: { message?: { content?: string | null } }[]
+      usage?: OpenAiUsage
+      error?: { message?: string; code?: string; type?: string }
+    }>(profile, requestBody)
+    const data = isAnthropic ? toOpenAiResponse(response as AnthropicResponse) : response
+    this.reportUsage(profile, data.usage, usageContext)
+
+    if (data.error) {
+      // 检测上下文超限错误
+      const errorMsg = data.error.message?.toLowerCase() || ''
+      const errorCode = data.error.code?.toLowerCase() || ''
+      
+      if (errorMsg.includes('context_length') || 
+          errorMsg.includes('maximum context') ||
+          (errorMsg.includes('token') && errorMsg.includes('limit')) ||
+          errorCode.includes('context_length')) {
+        throw new Error(`上下文超出模型限制。请清除部分对话历史后重试。`)
       }
+      
+      throw new Error(`AI API 错误: ${data.error.message}`)
+    }
+
+    return data.choices?.[0]?.message?.content || ''
+  }
+
+  /**
+   * 发送 HTTP 请求（支持代理）
+   */
+  private makeRequest<T>(profile: AiProfile, body: object, signal?: AbortSignal): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const { httpModule, options } = this.buildRequestOptions(profile)
 
       const req = httpModule.request(options, (res) => {
         let data = ''
@@ -212,6 +465,10 @@ export class AiService {
         })
       })
 
+      req.on('timeout', () => {
+        req.destroy(new Error('请求超时'))
+      })
+
       req.on('error', (err) => {
         reject(new Error(`请求错误: ${err.message}`))
       })
@@ -237,59 +494,98 @@ export class AiService {
   async chatStream(
     messages: AiMessage[],
     onChunk: (chunk: string) => void,
-    onDone: () => void,
+    onDone: (servedBy?: AiServedProfile) => void,
     onError: (error: string) => void,
     profileId?: string,
-    requestId?: string
+    requestId?: string,
+    usageContext?: AiUsageContext
   ): Promise<void> {
-    const profile = await this.getCurrentProfile(profileId)
-    if (!profile) {
-      onError('未配置 AI 模型，请先在设置中添加 AI 配置')
-      return
-    }
-
-    const requestBody = {
-      model: profile.model,
-      messages,
-      temperature: 0.7,
-      max_tokens: 2048,
-      stream: true
-    }
-
     // 创建 AbortController，使用 requestId 或生成一个唯一 ID
     const reqId = requestId || `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
     const abortController = new AbortController()
     this.abortControllers.set(reqId, abortController)
 
+    // 已输出内容后不再重试，避免重复输出
+    let hasOutput = false
     try {
-      const url = new URL(profile.apiUrl)
-      const isHttps = url.protocol === 'https:'
-      const httpModule = isHttps ? https : http
-
-      const options: https.RequestOptions = {
-        hostname: url.hostname,
-        port: url.port || (isHttps ? 443 : 80),
-        path: url.pathname + url.search,
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${profile.apiKey}`
-        }
+      const { servedBy } = await this.runWithFailover(
+        profileId,
+        profile => new Promise<void>((resolve, reject) => {
+          this.streamChat(
+            profile,
+            messages,
+            chunk => {
+              hasOutput = true
+              onChunk(chunk)
+            },
+            resolve,
+            error => reject(new Error(error)),
+            abortController,
+            usageContext
+          )
+        }),
+        { signal: abortController.signal, canRetry: () => !hasOutput }
+      )
+      onDone(servedBy)
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        onDone()
+        return
       }
+      onError(error instanceof Error ? error.message : 'AI 请求失败: 未知错误')
+    }
+  }
 
-      // 应用代理
-      if (profile.proxy) {
-        options.agent = this.getProxyAgent(profile.proxy)
-      }
+  /**
+   * 使用指定 Profile 发送一次流式聊天请求
+   */
+  private streamChat(
+    profile: AiProfile,
+    messages: AiMessage[],
+    onChunk: (chunk: string) => void,
+    onDone: () => void,
+    onError: (error: string) => void,
+    abortController: AbortController,
+    usageContext?: AiUsageContext
+  ): void {
+    const requestBody = profile.provider === 'anthropic'
+      ? this.buildAnthropicBody(profile, messages, 2048, { stream: true })
+      : {
+          model: profile.model,
+          messages,
+          temperature: 0.7,
+          max_tokens: 2048,
+          stream: true,
+          ...this.streamOptionsFor(profile)  // 最后一个数据块返回 usage
+        }
+
+    try {
+      const { httpModule, options } = this.buildRequestOptions(profile)
+      // Anthropic 流式事件转换为 OpenAI 风格的数据块后复用下方的处理逻辑
+      const translator = profile.provider === 'anthropic' ? new AnthropicStreamTranslator() : null
 
       let hasReasoningOutput = false  // 标记是否已输出思考内容
       let hasContentOutput = false    // 标记是否已输出正常内容
+      let usage: OpenAiUsage | undefined
+      let finished = false
+      // [DONE] 与响应结束都会触发完成，只上报一次用量
+      const finish = () => {
+        if (finished) return
+        finished = true
+        this.reportUsage(profile, usage, usageContext)
+        onDone()
+      }
 
       const req = httpModule.request(options, (res) => {
         if (res.statusCode && (res.statusCode < 200 || res.statusCode >= 300)) {
           let errorData = ''
           res.on('data', (chunk) => { errorData += chunk })
           res.on('end', () => {
+            // 网关不认识 stream_options 时去掉该参数重试一次
+            if (this.rejectedStreamOptions(profile, res.statusCode, errorData)) {
+              this.streamChat(profile, messages, onChunk, onDone, onError, abortController, usageContext)
+              return
+            }
             // 检测上下文超限错误
             const errorLower = errorData.toLowerCase()
             if (errorLower.includes('context_length') || 
@@ -323,15 +619,32 @@ export class AiService {
                 if (hasReasoningOutput && !hasContentOutput) {
                   onChunk('\n\n</details>\n')
                 }
-                onDone()
+                finish()
                 return
               }
 
               try {
-                const parsed = JSON.parse(data) as {
+                const raw = JSON.parse(data)
+                const parsed = (translator ? translator.translate(raw) : raw) as {
                   choices?: { delta?: { content?: string; reasoning_content?: string } }[]
+                  usage?: OpenAiUsage | null
+                  error?: { message?: string }
+                } | null
+                if (parsed?.usage) {
+                  usage = parsed.usage
                 }
-                const delta = parsed.choices?.[0]?.delta
+                if (translator?.done) {
+                  if (hasReasoningOutput && !hasContentOutput) {
+                    onChunk('\n\n</details>\n')
+                  }
+                  finish()
+                  return
+                }
+                if (translator && parsed?.error) {
+                  onError(`AI API 错误: ${parsed.error.message}`)
+                  return
+                }
+                const delta = parsed?.choices?.[0]?.delta
                 
                 // 处理 think 模型的 reasoning_content（思考过程）
                 if (delta?.reasoning_content) {
@@ -360,7 +673,7 @@ export class AiService {
         })
 
         res.on('end', () => {
-          onDone()
+          finish()
         })
 
         res.on('error', (err) => {
@@ -368,6 +681,10 @@ export class AiService {
         })
       })
 
+      req.on('timeout', () => {
+        req.destroy(new Error('请求超时'))
+      })
+
       req.on('error', (err) => {
         if (err.message === '请求已中止') {
           onDone()
@@ -399,13 +716,43 @@ export class AiService {
   async chatWithTools(
     messages: AiMessage[],
     tools: ToolDefinition[],
-    profileId?: string
+    profileId?: string,
+    usageContext?: AiUsageContext
   ): Promise<ChatWithToolsResult> {
-    const profile = await this.getCurrentProfile(profileId)
-    if (!profile) {
-      throw new Error('未配置 AI 模型，请先在设置中添加 AI 配置')
+    try {
+      const { result, servedBy } = await this.runWithFailover(
+        profileId,
+        profile => this.requestChatWithTools(profile, messages, tools, usageContext)
+      )
+      return { ...result, servedBy }
+    } catch (error) {
+      if (error instanceof Error) {
+        // 如果已经是格式化的错误，直接抛出
+        if (error.message.includes('上下文超出') || error.message.includes('未配置 AI 模型')) {
+          throw error
+        }
+        // 再次检测错误消息中的上下文超限
+        const msg = error.message.toLowerCase()
+        if (msg.includes('context_length') || 
+            msg.includes('maximum context') ||
+            (msg.includes('token') && msg.includes('limit'))) {
+          throw new Error(`上下文超出模型限制。请清除部分对话历史后重试。`)
+        }
+        throw new Error(`AI 请求失败: ${error.message}`)
+      }
+      throw error
     }
+  }
 
+  /**
+   * 使用指定 Profile 发送一次带工具的非流式请求
+   */
+  private async requestChatWithTools(
+    profile: AiProfile,
+    messages: AiMessage[],
+    tools: ToolDefinition[],
+    usageContext?: AiUsageContext
+  ): Promise<ChatWithToolsResult> {
     // 转换消息格式，处理 tool_calls 和 reasoning_content（支持 think 模型）
     const formattedMessages = messages.map(msg => {
       if (msg.role === 'tool') {
@@ -437,72 +784,67 @@ export class AiService {
       }
     })
 
-    const requestBody = {
-      model: profile.model,
-      messages: formattedMessages,
-      tools: tools.length > 0 ? tools : undefined,
-      tool_choice: tools.length > 0 ? 'auto' : undefined,
-      temperature: 0.7,
-      max_tokens: 4096
-    }
+    const isAnthropic = profile.provider === 'anthropic'
+    const requestBody = isAnthropic
+      ? this.buildAnthropicBody(profile, messages, 4096, { tools })
+      : {
+          model: profile.model,
+          messages: formattedMessages,
+          tools: tools.length > 0 ? tools : undefined,
+          tool_choice: tools.length > 0 ? 'auto' : undefined,
+          temperature: 0.7,
+          max_tokens: 4096
+        }
 
-    try {
-      const data = await this.makeRequest<{
-        choices?: {
-          message?: {
-            content?: string | null
-            tool_calls?: ToolCall[]
-          }
-          finish_reason?: string
-        }[]
-        error?: { message?: string; code?: string; type?: string }
-      }>(profile, requestBody)
-
-      if (data.error) {
-        // 检测上下文超限错误
-        const errorMsg = data.error.message?.toLowerCase() || ''
-        const errorCode = data.error.code?.toLowerCase() || ''
-        const errorType = data.error.type?.toLowerCase() || ''
-        
-        if (errorMsg.includes('context_length') || 
-            errorMsg.includes('maximum context') ||
-            errorMsg.includes('token') && errorMsg.includes('limit') ||
-            errorMsg.includes('too many tokens') ||
-            errorMsg.includes('too long') ||
-            errorCode.includes('context_length') ||
-            errorType.includes('context_length')) {
-          throw new Error(`上下文超出模型限制。请清除部分对话历史后重试。\n原始错误: ${data.error.message}`)
+    const response = await this.makeRequest<{
+      choices?: {
+        message?: {
+          content?: string | null
+          tool_calls?: ToolCall[]
+          reasoning_content?: string
         }
-        
-        throw new Error(`AI API 错误: ${data.error.message}`)
+        finish_reason?: string
+      }[]
+      usage?: OpenAiUsage
+      error?: { message?: string; code?: string; type?: string }
+    }>(profile, requestBody)
+    let data = response
+    if (isAnthropic) {
+      const converted = toOpenAiResponse(response as AnthropicResponse)
+      this.cacheThinkingBlocks(converted.choices?.[0]?.message?.tool_calls, converted.thinkingBlocks)
+      data = converted
+    }
+    this.reportUsage(profile, data.usage, usageContext)
+
+    if (data.error) {
+      // 检测上下文超限错误
+      const errorMsg = data.error.message?.toLowerCase() || ''
+      const errorCode = data.error.code?.toLowerCase() || ''
+      const errorType = data.error.type?.toLowerCase() || ''
+      
+      if (errorMsg.includes('context_length') || 
+          errorMsg.includes('maximum context') ||
+          errorMsg.includes('token') && errorMsg.includes('limit') ||
+          errorMsg.includes('too many tokens') ||
+          errorMsg.includes('too long') ||
+          errorCode.includes('context_length') ||
+          errorType.includes('context_length')) {
+        throw new Error(`上下文超出模型限制。请清除部分对话历史后重试。\n原始错误: ${data.error.message}`)
       }
+      
+      throw new Error(`AI API 错误: ${data.error.message}`)
+    }
 
-      const choice = data.choices?.[0]
-      if (!choice) {
-        throw new Error('AI 返回结果为空')
-      }
+    const choice = data.choices?.[0]
+    if (!choice) {
+      throw new Error('AI 返回结果为空')
+    }
 
-      return {
-        content: choice.message?.content || undefined,
-        tool_calls: choice.message?.tool_calls,
-        finish_reason: choice.finish_reason as ChatWithToolsResult['finish_reason']
-      }
-    } catch (error) {
-      if (error instanceof Error) {
-        // 如果已经是格式化的错误，直接抛出
-        if (error.message.includes('上下文超出')) {
-          throw error
-        }
-        // 再次检测错误消息中的上下文超限
-        const msg = error.message.toLowerCase()
-        if (msg.includes('context_length') || 
-            msg.includes('maximum context') ||
-            (msg.includes('token') && msg.includes('limit'))) {
-          throw new Error(`上下文超出模型限制。请清除部分对话历史后重试。`)
-        }
-        throw new Error(`AI 请求失败: ${error.message}`)
-      }
-      throw error
+    return {
+      content: choice.message?.content || undefined,
+      tool_calls: choice.message?.tool_calls,
+      finish_reason: choice.finish_reason as ChatWithToolsResult['finish_reason'],
+      reasoning_content: choice.message?.reasoning_content
     }
   }
 
@@ -519,14 +861,58 @@ export class AiService {
     onDone: (result: ChatWithToolsResult) => void,
     onError: (error: string) => void,
     profileId?: string,
-    onToolCallProgress?: (toolName: string, argsLength: number) => void  // 工具调用参数生成进度
+    onToolCallProgress?: (toolName: string, argsLength: number) => void,  // 工具调用参数生成进度
+    usageContext?: AiUsageContext,
+    signal?: AbortSignal
   ): Promise<void> {
-    const profile = await this.getCurrentProfile(profileId)
-    if (!profile) {
-      onError('未配置 AI 模型，请先在设置中添加 AI 配置')
-      return
+    // 已输出内容或工具调用后不再重试，避免重复输出
+    let hasOutput = false
+    try {
+      const { result, servedBy } = await this.runWithFailover(
+        profileId,
+        profile => new Promise<ChatWithToolsResult>((resolve, reject) => {
+          this.streamChatWithTools(
+            profile,
+            messages,
+            tools,
+            chunk => {
+              hasOutput = true
+              onChunk(chunk)
+            },
+            onToolCall,
+            resolve,
+            error => reject(new Error(error)),
+            onToolCallProgress && ((toolName, argsLength) => {
+              hasOutput = true
+              onToolCallProgress(toolName, argsLength)
+            }),
+            usageContext,
+            signal
+          )
+        }),
+        { signal, canRetry: () => !hasOutput }
+      )
+      onDone({ ...result, servedBy })
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'AI 请求失败')
     }
+  }
 
+  /**
+   * 使用指定 Profile 发送一次带工具的流式请求
+   */
+  private streamChatWithTools(
+    profile: AiProfile,
+    messages: AiMessage[],
+    tools: ToolDefinition[],
+    onChunk: (chunk: string) => void,
+    onToolCall: (toolCalls: ToolCall[]) => void,
+    onDone: (result: ChatWithToolsResult) => void,
+    onError: (error: string) => void,
+    onToolCallProgress?: (toolName: string, argsLength: number) => void,
+    usageContext?: AiUsageContext,
+    signal?: AbortSignal
+  ): void {
     // 转换消息格式，支持 think 模型的 reasoning_content
     const formattedMessages = messages.map(msg => {
       if (msg.role === 'tool') {
@@ -559,35 +945,23 @@ export class AiService {
       }
     })
 
-    const requestBody = {
-      model: profile.model,
-      messages: formattedMessages,
-      tools: tools.length > 0 ? tools : undefined,
-      tool_choice: tools.length > 0 ? 'auto' : undefined,
-      temperature: 0.7,
-      max_tokens: 4096,
-      stream: true
-    }
-
-    try {
-      const url = new URL(profile.apiUrl)
-      const isHttps = url.protocol === 'https:'
-      const httpModule = isHttps ? https : http
-
-      const options: https.RequestOptions = {
-        hostname: url.hostname,
-        port: url.port || (isHttps ? 443 : 80),
-        path: url.pathname + url.search,
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${profile.apiKey}`
+    const requestBody = profile.provider === 'anthropic'
+      ? this.buildAnthropicBody(profile, messages, 4096, { tools, stream: true })
+      : {
+          model: profile.model,
+          messages: formattedMessages,
+          tools: tools.length > 0 ? tools : undefined,
+          tool_choice: tools.length > 0 ? 'auto' : undefined,
+          temperature: 0.7,
+          max_tokens: 4096,
+          stream: true,
+          ...this.streamOptionsFor(profile)
         }
-      }
 
-      if (profile.proxy) {
-        options.agent = this.getProxyAgent(profile.proxy)
-      }
+    try {
+      const { httpModule, options } = this.buildRequestOptions(profile)
+      // Anthropic 流式事件转换为 OpenAI 风格的数据块后复用下方的处理逻辑
+      const translator = profile.provider === 'anthropic' ? new AnthropicStreamTranslator() : null
 
       let content = ''
       let reasoningContent = ''  // 用于收集 think 模型的思考内容
@@ -595,6 +969,13 @@ export class AiService {
       let finishReason: string | undefined
       let hasReasoningOutput = false  // 标记是否已输出思考内容的开始标记
       let hasContentOutput = false    // 标记是否已开始输出正常内容
+      let usage: OpenAiUsage | undefined
+      let usageReported = false
+      const reportUsageOnce = () => {
+        if (usageReported) return
+        usageReported = true
+        this.reportUsage(profile, usage, usageContext)
+      }
 
       const req = httpModule.request(options, (res) => {
         // 处理 HTTP 错误
@@ -602,6 +983,11 @@ export class AiService {
           let errorData = ''
           res.on('data', (chunk) => { errorData += chunk })
           res.on('end', () => {
+            // 网关不认识 stream_options 时去掉该参数重试一次
+            if (this.rejectedStreamOptions(profile, res.statusCode, errorData)) {
+              this.streamChatWithTools(profile, messages, tools, onChunk, onToolCall, onDone, onError, onToolCallProgress, usageContext, signal)
+              return
+            }
             onError(`AI API 请求失败: ${res.statusCode} - ${errorData}`)
           })
           return
@@ -617,7 +1003,26 @@ export class AiService {
           for (const line of lines) {
             if (line.startsWith('data: ')) {
               const data = line.slice(6).trim()
-              if (data === '[DONE]') {
+              let json: OpenAiStreamChunk | null
+              try {
+                const raw = data === '[DONE]' ? null : JSON.parse(data)
+                json = translator && raw ? translator.translate(raw) : raw
+              } catch {
+                // 忽略解析错误
+                continue
+              }
+              if (translator && json?.error) {
+                onError(`AI API 错误: ${json.error.message}`)
+                return
+              }
+              if (json?.usage) {
+                usage = json.usage
+              }
+              if (data === '[DONE]' || translator?.done) {
+                if (translator) {
+                  this.cacheThinkingBlocks(toolCalls, translator.thinkingBlocks)
+                }
+                reportUsageOnce()
                 // 如果有思考内容但没有最终内容
                 const finalContent = content || (reasoningContent ? `🤔 **思考过程**\n\n> ${reasoningContent.replace(/\n/g, '\n> ')}` : undefined)
                 onDone({
@@ -630,9 +1035,8 @@ export class AiService {
               }
 
               try {
-                const json = JSON.parse(data)
-                const delta = json.choices?.[0]?.delta
-                const reason = json.choices?.[0]?.finish_reason
+                const delta = json?.choices?.[0]?.delta
+                const reason = json?.choices?.[0]?.finish_reason
 
                 if (reason) {
                   finishReason = reason
@@ -709,6 +1113,10 @@ export class AiService {
         })
 
         res.on('end', () => {
+          if (translator) {
+            this.cacheThinkingBlocks(toolCalls, translator.thinkingBlocks)
+          }
+          reportUsageOnce()
           // 如果有工具调用，通知一次
           if (toolCalls.length > 0) {
             onToolCall(toolCalls)
@@ -728,10 +1136,22 @@ export class AiService {
         })
       })
 
+      req.on('timeout', () => {
+        req.destroy(new Error('请求超时'))
+      })
+
       req.on('error', (err) => {
         onError(`请求失败: ${err.message}`)
       })
 
+      // 支持中止请求（Agent 被中止时取消进行中的流式请求）
+      if (signal) {
+        signal.addEventListener('abort', () => {
+          req.destroy()
+          onError('请求已中止')
+        }, { once: true })
+      }
+
       req.write(JSON.stringify(requestBody))
       req.end()
     } catch (error) {
@@ -1,6 +1,8 @@
 import Store from 'electron-store'
 import { safeStorage } from 'electron'
 import type { KnowledgeSettings } from './knowledge/types'
+import type { PortForwardConfig } from './port-forward.service'
+import type { SshReconnectPolicy } from './ssh.service'
 import { DEFAULT_KNOWLEDGE_SETTINGS } from './knowledge/types'
 
 export interface AiProfile {
@@ -10,6 +12,49 @@ export interface AiProfile {
   apiKey: string
   model: string
   proxy?: string
+  provider?: 'openai' | 'anthropic' | 'local'  // 接口协议，默认 OpenAI 兼容
+  thinkingBudget?: number  // Anthropic 扩展思考预算（tokens），不设置则不开启
+  supportsTools?: boolean  // 模型是否支持原生工具调用，未知时为空
+  toolCallMode?: 'auto' | 'native' | 'prompt'  // 工具调用方式，默认 auto
+  tokenizer?: string  // token 计数词表：auto（按模型推断）/ heuristic（按字符估算）/ 词表名称，默认 auto
+}
+
+// AI 请求路由：single 仅使用当前配置；failover 按顺序故障转移；weighted 按权重负载均衡
+export interface AiRoutingConfig {
+  mode: 'single' | 'failover' | 'weighted'
+  profileIds: string[]             // 故障转移链（按顺序）或负载均衡池
+  weights: Record<string, number>  // weighted 模式下各配置的权重，默认 1
+  maxRetries: number               // 单个配置遇到 429 / 5xx / 超时时的重试次数
+}
+
+// 模型单价（每百万 tokens），model 以 * 结尾时按前缀匹配
+export interface ModelPrice {
+  model: string
+  inputPrice: number
+  outputPrice: number
+}
+
+// 用量费用统计使用的模型单价表
+export interface ModelPricingConfig {
+  currency: string  // 货币符号，仅用于展示
+  prices: ModelPrice[]
+}
+
+// 命令风险策略规则：allow 直接执行，confirm 需要确认，deny 禁止执行
+export interface RiskPolicyRule {
+  id: string
+  name?: string
+  enabled: boolean
+  pattern: string                  // 正则表达式，不区分大小写
+  action: 'allow' | 'confirm' | 'deny'
+  scope: 'all' | 'host' | 'group' | 'hostname'
+  scopeValue?: string              // host: 主机标识（user@host / local），group: 分组名，hostname: 主机名通配符
+}
+
+// 命令风险策略，规则按顺序匹配，第一条命中的规则生效
+export interface RiskPolicyConfig {
+  useBuiltinRules: boolean         // 没有规则命中时使用内置风险评估
+  rules: RiskPolicyRule[]
 }
 
 // 跳板机配置
@@ -17,17 +62,20 @@ export interface JumpHostConfig {
   host: string
   port: number
   username: string
-  authType: 'password' | 'privateKey'
+  authType: 'password' | 'privateKey' | 'agent'
   password?: string
   privateKeyPath?: string
   passphrase?: string
+  totpSecret?: string   // TOTP 种子，用于自动填写键盘交互认证中的验证码
 }
 
 // 会话分组
 export interface SessionGroup {
   id: string
   name: string
-  jumpHost?: JumpHostConfig
+  jumpHost?: JumpHostConfig        // 保留旧字段（单跳），兼容迁移
+  jumpHosts?: JumpHostConfig[]     // 跳板机链（按顺序逐跳连接）
+  reconnect?: SshReconnectPolicy   // 组内会话默认的自动重连策略
 }
 
 export interface SshSession {
@@ -36,13 +84,18 @@ export interface SshSession {
   host: string
   port: number
   username: string
-  authType: 'password' | 'privateKey'
+  authType: 'password' | 'privateKey' | 'agent'
   password?: string
   privateKeyPath?: string
   passphrase?: string
+  totpSecret?: string      // TOTP 种子，用于自动填写键盘交互认证中的验证码
+  agentForward?: boolean   // 转发本地 SSH Agent（等同于 ssh -A）
   group?: string           // 保留旧字段，兼容迁移
   groupId?: string         // 新字段：引用分组 ID
-  jumpHostOverride?: JumpHostConfig | null  // 覆盖分组跳板机
+  jumpHostOverride?: JumpHostConfig | null  // 保留旧字段（单跳），兼容迁移
+  jumpHostsOverride?: JumpHostConfig[] | null  // 覆盖分组跳板机链
+  portForwards?: PortForwardConfig[]  // 端口转发（随连接启动/停止）
+  reconnect?: SshReconnectPolicy  // 自动重连（未设置时继承分组）
 }
 
 export interface TerminalSettings {
@@ -53,6 +106,35 @@ export interface TerminalSettings {
   scrollback: number
 }
 
+// 工作区中的标签页
+export interface WorkspaceTab {
+  type: 'local' | 'ssh'
+  title?: string
+  sessionId?: string       // SSH 标签页对应的会话 ID
+  shell?: string           // 本地终端使用的 shell
+  cwd?: string             // 保存时的工作目录
+}
+
+// 工作区分屏布局（与渲染进程的 SplitPane 结构一致，tabId 替换为标签页序号）
+export interface WorkspacePane {
+  type: 'terminal' | 'split'
+  direction?: 'horizontal' | 'vertical'
+  children?: WorkspacePane[]
+  tabIndex?: number
+  size?: number
+}
+
+// 工作区：一组标签页及其分屏布局
+export interface Workspace {
+  id: string
+  name: string
+  tabs: WorkspaceTab[]
+  activeTabIndex: number
+  splitLayout: WorkspacePane | null
+  createdAt: number
+  updatedAt: number
+}
+
 // MCP 服务器配置
 export interface McpServerConfig {
   id: string
@@ -80,14 +162,25 @@ export type AgentMbtiType =
 // 语言类型
 export type LocaleType = 'zh-CN' | 'en-US'
 
+// 本地无界面 Agent 接入（供 CI、ChatOps 等通过本地套接字调用）
+export interface HeadlessAgentSettings {
+  enabled: boolean
+  token: string  // 访问令牌，为空时在首次启用时生成
+}
+
 // UI 主题类型
 export type UiThemeType = 'dark' | 'light' | 'blue' | 'sponsor-gold' | 'sponsor-sakura' | 'sponsor-forest'
 
 interface StoreSchema {
   aiProfiles: AiProfile[]
   activeAiProfile: string
+  aiRouting: AiRoutingConfig
+  modelPricing: ModelPricingConfig
+  riskPolicy: RiskPolicyConfig
   sshSessions: SshSession[]
   sessionGroups: SessionGroup[]
+  workspaces: Workspace[]
+  startupWorkspaceId: string
   theme: string
   uiTheme: UiThemeType
   terminalSettings: TerminalSettings
@@ -97,6 +190,7 @@ interface StoreSchema {
   }
   mcpServers: McpServerConfig[]
   agentMbti: AgentMbtiType
+  headlessAgent: HeadlessAgentSettings
   knowledgeSettings: KnowledgeSettings
   setupCompleted: boolean
   language: LocaleType
@@ -105,8 +199,24 @@ interface StoreSchema {
 const defaultConfig: StoreSchema = {
   aiProfiles: [],
   activeAiProfile: '',
+  aiRouting: {
+    mode: 'single',
+    profileIds: [],
+    weights: {},
+    maxRetries: 2
+  },
+  modelPricing: {
+    currency: '$',
+    prices: []
+  },
+  riskPolicy: {
+    useBuiltinRules: true,
+    rules: []
+  },
   sshSessions: [],
   sessionGroups: [],
+  workspaces: [],
+  startupWorkspaceId: '',
   theme: 'one-dark',
   uiTheme: 'dark',
   terminalSettings: {
@@ -122,6 +232,10 @@ const defaultConfig: StoreSchema = {
   },
   mcpServers: [],
   agentMbti: null,
+  headlessAgent: {
+    enabled: false,
+    token: ''
+  },
   knowledgeSettings: DEFAULT_KNOWLEDGE_SETTINGS,
   setupCompleted: false,
   language: 'zh-CN'
@@ -232,6 +346,48 @@ export class ConfigService {
     this.store.set('activeAiProfile', profileId)
   }
 
+  /**
+   * 获取 AI 请求路由配置（故障转移 / 负载均衡）
+   */
+  getAiRouting(): AiRoutingConfig {
+    return { ...defaultConfig.aiRouting, ...this.store.get('aiRouting') }
+  }
+
+  /**
+   * 设置 AI 请求路由配置
+   */
+  setAiRouting(routing: AiRoutingConfig): void {
+    this.store.set('aiRouting', routing)
+  }
+
+  /**
+   * 获取模型单价表
+   */
+  getModelPricing(): ModelPricingConfig {
+    return { ...defaultConfig.modelPricing, ...this.store.get('modelPricing') }
+  }
+
+  /**
+   * 设置模型单价表
+   */
+  setModelPricing(pricing: ModelPricingConfig): void {
+    this.store.set('modelPricing', pricing)
+  }
+
+  /**
+   * 获取命令风险策略
+   */
+  getRiskPolicy(): RiskPolicyConfig {
+    return { ...defaultConfig.riskPolicy, ...this.store.get('riskPolicy') }
+  }
+
+  /**
+   * 设置命令风险策略
+   */
+  setRiskPolicy(policy: RiskPolicyConfig): void {
+    this.store.set('riskPolicy', policy)
+  }
+
   // ==================== SSH 会话配置 ====================
 
   /**
@@ -324,6 +480,36 @@ export class ConfigService {
     this.setSessionGroups(filtered)
   }
 
+  // ==================== 工作区配置 ====================
+
+  /**
+   * 获取所有工作区
+   */
+  getWorkspaces(): Workspace[] {
+    return this.store.get('workspaces') || []
+  }
+
+  /**
+   * 设置工作区
+   */
+  setWorkspaces(workspaces: Workspace[]): void {
+    this.store.set('workspaces', workspaces)
+  }
+
+  /**
+   * 获取启动时自动恢复的工作区 ID
+   */
+  getStartupWorkspace(): string {
+    return this.store.get('startupWorkspaceId') || ''
+  }
+
+  /**
+   * 设置启动时自动恢复的工作区 ID（空字符串表示不恢复）
+   */
+  setStartupWorkspace(workspaceId: string): void {
+    this.store.set('startupWorkspaceId', workspaceId)
+  }
+
   // ==================== 主题配置 ====================
 
   /**
@@ -455,6 +641,22 @@ export class ConfigService {
     this.store.set('agentMbti', mbti)
   }
 
+  // ==================== 本地 Agent 接入设置 ====================
+
+  /**
+   * 获取本地 Agent 接入设置
+   */
+  getHeadlessAgentSettings(): HeadlessAgentSettings {
+    return this.store.get('headlessAgent') || defaultConfig.headlessAgent
+  }
+
+  /**
+   * 设置本地 Agent 接入设置
+   */
+  setHeadlessAgentSettings(settings: HeadlessAgentSettings): void {
+    this.store.set('headlessAgent', settings)
+  }
+
   // ==================== 知识库设置 ====================
 
   /**
@@ -0,0 +1,197 @@
+/**
+ * Cron 表达式解析
+ * 支持标准 5 段格式（分 时 日 月 周），每段可使用 *、列表、范围和步长，
+ * 月份和星期可使用英文缩写；另支持 @hourly、@daily 等常用别名
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  // 日和周都被限定时，按 cron 惯例满足其一即可
+  dayOfMonthRestricted: boolean
+  dayOfWeekRestricted: boolean
+}
+
+const ALIASES: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+interface FieldSpec {
+  label: string
+  min: number
+  max: number
+  names?: string[]
+  nameOffset?: number
+}
+
+const FIELDS: FieldSpec[] = [
+  { label: '分钟', min: 0, max: 59 },
+  { label: '小时', min: 0, max: 23 },
+  { label: '日期', min: 1, max: 31 },
+  { label: '月份', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  // 星期 7 与 0 同为周日
+  { label: '星期', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 }
+]
+
+// 查找下一次运行时间时最多向后搜索的天数（覆盖 2 月 29 日这类闰年表达式）
+const MAX_SEARCH_DAYS = 366 * 5
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const lower = text.toLowerCase()
+  if (spec.names) {
+    const index = spec.names.indexOf(lower)
+    if (index >= 0) return index + (spec.nameOffset ?? 0)
+  }
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`${spec.label}字段的值无效: ${text}`)
+  }
+  const value = parseInt(text, 10)
+  if (value < spec.min || value > spec.max) {
+    throw new Error(`${spec.label}字段超出范围（${spec.min}-${spec.max}）: ${text}`)
+  }
+  return value
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>()
+  for (const part of field.split(',')) {
+    const [rangeText, stepText] = part.split('/')
+    let step = 1
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || parseInt(stepText, 10) === 0) {
+        throw new Error(`${spec.label}字段的步长无效: ${part}`)
+      }
+      step = parseInt(stepText, 10)
+    }
+
+    let start: number
+    let end: number
+    if (rangeText === '*') {
+      start = spec.min
+      end = spec.max
+    } else if (rangeText.includes('-')) {
+      const [startText, endText] = rangeText.split('-')
+      start = parseValue(startText, spec)
+      end = parseValue(endText, spec)
+      if (start > end) {
+        throw new Error(`${spec.label}字段的范围无效: ${rangeText}`)
+      }
+    } else {
+      start = parseValue(rangeText, spec)
+      // 单个值带步长（如 5/15）表示从该值开始到最大值
+      end = stepText !== undefined ? spec.max : start
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+  return values
+}
+
+/**
+ * 解析 cron 表达式
+ * @throws 表达式格式不正确时抛出错误
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim()
+  const normalized = ALIASES[trimmed.toLowerCase()] ?? trimmed
+  const fields = normalized.split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error('Cron 表达式需要 5 个字段：分 时 日 月 周')
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]))
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7)
+    daysOfWeek.add(0)
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !fields[2].startsWith('*'),
+    dayOfWeekRestricted: !fields[4].startsWith('*')
+  }
+}
+
+/**
+ * 校验 cron 表达式，返回错误信息（有效时返回 null）
+ */
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression)
+    return null
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e)
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getDate())
+  const dowMatch = schedule.daysOfWeek.has(date.getDay())
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return domMatch || dowMatch
+  }
+  return domMatch && dowMatch
+}
+
+/**
+ * 判断某一时刻（精确到分钟）是否满足表达式
+ */
+export function matchesCron(schedule: CronSchedule, date: Date): boolean {
+  return schedule.minutes.has(date.getMinutes())
+    && schedule.hours.has(date.getHours())
+    && schedule.months.has(date.getMonth() + 1)
+    && matchesDay(schedule, date)
+}
+
+/**
+ * 计算 after 之后（不含）的下一次运行时间（本地时区）
+ * @returns 找不到时（如 2 月 30 日）返回 null
+ */
+export function getNextCronRun(schedule: CronSchedule, after: Date = new Date()): Date | null {
+  const date = new Date(after.getTime())
+  date.setSeconds(0, 0)
+  date.setMinutes(date.getMinutes() + 1)
+
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000
+  while (date.getTime() <= limit) {
+    // 按月、日、时逐级跳过，避免逐分钟遍历
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1)
+      date.setHours(0, 0, 0, 0)
+      continue
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1)
+      date.setHours(0, 0, 0, 0)
+      continue
+    }
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0)
+      continue
+    }
+    if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0)
+      continue
+    }
+    return date
+  }
+  return null
+}
@@ -0,0 +1,344 @@
+/**
+ * 本地 Agent 接入服务
+ * 在本机套接字（Unix 域套接字 / Windows 命名管道）上接收请求，复用 Agent、工具和已保存的会话运行无人值守任务，
+ * 以 JSON Lines 流式返回执行步骤和最终结果，供 CI、ChatOps 机器人等不经过界面调用
+ *
+ * 协议：客户端发送一行 JSON 请求
+ *   { "token": "...", "task": "...", "sessionId": "...", "riskCeiling": "safe" | "moderate",
+ *     "profileId"?: "...", "maxSteps"?: 30, "commandTimeout"?: 60 }
+ * 服务端逐行返回：
+ *   { "type": "step", "step": AgentStep }   步骤更新时会以相同 id 再次发送
+ *   { "type": "result", "status": "completed" | "failed" | "aborted" | "rejected", "result"?: "...", "error"?: "...", "exitCode": 0 | 1 | 2 }
+ * 返回结果后服务端关闭连接；客户端提前断开时中止运行
+ */
+import * as fs from 'fs'
+import * as os from 'os'
+import * as net from 'net'
+import * as path from 'path'
+import * as crypto from 'crypto'
+import { app } from 'electron'
+import type { AgentStep } from './agent/types'
+import type { ConfigService } from './config.service'
+import type { UnattendedRunner, UnattendedRunResult } from './unattended-runner'
+
+// ==================== 类型定义 ====================
+
+export type HeadlessRiskCeiling = 'safe' | 'moderate'
+
+export interface HeadlessAgentRequest {
+  token: string
+  task: string
+  sessionId: string
+  riskCeiling: HeadlessRiskCeiling
+  profileId?: string
+  maxSteps?: number
+  commandTimeout?: number  // 单条命令超时（秒）
+}
+
+export type HeadlessAgentMessage =
+  | { type: 'step'; step: AgentStep }
+  | {
+      type: 'result'
+      status: UnattendedRunResult['status'] | 'rejected'
+      result?: string
+      error?: string
+      exitCode: number
+    }
+
+export interface HeadlessAgentStatus {
+  enabled: boolean
+  listening: boolean
+  socketPath: string
+  token: string
+  error?: string
+}
+
+// 退出码：0 成功，1 运行失败或中止，2 请求被拒绝（认证失败或参数无效）
+const EXIT_CODES = {
+  completed: 0,
+  failed: 1,
+  aborted: 1,
+  rejected: 2
+} as const
+
+// 请求行的最大长度
+const MAX_REQUEST_BYTES = 64 * 1024
+
+const DEFAULT_MAX_STEPS = 30
+const MAX_MAX_STEPS = 200
+const DEFAULT_COMMAND_TIMEOUT = 60
+const MIN_COMMAND_TIMEOUT = 5
+const MAX_COMMAND_TIMEOUT = 3600
+
+/**
+ * 判断请求中的数值参数是否为指定范围内的有限数字（请求来自套接字，类型不可信）
+ */
+function isNumberInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+}
+
+// ==================== 本地 Agent 接入服务 ====================
+
+export class HeadlessAgentService {
+  private server: net.Server | null = null
+  private connections: Set<net.Socket> = new Set()
+  private lastError?: string
+
+  constructor(
+    private runner: UnattendedRunner,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * 套接字路径（Windows 使用按用户区分的命名管道）
+   * Unix 下放在仅当前用户可访问的目录中，避免监听后修改权限前的窗口期被其他用户连接
+   */
+  getSocketPath(): string {
+    if (process.platform === 'win32') {
+      return `\\\\.\\pipe\\qiyu-terminal-agent-${os.userInfo().username}`
+    }
+    return path.join(app.getPath('userData'), 'agent-socket', 'agent.sock')
+  }
+
+  getStatus(): HeadlessAgentStatus {
+    const settings = this.configService.getHeadlessAgentSettings()
+    return {
+      enabled: settings.enabled,
+      listening: !!this.server?.listening,
+      socketPath: this.getSocketPath(),
+      token: settings.token,
+      error: this.lastError
+    }
+  }
+
+  /**
+   * 按设置启动监听（未启用时不做任何事）
+   */
+  start(): void {
+    if (this.server || !this.configService.getHeadlessAgentSettings().enabled) return
+
+    const socketPath = this.getSocketPath()
+    if (process.platform !== 'win32') {
+      const socketDir = path.dirname(socketPath)
+      try {
+        fs.mkdirSync(socketDir, { recursive: true, mode: 0o700 })
+        // 目录已存在时 mkdir 不会修改权限
+        fs.chmodSync(socketDir, 0o700)
+      } catch (error) {
+        console.error('[HeadlessAgent] 创建套接字目录失败:', error)
+        this.lastError = error instanceof Error ? error.message : String(error)
+        return
+      }
+      // 清理上次异常退出留下的套接字文件
+      try {
+        fs.unlinkSync(socketPath)
+      } catch {
+        // 文件不存在
+      }
+    }
+
+    const server = net.createServer(socket => this.handleConnection(socket))
+    server.on('error', error => {
+      console.error('[HeadlessAgent] 监听失败:', error)
+      this.lastError = error.message
+      this.server = null
+    })
+    server.listen(socketPath, () => {
+      // 只允许当前用户连接
+      if (process.platform !== 'win32') {
+        try {
+          fs.chmodSync(socketPath, 0o600)
+        } catch (error) {
+          console.error('[HeadlessAgent] 设置套接字权限失败:', error)
+          this.lastError = error instanceof Error ? error.message : String(error)
+          server.close()
+          if (this.server === server) {
+            this.server = null
+          }
+          return
+        }
+      }
+      this.lastError = undefined
+      console.log('[HeadlessAgent] 正在监听:', socketPath)
+    })
+    this.server = server
+  }
+
+  /**
+   * 停止监听并中止所有进行中的请求
+   */
+  stop(): void {
+    this.connections.forEach(socket => socket.destroy())
+    this.connections.clear()
+    if (this.server) {
+      this.server.close()
+      this.server = null
+    }
+  }
+
+  /**
+   * 启用或停用本地接入，首次启用时生成访问令牌
+   */
+  setEnabled(enabled: boolean): HeadlessAgentStatus {
+    const settings = this.configService.getHeadlessAgentSettings()
+    this.configService.setHeadlessAgentSettings({
+      enabled,
+      token: settings.token || this.generateToken()
+    })
+    if (enabled) {
+      this.start()
+    } else {
+      this.stop()
+      this.lastError = undefined
+    }
+    return this.getStatus()
+  }
+
+  /**
+   * 重新生成访问令牌（旧令牌立即失效）
+   */
+  regenerateToken(): HeadlessAgentStatus {
+    const settings = this.configService.getHeadlessAgentSettings()
+    this.configService.setHeadlessAgentSettings({ ...settings, token: this.generateToken() })
+    return this.getStatus()
+  }
+
+  private generateToken(): string {
+    return crypto.randomBytes(32).toString('hex')
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    this.connections.add(socket)
+    socket.setEncoding('utf-8')
+
+    const controller = new AbortController()
+    let buffer = ''
+    let received = false
+
+    socket.on('data', (chunk: string) => {
+      if (received) return
+      buffer += chunk
+      const newline = buffer.indexOf('\n')
+      if (newline < 0) {
+        if (buffer.length > MAX_REQUEST_BYTES) {
+          received = true
+          this.reject(socket, '请求过长')
+        }
+        return
+      }
+      received = true
+      this.handleRequest(socket, buffer.slice(0, newline), controller.signal)
+        .catch(error => this.reject(socket, error instanceof Error ? error.message : String(error)))
+    })
+
+    socket.on('error', error => {
+      console.warn('[HeadlessAgent] 连接错误:', error.message)
+    })
+
+    socket.on('close', () => {
+      this.connections.delete(socket)
+      // 客户端断开时中止运行
+      controller.abort()
+    })
+  }
+
+  private async handleRequest(socket: net.Socket, line: string, signal: AbortSignal): Promise<void> {
+    let request: HeadlessAgentRequest
+    try {
+      request = JSON.parse(line) as HeadlessAgentRequest
+    } catch {
+      this.reject(socket, '请求不是有效的 JSON')
+      return
+    }
+
+    if (!this.verifyToken(request.token)) {
+      this.reject(socket, '访问令牌无效')
+      return
+    }
+
+    const validationError = this.validate(request)
+    if (validationError) {
+      this.reject(socket, validationError)
+      return
+    }
+
+    const task = request.task.trim()
+    const result = await this.runner.run({
+      sessionIds: [request.sessionId],
+      message: `[本地接入]\n当前为无人值守运行，没有用户可以回答问题或确认操作，需要确认的命令会被拒绝。请只执行完成任务所需的命令，最后给出简洁的结果报告。\n\n${task}`,
+      config: {
+        maxSteps: request.maxSteps ?? DEFAULT_MAX_STEPS,
+        commandTimeout: (request.commandTimeout ?? DEFAULT_COMMAND_TIMEOUT) * 1000,
+        autoExecuteSafe: true,
+        autoExecuteModerate: request.riskCeiling === 'moderate',
+        strictMode: false,
+        riskCeiling: request.riskCeiling
+      },
+      profileId: request.profileId,
+      recordTerminalId: `headless:${request.sessionId}`,
+      recordTask: `🔌 ${task}`,
+      onStep: step => {
+        // 流式输出的中间状态不发送，只发送完整的步骤
+        if (!step.isStreaming) {
+          this.send(socket, { type: 'step', step })
+        }
+      },
+      signal
+    })
+
+    this.send(socket, {
+      type: 'result',
+      status: result.status,
+      result: result.finalResult,
+      error: result.error,
+      exitCode: EXIT_CODES[result.status]
+    })
+    socket.end()
+  }
+
+  private validate(request: HeadlessAgentRequest): string | null {
+    if (typeof request.task !== 'string' || !request.task.trim()) {
+      return '缺少任务描述（task）'
+    }
+    if (typeof request.sessionId !== 'string' || !request.sessionId) {
+      return '缺少目标会话（sessionId）'
+    }
+    if (!this.configService.getSshSessions().some(s => s.id === request.sessionId)) {
+      return `目标会话不存在: ${request.sessionId}`
+    }
+    if (request.riskCeiling !== 'safe' && request.riskCeiling !== 'moderate') {
+      // 高风险命令需要确认，无人值守运行中总会被拒绝
+      return '风险上限（riskCeiling）只能为 safe 或 moderate'
+    }
+    if (request.profileId && !this.configService.getAiProfiles().some(p => p.id === request.profileId)) {
+      return `AI 配置不存在: ${request.profileId}`
+    }
+    if (request.maxSteps !== undefined && !isNumberInRange(request.maxSteps, 1, MAX_MAX_STEPS)) {
+      return `最大步数（maxSteps）必须是 1-${MAX_MAX_STEPS} 之间的数字`
+    }
+    if (request.commandTimeout !== undefined &&
+        !isNumberInRange(request.commandTimeout, MIN_COMMAND_TIMEOUT, MAX_COMMAND_TIMEOUT)) {
+      return `命令超时（commandTimeout）必须是 ${MIN_COMMAND_TIMEOUT}-${MAX_COMMAND_TIMEOUT} 秒之间的数字`
+    }
+    return null
+  }
+
+  private verifyToken(token: unknown): boolean {
+    const expected = this.configService.getHeadlessAgentSettings().token
+    if (!expected || typeof token !== 'string') return false
+    // 比较哈希值，避免长度不同时提前返回泄露信息
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest()
+    return crypto.timingSafeEqual(digest(token), digest(expected))
+  }
+
+  private reject(socket: net.Socket, error: string): void {
+    this.send(socket, { type: 'result', status: 'rejected', error, exitCode: EXIT_CODES.rejected })
+    socket.end()
+  }
+
+  private send(socket: net.Socket, message: HeadlessAgentMessage): void {
+    if (!socket.destroyed && socket.writable) {
+      socket.write(JSON.stringify(message) + '\n')
+    }
+  }
+}
@@ -12,6 +12,7 @@ export interface ChatRecord {
   sshHost?: string
   role: 'user' | 'assistant'
   content: string
+  aiProfile?: { id: string; name: string }  // 响应该消息的 AI 配置（仅 assistant）
 }
 
 export interface AgentStepRecord {
@@ -27,6 +28,7 @@ export interface AgentStepRecord {
 
 export interface AgentRecord {
   id: string
+  runId?: string          // Agent 运行 ID（用于查询和撤销本次运行的文件修改）
   timestamp: number
   terminalId: string
   terminalType: 'local' | 'ssh'
@@ -36,6 +38,21 @@ export interface AgentRecord {
   finalResult?: string
   duration: number
   status: 'completed' | 'failed' | 'aborted'
+  aiProfiles?: { id: string; name: string }[]  // 本次运行中响应请求的 AI 配置（按首次使用顺序）
+}
+
+export interface UsageRecord {
+  id: string
+  timestamp: number
+  source: 'chat' | 'agent' | 'knowledge'
+  host?: string         // 主机 ID（local 或 user@host）
+  terminalId?: string
+  agentRunId?: string
+  profileId: string
+  profileName: string
+  model: string
+  promptTokens: number
+  completionTokens: number
 }
 
 export interface HostProfileData {
@@ -71,6 +88,7 @@ export class HistoryService {
   private historyDir: string
   private chatDir: string
   private agentDir: string
+  private usageDir: string
 
   constructor() {
     // 获取用户数据目录
@@ -78,6 +96,7 @@ export class HistoryService {
     this.historyDir = path.join(userDataPath, 'history')
     this.chatDir = path.join(this.historyDir, 'chat')
     this.agentDir = path.join(this.historyDir, 'agent')
+    this.usageDir = path.join(this.historyDir, 'usage')
 
     // 确保目录存在
     this.ensureDirectories()
@@ -87,7 +106,7 @@ export class HistoryService {
    * 确保历史记录目录存在
    */
   private ensureDirectories(): void {
-    const dirs = [this.historyDir, this.chatDir, this.agentDir]
+    const dirs = [this.historyDir, this.chatDir, this.agentDir, this.usageDir]
     for (const dir of dirs) {
       if (!fs.existsSync(dir)) {
         fs.mkdirSync(dir, { recursive: true })
@@ -229,6 +248,38 @@ export class HistoryService {
     return records.sort((a, b) => a.timestamp - b.timestamp)
   }
 
+  // ==================== 用量记录 ====================
+
+  /**
+   * 保存一次 AI 请求的 token 用量
+   */
+  saveUsageRecord(record: UsageRecord): void {
+    const dateStr = this.getDateString(record.timestamp)
+    const filePath = path.join(this.usageDir, `${dateStr}.json`)
+    const records = this.readJsonFile<UsageRecord>(filePath)
+    records.push(record)
+    this.writeJsonFile(filePath, records)
+  }
+
+  /**
+   * 获取指定日期范围的用量记录
+   */
+  getUsageRecords(startDate?: string, endDate?: string): UsageRecord[] {
+    const files = fs.readdirSync(this.usageDir).filter(f => f.endsWith('.json')).sort()
+    const records: UsageRecord[] = []
+
+    for (const file of files) {
+      const dateStr = file.replace('.json', '')
+      if (startDate && dateStr < startDate) continue
+      if (endDate && dateStr > endDate) continue
+
+      const filePath = path.join(this.usageDir, file)
+      records.push(...this.readJsonFile<UsageRecord>(filePath))
+    }
+
+    return records.sort((a, b) => a.timestamp - b.timestamp)
+  }
+
   // ==================== 导出/导入 ====================
 
   /**
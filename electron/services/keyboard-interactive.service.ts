@@ -0,0 +1,191 @@
+import * as crypto from 'crypto'
+
+// ==================== 类型定义 ====================
+
+// 服务器发来的单个提示
+export interface KeyboardInteractivePrompt {
+  prompt: string
+  echo: boolean          // 是否回显输入（false 时按密码处理）
+  autoFilled?: boolean   // 已由客户端自动填写（密码 / TOTP），无需用户输入
+}
+
+// 键盘交互认证请求（由前端弹窗收集答复）
+export interface KeyboardInteractiveRequest {
+  host: string
+  port: number
+  username: string
+  isJumpHost: boolean
+  name: string           // 服务器提供的标题（可能为空）
+  instructions: string   // 服务器提供的说明（可能为空）
+  prompts: KeyboardInteractivePrompt[]
+}
+
+// 发起键盘交互认证的目标主机
+export interface KeyboardInteractiveTarget {
+  host: string
+  port: number
+  username: string
+  isJumpHost: boolean
+  password?: string      // 已保存的密码，用于自动填写密码提示
+  totpSecret?: string    // 已保存的 TOTP 种子，用于自动填写验证码提示
+}
+
+// ssh2 keyboard-interactive 事件的回调签名
+export type KeyboardInteractiveHandler = (
+  name: string,
+  instructions: string,
+  lang: string,
+  prompts: Array<{ prompt: string; echo?: boolean }>,
+  finish: (answers: string[]) => void
+) => void
+
+// 提示类型识别
+const PASSWORD_PROMPT = /password|passcode|密码|口令/i
+const OTP_PROMPT = /verification|one[- ]?time|otp|token|totp|2fa|mfa|authenticator|code|验证码|动态/i
+
+// ==================== TOTP ====================
+
+/**
+ * 解码 Base32（RFC 4648），忽略空格、连字符、大小写与填充
+ */
+function decodeBase32(input: string): Buffer {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+  const clean = input.toUpperCase().replace(/[\s-]/g, '').replace(/=+$/, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+  for (const char of clean) {
+    const index = alphabet.indexOf(char)
+    if (index === -1) {
+      throw new Error(`TOTP 密钥包含非法字符: ${char}`)
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+  if (bytes.length === 0) {
+    throw new Error('TOTP 密钥为空')
+  }
+  return Buffer.from(bytes)
+}
+
+/**
+ * 生成 TOTP 验证码（RFC 6238，HMAC-SHA1，30 秒步长，6 位）
+ * @param secret Base32 种子，也可以是 otpauth:// 链接
+ */
+export function generateTotp(secret: string, now: number = Date.now()): string {
+  let seed = secret.trim()
+  if (seed.startsWith('otpauth://')) {
+    seed = new URL(seed).searchParams.get('secret') || ''
+  }
+  const key = decodeBase32(seed)
+
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(Math.floor(now / 1000 / 30)))
+
+  const hmac = crypto.createHmac('sha1', key).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 1000000
+  return code.toString().padStart(6, '0')
+}
+
+// ==================== 键盘交互认证服务 ====================
+
+/**
+ * 键盘交互（keyboard-interactive）认证
+ * 服务器的每一轮提示先尝试自动填写（已保存的密码、TOTP 验证码，每个连接各自动填写一次，
+ * 避免填错后反复重试），其余提示交由用户在弹窗中输入
+ */
+export class KeyboardInteractiveService {
+  // 用户输入回调（未设置时无法完成需要人工输入的认证），返回 null 表示用户取消
+  private prompt: ((request: KeyboardInteractiveRequest) => Promise<string[] | null>) | null = null
+
+  /**
+   * 设置用户输入回调
+   */
+  setPrompt(prompt: (request: KeyboardInteractiveRequest) => Promise<string[] | null>): void {
+    this.prompt = prompt
+  }
+
+  /**
+   * 创建 ssh2 的 keyboard-interactive 事件处理函数
+   * @param onWaiting 开始 / 结束等待用户输入时调用（用于暂停握手超时计时）
+   * @param onCancel 用户取消输入时调用
+   */
+  createHandler(
+    target: KeyboardInteractiveTarget,
+    onWaiting: (waiting: boolean) => void,
+    onCancel: () => void
+  ): KeyboardInteractiveHandler {
+    let passwordUsed = false
+    let totpUsed = false
+
+    return (name, instructions, _lang, prompts, finish) => {
+      // 仅包含说明、没有提示的轮次直接答复
+      if (prompts.length === 0) {
+        finish([])
+        return
+      }
+
+      const answers: (string | undefined)[] = prompts.map(() => undefined)
+      prompts.forEach((p, index) => {
+        if (p.echo) return
+        if (!passwordUsed && target.password && PASSWORD_PROMPT.test(p.prompt)) {
+          answers[index] = target.password
+          passwordUsed = true
+        } else if (!totpUsed && target.totpSecret && OTP_PROMPT.test(p.prompt)) {
+          try {
+            answers[index] = generateTotp(target.totpSecret)
+            totpUsed = true
+          } catch (e) {
+            console.error(`[SSH] TOTP 自动填写失败 ${target.host}:${target.port}:`, e)
+          }
+        }
+      })
+
+      if (answers.every(answer => answer !== undefined)) {
+        finish(answers as string[])
+        return
+      }
+
+      if (!this.prompt) {
+        onCancel()
+        finish([])
+        return
+      }
+
+      onWaiting(true)
+      this.prompt({
+        host: target.host,
+        port: target.port,
+        username: target.username,
+        isJumpHost: target.isJumpHost,
+        name,
+        instructions,
+        prompts: prompts.map((p, index) => ({
+          prompt: p.prompt,
+          echo: !!p.echo,
+          autoFilled: answers[index] !== undefined
+        }))
+      })
+        .then(userAnswers => {
+          onWaiting(false)
+          if (!userAnswers) {
+            onCancel()
+            finish([])
+            return
+          }
+          finish(answers.map((answer, index) => answer ?? userAnswers[index] ?? ''))
+        })
+        .catch(err => {
+          console.error('[SSH] Keyboard-interactive prompt failed:', err)
+          onWaiting(false)
+          onCancel()
+          finish([])
+        })
+    }
+  }
+}
@@ -39,7 +39,7 @@ export class Reranker {
       // 调用 AI 进行排序
       const response = await this.aiService.chat([
         { role: 'user', content: prompt }
-      ])
+      ], undefined, { source: 'knowledge' })
 
       // 解析排序结果
       const orderedIndices = this.parseRerankResponse(response, candidates.length)
@@ -0,0 +1,264 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as crypto from 'crypto'
+import { app } from 'electron'
+
+// ==================== 类型定义 ====================
+
+export interface KnownHostEntry {
+  hosts: string[]       // 主机模式列表（明文或 |1|salt|hash 哈希形式）
+  keyType: string       // 公钥类型，如 ssh-ed25519
+  key: string           // base64 编码的公钥
+  line: number          // 在文件中的行号（从 1 开始）
+}
+
+export interface HostKeyCheckResult {
+  status: 'trusted' | 'unknown' | 'mismatch'
+  keyType: string
+  fingerprint: string          // 服务器当前公钥指纹（SHA256:xxx）
+  knownFingerprint?: string    // known_hosts 中记录的指纹（仅 mismatch）
+  knownLine?: number           // known_hosts 中冲突记录的行号（仅 mismatch）
+}
+
+// 未知主机公钥确认请求（由前端展示指纹，用户决定是否信任）
+export interface HostKeyPromptRequest {
+  host: string
+  port: number
+  keyType: string
+  fingerprint: string
+  isJumpHost: boolean
+}
+
+// 主机公钥校验失败信息
+export interface HostKeyFailure {
+  reason: 'host_key_mismatch' | 'host_key_rejected'
+  error: Error
+}
+
+// ==================== known_hosts 服务 ====================
+
+/**
+ * SSH 主机公钥存储
+ * 使用与 OpenSSH 兼容的 known_hosts 文件格式：
+ *   host[,host...] keytype base64key
+ * 非 22 端口的主机写作 [host]:port，支持读取 |1|salt|hash 形式的哈希主机名
+ */
+export class KnownHostsService {
+  private filePath: string
+  // 未知主机公钥确认回调（未设置时拒绝所有未知主机）
+  private prompt: ((request: HostKeyPromptRequest) => Promise<boolean>) | null = null
+
+  constructor() {
+    const userDataPath = app.getPath('userData')
+    this.filePath = path.join(userDataPath, 'known_hosts')
+  }
+
+  /**
+   * 获取 known_hosts 文件路径
+   */
+  getFilePath(): string {
+    return this.filePath
+  }
+
+  /**
+   * 设置未知主机公钥确认回调
+   */
+  setPrompt(prompt: (request: HostKeyPromptRequest) => Promise<boolean>): void {
+    this.prompt = prompt
+  }
+
+  /**
+   * 计算公钥指纹（与 ssh-keygen -lf 输出一致）
+   */
+  static fingerprint(key: Buffer): string {
+    const hash = crypto.createHash('sha256').update(key).digest('base64')
+    return `SHA256:${hash.replace(/=+$/, '')}`
+  }
+
+  /**
+   * 从公钥 blob 中解析密钥类型（blob 以 uint32 长度 + 类型字符串开头）
+   */
+  static parseKeyType(key: Buffer): string {
+    if (key.length < 4) return 'unknown'
+    const len = key.readUInt32BE(0)
+    if (len <= 0 || 4 + len > key.length) return 'unknown'
+    return key.subarray(4, 4 + len).toString('ascii')
+  }
+
+  /**
+   * 生成 known_hosts 中使用的主机名（非 22 端口写作 [host]:port）
+   */
+  private formatHost(host: string, port: number): string {
+    return port === 22 ? host : `[${host}]:${port}`
+  }
+
+  /**
+   * 判断主机模式是否匹配（支持明文与哈希形式，通配符模式不参与匹配）
+   */
+  private matchHost(pattern: string, hostName: string): boolean {
+    if (pattern.startsWith('|1|')) {
+      const [, , salt, hash] = pattern.split('|')
+      if (!salt || !hash) return false
+      const digest = crypto
+        .createHmac('sha1', Buffer.from(salt, 'base64'))
+        .update(hostName)
+        .digest('base64')
+      return digest === hash
+    }
+    return pattern === hostName
+  }
+
+  /**
+   * 读取并解析全部记录
+   */
+  list(): KnownHostEntry[] {
+    if (!fs.existsSync(this.filePath)) {
+      return []
+    }
+
+    const entries: KnownHostEntry[] = []
+    try {
+      const lines = fs.readFileSync(this.filePath, 'utf-8').split(/\r?\n/)
+      lines.forEach((raw, index) => {
+        const line = raw.trim()
+        // 跳过空行、注释以及 @cert-authority / @revoked 等标记行
+        if (!line || line.startsWith('#') || line.startsWith('@')) return
+        const parts = line.split(/\s+/)
+        if (parts.length < 3) return
+        entries.push({
+          hosts: parts[0].split(','),
+          keyType: parts[1],
+          key: parts[2],
+          line: index + 1
+        })
+      })
+    } catch (e) {
+      console.error('[KnownHosts] 读取 known_hosts 失败:', e)
+    }
+    return entries
+  }
+
+  /**
+   * 校验服务器公钥
+   * - trusted：已记录且一致
+   * - unknown：未记录该主机（或仅记录了其他类型的密钥）
+   * - mismatch：记录了同类型但不同的公钥
+   */
+  check(host: string, port: number, key: Buffer): HostKeyCheckResult {
+    const hostName = this.formatHost(host, port)
+    const keyType = KnownHostsService.parseKeyType(key)
+    const fingerprint = KnownHostsService.fingerprint(key)
+    const keyBase64 = key.toString('base64')
+
+    const matched = this.list().filter(entry => entry.hosts.some(p => this.matchHost(p, hostName)))
+
+    if (matched.some(entry => entry.key === keyBase64)) {
+      return { status: 'trusted', keyType, fingerprint }
+    }
+
+    const conflict = matched.find(entry => entry.keyType === keyType)
+    if (conflict) {
+      return {
+        status: 'mismatch',
+        keyType,
+        fingerprint,
+        knownFingerprint: KnownHostsService.fingerprint(Buffer.from(conflict.key, 'base64')),
+        knownLine: conflict.line
+      }
+    }
+
+    return { status: 'unknown', keyType, fingerprint }
+  }
+
+  /**
+   * 记录主机公钥（追加到文件末尾）
+   */
+  add(host: string, port: number, key: Buffer): void {
+    const line = `${this.formatHost(host, port)} ${KnownHostsService.parseKeyType(key)} ${key.toString('base64')}\n`
+    const dir = path.dirname(this.filePath)
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true })
+    }
+    // 确保追加内容从新行开始
+    let prefix = ''
+    if (fs.existsSync(this.filePath)) {
+      const content = fs.readFileSync(this.filePath, 'utf-8')
+      if (content.length > 0 && !content.endsWith('\n')) {
+        prefix = '\n'
+      }
+    }
+    fs.appendFileSync(this.filePath, prefix + line, { encoding: 'utf-8', mode: 0o600 })
+  }
+
+  /**
+   * 创建 ssh2 的 hostVerifier
+   * 已记录且一致的公钥直接放行；未知主机交由用户确认后写入 known_hosts（首次信任）；
+   * 公钥与记录不符时直接拒绝，不提供继续连接的选项
+   */
+  createVerifier(
+    host: string,
+    port: number,
+    isJumpHost: boolean,
+    onFailure: (failure: HostKeyFailure) => void
+  ): (key: Buffer, verify: (valid: boolean) => void) => void {
+    return (key, verify) => {
+      const result = this.check(host, port, key)
+
+      if (result.status === 'trusted') {
+        verify(true)
+        return
+      }
+
+      if (result.status === 'mismatch') {
+        console.error(`[KnownHosts] Host key mismatch for ${host}:${port}: ${result.fingerprint}`)
+        onFailure({
+          reason: 'host_key_mismatch',
+          error: new Error(
+            `主机密钥已变更，可能存在中间人攻击！${host}:${port} 当前的 ${result.keyType} 指纹为 ${result.fingerprint}，` +
+            `与已记录的 ${result.knownFingerprint} 不符（${this.filePath}:${result.knownLine}）。` +
+            `如确认服务器密钥已合法更换，请删除该行后重新连接。`
+          )
+        })
+        verify(false)
+        return
+      }
+
+      const rejectUnknown = () => {
+        onFailure({
+          reason: 'host_key_rejected',
+          error: new Error(`未信任 ${host}:${port} 的主机密钥（${result.keyType} ${result.fingerprint}），已取消连接`)
+        })
+        verify(false)
+      }
+
+      if (!this.prompt) {
+        rejectUnknown()
+        return
+      }
+
+      this.prompt({
+        host,
+        port,
+        keyType: result.keyType,
+        fingerprint: result.fingerprint,
+        isJumpHost
+      })
+        .then(accepted => {
+          if (!accepted) {
+            rejectUnknown()
+            return
+          }
+          try {
+            this.add(host, port, key)
+          } catch (e) {
+            console.error('[KnownHosts] 写入 known_hosts 失败:', e)
+          }
+          verify(true)
+        })
+        .catch(err => {
+          console.error('[KnownHosts] Host key prompt failed:', err)
+          rejectUnknown()
+        })
+    }
+  }
+}
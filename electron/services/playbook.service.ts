@@ -0,0 +1,383 @@
+/**
+ * Playbook 服务
+ * 保存可复用的 Agent 任务模板（参数化任务描述、预定义步骤、成功检查和风险上限），
+ * 支持以 YAML 导入导出，便于团队共享
+ */
+import * as fs from 'fs'
+import * as path from 'path'
+import { app } from 'electron'
+import yaml from 'js-yaml'
+
+// ==================== 类型定义 ====================
+
+// 命令风险上限（超过该等级的命令在运行中被拒绝）
+export type PlaybookRiskCeiling = 'safe' | 'moderate' | 'dangerous'
+
+export interface PlaybookParameter {
+  name: string            // 在模板中以 {{name}} 引用
+  label?: string          // 显示名称
+  description?: string
+  default?: string
+  required?: boolean
+  options?: string[]      // 可选值（提供时以下拉框选择）
+}
+
+// 预定义步骤（与 TaskPlanner 创建计划时的步骤结构一致）
+export interface PlaybookStep {
+  description: string
+  purpose?: string
+  checkpoint?: boolean          // 关键检查点：完成后需要确认结果再继续
+  alternativeApproach?: string  // 失败时的备选方案
+}
+
+export interface PlaybookSuccessCheck {
+  description: string
+  command?: string        // 用于验证的命令
+  expect?: string         // 命令输出应匹配的正则
+}
+
+export interface Playbook {
+  id: string
+  name: string
+  description?: string
+  task: string            // 任务描述模板
+  parameters: PlaybookParameter[]
+  steps: PlaybookStep[]
+  successChecks: PlaybookSuccessCheck[]
+  riskCeiling?: PlaybookRiskCeiling
+  createdAt: number
+  updatedAt: number
+}
+
+// 代入参数后的 Playbook，用于启动 Agent 任务
+export interface RenderedPlaybook {
+  playbookId: string
+  name: string
+  task: string
+  steps: PlaybookStep[]
+  successChecks: PlaybookSuccessCheck[]
+  riskCeiling?: PlaybookRiskCeiling
+}
+
+// YAML 文件格式标识
+const PLAYBOOK_FORMAT = 'sfterm-playbooks'
+const PLAYBOOK_VERSION = 1
+
+const RISK_CEILINGS: PlaybookRiskCeiling[] = ['safe', 'moderate', 'dangerous']
+
+// 模板占位符：{{ name }}
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g
+
+// ==================== Playbook 服务 ====================
+
+export class PlaybookService {
+  private filePath: string
+  private playbooks: Playbook[] = []
+
+  constructor() {
+    this.filePath = path.join(app.getPath('userData'), 'playbooks.json')
+    this.load()
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        this.playbooks = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as Playbook[]
+      }
+    } catch (e) {
+      console.error('[Playbook] 加载失败:', e)
+      this.playbooks = []
+    }
+  }
+
+  private persist(): void {
+    fs.writeFileSync(this.filePath, JSON.stringify(this.playbooks, null, 2), 'utf-8')
+  }
+
+  /**
+   * 获取所有 Playbook（按名称排序）
+   */
+  getAll(): Playbook[] {
+    return [...this.playbooks].sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  get(id: string): Playbook | undefined {
+    return this.playbooks.find(p => p.id === id)
+  }
+
+  /**
+   * 新建或更新 Playbook
+   */
+  save(playbook: Playbook): Playbook {
+    const normalized = normalizePlaybook(playbook)
+    const index = this.playbooks.findIndex(p => p.id === normalized.id)
+    if (index >= 0) {
+      normalized.createdAt = this.playbooks[index].createdAt
+      this.playbooks[index] = normalized
+    } else {
+      this.playbooks.push(normalized)
+    }
+    this.persist()
+    return normalized
+  }
+
+  delete(id: string): boolean {
+    const before = this.playbooks.length
+    this.playbooks = this.playbooks.filter(p => p.id !== id)
+    if (this.playbooks.length === before) return false
+    this.persist()
+    return true
+  }
+
+  /**
+   * 代入参数，生成可直接运行的任务
+   * @throws 缺少必填参数时抛出错误
+   */
+  render(id: string, values: Record<string, string>): RenderedPlaybook {
+    const playbook = this.get(id)
+    if (!playbook) {
+      throw new Error('Playbook 不存在')
+    }
+
+    const resolved: Record<string, string> = {}
+    const missing: string[] = []
+    for (const param of playbook.parameters) {
+      const value = (values[param.name] ?? '').trim() || param.default || ''
+      if (!value && param.required) {
+        missing.push(param.label || param.name)
+      }
+      resolved[param.name] = value
+    }
+    if (missing.length > 0) {
+      throw new Error(`缺少必填参数: ${missing.join(', ')}`)
+    }
+
+    // 未声明的占位符保持原样，便于发现模板错误
+    const fill = (text: string | undefined) => text?.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+      name in resolved ? resolved[name] : match
+    )
+
+    return {
+      playbookId: playbook.id,
+      name: playbook.name,
+      task: fill(playbook.task)!,
+      steps: playbook.steps.map(step => ({
+        description: fill(step.description)!,
+        purpose: fill(step.purpose),
+        checkpoint: step.checkpoint,
+        alternativeApproach: fill(step.alternativeApproach)
+      })),
+      successChecks: playbook.successChecks.map(check => ({
+        description: fill(check.description)!,
+        command: fill(check.command),
+        expect: fill(check.expect)
+      })),
+      riskCeiling: playbook.riskCeiling
+    }
+  }
+
+  /**
+   * 导出为 YAML（不指定 ID 时导出全部）
+   */
+  exportYaml(ids?: string[]): string {
+    const playbooks = ids && ids.length > 0
+      ? this.getAll().filter(p => ids.includes(p.id))
+      : this.getAll()
+    return yaml.dump({
+      format: PLAYBOOK_FORMAT,
+      version: PLAYBOOK_VERSION,
+      playbooks: playbooks.map(toExportObject)
+    }, { lineWidth: 120, noRefs: true })
+  }
+
+  /**
+   * 从 YAML 导入，ID 相同的 Playbook 会被覆盖
+   * @returns 导入的 Playbook
+   * @throws 文件格式不正确时抛出错误
+   */
+  importYaml(content: string): Playbook[] {
+    const data = yaml.load(content) as Record<string, unknown> | unknown[] | null
+    if (!data || typeof data !== 'object') {
+      throw new Error('Playbook 文件格式不正确')
+    }
+
+    // 支持完整导出文件，也支持只包含单个 Playbook 或 Playbook 列表的文件
+    let items: unknown[]
+    if (Array.isArray(data)) {
+      items = data
+    } else if (Array.isArray(data.playbooks)) {
+      if (data.format !== undefined && data.format !== PLAYBOOK_FORMAT) {
+        throw new Error('不是 Playbook 文件')
+      }
+      if (typeof data.version === 'number' && data.version > PLAYBOOK_VERSION) {
+        throw new Error(`不支持的 Playbook 文件版本: ${data.version}`)
+      }
+      items = data.playbooks
+    } else {
+      items = [data]
+    }
+
+    const imported = items.map((item, index) => parsePlaybook(item, index + 1))
+    for (const playbook of imported) {
+      const index = this.playbooks.findIndex(p => p.id === playbook.id)
+      if (index >= 0) {
+        playbook.createdAt = this.playbooks[index].createdAt
+        this.playbooks[index] = playbook
+      } else {
+        this.playbooks.push(playbook)
+      }
+    }
+    this.persist()
+    return imported
+  }
+}
+
+// ==================== 校验与转换 ====================
+
+function generateId(): string {
+  return `pb_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`
+}
+
+/**
+ * 去掉空白项，补齐默认字段
+ */
+function normalizePlaybook(playbook: Playbook): Playbook {
+  const name = playbook.name?.trim()
+  const task = playbook.task?.trim()
+  if (!name) throw new Error('Playbook 名称不能为空')
+  if (!task) throw new Error('任务描述不能为空')
+
+  const parameters = (playbook.parameters || [])
+    .filter(p => p.name?.trim())
+    .map(p => ({
+      name: p.name.trim(),
+      label: p.label?.trim() || undefined,
+      description: p.description?.trim() || undefined,
+      default: p.default?.trim() || undefined,
+      required: p.required || undefined,
+      options: p.options?.map(o => o.trim()).filter(Boolean)
+    }))
+    .map(p => (p.options && p.options.length > 0 ? p : { ...p, options: undefined }))
+  const names = new Set<string>()
+  for (const param of parameters) {
+    if (!/^[\w.-]+$/.test(param.name)) {
+      throw new Error(`参数名只能包含字母、数字、下划线、点和连字符: ${param.name}`)
+    }
+    if (names.has(param.name)) {
+      throw new Error(`参数名重复: ${param.name}`)
+    }
+    names.add(param.name)
+  }
+
+  for (const check of playbook.successChecks || []) {
+    if (check.expect?.trim()) {
+      try {
+        new RegExp(check.expect.trim())
+      } catch {
+        throw new Error(`成功检查的正则表达式无效: ${check.expect}`)
+      }
+    }
+  }
+
+  if (playbook.riskCeiling && !RISK_CEILINGS.includes(playbook.riskCeiling)) {
+    throw new Error(`无效的风险上限: ${playbook.riskCeiling}`)
+  }
+
+  return {
+    id: playbook.id || generateId(),
+    name,
+    description: playbook.description?.trim() || undefined,
+    task,
+    parameters,
+    steps: (playbook.steps || [])
+      .filter(s => s.description?.trim())
+      .map(s => ({
+        description: s.description.trim(),
+        purpose: s.purpose?.trim() || undefined,
+        checkpoint: s.checkpoint || undefined,
+        alternativeApproach: s.alternativeApproach?.trim() || undefined
+      })),
+    successChecks: (playbook.successChecks || [])
+      .filter(c => c.description?.trim())
+      .map(c => ({
+        description: c.description.trim(),
+        command: c.command?.trim() || undefined,
+        expect: c.expect?.trim() || undefined
+      })),
+    riskCeiling: playbook.riskCeiling || undefined,
+    createdAt: playbook.createdAt || Date.now(),
+    updatedAt: Date.now()
+  }
+}
+
+/**
+ * 解析导入文件中的单个 Playbook
+ */
+function parsePlaybook(item: unknown, position: number): Playbook {
+  if (!item || typeof item !== 'object') {
+    throw new Error(`第 ${position} 个 Playbook 格式不正确`)
+  }
+  const raw = item as Record<string, unknown>
+  const asString = (value: unknown) => (value === undefined || value === null ? undefined : String(value))
+  const asList = (value: unknown) => (Array.isArray(value) ? value : []) as Record<string, unknown>[]
+
+  try {
+    return normalizePlaybook({
+      id: asString(raw.id) || '',
+      name: asString(raw.name) || '',
+      description: asString(raw.description),
+      task: asString(raw.task) || '',
+      parameters: asList(raw.parameters).map(p => ({
+        name: asString(p.name) || '',
+        label: asString(p.label),
+        description: asString(p.description),
+        default: asString(p.default),
+        required: p.required === true,
+        options: Array.isArray(p.options) ? p.options.map(String) : undefined
+      })),
+      // 步骤可以直接写成字符串
+      steps: (Array.isArray(raw.steps) ? raw.steps : []).map((s: unknown) => {
+        if (typeof s === 'string') return { description: s }
+        const step = (s || {}) as Record<string, unknown>
+        return {
+          description: asString(step.description) || '',
+          purpose: asString(step.purpose),
+          checkpoint: step.checkpoint === true,
+          alternativeApproach: asString(step.alternativeApproach)
+        }
+      }),
+      successChecks: (Array.isArray(raw.successChecks) ? raw.successChecks : []).map((c: unknown) => {
+        if (typeof c === 'string') return { description: c }
+        const check = (c || {}) as Record<string, unknown>
+        return {
+          description: asString(check.description) || '',
+          command: asString(check.command),
+          expect: asString(check.expect)
+        }
+      }),
+      riskCeiling: asString(raw.riskCeiling) as PlaybookRiskCeiling | undefined,
+      createdAt: 0,
+      updatedAt: 0
+    })
+  } catch (e) {
+    const name = asString(raw.name)
+    throw new Error(`第 ${position} 个 Playbook${name ? `（${name}）` : ''}: ${e instanceof Error ? e.message : String(e)}`)
+  }
+}
+
+/**
+ * 导出时去掉时间戳和空字段
+ */
+function toExportObject(playbook: Playbook): Record<string, unknown> {
+  const result: Record<string, unknown> = {
+    id: playbook.id,
+    name: playbook.name,
+    description: playbook.description,
+    task: playbook.task,
+    riskCeiling: playbook.riskCeiling,
+    parameters: playbook.parameters.length > 0 ? playbook.parameters : undefined,
+    steps: playbook.steps.length > 0 ? playbook.steps : undefined,
+    successChecks: playbook.successChecks.length > 0 ? playbook.successChecks : undefined
+  }
+  return JSON.parse(JSON.stringify(result))
+}
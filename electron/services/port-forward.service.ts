@@ -0,0 +1,444 @@
+import * as net from 'net'
+import { Client, ClientChannel, TcpConnectionDetails, AcceptConnection, RejectConnection } from 'ssh2'
+
+// ==================== 类型定义 ====================
+
+/**
+ * 端口转发配置（保存在 SSH 会话中）
+ * - local：本地监听，经 SSH 连接到目标（ssh -L）
+ * - remote：远程主机监听，经 SSH 回连本地可达的目标（ssh -R）
+ * - dynamic：本地 SOCKS5 代理，目标由客户端动态指定（ssh -D）
+ */
+export interface PortForwardConfig {
+  id: string
+  type: 'local' | 'remote' | 'dynamic'
+  bindHost?: string      // 监听地址，local/dynamic 默认 127.0.0.1，remote 默认 localhost
+  bindPort: number       // 监听端口
+  targetHost?: string    // 目标地址（dynamic 无需填写）
+  targetPort?: number    // 目标端口（dynamic 无需填写）
+  enabled?: boolean      // 是否随连接自动启动，默认启用
+  description?: string   // 备注
+}
+
+// 端口转发运行状态
+export interface PortForwardStatus {
+  id: string
+  type: PortForwardConfig['type']
+  bindHost: string
+  bindPort: number
+  targetHost?: string
+  targetPort?: number
+  description?: string
+  state: 'starting' | 'active' | 'error' | 'stopped'
+  error?: string
+  connections: number    // 当前活动的转发连接数
+  bytesIn: number        // 从目标端接收的字节数
+  bytesOut: number       // 发送到目标端的字节数
+}
+
+// 单条转发的运行时信息
+interface ForwardRuntime {
+  config: PortForwardConfig
+  status: PortForwardStatus
+  server?: net.Server                  // local/dynamic 的本地监听
+  sockets: Set<net.Socket | ClientChannel>
+}
+
+// 一个 SSH 连接上的全部转发
+interface ConnectionForwards {
+  client: Client
+  forwards: Map<string, ForwardRuntime>
+  // remote 转发的 tcp connection 监听（需要在停止时移除）
+  tcpConnectionHandler?: (
+    details: TcpConnectionDetails,
+    accept: AcceptConnection<ClientChannel>,
+    reject: RejectConnection
+  ) => void
+}
+
+// 状态推送节流间隔（字节数变化频繁）
+const STATUS_EMIT_INTERVAL = 500
+
+// ==================== 端口转发服务 ====================
+
+export class PortForwardService {
+  private connections: Map<string, ConnectionForwards> = new Map()
+  private statusCallbacks: ((connectionId: string, forwards: PortForwardStatus[]) => void)[] = []
+  private emitTimers: Map<string, NodeJS.Timeout> = new Map()
+
+  /**
+   * 注册状态变化回调
+   */
+  onStatusChange(callback: (connectionId: string, forwards: PortForwardStatus[]) => void): () => void {
+    this.statusCallbacks.push(callback)
+    return () => {
+      const idx = this.statusCallbacks.indexOf(callback)
+      if (idx > -1) {
+        this.statusCallbacks.splice(idx, 1)
+      }
+    }
+  }
+
+  /**
+   * 在 SSH 连接上启动端口转发（跳过未启用的配置）
+   */
+  start(connectionId: string, client: Client, configs: PortForwardConfig[]): void {
+    this.stop(connectionId)
+
+    const conn: ConnectionForwards = { client, forwards: new Map() }
+    this.connections.set(connectionId, conn)
+
+    for (const config of configs) {
+      if (config.enabled === false) continue
+      const runtime: ForwardRuntime = {
+        config,
+        status: {
+          id: config.id,
+          type: config.type,
+          bindHost: config.bindHost || (config.type === 'remote' ? 'localhost' : '127.0.0.1'),
+          bindPort: config.bindPort,
+          targetHost: config.type === 'dynamic' ? undefined : config.targetHost,
+          targetPort: config.type === 'dynamic' ? undefined : config.targetPort,
+          description: config.description,
+          state: 'starting',
+          connections: 0,
+          bytesIn: 0,
+          bytesOut: 0
+        },
+        sockets: new Set()
+      }
+      conn.forwards.set(config.id, runtime)
+
+      if (config.type !== 'dynamic' && (!config.targetHost || !config.targetPort)) {
+        this.setError(connectionId, runtime, '未配置目标地址或端口')
+        continue
+      }
+
+      if (config.type === 'remote') {
+        this.startRemote(connectionId, conn, runtime)
+      } else {
+        this.startLocalServer(connectionId, conn, runtime)
+      }
+    }
+
+    this.emitStatus(connectionId)
+  }
+
+  /**
+   * 停止 SSH 连接上的全部端口转发
+   */
+  stop(connectionId: string): void {
+    const conn = this.connections.get(connectionId)
+    if (!conn) return
+
+    conn.forwards.forEach(runtime => {
+      runtime.server?.close()
+      runtime.sockets.forEach(socket => socket.destroy())
+      runtime.sockets.clear()
+      if (runtime.config.type === 'remote' && runtime.status.state === 'active') {
+        try {
+          conn.client.unforwardIn(runtime.status.bindHost, runtime.status.bindPort)
+        } catch (e) {
+          // 连接可能已断开，忽略
+        }
+      }
+      runtime.status.state = 'stopped'
+      runtime.status.connections = 0
+    })
+
+    if (conn.tcpConnectionHandler) {
+      conn.client.removeListener('tcp connection', conn.tcpConnectionHandler)
+    }
+
+    this.emitStatus(connectionId)
+    this.connections.delete(connectionId)
+    const timer = this.emitTimers.get(connectionId)
+    if (timer) {
+      clearTimeout(timer)
+      this.emitTimers.delete(connectionId)
+    }
+  }
+
+  /**
+   * 停止全部端口转发
+   */
+  stopAll(): void {
+    for (const connectionId of Array.from(this.connections.keys())) {
+      this.stop(connectionId)
+    }
+  }
+
+  /**
+   * 获取 SSH 连接上的端口转发状态
+   */
+  getStatus(connectionId: string): PortForwardStatus[] {
+    const conn = this.connections.get(connectionId)
+    if (!conn) return []
+    return Array.from(conn.forwards.values()).map(runtime => ({ ...runtime.status }))
+  }
+
+  /**
+   * 启动本地监听（local / dynamic）
+   */
+  private startLocalServer(connectionId: string, conn: ConnectionForwards, runtime: ForwardRuntime): void {
+    const server = net.createServer(socket => {
+      if (runtime.config.type === 'dynamic') {
+        this.handleSocks(connectionId, conn, runtime, socket)
+      } else {
+        this.openTunnel(connectionId, conn, runtime, socket, runtime.config.targetHost!, runtime.config.targetPort!)
+      }
+    })
+    runtime.server = server
+
+    server.on('error', (err: NodeJS.ErrnoException) => {
+      const message = err.code === 'EADDRINUSE'
+        ? `本地端口 ${runtime.status.bindPort} 已被占用`
+        : err.message
+      this.setError(connectionId, runtime, message)
+    })
+
+    server.listen(runtime.status.bindPort, runtime.status.bindHost, () => {
+      const address = server.address()
+      if (address && typeof address === 'object') {
+        runtime.status.bindPort = address.port
+      }
+      runtime.status.state = 'active'
+      this.scheduleEmit(connectionId)
+    })
+  }
+
+  /**
+   * 启动远程监听（remote）
+   */
+  private startRemote(connectionId: string, conn: ConnectionForwards, runtime: ForwardRuntime): void {
+    // 所有 remote 转发共用一个 tcp connection 监听，按监听端口分发
+    if (!conn.tcpConnectionHandler) {
+      conn.tcpConnectionHandler = (info, accept, reject) => {
+        const target = Array.from(conn.forwards.values()).find(r =>
+          r.config.type === 'remote' && r.status.state === 'active' && r.status.bindPort === info.destPort
+        )
+        if (!target) {
+          reject()
+          return
+        }
+        const channel = accept()
+        const socket = net.connect(target.config.targetPort!, target.config.targetHost!)
+        this.pipe(connectionId, target, channel, socket)
+      }
+      conn.client.on('tcp connection', conn.tcpConnectionHandler)
+    }
+
+    conn.client.forwardIn(runtime.status.bindHost, runtime.status.bindPort, (err, port) => {
+      if (err) {
+        this.setError(connectionId, runtime, `远程监听 ${runtime.status.bindHost}:${runtime.status.bindPort} 失败: ${err.message}`)
+        return
+      }
+      // 监听端口为 0 时由服务器分配
+      if (port) {
+        runtime.status.bindPort = port
+      }
+      runtime.status.state = 'active'
+      this.scheduleEmit(connectionId)
+    })
+  }
+
+  /**
+   * 经 SSH 连接到目标并双向转发
+   */
+  private openTunnel(
+    connectionId: string,
+    conn: ConnectionForwards,
+    runtime: ForwardRuntime,
+    socket: net.Socket,
+    targetHost: string,
+    targetPort: number,
+    onOpen?: (err?: Error) => void
+  ): void {
+    conn.client.forwardOut(
+      socket.remoteAddress || '127.0.0.1',
+      socket.remotePort || 0,
+      targetHost,
+      targetPort,
+      (err, channel) => {
+        onOpen?.(err)
+        if (err) {
+          console.error(`[PortForward] forwardOut ${targetHost}:${targetPort} failed:`, err.message)
+          socket.destroy()
+          return
+        }
+        this.pipe(connectionId, runtime, channel, socket)
+      }
+    )
+  }
+
+  /**
+   * 双向转发数据并统计流量
+   */
+  private pipe(connectionId: string, runtime: ForwardRuntime, channel: ClientChannel, socket: net.Socket): void {
+    runtime.sockets.add(channel)
+    runtime.sockets.add(socket)
+    runtime.status.connections++
+    this.scheduleEmit(connectionId)
+
+    channel.on('data', (data: Buffer) => {
+      runtime.status.bytesIn += data.length
+      this.scheduleEmit(connectionId)
+    })
+    socket.on('data', (data: Buffer) => {
+      runtime.status.bytesOut += data.length
+      this.scheduleEmit(connectionId)
+    })
+
+    let closed = false
+    const cleanup = () => {
+      if (closed) return
+      closed = true
+      runtime.sockets.delete(channel)
+      runtime.sockets.delete(socket)
+      runtime.status.connections = Math.max(0, runtime.status.connections - 1)
+      channel.destroy()
+      socket.destroy()
+      this.scheduleEmit(connectionId)
+    }
+
+    socket.on('error', cleanup)
+    socket.on('close', cleanup)
+    channel.on('error', cleanup)
+    channel.on('close', cleanup)
+
+    socket.pipe(channel)
+    channel.pipe(socket)
+  }
+
+  /**
+   * 处理 SOCKS5 握手（仅支持无认证 CONNECT）
+   */
+  private handleSocks(connectionId: string, conn: ConnectionForwards, runtime: ForwardRuntime, socket: net.Socket): void {
+    let buffer = Buffer.alloc(0)
+    let stage: 'greeting' | 'request' = 'greeting'
+
+    const fail = (reply?: number) => {
+      if (reply !== undefined) {
+        socket.end(Buffer.from([0x05, reply, 0x00, 0x01, 0, 0, 0, 0, 0, 0]))
+      } else {
+        socket.destroy()
+      }
+    }
+
+    const onData = (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk])
+
+      if (stage === 'greeting') {
+        if (buffer.length < 2) return
+        const methodCount = buffer[1]
+        if (buffer.length < 2 + methodCount) return
+        if (buffer[0] !== 0x05) {
+          fail()
+          return
+        }
+        const methods = buffer.subarray(2, 2 + methodCount)
+        if (!methods.includes(0x00)) {
+          // 不支持客户端提供的认证方式
+          socket.end(Buffer.from([0x05, 0xff]))
+          return
+        }
+        socket.write(Buffer.from([0x05, 0x00]))
+        buffer = buffer.subarray(2 + methodCount)
+        stage = 'request'
+      }
+
+      if (stage === 'request') {
+        if (buffer.length < 4) return
+        if (buffer[0] !== 0x05 || buffer[1] !== 0x01) {
+          // 仅支持 CONNECT 命令
+          fail(0x07)
+          return
+        }
+
+        let host: string
+        let offset: number
+        const addressType = buffer[3]
+        if (addressType === 0x01) {
+          if (buffer.length < 10) return
+          host = Array.from(buffer.subarray(4, 8)).join('.')
+          offset = 8
+        } else if (addressType === 0x03) {
+          if (buffer.length < 5) return
+          const len = buffer[4]
+          if (buffer.length < 5 + len + 2) return
+          host = buffer.subarray(5, 5 + len).toString('utf-8')
+          offset = 5 + len
+        } else if (addressType === 0x04) {
+          if (buffer.length < 22) return
+          const parts: string[] = []
+          for (let i = 0; i < 16; i += 2) {
+            parts.push(buffer.readUInt16BE(4 + i).toString(16))
+          }
+          host = parts.join(':')
+          offset = 20
+        } else {
+          fail(0x08)
+          return
+        }
+        const port = buffer.readUInt16BE(offset)
+        const rest = buffer.subarray(offset + 2)
+
+        socket.removeListener('data', onData)
+        socket.pause()
+
+        this.openTunnel(connectionId, conn, runtime, socket, host, port, err => {
+          if (err) {
+            fail(0x05)
+            return
+          }
+          socket.write(Buffer.from([0x05, 0x00, 0x00, 0x01, 0, 0, 0, 0, 0, 0]))
+          // 握手阶段多读到的数据直接发给目标
+          if (rest.length > 0) {
+            socket.unshift(rest)
+          }
+          socket.resume()
+        })
+      }
+    }
+
+    socket.on('data', onData)
+    socket.on('error', () => socket.destroy())
+  }
+
+  /**
+   * 标记转发失败
+   */
+  private setError(connectionId: string, runtime: ForwardRuntime, message: string): void {
+    console.error(`[PortForward] ${runtime.config.type} ${runtime.status.bindHost}:${runtime.status.bindPort} error: ${message}`)
+    runtime.status.state = 'error'
+    runtime.status.error = message
+    runtime.server?.close()
+    this.scheduleEmit(connectionId)
+  }
+
+  /**
+   * 节流推送状态
+   */
+  private scheduleEmit(connectionId: string): void {
+    if (this.emitTimers.has(connectionId)) return
+    this.emitTimers.set(connectionId, setTimeout(() => {
+      this.emitTimers.delete(connectionId)
+      this.emitStatus(connectionId)
+    }, STATUS_EMIT_INTERVAL))
+  }
+
+  /**
+   * 推送状态
+   */
+  private emitStatus(connectionId: string): void {
+    if (!this.connections.has(connectionId)) return
+    const forwards = this.getStatus(connectionId)
+    for (const callback of this.statusCallbacks) {
+      try {
+        callback(connectionId, forwards)
+      } catch (e) {
+        console.error('[PortForward] Status callback error:', e)
+      }
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import * as pty from 'node-pty'
 import { v4 as uuidv4 } from 'uuid'
 import * as os from 'os'
+import * as fs from 'fs'
 import { exec } from 'child_process'
 import { promisify } from 'util'
 import stripAnsi from 'strip-ansi'
@@ -125,7 +126,8 @@ export class PtyService {
     const id = uuidv4()
 
     const shell = options.shell || this.getDefaultShell()
-    const cwd = options.cwd || os.homedir()
+    // 指定的目录不存在时（如恢复工作区时目录已被删除）回退到主目录
+    const cwd = options.cwd && fs.existsSync(options.cwd) ? options.cwd : os.homedir()
     const cols = options.cols || 80
     const rows = options.rows || 24
 
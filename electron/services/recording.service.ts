@@ -0,0 +1,288 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { app } from 'electron'
+
+// ==================== 类型定义 ====================
+
+// 开始录制的参数
+export interface RecordingOptions {
+  cols: number
+  rows: number
+  title?: string         // 录像标题（通常为标签页标题）
+  type: 'local' | 'ssh'
+}
+
+// 录制中的会话信息
+export interface RecordingStatus {
+  terminalId: string
+  filePath: string
+  startedAt: number
+}
+
+// 录像文件信息
+export interface RecordingFileInfo {
+  filePath: string
+  fileName: string
+  title?: string
+  width: number
+  height: number
+  timestamp: number      // 开始录制的时间（毫秒）
+  duration: number       // 时长（秒）
+  size: number
+}
+
+// asciicast v2 文件头
+interface AsciicastHeader {
+  version: 2
+  width: number
+  height: number
+  timestamp: number      // Unix 时间戳（秒）
+  title?: string
+  env?: Record<string, string>
+}
+
+interface ActiveRecording {
+  stream: fs.WriteStream
+  filePath: string
+  startedAt: number      // performance 时间基准（毫秒）
+  startedAtWall: number  // 墙上时间（毫秒）
+  unsubscribe: () => void
+}
+
+// ==================== 录制服务 ====================
+
+/**
+ * 终端会话录制
+ * 以 asciicast v2 格式（https://docs.asciinema.org/manual/asciicast/v2/）写入 .cast 文件：
+ * 第一行为 JSON 文件头，之后每行一个事件 [相对时间(秒), 类型, 数据]，
+ * 类型 "o" 为终端输出，"r" 为窗口尺寸变化（"列x行"）
+ */
+export class RecordingService {
+  private recordingsDir: string
+  private recordings: Map<string, ActiveRecording> = new Map()
+  // 用户通过文件对话框选择的外部录像，允许读取
+  private externalFiles: Set<string> = new Set()
+
+  constructor() {
+    const userDataPath = app.getPath('userData')
+    this.recordingsDir = path.join(userDataPath, 'recordings')
+  }
+
+  /**
+   * 获取录像目录
+   */
+  getRecordingsDir(): string {
+    if (!fs.existsSync(this.recordingsDir)) {
+      fs.mkdirSync(this.recordingsDir, { recursive: true })
+    }
+    return this.recordingsDir
+  }
+
+  /**
+   * 开始录制
+   * @param subscribe 订阅终端原始输出，返回取消订阅函数
+   */
+  start(
+    terminalId: string,
+    options: RecordingOptions,
+    subscribe: (callback: (data: string) => void) => () => void
+  ): RecordingStatus {
+    const existing = this.recordings.get(terminalId)
+    if (existing) {
+      return { terminalId, filePath: existing.filePath, startedAt: existing.startedAtWall }
+    }
+
+    const startedAtWall = Date.now()
+    const filePath = path.join(this.getRecordingsDir(), this.buildFileName(startedAtWall, options.title))
+    const stream = fs.createWriteStream(filePath, { encoding: 'utf-8' })
+    stream.on('error', err => {
+      console.error(`[Recording] 写入录像失败 ${filePath}:`, err)
+      this.stop(terminalId)
+    })
+
+    const header: AsciicastHeader = {
+      version: 2,
+      width: options.cols,
+      height: options.rows,
+      timestamp: Math.floor(startedAtWall / 1000),
+      title: options.title,
+      env: {
+        TERM: 'xterm-256color',
+        ...(options.type === 'local' && process.env.SHELL ? { SHELL: process.env.SHELL } : {})
+      }
+    }
+    stream.write(JSON.stringify(header) + '\n')
+
+    const recording: ActiveRecording = {
+      stream,
+      filePath,
+      startedAt: performance.now(),
+      startedAtWall,
+      unsubscribe: () => {}
+    }
+    this.recordings.set(terminalId, recording)
+    recording.unsubscribe = subscribe(data => this.writeEvent(recording, 'o', data))
+
+    console.log(`[Recording] ${terminalId} started: ${filePath}`)
+    return { terminalId, filePath, startedAt: startedAtWall }
+  }
+
+  /**
+   * 停止录制，返回录像文件路径
+   */
+  stop(terminalId: string): string | null {
+    const recording = this.recordings.get(terminalId)
+    if (!recording) return null
+
+    this.recordings.delete(terminalId)
+    recording.unsubscribe()
+    recording.stream.end()
+    console.log(`[Recording] ${terminalId} stopped: ${recording.filePath}`)
+    return recording.filePath
+  }
+
+  /**
+   * 停止所有录制
+   */
+  stopAll(): void {
+    for (const terminalId of Array.from(this.recordings.keys())) {
+      this.stop(terminalId)
+    }
+  }
+
+  /**
+   * 记录窗口尺寸变化
+   */
+  recordResize(terminalId: string, cols: number, rows: number): void {
+    const recording = this.recordings.get(terminalId)
+    if (recording) {
+      this.writeEvent(recording, 'r', `${cols}x${rows}`)
+    }
+  }
+
+  /**
+   * 获取录制状态
+   */
+  getStatus(terminalId: string): RecordingStatus | null {
+    const recording = this.recordings.get(terminalId)
+    if (!recording) return null
+    return { terminalId, filePath: recording.filePath, startedAt: recording.startedAtWall }
+  }
+
+  /**
+   * 列出录像文件（按时间倒序）
+   */
+  list(): RecordingFileInfo[] {
+    const dir = this.getRecordingsDir()
+    const files: RecordingFileInfo[] = []
+    for (const fileName of fs.readdirSync(dir)) {
+      if (!fileName.endsWith('.cast')) continue
+      const info = this.readInfo(path.join(dir, fileName))
+      if (info) {
+        files.push(info)
+      }
+    }
+    return files.sort((a, b) => b.timestamp - a.timestamp)
+  }
+
+  /**
+   * 允许读取用户选择的外部录像文件
+   */
+  allowExternalFile(filePath: string): void {
+    this.externalFiles.add(path.resolve(filePath))
+  }
+
+  /**
+   * 读取录像文件内容（仅限录像目录内或用户选择的文件）
+   */
+  read(filePath: string): string {
+    const resolved = path.resolve(filePath)
+    if (path.dirname(resolved) !== path.resolve(this.getRecordingsDir()) && !this.externalFiles.has(resolved)) {
+      throw new Error('只能读取录像目录中或通过对话框选择的录像文件')
+    }
+    return fs.readFileSync(resolved, 'utf-8')
+  }
+
+  /**
+   * 删除录像文件（仅限录像目录内的文件）
+   */
+  delete(filePath: string): void {
+    const resolved = path.resolve(filePath)
+    if (path.dirname(resolved) !== path.resolve(this.getRecordingsDir())) {
+      throw new Error('只能删除录像目录中的文件')
+    }
+    if (Array.from(this.recordings.values()).some(r => r.filePath === resolved)) {
+      throw new Error('录像正在录制中，请先停止录制')
+    }
+    fs.unlinkSync(resolved)
+  }
+
+  /**
+   * 写入一条事件
+   */
+  private writeEvent(recording: ActiveRecording, type: 'o' | 'r', data: string): void {
+    const elapsed = (performance.now() - recording.startedAt) / 1000
+    recording.stream.write(JSON.stringify([Number(elapsed.toFixed(6)), type, data]) + '\n')
+  }
+
+  /**
+   * 生成录像文件名：时间-标题.cast
+   */
+  private buildFileName(timestamp: number, title?: string): string {
+    const date = new Date(timestamp)
+    const pad = (n: number) => n.toString().padStart(2, '0')
+    const time = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+      `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+    const safeTitle = (title || 'terminal').replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 60)
+    return `${time}-${safeTitle}.cast`
+  }
+
+  /**
+   * 读取录像的文件头与时长（只读取首尾片段，避免加载大文件）
+   */
+  private readInfo(filePath: string): RecordingFileInfo | null {
+    let fd: number | null = null
+    try {
+      const stats = fs.statSync(filePath)
+      fd = fs.openSync(filePath, 'r')
+
+      const headBuffer = Buffer.alloc(Math.min(stats.size, 4096))
+      fs.readSync(fd, headBuffer, 0, headBuffer.length, 0)
+      const headerLine = headBuffer.toString('utf-8').split('\n')[0]
+      const header = JSON.parse(headerLine) as AsciicastHeader
+      if (header.version !== 2) return null
+
+      const tailSize = Math.min(stats.size, 4096)
+      const tailBuffer = Buffer.alloc(tailSize)
+      fs.readSync(fd, tailBuffer, 0, tailSize, stats.size - tailSize)
+      const lines = tailBuffer.toString('utf-8').split('\n').filter(line => line.startsWith('['))
+      let duration = 0
+      for (let i = lines.length - 1; i >= 0; i--) {
+        try {
+          duration = (JSON.parse(lines[i]) as [number, string, string])[0]
+          break
+        } catch {
+          // 截断的行，继续向前找
+        }
+      }
+
+      return {
+        filePath,
+        fileName: path.basename(filePath),
+        title: header.title,
+        width: header.width,
+        height: header.height,
+        timestamp: header.timestamp * 1000,
+        duration,
+        size: stats.size
+      }
+    } catch (e) {
+      console.error(`[Recording] 读取录像信息失败 ${filePath}:`, e)
+      return null
+    } finally {
+      if (fd !== null) {
+        fs.closeSync(fd)
+      }
+    }
+  }
+}
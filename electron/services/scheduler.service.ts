@@ -0,0 +1,257 @@
+/**
+ * 定时任务服务
+ * 按 cron 表达式在后台打开已保存的 SSH 会话并运行无人值守的 Agent 任务，
+ * 运行结果写入 Agent 历史记录，失败时弹出桌面通知
+ */
+import * as fs from 'fs'
+import * as path from 'path'
+import { app, Notification } from 'electron'
+import type { UnattendedRunner, UnattendedRunResult } from './unattended-runner'
+import { parseCron, matchesCron, getNextCronRun } from './cron'
+
+// ==================== 类型定义 ====================
+
+export interface ScheduledTask {
+  id: string
+  name: string
+  enabled: boolean
+  cron: string                  // 5 段 cron 表达式（本地时区）
+  sessionIds: string[]          // 目标 SSH 会话，第一个为主终端
+  task: string                  // 交给 Agent 的任务描述
+  profileId?: string            // 使用的 AI 配置，不指定时使用当前配置
+  maxSteps: number              // 最大执行轮数
+  commandTimeout: number        // 单条命令超时（秒）
+  autoExecuteModerate: boolean  // 是否自动执行中等风险命令（高风险命令始终拒绝）
+  notifyOnSuccess: boolean      // 成功时也发送通知
+  createdAt: number
+  updatedAt: number
+  // 最近一次运行
+  lastRunAt?: number
+  lastStatus?: 'running' | 'completed' | 'failed'
+  lastError?: string
+}
+
+// 供前端展示的任务信息
+export interface ScheduledTaskInfo extends ScheduledTask {
+  nextRunAt?: number
+}
+
+// ==================== 定时任务服务 ====================
+
+export class SchedulerService {
+  private filePath: string
+  private tasks: ScheduledTask[] = []
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private running: Set<string> = new Set()
+  private onTaskUpdateCallback?: (task: ScheduledTaskInfo) => void
+
+  constructor(private runner: UnattendedRunner) {
+    this.filePath = path.join(app.getPath('userData'), 'scheduled-tasks.json')
+    this.load()
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        this.tasks = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as ScheduledTask[]
+        // 上次退出时仍在运行的任务视为失败
+        for (const task of this.tasks) {
+          if (task.lastStatus === 'running') {
+            task.lastStatus = 'failed'
+            task.lastError = '应用在任务运行期间退出'
+          }
+        }
+      }
+    } catch (e) {
+      console.error('[Scheduler] 加载失败:', e)
+      this.tasks = []
+    }
+  }
+
+  private persist(): void {
+    fs.writeFileSync(this.filePath, JSON.stringify(this.tasks, null, 2), 'utf-8')
+  }
+
+  /**
+   * 启动调度（每分钟整点检查一次）
+   */
+  start(): void {
+    if (this.timer) return
+    this.scheduleTick()
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  private scheduleTick(): void {
+    const now = Date.now()
+    // 对齐到下一分钟，稍微延后避免计时器提前触发落在上一分钟
+    const delay = 60000 - (now % 60000) + 500
+    this.timer = setTimeout(() => {
+      this.tick(new Date())
+      this.scheduleTick()
+    }, delay)
+  }
+
+  private tick(now: Date): void {
+    for (const task of this.tasks) {
+      if (!task.enabled || this.running.has(task.id)) continue
+      try {
+        if (matchesCron(parseCron(task.cron), now)) {
+          this.execute(task).catch(e => console.error('[Scheduler] 任务执行异常:', e))
+        }
+      } catch (e) {
+        console.error(`[Scheduler] 任务「${task.name}」的 cron 表达式无效:`, e)
+      }
+    }
+  }
+
+  /**
+   * 任务状态变化时回调（用于推送到前端）
+   */
+  onTaskUpdate(callback: (task: ScheduledTaskInfo) => void): void {
+    this.onTaskUpdateCallback = callback
+  }
+
+  private toInfo(task: ScheduledTask): ScheduledTaskInfo {
+    let nextRunAt: number | undefined
+    if (task.enabled) {
+      try {
+        nextRunAt = getNextCronRun(parseCron(task.cron))?.getTime()
+      } catch {
+        nextRunAt = undefined
+      }
+    }
+    return { ...task, nextRunAt }
+  }
+
+  private notifyUpdate(task: ScheduledTask): void {
+    this.onTaskUpdateCallback?.(this.toInfo(task))
+  }
+
+  getAll(): ScheduledTaskInfo[] {
+    return this.tasks.map(task => this.toInfo(task))
+  }
+
+  /**
+   * 新建或更新定时任务
+   * @throws 配置无效时抛出错误
+   */
+  save(task: ScheduledTask): ScheduledTaskInfo {
+    const name = task.name?.trim()
+    const taskText = task.task?.trim()
+    if (!name) throw new Error('任务名称不能为空')
+    if (!taskText) throw new Error('任务描述不能为空')
+    if (!task.sessionIds || task.sessionIds.length === 0) throw new Error('请至少选择一个目标会话')
+    parseCron(task.cron)
+
+    const existing = this.tasks.find(t => t.id === task.id)
+    const saved: ScheduledTask = {
+      id: task.id || `sched_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      name,
+      enabled: task.enabled !== false,
+      cron: task.cron.trim(),
+      sessionIds: task.sessionIds,
+      task: taskText,
+      profileId: task.profileId || undefined,
+      maxSteps: Math.max(1, task.maxSteps || 30),
+      commandTimeout: Math.max(5, task.commandTimeout || 60),
+      autoExecuteModerate: !!task.autoExecuteModerate,
+      notifyOnSuccess: !!task.notifyOnSuccess,
+      createdAt: existing?.createdAt || Date.now(),
+      updatedAt: Date.now(),
+      // 运行状态只由服务维护
+      lastRunAt: existing?.lastRunAt,
+      lastStatus: existing?.lastStatus,
+      lastError: existing?.lastError
+    }
+
+    if (existing) {
+      this.tasks[this.tasks.indexOf(existing)] = saved
+    } else {
+      this.tasks.push(saved)
+    }
+    this.persist()
+    return this.toInfo(saved)
+  }
+
+  delete(id: string): boolean {
+    const before = this.tasks.length
+    this.tasks = this.tasks.filter(t => t.id !== id)
+    if (this.tasks.length === before) return false
+    this.persist()
+    return true
+  }
+
+  /**
+   * 立即运行一次（不等待完成）
+   */
+  runNow(id: string): void {
+    const task = this.tasks.find(t => t.id === id)
+    if (!task) throw new Error('定时任务不存在')
+    if (this.running.has(id)) throw new Error('该任务正在运行')
+    this.execute(task).catch(e => console.error('[Scheduler] 任务执行异常:', e))
+  }
+
+  /**
+   * 执行一次任务并更新运行状态
+   */
+  private async execute(task: ScheduledTask): Promise<void> {
+    this.running.add(task.id)
+    this.updateRunState(task.id, { lastRunAt: Date.now(), lastStatus: 'running', lastError: undefined })
+
+    let result: UnattendedRunResult
+    try {
+      result = await this.runner.run({
+        sessionIds: task.sessionIds,
+        message: `[定时任务：${task.name}]\n当前为无人值守运行，没有用户可以回答问题或确认操作，需要确认的命令会被拒绝。请只执行完成任务所需的命令，最后给出简洁的结果报告。\n\n${task.task}`,
+        config: {
+          maxSteps: task.maxSteps,
+          commandTimeout: task.commandTimeout * 1000,
+          autoExecuteSafe: true,
+          autoExecuteModerate: task.autoExecuteModerate,
+          strictMode: false
+        },
+        profileId: task.profileId,
+        recordTerminalId: `scheduled:${task.id}`,
+        recordTask: `⏰ ${task.name}\n${task.task}`
+      })
+    } finally {
+      this.running.delete(task.id)
+    }
+
+    const succeeded = result.status === 'completed'
+    this.updateRunState(task.id, {
+      lastStatus: succeeded ? 'completed' : 'failed',
+      lastError: result.error
+    })
+
+    if (!succeeded) {
+      this.showNotification(`定时任务失败：${task.name}`, result.error || result.finalResult)
+    } else if (task.notifyOnSuccess) {
+      this.showNotification(`定时任务完成：${task.name}`, result.finalResult)
+    }
+  }
+
+  /**
+   * 更新运行状态（运行期间任务可能被编辑或删除，按 ID 重新查找）
+   */
+  private updateRunState(id: string, state: Pick<ScheduledTask, 'lastRunAt' | 'lastStatus' | 'lastError'>): void {
+    const task = this.tasks.find(t => t.id === id)
+    if (!task) return
+    Object.assign(task, state)
+    this.persist()
+    this.notifyUpdate(task)
+  }
+
+  private showNotification(title: string, body: string): void {
+    if (!Notification.isSupported()) return
+    // 通知正文过长时截断
+    const text = body.length > 200 ? body.slice(0, 200) + '…' : body
+    new Notification({ title, body: text }).show()
+  }
+}
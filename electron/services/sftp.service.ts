@@ -1,12 +1,17 @@
 import SftpClient from 'ssh2-sftp-client'
+import type { SFTPWrapper } from 'ssh2'
 import * as fs from 'fs'
 import * as path from 'path'
 import { EventEmitter } from 'events'
+import { KnownHostsService, HostKeyFailure } from './known-hosts.service'
+import { resolveAgentSocket } from './ssh.service'
+import type { SshService } from './ssh.service'
 
 export interface SftpConfig {
   host: string
   port: number
   username: string
+  authType?: 'password' | 'privateKey' | 'agent'
   password?: string
   privateKey?: string | Buffer
   privateKeyPath?: string
@@ -54,9 +59,30 @@ export interface TransferTask {
   error?: string
 }
 
+// 终端 SFTP 通道上的文件信息
+export interface TerminalFileStat {
+  size: number
+  isDirectory: boolean
+  mode: number  // 权限位
+}
+
 export class SftpService extends EventEmitter {
   private sessions: Map<string, SftpClient> = new Map()
   private transfers: Map<string, TransferProgress> = new Map()
+  // 在 SSH 终端已有连接上打开的 SFTP 子通道（Agent 文件工具使用），按终端 ID 索引
+  private terminalChannels: Map<string, Promise<SFTPWrapper>> = new Map()
+  private sshService?: SshService
+
+  constructor(private knownHosts: KnownHostsService = new KnownHostsService()) {
+    super()
+  }
+
+  /**
+   * 设置 SSH 服务（用于复用 SSH 终端的连接）
+   */
+  setSshService(sshService: SshService): void {
+    this.sshService = sshService
+  }
 
   /**
    * 创建 SFTP 连接
@@ -69,9 +95,10 @@ export class SftpService extends EventEmitter {
 
     const sftp = new SftpClient()
 
-    // 准备私钥
-    let privateKey: string | Buffer | undefined = config.privateKey
-    if (!privateKey && config.privateKeyPath) {
+    // 准备私钥（agent 认证时只使用 agent 中的密钥）
+    const useAgent = config.authType === 'agent'
+    let privateKey: string | Buffer | undefined = useAgent ? undefined : config.privateKey
+    if (!privateKey && config.privateKeyPath && !useAgent) {
       try {
         privateKey = fs.readFileSync(config.privateKeyPath)
       } catch (err) {
@@ -79,17 +106,25 @@ export class SftpService extends EventEmitter {
       }
     }
 
+    // 主机公钥校验失败信息
+    let hostKeyFailure: HostKeyFailure | null = null
+
     const connectConfig: SftpClient.ConnectOptions = {
       host: config.host,
       port: config.port,
       username: config.username,
+      hostVerifier: this.knownHosts.createVerifier(config.host, config.port, false, failure => {
+        hostKeyFailure = failure
+      }),
       readyTimeout: 30000,
       retries: 2,
       retry_factor: 2,
       retry_minTimeout: 2000
     }
 
-    if (privateKey) {
+    if (useAgent) {
+      connectConfig.agent = resolveAgentSocket()
+    } else if (privateKey) {
       connectConfig.privateKey = privateKey
       if (config.passphrase) {
         connectConfig.passphrase = config.passphrase
@@ -98,7 +133,15 @@ export class SftpService extends EventEmitter {
       connectConfig.password = config.password
     }
 
-    await sftp.connect(connectConfig)
+    try {
+      await sftp.connect(connectConfig)
+    } catch (err) {
+      // 主机公钥校验失败时给出明确的原因
+      if (hostKeyFailure) {
+        throw (hostKeyFailure as HostKeyFailure).error
+      }
+      throw err
+    }
     this.sessions.set(sessionId, sftp)
   }
 
@@ -410,6 +453,141 @@ export class SftpService extends EventEmitter {
     await sftp.put(buffer, remotePath)
   }
 
+  // ==================== 终端 SFTP 通道 ====================
+
+  /**
+   * 获取 SSH 终端连接上的 SFTP 通道（首次使用时打开，连接关闭后自动失效）
+   */
+  private getTerminalChannel(terminalId: string): Promise<SFTPWrapper> {
+    const existing = this.terminalChannels.get(terminalId)
+    if (existing) return existing
+
+    const client = this.sshService?.getClient(terminalId)
+    if (!client) {
+      return Promise.reject(new Error('SSH 终端连接不存在'))
+    }
+
+    const channel = new Promise<SFTPWrapper>((resolve, reject) => {
+      client.sftp((err, sftp) => {
+        if (err) {
+          reject(new Error(`无法打开 SFTP 通道: ${err.message}`))
+          return
+        }
+        sftp.on('close', () => this.terminalChannels.delete(terminalId))
+        resolve(sftp)
+      })
+    })
+    // 打开失败时不缓存，下次重试
+    channel.catch(() => this.terminalChannels.delete(terminalId))
+    this.terminalChannels.set(terminalId, channel)
+    return channel
+  }
+
+  /**
+   * 解析终端 SFTP 通道上的路径（展开 ~ 和相对路径，基于登录用户主目录）
+   */
+  async resolveTerminalPath(terminalId: string, remotePath: string): Promise<string> {
+    const sftp = await this.getTerminalChannel(terminalId)
+    const home = await new Promise<string>((resolve, reject) => {
+      sftp.realpath('.', (err, absPath) => err ? reject(err) : resolve(absPath))
+    })
+    if (remotePath === '~') return home
+    if (remotePath.startsWith('~/')) return path.posix.join(home, remotePath.slice(2))
+    return path.posix.resolve(home, remotePath)
+  }
+
+  /**
+   * 获取终端远程文件信息，文件不存在时返回 null
+   */
+  async statTerminalFile(terminalId: string, remotePath: string): Promise<TerminalFileStat | null> {
+    const sftp = await this.getTerminalChannel(terminalId)
+    return new Promise((resolve, reject) => {
+      sftp.stat(remotePath, (err, stats) => {
+        if (err) {
+          // SFTP 状态码 2：No such file
+          if ((err as Error & { code?: number }).code === 2) {
+            resolve(null)
+          } else {
+            reject(err)
+          }
+          return
+        }
+        resolve({ size: stats.size, isDirectory: stats.isDirectory(), mode: stats.mode & 0o7777 })
+      })
+    })
+  }
+
+  /**
+   * 读取终端远程文件
+   * @param maxBytes 只读取文件开头的若干字节
+   */
+  async readTerminalFile(terminalId: string, remotePath: string, maxBytes?: number): Promise<Buffer> {
+    const sftp = await this.getTerminalChannel(terminalId)
+    if (maxBytes === undefined) {
+      return new Promise((resolve, reject) => {
+        sftp.readFile(remotePath, (err, data) => err ? reject(err) : resolve(data))
+      })
+    }
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = []
+      const stream = sftp.createReadStream(remotePath, { start: 0, end: maxBytes - 1 })
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk))
+      stream.on('end', () => resolve(Buffer.concat(chunks)))
+      stream.on('error', reject)
+    })
+  }
+
+  /**
+   * 写入终端远程文件
+   * @param append 追加到文件末尾
+   * @param mode 新建文件的权限（默认 0o666，受远程 umask 影响）
+   */
+  async writeTerminalFile(
+    terminalId: string,
+    remotePath: string,
+    data: string | Buffer,
+    append = false,
+    mode?: number
+  ): Promise<void> {
+    const sftp = await this.getTerminalChannel(terminalId)
+    return new Promise((resolve, reject) => {
+      const callback = (err?: Error | null) => err ? reject(err) : resolve()
+      const options = { mode: mode ?? 0o666 }
+      if (append) {
+        sftp.appendFile(remotePath, data, options, callback)
+      } else {
+        sftp.writeFile(remotePath, data, options, callback)
+      }
+    })
+  }
+
+  /**
+   * 删除终端远程文件
+   */
+  async deleteTerminalFile(terminalId: string, remotePath: string): Promise<void> {
+    const sftp = await this.getTerminalChannel(terminalId)
+    return new Promise((resolve, reject) => {
+      sftp.unlink(remotePath, err => err ? reject(err) : resolve())
+    })
+  }
+
+  /**
+   * 递归创建终端远程目录
+   */
+  async mkdirTerminal(terminalId: string, remoteDir: string): Promise<void> {
+    const parts = remoteDir.split('/').filter(Boolean)
+    let current = remoteDir.startsWith('/') ? '' : '.'
+    const sftp = await this.getTerminalChannel(terminalId)
+    for (const part of parts) {
+      current = `${current}/${part}`
+      const stat = await this.statTerminalFile(terminalId, current)
+      if (stat) continue
+      await new Promise<void>((resolve, reject) => {
+        sftp.mkdir(current, err => err ? reject(err) : resolve())
+      })
+    }
+  }
+
   /**
    * 获取当前传输状态
    */
@@ -1,8 +1,12 @@
-import { Client, ClientChannel } from 'ssh2'
+import { Client, ClientChannel, ShellOptions } from 'ssh2'
 import { v4 as uuidv4 } from 'uuid'
 import * as fs from 'fs'
 import stripAnsi from 'strip-ansi'
 import * as iconv from 'iconv-lite'
+import { KnownHostsService, HostKeyFailure } from './known-hosts.service'
+import { PortForwardConfig } from './port-forward.service'
+import { KeyboardInteractiveService, KeyboardInteractiveTarget } from './keyboard-interactive.service'
+import type { CommandResult } from './command-executor.service'
 
 // 支持的字符编码（与前端保持一致）
 export type SshEncoding = 
@@ -29,51 +33,154 @@ export interface TerminalStatus {
   stateDescription?: string
 }
 
+// 认证方式：密码 / 私钥 / ssh-agent
+export type SshAuthType = 'password' | 'privateKey' | 'agent'
+
 // 跳板机配置
 export interface JumpHostConfig {
   host: string
   port: number
   username: string
-  authType: 'password' | 'privateKey'
+  authType: SshAuthType
   password?: string
   privateKeyPath?: string
   passphrase?: string
+  totpSecret?: string   // TOTP 种子，用于自动填写键盘交互认证中的验证码
 }
 
 export interface SshConfig {
   host: string
   port: number
   username: string
+  authType?: SshAuthType     // 认证方式，未指定时根据 password/privateKey 推断
+  agentForward?: boolean     // 转发本地 ssh-agent 到远程主机（ssh -A）
   password?: string
   privateKey?: string
   privateKeyPath?: string
   passphrase?: string
+  totpSecret?: string        // TOTP 种子，用于自动填写键盘交互认证中的验证码
   cols?: number
   rows?: number
-  jumpHost?: JumpHostConfig  // 跳板机配置
+  jumpHost?: JumpHostConfig  // 跳板机配置（单跳，兼容旧版本）
+  jumpHosts?: JumpHostConfig[]  // 跳板机链，按顺序逐跳连接（等同 ProxyJump a,b,c），优先于 jumpHost
   encoding?: SshEncoding     // 字符编码，默认 utf-8
+  portForwards?: PortForwardConfig[]  // 端口转发（连接建立后由 PortForwardService 启动）
+  reconnect?: SshReconnectPolicy  // 意外断开后的自动重连策略
+}
+
+// 自动重连策略
+export interface SshReconnectPolicy {
+  enabled: boolean
+  maxAttempts?: number   // 最多重试次数，默认 5，0 表示不限
+  initialDelay?: number  // 首次重试前等待的秒数，默认 2，之后每次翻倍
+  maxDelay?: number      // 重试间隔上限（秒），默认 60
+}
+
+// 自动重连状态事件
+export interface SshReconnectEvent {
+  id: string
+  state: 'waiting' | 'connecting' | 'connected' | 'failed'
+  attempt: number        // 当前（或下一次）是第几次重试
+  maxAttempts: number    // 0 表示不限
+  delay?: number         // 距离下一次重试的毫秒数（waiting）
+  reason?: SshDisconnectEvent['reason']  // 触发重连的断开原因
+  error?: string         // 断开或重试失败的错误信息
+}
+
+/**
+ * 获取本地 ssh-agent 的连接地址
+ * Linux/macOS 使用 SSH_AUTH_SOCK，Windows 未设置时使用 OpenSSH 自带 agent 的命名管道
+ */
+export function resolveAgentSocket(): string {
+  if (process.env.SSH_AUTH_SOCK) {
+    return process.env.SSH_AUTH_SOCK
+  }
+  if (process.platform === 'win32') {
+    return '\\\\.\\pipe\\openssh-ssh-agent'
+  }
+  throw new Error('未检测到 ssh-agent：环境变量 SSH_AUTH_SOCK 未设置，请先启动 ssh-agent 并使用 ssh-add 添加密钥')
+}
+
+// SSH 握手超时（不含等待用户输入验证码的时间）
+const HANDSHAKE_TIMEOUT = 30000
+
+/**
+ * 创建握手超时计时器
+ * 替代 ssh2 的 readyTimeout：键盘交互认证等待用户输入期间暂停计时，输入完成后重新计时
+ */
+function createHandshakeTimer(client: Client) {
+  let timer: NodeJS.Timeout | null = null
+  const stop = () => {
+    if (timer) {
+      clearTimeout(timer)
+      timer = null
+    }
+  }
+  const start = () => {
+    stop()
+    timer = setTimeout(() => {
+      timer = null
+      // 与 ssh2 自身超时行为一致：先抛出错误再断开
+      client.emit('error', new Error('Timed out while waiting for handshake'))
+      client.end()
+    }, HANDSHAKE_TIMEOUT)
+  }
+  return { start, stop }
 }
 
 interface SshInstance {
   client: Client
-  jumpClient?: Client  // 跳板机客户端（如果通过跳板机连接）
+  jumpClients?: Client[]  // 跳板机客户端（按跳数顺序，如果通过跳板机连接）
   stream: ClientChannel | null
   dataCallbacks: ((data: string) => void)[]
   config: SshConfig
   encoding: string     // 实际使用的编码
+  notice?: string      // 需要提示用户的信息（首次订阅数据时输出到终端）
+}
+
+// 跳板机链中的某一跳
+export interface JumpHopInfo {
+  index: number   // 第几跳（从 0 开始）
+  total: number   // 跳板机总数
+  host: string
+  port: number
 }
 
 // 断开连接事件类型
 export interface SshDisconnectEvent {
   id: string
-  reason: 'closed' | 'error' | 'stream_closed' | 'jump_host_closed'
+  reason: 'closed' | 'error' | 'stream_closed' | 'jump_host_closed' | 'jump_host_error' | 'host_key_mismatch' | 'host_key_rejected'
   error?: Error
+  jumpHop?: JumpHopInfo  // 与跳板机相关的断开，标明是哪一跳
+}
+
+// 自动重连的默认参数
+const RECONNECT_DEFAULT_MAX_ATTEMPTS = 5
+const RECONNECT_DEFAULT_INITIAL_DELAY = 2
+const RECONNECT_DEFAULT_MAX_DELAY = 60
+
+// 单个连接的自动重连状态
+interface ReconnectState {
+  config: SshConfig
+  dataCallbacks: ((data: string) => void)[]  // 沿用原有的数据订阅，终端无需重新订阅
+  attempt: number
+  timer: NodeJS.Timeout | null
+  connecting: boolean
 }
 
 export class SshService {
   private instances: Map<string, SshInstance> = new Map()
   // 断开连接回调
   private disconnectCallbacks: Map<string, ((event: SshDisconnectEvent) => void)[]> = new Map()
+  // 开启了自动重连的连接
+  private reconnectStates: Map<string, ReconnectState> = new Map()
+  // 自动重连状态回调
+  private reconnectCallbacks: ((event: SshReconnectEvent) => void)[] = []
+
+  constructor(
+    private knownHosts: KnownHostsService = new KnownHostsService(),
+    private keyboardInteractive: KeyboardInteractiveService = new KeyboardInteractiveService()
+  ) {}
 
   /**
    * 建立 SSH 连接（支持跳板机）
@@ -81,15 +188,164 @@ export class SshService {
   async connect(config: SshConfig): Promise<string> {
     const id = uuidv4()
 
-    // 如果配置了跳板机，先通过跳板机建立连接
-    if (config.jumpHost) {
-      return this.connectViaJumpHost(id, config)
+    await this.establish(id, config)
+
+    // 首次连接成功后才启用自动重连（首次连接失败直接报错）
+    const instance = this.instances.get(id)
+    if (instance && config.reconnect?.enabled) {
+      this.reconnectStates.set(id, {
+        config,
+        dataCallbacks: instance.dataCallbacks,
+        attempt: 0,
+        timer: null,
+        connecting: false
+      })
+    }
+    return id
+  }
+
+  /**
+   * 按配置建立连接（首次连接与自动重连共用）
+   */
+  private establish(id: string, config: SshConfig): Promise<string> {
+    // 如果配置了跳板机，先逐跳连接跳板机
+    const jumpHosts = config.jumpHosts?.length ? config.jumpHosts : (config.jumpHost ? [config.jumpHost] : [])
+    if (jumpHosts.length > 0) {
+      return this.connectViaJumpHosts(id, config, jumpHosts)
     }
 
     // 直接连接
     return this.directConnect(id, config)
   }
 
+  /**
+   * 注册自动重连状态回调
+   */
+  onReconnect(callback: (event: SshReconnectEvent) => void): () => void {
+    this.reconnectCallbacks.push(callback)
+    return () => {
+      const idx = this.reconnectCallbacks.indexOf(callback)
+      if (idx > -1) {
+        this.reconnectCallbacks.splice(idx, 1)
+      }
+    }
+  }
+
+  private emitReconnect(event: SshReconnectEvent): void {
+    for (const callback of this.reconnectCallbacks) {
+      try {
+        callback(event)
+      } catch (e) {
+        console.error(`[SshService] Reconnect callback error:`, e)
+      }
+    }
+  }
+
+  /**
+   * 连接意外断开时安排重连（指数退避）
+   * 返回 false 表示不再重连，应按正常断开处理
+   */
+  private scheduleReconnect(event: SshDisconnectEvent): boolean {
+    const state = this.reconnectStates.get(event.id)
+    if (!state) return false
+
+    // 主机公钥问题不是网络故障，重连也无法解决
+    if (event.reason === 'host_key_mismatch' || event.reason === 'host_key_rejected') {
+      this.cancelReconnect(event.id)
+      return false
+    }
+
+    // 重连进行中或已在等待，同一次断开产生的后续事件（如 error 之后的 close）忽略
+    if (state.connecting || state.timer) return true
+
+    const policy = state.config.reconnect
+    const maxAttempts = policy?.maxAttempts ?? RECONNECT_DEFAULT_MAX_ATTEMPTS
+    if (maxAttempts > 0 && state.attempt >= maxAttempts) {
+      this.reconnectStates.delete(event.id)
+      this.emitReconnect({
+        id: event.id,
+        state: 'failed',
+        attempt: state.attempt,
+        maxAttempts,
+        reason: event.reason,
+        error: event.error?.message
+      })
+      return false
+    }
+
+    // 清理旧连接（保留实例中的数据订阅）
+    const old = this.instances.get(event.id)
+    if (old) {
+      this.instances.delete(event.id)
+      old.client.end()
+      old.jumpClients?.slice().reverse().forEach(client => client.end())
+    }
+
+    state.attempt++
+    const initialDelay = policy?.initialDelay ?? RECONNECT_DEFAULT_INITIAL_DELAY
+    const maxDelay = policy?.maxDelay ?? RECONNECT_DEFAULT_MAX_DELAY
+    const delay = Math.min(initialDelay * Math.pow(2, state.attempt - 1), maxDelay) * 1000
+
+    console.log(`[SSH] ${event.id} reconnecting in ${delay}ms (attempt ${state.attempt}/${maxAttempts || '∞'})`)
+    this.emitReconnect({
+      id: event.id,
+      state: 'waiting',
+      attempt: state.attempt,
+      maxAttempts,
+      delay,
+      reason: event.reason,
+      error: event.error?.message
+    })
+
+    state.timer = setTimeout(() => {
+      state.timer = null
+      this.attemptReconnect(event.id, state, maxAttempts)
+    }, delay)
+    return true
+  }
+
+  /**
+   * 执行一次重连
+   */
+  private async attemptReconnect(id: string, state: ReconnectState, maxAttempts: number): Promise<void> {
+    state.connecting = true
+    this.emitReconnect({ id, state: 'connecting', attempt: state.attempt, maxAttempts })
+
+    try {
+      await this.establish(id, state.config)
+    } catch (err) {
+      state.connecting = false
+      console.error(`[SSH] ${id} reconnect attempt ${state.attempt} failed:`, err)
+      // 等待期间用户已断开
+      if (this.reconnectStates.get(id) !== state) return
+      if (!this.scheduleReconnect({ id, reason: 'error', error: err as Error })) {
+        this.emitDisconnect({ id, reason: 'error', error: err as Error })
+      }
+      return
+    }
+
+    state.connecting = false
+    // 重连过程中用户已关闭连接
+    if (this.reconnectStates.get(id) !== state) {
+      this.disconnect(id)
+      return
+    }
+    console.log(`[SSH] ${id} reconnected after ${state.attempt} attempt(s)`)
+    this.emitReconnect({ id, state: 'connected', attempt: state.attempt, maxAttempts })
+    state.attempt = 0
+  }
+
+  /**
+   * 取消自动重连
+   */
+  private cancelReconnect(id: string): void {
+    const state = this.reconnectStates.get(id)
+    if (state?.timer) {
+      clearTimeout(state.timer)
+    }
+    this.reconnectStates.delete(id)
+  }
+
   /**
    * 直接建立 SSH 连接
    */
@@ -103,14 +359,17 @@ export class SshService {
       const instance: SshInstance = {
         client,
         stream: null,
-        dataCallbacks: [],
+        dataCallbacks: this.reconnectStates.get(id)?.dataCallbacks ?? [],
         config,
         encoding
       }
 
-      // 准备私钥
-      let privateKey: string | Buffer | undefined = config.privateKey
-      if (!privateKey && config.privateKeyPath) {
+      // 主机公钥校验失败信息（用于给出比 ssh2 默认错误更明确的提示）
+      let hostKeyFailure: HostKeyFailure | null = null
+
+      // 准备私钥（agent 认证时只使用 agent 中的密钥）
+      let privateKey: string | Buffer | undefined = config.authType === 'agent' ? undefined : config.privateKey
+      if (!privateKey && config.privateKeyPath && config.authType !== 'agent') {
         try {
           privateKey = fs.readFileSync(config.privateKeyPath)
         } catch (err) {
@@ -119,6 +378,17 @@ export class SshService {
         }
       }
 
+      // 使用 ssh-agent 认证或转发 agent 时需要本地 agent
+      let agent: string | undefined
+      if (config.authType === 'agent' || config.agentForward) {
+        try {
+          agent = resolveAgentSocket()
+        } catch (err) {
+          reject(err)
+          return
+        }
+      }
+
       // 连接配置
       const connectConfig: {
         host: string
@@ -127,15 +397,22 @@ export class SshService {
         password?: string
         privateKey?: string | Buffer
         passphrase?: string
+        agent?: string
+        tryKeyboard: boolean
         readyTimeout: number
         keepaliveInterval: number
         sock?: NodeJS.ReadableStream
+        hostVerifier: (key: Buffer, verify: (valid: boolean) => void) => void
       } = {
         host: config.host,
         port: config.port,
         username: config.username,
-        readyTimeout: 30000,
-        keepaliveInterval: 10000
+        tryKeyboard: true,
+        readyTimeout: 0,  // 由 handshakeTimer 计时
+        keepaliveInterval: 10000,
+        hostVerifier: this.knownHosts.createVerifier(config.host, config.port, false, failure => {
+          hostKeyFailure = failure
+        })
       }
 
       // 如果通过跳板机连接，使用传入的 socket
@@ -143,6 +420,9 @@ export class SshService {
         connectConfig.sock = sock
       }
 
+      if (agent) {
+        connectConfig.agent = agent
+      }
       if (privateKey) {
         connectConfig.privateKey = privateKey
         if (config.passphrase) {
@@ -152,16 +432,26 @@ export class SshService {
         connectConfig.password = config.password
       }
 
-      client.on('ready', () => {
-        // 打开 Shell
+      // 打开 Shell（agentForward 为 true 时请求 agent 转发）
+      const openShell = (agentForward: boolean) => {
+        // ssh2 支持按通道请求 agent 转发，但类型定义中缺少该字段
+        const shellOptions: ShellOptions & { agentForward?: boolean } = { agentForward }
         client.shell(
           {
             term: 'xterm-256color',
             cols: config.cols || 80,
             rows: config.rows || 24
           },
+          shellOptions,
           (err, stream) => {
             if (err) {
+              // 服务器禁用了 agent 转发（AllowAgentForwarding no）时，不转发 agent 重新打开
+              if (agentForward && /agent forwarding/i.test(err.message)) {
+                console.warn(`SSH ${id} agent forwarding rejected by server`)
+                instance.notice = '\x1b[33m[SSH] 远程主机拒绝了 agent 转发，本次连接未转发 ssh-agent\x1b[0m\r\n'
+                openShell(false)
+                return
+              }
               client.end()
               reject(err)
               return
@@ -181,6 +471,11 @@ export class SshService {
               instance.dataCallbacks.forEach(callback => callback(str))
             })
 
+            // 远程 Shell 正常退出（如执行 exit）属于主动断开，不自动重连
+            stream.on('exit', () => {
+              this.cancelReconnect(id)
+            })
+
             // 监听关闭
             stream.on('close', () => {
               console.log(`SSH ${id} stream closed`)
@@ -193,35 +488,130 @@ export class SshService {
             resolve(id)
           }
         )
+      }
+
+      // 键盘交互认证（如密码 + OTP 验证码）
+      const handshakeTimer = createHandshakeTimer(client)
+      let authCancelled = false
+      client.on('keyboard-interactive', this.keyboardInteractive.createHandler(
+        this.keyboardInteractiveTarget(config, false),
+        waiting => (waiting ? handshakeTimer.stop() : handshakeTimer.start()),
+        () => { authCancelled = true }
+      ))
+
+      client.on('ready', () => {
+        handshakeTimer.stop()
+        openShell(!!config.agentForward)
       })
 
       client.on('error', err => {
+        handshakeTimer.stop()
         console.error(`SSH ${id} error:`, err)
-        // 触发断开连接事件
+        // 触发断开连接事件（主机公钥校验失败时使用更明确的原因和错误信息）
+        if (hostKeyFailure) {
+          this.emitDisconnect({ id, reason: hostKeyFailure.reason, error: hostKeyFailure.error })
+          this.instances.delete(id)
+          reject(hostKeyFailure.error)
+          return
+        }
+        if (authCancelled) {
+          err = new Error(`已取消 ${config.host}:${config.port} 的登录验证`)
+        }
         this.emitDisconnect({ id, reason: 'error', error: err })
         this.instances.delete(id)
         reject(err)
       })
 
       client.on('close', () => {
+        handshakeTimer.stop()
         console.log(`SSH ${id} connection closed`)
         // 触发断开连接事件（如果还没触发过）
         this.emitDisconnect({ id, reason: 'closed' })
+        // 目标连接关闭后，跳板机链也不再需要
+        this.instances.get(id)?.jumpClients?.slice().reverse().forEach(jumpClient => jumpClient.end())
         this.instances.delete(id)
       })
 
+      handshakeTimer.start()
       client.connect(connectConfig)
     })
   }
 
   /**
-   * 通过跳板机建立 SSH 连接
+   * 通过跳板机链建立 SSH 连接
+   * 依次连接每一跳，后一跳经由前一跳的 forwardOut 隧道建立，最后一跳再隧道到目标服务器
    */
-  private async connectViaJumpHost(id: string, config: SshConfig): Promise<string> {
-    const jumpHost = config.jumpHost!
-    
+  private async connectViaJumpHosts(id: string, config: SshConfig, jumpHosts: JumpHostConfig[]): Promise<string> {
+    const jumpClients: Client[] = []
+    let sock: ClientChannel | undefined
+
+    try {
+      for (let i = 0; i < jumpHosts.length; i++) {
+        const hop: JumpHopInfo = { index: i, total: jumpHosts.length, host: jumpHosts[i].host, port: jumpHosts[i].port }
+        const jumpClient = await this.connectJumpHop(id, jumpHosts[i], hop, sock)
+        jumpClients.push(jumpClient)
+
+        // 建立到下一跳（或目标服务器）的隧道
+        const next = i + 1 < jumpHosts.length ? jumpHosts[i + 1] : config
+        sock = await this.forwardThroughHop(jumpClient, hop, next.host, next.port)
+      }
+
+      // 在隧道上建立到目标服务器的 SSH 连接
+      await this.directConnect(id, config, sock)
+    } catch (err) {
+      // 从最后一跳开始依次关闭
+      jumpClients.slice().reverse().forEach(client => client.end())
+      throw err
+    }
+
+    // 保存跳板机客户端引用，以便断开时一起清理
+    const instance = this.instances.get(id)
+    if (instance) {
+      instance.jumpClients = jumpClients
+    }
+
+    return id
+  }
+
+  /**
+   * 键盘交互认证的目标信息（ssh-agent 认证时不自动填写密码）
+   */
+  private keyboardInteractiveTarget(
+    config: SshConfig | JumpHostConfig,
+    isJumpHost: boolean
+  ): KeyboardInteractiveTarget {
+    return {
+      host: config.host,
+      port: config.port,
+      username: config.username,
+      isJumpHost,
+      password: config.authType === 'agent' ? undefined : config.password,
+      totpSecret: config.totpSecret
+    }
+  }
+
+  /**
+   * 描述跳板机链中的某一跳（用于错误信息）
+   */
+  private describeHop(hop: JumpHopInfo): string {
+    return hop.total > 1
+      ? `第 ${hop.index + 1}/${hop.total} 跳跳板机 ${hop.host}:${hop.port}`
+      : `跳板机 ${hop.host}:${hop.port}`
+  }
+
+  /**
+   * 连接跳板机链中的一跳
+   * @param sock 经由上一跳建立的隧道（第一跳为空，直接连接）
+   */
+  private connectJumpHop(
+    id: string,
+    jumpHost: JumpHostConfig,
+    hop: JumpHopInfo,
+    sock?: ClientChannel
+  ): Promise<Client> {
     return new Promise((resolve, reject) => {
       const jumpClient = new Client()
+      const hopLabel = this.describeHop(hop)
 
       // 准备跳板机私钥
       let jumpPrivateKey: string | Buffer | undefined
@@ -229,11 +619,26 @@ export class SshService {
         try {
           jumpPrivateKey = fs.readFileSync(jumpHost.privateKeyPath)
         } catch (err) {
-          reject(new Error(`无法读取跳板机私钥文件: ${jumpHost.privateKeyPath}`))
+          reject(new Error(`无法读取${hopLabel}的私钥文件: ${jumpHost.privateKeyPath}`))
           return
         }
       }
 
+      // 跳板机使用 ssh-agent 认证
+      let jumpAgent: string | undefined
+      if (jumpHost.authType === 'agent') {
+        try {
+          jumpAgent = resolveAgentSocket()
+        } catch (err) {
+          reject(new Error(`连接${hopLabel}失败: ${(err as Error).message}`))
+          return
+        }
+      }
+
+      // 跳板机主机公钥校验失败信息
+      let hostKeyFailure: HostKeyFailure | null = null
+      let ready = false
+
       // 跳板机连接配置
       const jumpConnectConfig: {
         host: string
@@ -242,17 +647,32 @@ export class SshService {
         password?: string
         privateKey?: string | Buffer
         passphrase?: string
+        agent?: string
+        tryKeyboard: boolean
         readyTimeout: number
         keepaliveInterval: number
+        sock?: ClientChannel
+        hostVerifier: (key: Buffer, verify: (valid: boolean) => void) => void
       } = {
         host: jumpHost.host,
         port: jumpHost.port,
         username: jumpHost.username,
-        readyTimeout: 30000,
-        keepaliveInterval: 10000
+        tryKeyboard: true,
+        readyTimeout: 0,  // 由 handshakeTimer 计时
+        keepaliveInterval: 10000,
+        hostVerifier: this.knownHosts.createVerifier(jumpHost.host, jumpHost.port, true, failure => {
+          hostKeyFailure = failure
+        })
       }
 
-      if (jumpPrivateKey) {
+      // 非第一跳，经由上一跳的隧道连接
+      if (sock) {
+        jumpConnectConfig.sock = sock
+      }
+
+      if (jumpAgent) {
+        jumpConnectConfig.agent = jumpAgent
+      } else if (jumpPrivateKey) {
         jumpConnectConfig.privateKey = jumpPrivateKey
         if (jumpHost.passphrase) {
           jumpConnectConfig.passphrase = jumpHost.passphrase
@@ -261,63 +681,86 @@ export class SshService {
         jumpConnectConfig.password = jumpHost.password
       }
 
-      jumpClient.on('ready', () => {
-        console.log(`[SSH] Jump host connected: ${jumpHost.username}@${jumpHost.host}`)
-        
-        // 通过跳板机建立到目标服务器的隧道
-        jumpClient.forwardOut(
-          '127.0.0.1',
-          0,
-          config.host,
-          config.port,
-          async (err, stream) => {
-            if (err) {
-              console.error(`[SSH] Forward failed:`, err)
-              jumpClient.end()
-              reject(new Error(`通过跳板机建立隧道失败: ${err.message}`))
-              return
-            }
+      // 键盘交互认证（堡垒机常见的密码 + OTP 验证码）
+      const handshakeTimer = createHandshakeTimer(jumpClient)
+      let authCancelled = false
+      jumpClient.on('keyboard-interactive', this.keyboardInteractive.createHandler(
+        this.keyboardInteractiveTarget(jumpHost, true),
+        waiting => (waiting ? handshakeTimer.stop() : handshakeTimer.start()),
+        () => { authCancelled = true }
+      ))
 
-            try {
-              // 在隧道上建立到目标服务器的 SSH 连接
-              await this.directConnect(id, config, stream as unknown as NodeJS.ReadableStream)
-              
-              // 保存跳板机客户端引用，以便断开时一起清理
-              const instance = this.instances.get(id)
-              if (instance) {
-                instance.jumpClient = jumpClient
-              }
-              
-              resolve(id)
-            } catch (connectErr) {
-              jumpClient.end()
-              reject(connectErr)
-            }
-          }
-        )
+      jumpClient.on('ready', () => {
+        handshakeTimer.stop()
+        console.log(`[SSH] Jump host ${hop.index + 1}/${hop.total} connected: ${jumpHost.username}@${jumpHost.host}`)
+        ready = true
+        resolve(jumpClient)
       })
 
       jumpClient.on('error', err => {
-        console.error(`[SSH] Jump host error:`, err)
-        reject(new Error(`连接跳板机失败: ${err.message}`))
+        handshakeTimer.stop()
+        console.error(`[SSH] Jump host ${hop.index + 1}/${hop.total} error:`, err)
+        if (!ready) {
+          if (hostKeyFailure) {
+            this.emitDisconnect({ id, reason: hostKeyFailure.reason, error: hostKeyFailure.error, jumpHop: hop })
+            reject(new Error(`连接${hopLabel}失败: ${hostKeyFailure.error.message}`))
+            return
+          }
+          if (authCancelled) {
+            reject(new Error(`已取消${hopLabel}的登录验证`))
+            return
+          }
+          reject(new Error(`连接${hopLabel}失败: ${err.message}`))
+          return
+        }
+        // 连接建立后出错，关闭整条链
+        this.closeJumpChain(id, { id, reason: 'jump_host_error', error: err, jumpHop: hop })
       })
 
       jumpClient.on('close', () => {
-        console.log(`[SSH] Jump host connection closed`)
-        // 跳板机关闭时，也关闭目标连接
-        const instance = this.instances.get(id)
-        if (instance) {
-          // 触发断开连接事件
-          this.emitDisconnect({ id, reason: 'jump_host_closed' })
-          instance.client.end()
-          this.instances.delete(id)
+        handshakeTimer.stop()
+        console.log(`[SSH] Jump host ${hop.index + 1}/${hop.total} connection closed`)
+        // 任意一跳关闭时，关闭目标连接和整条链
+        this.closeJumpChain(id, { id, reason: 'jump_host_closed', jumpHop: hop })
+        if (!ready) {
+          reject(new Error(`${hopLabel}连接已关闭`))
         }
       })
 
+      handshakeTimer.start()
       jumpClient.connect(jumpConnectConfig)
     })
   }
 
+  /**
+   * 通过某一跳建立到下一跳（或目标服务器）的隧道
+   */
+  private forwardThroughHop(jumpClient: Client, hop: JumpHopInfo, host: string, port: number): Promise<ClientChannel> {
+    return new Promise((resolve, reject) => {
+      jumpClient.forwardOut('127.0.0.1', 0, host, port, (err, stream) => {
+        if (err) {
+          console.error(`[SSH] Forward via jump host ${hop.index + 1}/${hop.total} failed:`, err)
+          reject(new Error(`通过${this.describeHop(hop)}建立到 ${host}:${port} 的隧道失败: ${err.message}`))
+          return
+        }
+        resolve(stream)
+      })
+    })
+  }
+
+  /**
+   * 跳板机链中某一跳断开时，关闭目标连接和整条链
+   */
+  private closeJumpChain(id: string, event: SshDisconnectEvent): void {
+    const instance = this.instances.get(id)
+    if (!instance) return
+    this.instances.delete(id)
+    // 触发断开连接事件
+    this.emitDisconnect(event)
+    instance.client.end()
+    instance.jumpClients?.slice().reverse().forEach(client => client.end())
+  }
+
   /**
    * 向 SSH 写入数据（使用配置的编码）
    */
@@ -341,6 +784,9 @@ export class SshService {
     const instance = this.instances.get(id)
     if (instance?.stream) {
       instance.stream.setWindow(rows, cols, 0, 0)
+      // 记录最新尺寸，重连时按当前尺寸打开 Shell
+      instance.config.cols = cols
+      instance.config.rows = rows
     }
   }
 
@@ -352,6 +798,11 @@ export class SshService {
     const instance = this.instances.get(id)
     if (instance) {
       instance.dataCallbacks.push(callback)
+      // 输出连接建立时的提示信息（仅一次）
+      if (instance.notice) {
+        callback(instance.notice)
+        instance.notice = undefined
+      }
       // 返回取消订阅函数
       return () => {
         const idx = instance.dataCallbacks.indexOf(callback)
@@ -400,6 +851,9 @@ export class SshService {
    * 触发断开连接事件
    */
   private emitDisconnect(event: SshDisconnectEvent): void {
+    // 开启了自动重连时先尝试重连，重连放弃后才通知断开
+    if (this.scheduleReconnect(event)) return
+
     const callbacks = this.disconnectCallbacks.get(event.id)
     if (callbacks) {
       // 复制数组，因为回调可能会修改原数组
@@ -420,13 +874,12 @@ export class SshService {
    * 断开 SSH 连接
    */
   disconnect(id: string): void {
+    this.cancelReconnect(id)
     const instance = this.instances.get(id)
     if (instance) {
       instance.client.end()
-      // 如果有跳板机连接，也关闭它
-      if (instance.jumpClient) {
-        instance.jumpClient.end()
-      }
+      // 如果有跳板机连接，从最后一跳开始依次关闭
+      instance.jumpClients?.slice().reverse().forEach(client => client.end())
       this.instances.delete(id)
     }
   }
@@ -435,12 +888,11 @@ export class SshService {
    * 断开所有 SSH 连接
    */
   disposeAll(): void {
+    this.reconnectStates.forEach((_state, id) => this.cancelReconnect(id))
     this.instances.forEach((instance, id) => {
       instance.client.end()
-      // 如果有跳板机连接，也关闭它
-      if (instance.jumpClient) {
-        instance.jumpClient.end()
-      }
+      // 如果有跳板机连接，从最后一跳开始依次关闭
+      instance.jumpClients?.slice().reverse().forEach(client => client.end())
       this.instances.delete(id)
     })
   }
@@ -506,6 +958,26 @@ export class SshService {
     return instance?.config || null
   }
 
+  /**
+   * 查找连接到指定主机的 SSH 实例
+   */
+  findInstanceByHost(host: string, username: string): string | null {
+    for (const [id, instance] of Array.from(this.instances.entries())) {
+      if (instance.config.host === host && instance.config.username === username) {
+        return id
+      }
+    }
+    return null
+  }
+
+  /**
+   * 获取 SSH 客户端（用于端口转发等需要复用连接的功能）
+   */
+  getClient(id: string): Client | null {
+    const instance = this.instances.get(id)
+    return instance?.client || null
+  }
+
   /**
    * 在 SSH 终端执行命令并收集输出
    * 通过检测 shell 提示符来判断命令完成
@@ -757,6 +1229,78 @@ export class SshService {
     })
   }
 
+  /**
+   * 在独立的 exec channel 中执行命令，返回输出和退出码
+   * 不占用交互 shell，供 Agent 并行执行互不依赖的计划步骤
+   * 超时或 signal 中止时先向远程进程发送 KILL 信号再关闭通道（仅关闭通道不会结束远程进程）
+   */
+  exec(id: string, command: string, timeout: number = 30000, signal?: AbortSignal): Promise<CommandResult> {
+    const startTime = Date.now()
+    return new Promise(resolve => {
+      const instance = this.instances.get(id)
+      if (!instance) {
+        resolve({ output: 'SSH 连接不存在', exitCode: -1, duration: 0 })
+        return
+      }
+      if (signal?.aborted) {
+        resolve({ output: '', exitCode: -1, duration: 0, aborted: true })
+        return
+      }
+
+      let output = ''
+      let resolved = false
+      let channel: ClientChannel | null = null
+      const killChannel = (target: ClientChannel) => {
+        try {
+          target.signal('KILL')
+        } catch {
+          // 通道已关闭
+        }
+        target.close()
+      }
+      const finish = (result: Omit<CommandResult, 'duration'>) => {
+        if (resolved) return
+        resolved = true
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
+        resolve({ ...result, output: stripAnsi(result.output).replace(/\r/g, '').trim(), duration: Date.now() - startTime })
+      }
+      const stop = () => {
+        if (channel) killChannel(channel)
+        finish({ output, exitCode: -1, aborted: true })
+      }
+      const onAbort = () => stop()
+
+      const timer = setTimeout(stop, timeout)
+      signal?.addEventListener('abort', onAbort)
+
+      instance.client.exec(command, (err, stream) => {
+        if (err) {
+          finish({ output: `执行错误: ${err.message}`, exitCode: -1 })
+          return
+        }
+        // 通道打开前已超时或中止
+        if (resolved) {
+          killChannel(stream)
+          return
+        }
+        channel = stream
+        stream.on('data', (data: Buffer) => {
+          output += data.toString('utf-8')
+        })
+        stream.stderr.on('data', (data: Buffer) => {
+          output += data.toString('utf-8')
+        })
+        stream.on('close', (code: number | null) => {
+          finish({ output, exitCode: code ?? -1 })
+        })
+        stream.on('error', (streamErr: Error) => {
+          finish({ output: output || `执行错误: ${streamErr.message}`, exitCode: -1 })
+        })
+      })
+    })
+  }
+
   /**
    * 获取远程 shell 的子进程信息
    * 用于更精确地判断是否有命令正在执行
@@ -0,0 +1,139 @@
+/**
+ * tiktoken 兼容的 BPE 分词器（仅计数）
+ * 读取 .tiktoken 词表文件（每行 "base64(token) rank"），按 tiktoken 的预分词正则切分后做字节级 BPE 合并
+ */
+import * as fs from 'fs'
+
+// 各编码的预分词正则（来自 tiktoken，(?i:...) 改写为显式大小写）
+const CONTRACTIONS = `'(?:[sS]|[tT]|[rR][eE]|[vV][eE]|[mM]|[lL][lL]|[dD])`
+
+const PATTERNS: Record<string, string> = {
+  r50k_base: `'(?:s|t|re|ve|m|ll|d)| ?\\p{L}+| ?\\p{N}+| ?[^\\s\\p{L}\\p{N}]+|\\s+(?!\\S)|\\s+`,
+  cl100k_base: `${CONTRACTIONS}|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`,
+  o200k_base: [
+    `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:${CONTRACTIONS})?`,
+    `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:${CONTRACTIONS})?`,
+    `\\p{N}{1,3}`,
+    ` ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*`,
+    `\\s*[\\r\\n]+`,
+    `\\s+(?!\\S)`,
+    `\\s+`
+  ].join('|')
+}
+PATTERNS.p50k_base = PATTERNS.r50k_base
+
+// 超长片段（如整段中文、base64）按字符切块后再合并，避免 O(n²) 的合并耗时
+const MAX_PIECE_CHARS = 64
+
+// 片段计数缓存上限
+const MAX_CACHE_SIZE = 50000
+
+/**
+ * 根据编码名称选择预分词正则；自定义词表按名称前缀推断，默认使用 cl100k
+ */
+function getPattern(encoding: string): RegExp {
+  const base = Object.keys(PATTERNS).find(name => encoding.startsWith(name.replace('_base', '')))
+  return new RegExp(PATTERNS[base || 'cl100k_base'], 'gu')
+}
+
+export class TiktokenBpe {
+  private ranks: Map<string, number>
+  private pattern: RegExp
+  private cache: Map<string, number> = new Map()
+
+  constructor(readonly encoding: string, ranks: Map<string, number>) {
+    this.ranks = ranks
+    this.pattern = getPattern(encoding)
+  }
+
+  /**
+   * 从 .tiktoken 文件加载
+   */
+  static fromFile(encoding: string, filePath: string): TiktokenBpe {
+    const ranks = new Map<string, number>()
+    const content = fs.readFileSync(filePath, 'utf-8')
+    for (const line of content.split('\n')) {
+      const [token, rank] = line.trim().split(' ')
+      if (!token || rank === undefined) continue
+      // 以 latin1 字符串作为字节序列的键
+      ranks.set(Buffer.from(token, 'base64').toString('latin1'), parseInt(rank, 10))
+    }
+    if (ranks.size === 0) {
+      throw new Error(`词表文件为空或格式错误: ${filePath}`)
+    }
+    return new TiktokenBpe(encoding, ranks)
+  }
+
+  /**
+   * 计算文本的 token 数
+   */
+  countTokens(text: string): number {
+    if (!text) return 0
+
+    let count = 0
+    let match: RegExpExecArray | null
+    this.pattern.lastIndex = 0
+    while ((match = this.pattern.exec(text)) !== null) {
+      count += this.countPiece(match[0])
+    }
+    return count
+  }
+
+  private countPiece(piece: string): number {
+    const cached = this.cache.get(piece)
+    if (cached !== undefined) return cached
+
+    let count = 0
+    const chars = Array.from(piece)
+    for (let i = 0; i < chars.length; i += MAX_PIECE_CHARS) {
+      const bytes = Buffer.from(chars.slice(i, i + MAX_PIECE_CHARS).join(''), 'utf-8').toString('latin1')
+      count += this.ranks.has(bytes) ? 1 : this.bytePairMerge(bytes)
+    }
+
+    if (this.cache.size >= MAX_CACHE_SIZE) {
+      this.cache.clear()
+    }
+    this.cache.set(piece, count)
+    return count
+  }
+
+  /**
+   * 字节级 BPE 合并，返回合并后的 token 数
+   * 每轮合并词表中排名最小（最常见）的相邻片段，直到没有可合并的片段
+   */
+  private bytePairMerge(bytes: string): number {
+    // 片段边界
+    const parts: number[] = []
+    for (let i = 0; i <= bytes.length; i++) {
+      parts.push(i)
+    }
+
+    // ranks[i]：合并第 i 与第 i + 1 个片段后的排名
+    const getRank = (i: number): number => {
+      if (i + 2 >= parts.length) return Infinity
+      return this.ranks.get(bytes.slice(parts[i], parts[i + 2])) ?? Infinity
+    }
+    const pairRanks = parts.map((_, i) => getRank(i))
+
+    while (parts.length > 2) {
+      let minRank = Infinity
+      let minIndex = -1
+      for (let i = 0; i < pairRanks.length - 2; i++) {
+        if (pairRanks[i] < minRank) {
+          minRank = pairRanks[i]
+          minIndex = i
+        }
+      }
+      if (minIndex < 0) break
+
+      parts.splice(minIndex + 1, 1)
+      pairRanks.splice(minIndex + 1, 1)
+      pairRanks[minIndex] = getRank(minIndex)
+      if (minIndex > 0) {
+        pairRanks[minIndex - 1] = getRank(minIndex - 1)
+      }
+    }
+
+    return parts.length - 1
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Token 计数服务
+ * 按 AI 配置选择离线 tiktoken 词表（随软件打包或放在用户数据目录），
+ * 词表不可用时退回按字符类别估算
+ */
+import * as fs from 'fs'
+import * as path from 'path'
+import { app } from 'electron'
+import { TiktokenBpe } from './bpe'
+
+// 按字符估算（不加载词表）
+export const HEURISTIC_TOKENIZER = 'heuristic'
+// 按模型名称自动选择
+export const AUTO_TOKENIZER = 'auto'
+
+const TOKENIZER_EXT = '.tiktoken'
+
+export interface TokenizerInfo {
+  id: string                    // 编码名称（文件名去掉扩展名），如 cl100k_base
+  source: 'bundled' | 'user'    // 随软件打包 / 用户自行放置
+}
+
+// 计数所需的配置字段
+export interface TokenizerProfile {
+  model: string
+  tokenizer?: string
+}
+
+/**
+ * 按字符类别估算 token 数（偏保守）
+ * 中文约 1.5 token/字符，其他约 0.25 token/字符
+ */
+export function estimateTokensHeuristic(text: string): number {
+  if (!text) return 0
+  const chineseChars = (text.match(/[\u4e00-\u9fa5]/g) || []).length
+  const otherChars = text.length - chineseChars
+  return Math.ceil(chineseChars * 1.5 + otherChars * 0.25)
+}
+
+/**
+ * 根据模型名称推断 tiktoken 编码
+ * GPT-4o 及之后的 OpenAI 模型使用 o200k，其余模型以 cl100k 近似
+ */
+export function resolveEncodingForModel(model: string): string {
+  const name = model.toLowerCase().split('/').pop() || ''
+  if (/^(gpt-4o|chatgpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o1|o3|o4)/.test(name)) {
+    return 'o200k_base'
+  }
+  return 'cl100k_base'
+}
+
+export class TokenizerService {
+  private bundledDir: string
+  private userDir: string
+  private encoders: Map<string, TiktokenBpe> = new Map()
+  // 加载失败的编码，避免每次计数都重复读取文件
+  private failed: Set<string> = new Set()
+
+  constructor() {
+    this.bundledDir = app.isPackaged
+      ? path.join(process.resourcesPath, 'models', 'tokenizers')
+      : path.join(app.getAppPath(), 'resources', 'models', 'tokenizers')
+    this.userDir = path.join(app.getPath('userData'), 'models', 'tokenizers')
+  }
+
+  /**
+   * 列出可用的词表（用户目录中的同名词表优先）
+   */
+  listTokenizers(): TokenizerInfo[] {
+    // 用户可能刚放入新的词表，重新允许加载
+    this.failed.clear()
+    const result = new Map<string, TokenizerInfo>()
+    const scan = (dir: string, source: TokenizerInfo['source']) => {
+      if (!fs.existsSync(dir)) return
+      for (const file of fs.readdirSync(dir)) {
+        if (file.endsWith(TOKENIZER_EXT)) {
+          const id = file.slice(0, -TOKENIZER_EXT.length)
+          result.set(id, { id, source })
+        }
+      }
+    }
+    scan(this.bundledDir, 'bundled')
+    scan(this.userDir, 'user')
+    return Array.from(result.values()).sort((a, b) => a.id.localeCompare(b.id))
+  }
+
+  /**
+   * 获取用户词表目录
+   */
+  getUserDir(): string {
+    return this.userDir
+  }
+
+  /**
+   * 计算文本在指定配置下的 token 数
+   */
+  countTokens(text: string, profile?: TokenizerProfile | null): number {
+    const encoder = this.getEncoder(profile)
+    return encoder ? encoder.countTokens(text) : estimateTokensHeuristic(text)
+  }
+
+  /**
+   * 获取计数函数，供需要多次计数的调用方复用同一词表
+   */
+  getCounter(profile?: TokenizerProfile | null): (text: string) => number {
+    const encoder = this.getEncoder(profile)
+    return encoder
+      ? (text: string) => encoder.countTokens(text)
+      : estimateTokensHeuristic
+  }
+
+  /**
+   * 配置实际使用的编码（词表不可用时为 heuristic）
+   */
+  resolveTokenizer(profile?: TokenizerProfile | null): string {
+    return this.getEncoder(profile)?.encoding || HEURISTIC_TOKENIZER
+  }
+
+  private getEncoder(profile?: TokenizerProfile | null): TiktokenBpe | null {
+    const selected = profile?.tokenizer || AUTO_TOKENIZER
+    if (selected === HEURISTIC_TOKENIZER) return null
+
+    const encoding = selected === AUTO_TOKENIZER
+      ? resolveEncodingForModel(profile?.model || '')
+      : selected
+    return this.loadEncoder(encoding)
+  }
+
+  private loadEncoder(encoding: string): TiktokenBpe | null {
+    const cached = this.encoders.get(encoding)
+    if (cached) return cached
+    if (this.failed.has(encoding)) return null
+
+    const filePath = [this.userDir, this.bundledDir]
+      .map(dir => path.join(dir, `${encoding}${TOKENIZER_EXT}`))
+      .find(p => fs.existsSync(p))
+    if (!filePath) {
+      this.failed.add(encoding)
+      return null
+    }
+
+    try {
+      const encoder = TiktokenBpe.fromFile(encoding, filePath)
+      this.encoders.set(encoding, encoder)
+      console.log(`[Tokenizer] 已加载词表: ${encoding}`)
+      return encoder
+    } catch (e) {
+      console.error(`[Tokenizer] 加载词表失败: ${encoding}`, e)
+      this.failed.add(encoding)
+      return null
+    }
+  }
+}
+
+// 单例
+let tokenizerService: TokenizerService | null = null
+
+export function getTokenizerService(): TokenizerService {
+  if (!tokenizerService) {
+    tokenizerService = new TokenizerService()
+  }
+  return tokenizerService
+}
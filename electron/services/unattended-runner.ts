@@ -0,0 +1,229 @@
+/**
+ * 无人值守 Agent 运行
+ * 在后台打开已保存的 SSH 会话，以无人值守方式运行 Agent 任务，
+ * 结束后关闭会话并把运行过程写入 Agent 历史记录（供定时任务和本地接入共用）
+ */
+import type { AgentService } from './agent'
+import type { AgentConfig, AgentContext, AgentStep, AgentTarget } from './agent/types'
+import type { SshService, SshConfig } from './ssh.service'
+import type { ConfigService, SshSession } from './config.service'
+import type { HistoryService, AgentRecord } from './history.service'
+import { getTerminalStateService } from './terminal-state.service'
+
+export interface UnattendedRunOptions {
+  sessionIds: string[]        // 目标 SSH 会话，第一个为主终端
+  message: string             // 交给 Agent 的完整任务描述
+  config: Partial<AgentConfig>
+  profileId?: string
+  // 写入历史记录时使用的终端标识和任务标题
+  recordTerminalId: string
+  recordTask: string
+  onStep?: (step: AgentStep) => void
+  signal?: AbortSignal        // 中止运行（如调用方断开连接）
+}
+
+export interface UnattendedRunResult {
+  status: AgentRecord['status']
+  finalResult: string
+  error?: string
+}
+
+// 会话连接后等待登录横幅和提示符输出的时间
+const SESSION_SETTLE_MS = 2000
+
+// 后台终端尺寸（输出按该宽度折行）
+const TERMINAL_COLS = 160
+const TERMINAL_ROWS = 48
+
+const ABORTED_MESSAGE = '用户中止了 Agent 执行'
+
+export class UnattendedRunner {
+  constructor(
+    private agentService: AgentService,
+    private sshService: SshService,
+    private configService: ConfigService,
+    private historyService: HistoryService
+  ) {}
+
+  /**
+   * 执行一次任务：打开会话 → 运行 Agent → 关闭会话 → 保存记录
+   */
+  async run(options: UnattendedRunOptions): Promise<UnattendedRunResult> {
+    const startTime = Date.now()
+    const terminalStateService = getTerminalStateService()
+    const connections: { id: string; session: SshSession }[] = []
+    let status: AgentRecord['status'] = 'failed'
+    let finalResult = ''
+    let runId: string | null = null
+    let errorMessage: string | undefined
+    let unobserve: (() => void) | undefined
+    let onAbort: (() => void) | undefined
+
+    try {
+      const allSessions = this.configService.getSshSessions()
+      const sessions = options.sessionIds.map(id => {
+        const session = allSessions.find(s => s.id === id)
+        if (!session) throw new Error(`目标会话不存在: ${id}`)
+        return session
+      })
+
+      for (const session of sessions) {
+        if (options.signal?.aborted) throw new Error(ABORTED_MESSAGE)
+        const id = await this.sshService.connect(this.buildSshConfig(session))
+        connections.push({ id, session })
+        terminalStateService.initTerminal(id, 'ssh')
+      }
+
+      const primary = connections[0]
+      const terminalOutput = await this.collectInitialOutput(primary.id)
+      if (options.signal?.aborted) throw new Error(ABORTED_MESSAGE)
+
+      const targets: AgentTarget[] = connections.map(({ id, session }) => ({
+        id: `${session.username}@${session.host}`,
+        ptyId: id,
+        terminalType: 'ssh',
+        hostId: `${session.username}@${session.host}`,
+        systemInfo: { os: 'linux', shell: 'bash' }
+      }))
+      const context: AgentContext = {
+        ptyId: primary.id,
+        terminalOutput,
+        systemInfo: { os: 'linux', shell: 'bash' },
+        terminalType: 'ssh',
+        hostId: targets[0].hostId,
+        targets
+      }
+
+      if (options.onStep) {
+        unobserve = this.agentService.observeSteps(primary.id, options.onStep)
+      }
+      if (options.signal) {
+        onAbort = () => {
+          const id = this.agentService.findRunIdByPtyId(primary.id)
+          if (id) this.agentService.abort(id)
+        }
+        options.signal.addEventListener('abort', onAbort)
+      }
+
+      try {
+        finalResult = await this.agentService.run(primary.id, options.message, context, {
+          ...options.config,
+          unattended: true
+        }, options.profileId)
+        status = 'completed'
+      } finally {
+        runId = this.agentService.findRunIdByPtyId(primary.id)
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : String(error)
+      if (errorMessage === ABORTED_MESSAGE || options.signal?.aborted) {
+        status = 'aborted'
+        finalResult = '⛔ 运行已中止'
+      } else {
+        finalResult = `❌ 任务执行失败: ${errorMessage}`
+      }
+    } finally {
+      unobserve?.()
+      if (onAbort) options.signal?.removeEventListener('abort', onAbort)
+      for (const { id } of connections) {
+        this.sshService.disconnect(id)
+        terminalStateService.removeTerminal(id)
+      }
+    }
+
+    this.saveRecord(options, runId, connections[0]?.session, startTime, status, finalResult)
+    if (runId) {
+      this.agentService.cleanup(runId)
+    }
+
+    return { status, finalResult, error: errorMessage }
+  }
+
+  /**
+   * 由会话配置生成连接参数（跳板机和重连策略按会话 > 分组的优先级继承）
+   */
+  private buildSshConfig(session: SshSession): SshConfig {
+    const group = session.groupId
+      ? this.configService.getSessionGroups().find(g => g.id === session.groupId)
+      : undefined
+    let jumpHosts = group?.jumpHosts
+    if (session.jumpHostsOverride === null) {
+      jumpHosts = undefined
+    } else if (session.jumpHostsOverride?.length) {
+      jumpHosts = session.jumpHostsOverride
+    }
+
+    return {
+      host: session.host,
+      port: session.port,
+      username: session.username,
+      authType: session.authType,
+      password: session.password,
+      privateKeyPath: session.privateKeyPath,
+      passphrase: session.passphrase,
+      totpSecret: session.totpSecret,
+      agentForward: session.agentForward,
+      jumpHosts: jumpHosts?.length ? jumpHosts : undefined,
+      cols: TERMINAL_COLS,
+      rows: TERMINAL_ROWS
+    }
+  }
+
+  /**
+   * 收集连接后的初始输出（登录横幅和提示符），作为 Agent 的终端上下文
+   */
+  private collectInitialOutput(id: string): Promise<string[]> {
+    return new Promise(resolve => {
+      let output = ''
+      const unsubscribe = this.sshService.onData(id, data => {
+        output += data
+      })
+      setTimeout(() => {
+        unsubscribe()
+        resolve(output.split('\n').slice(-50))
+      }, SESSION_SETTLE_MS)
+    })
+  }
+
+  private saveRecord(
+    options: UnattendedRunOptions,
+    runId: string | null,
+    session: SshSession | undefined,
+    startTime: number,
+    status: AgentRecord['status'],
+    finalResult: string
+  ): void {
+    const runStatus = runId ? this.agentService.getRunStatus(runId) : null
+    const steps = (runStatus?.steps || []).map(s => ({
+      id: s.id,
+      type: s.type,
+      content: s.content,
+      toolName: s.toolName,
+      toolArgs: s.toolArgs,
+      toolResult: s.toolResult,
+      riskLevel: s.riskLevel,
+      timestamp: s.timestamp
+    }))
+
+    const record: AgentRecord = JSON.parse(JSON.stringify({
+      id: `agent_${startTime}`,
+      runId: runId || undefined,
+      timestamp: startTime,
+      terminalId: options.recordTerminalId,
+      terminalType: 'ssh',
+      sshHost: session?.host,
+      userTask: options.recordTask,
+      steps,
+      finalResult,
+      duration: Date.now() - startTime,
+      status,
+      aiProfiles: runStatus?.aiProfiles
+    }))
+
+    try {
+      this.historyService.saveAgentRecord(record)
+    } catch (e) {
+      console.error('[UnattendedRunner] 保存 Agent 记录失败:', e)
+    }
+  }
+}
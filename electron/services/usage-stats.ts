@@ -0,0 +1,121 @@
+/**
+ * AI 用量统计
+ * 按天、AI 配置、主机、模型汇总 token 用量，并按模型单价计算费用
+ */
+import type { UsageRecord } from './history.service'
+import type { ModelPrice, ModelPricingConfig } from './config.service'
+
+// 单个维度下的汇总项
+export interface UsageBucket {
+  key: string
+  label: string
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  cost: number
+}
+
+export interface UsageSummary {
+  currency: string
+  total: UsageBucket
+  byDay: UsageBucket[]       // 按日期升序
+  byProfile: UsageBucket[]   // 以下按总 tokens 降序
+  byHost: UsageBucket[]
+  byModel: UsageBucket[]
+  unpricedModels: string[]   // 有用量但未配置单价的模型
+}
+
+/**
+ * 查找模型单价：优先精确匹配（不区分大小写），其次取最长的前缀规则（model 以 * 结尾）
+ */
+export function findModelPrice(model: string, prices: ModelPrice[]): ModelPrice | undefined {
+  const name = model.toLowerCase()
+  const exact = prices.find(p => p.model.toLowerCase() === name)
+  if (exact) return exact
+
+  return prices
+    .filter(p => p.model.endsWith('*') && name.startsWith(p.model.slice(0, -1).toLowerCase()))
+    .sort((a, b) => b.model.length - a.model.length)[0]
+}
+
+/**
+ * 计算费用（单价按每百万 tokens）
+ */
+export function calculateCost(promptTokens: number, completionTokens: number, price?: ModelPrice): number {
+  if (!price) return 0
+  return (promptTokens * price.inputPrice + completionTokens * price.outputPrice) / 1000000
+}
+
+/**
+ * 本地日期（YYYY-MM-DD），按用户所在时区分天
+ */
+function getLocalDate(timestamp: number): string {
+  const date = new Date(timestamp)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function createBucket(key: string, label: string): UsageBucket {
+  return { key, label, requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 }
+}
+
+function addToBucket(bucket: UsageBucket, record: UsageRecord, cost: number): void {
+  bucket.requests++
+  bucket.promptTokens += record.promptTokens
+  bucket.completionTokens += record.completionTokens
+  bucket.cost += cost
+}
+
+function byTotalTokens(a: UsageBucket, b: UsageBucket): number {
+  return (b.promptTokens + b.completionTokens) - (a.promptTokens + a.completionTokens)
+}
+
+/**
+ * 汇总用量记录
+ * 费用按当前单价表计算，修改单价后历史用量的费用会随之更新
+ */
+export function summarizeUsage(records: UsageRecord[], pricing: ModelPricingConfig): UsageSummary {
+  const total = createBucket('total', 'total')
+  const days = new Map<string, UsageBucket>()
+  const profiles = new Map<string, UsageBucket>()
+  const hosts = new Map<string, UsageBucket>()
+  const models = new Map<string, UsageBucket>()
+  const unpriced = new Set<string>()
+
+  const getBucket = (map: Map<string, UsageBucket>, key: string, label: string) => {
+    let bucket = map.get(key)
+    if (!bucket) {
+      bucket = createBucket(key, label)
+      map.set(key, bucket)
+    }
+    // 配置可能被重命名，使用最新记录中的名称
+    bucket.label = label
+    return bucket
+  }
+
+  for (const record of records) {
+    const price = findModelPrice(record.model, pricing.prices)
+    if (!price) {
+      unpriced.add(record.model)
+    }
+    const cost = calculateCost(record.promptTokens, record.completionTokens, price)
+
+    const day = getLocalDate(record.timestamp)
+    addToBucket(total, record, cost)
+    addToBucket(getBucket(days, day, day), record, cost)
+    addToBucket(getBucket(profiles, record.profileId, record.profileName), record, cost)
+    addToBucket(getBucket(hosts, record.host || '', record.host || ''), record, cost)
+    addToBucket(getBucket(models, record.model, record.model), record, cost)
+  }
+
+  return {
+    currency: pricing.currency,
+    total,
+    byDay: Array.from(days.values()).sort((a, b) => a.key.localeCompare(b.key)),
+    byProfile: Array.from(profiles.values()).sort(byTotalTokens),
+    byHost: Array.from(hosts.values()).sort(byTotalTokens),
+    byModel: Array.from(models.values()).sort(byTotalTokens),
+    unpricedModels: Array.from(unpriced).sort()
+  }
+}
@@ -26,12 +26,25 @@ interface AgentState {
     toolName: string
     toolArgs: Record<string, unknown>
     riskLevel: string
+    diff?: string
   }
   userTask?: string
   finalResult?: string
+  plan?: AgentPlan
   history: Array<{ userTask: string; finalResult: string }>
 }
 
+// 应用崩溃或重启时中断的 Agent 任务
+export interface InterruptedAgentRun {
+  id: string
+  hostId?: string
+  userTask: string
+  stepCount: number
+  steps: AgentStep[]
+  createdAt: number
+  updatedAt: number
+}
+
 export function useAgentMode(
   inputText: Ref<string>,
   scrollToBottom: () => Promise<void>,           // 强制滚动（用户发送时）
@@ -49,12 +62,16 @@ export function useAgentMode(
   const commandTimeout = ref(10)     // 命令超时时间（秒），默认 10 秒
   const collapsedTaskIds = ref<Set<string>>(new Set())  // 已折叠的任务 ID
   const pendingSupplements = ref<string[]>([])  // 等待处理的补充消息
+  const interruptedRun = ref<InterruptedAgentRun | null>(null)  // 当前主机上可恢复的中断任务
+  const attachedTabIdsByTab = ref<Record<string, string[]>>({})  // 多终端任务：各终端附加的其他终端标签
+  const stepTargetFilters = ref<Record<string, string>>({})  // 多终端任务：按主机筛选步骤（任务 ID → 目标终端）
 
   // 清理事件监听的函数
   let cleanupStepListener: (() => void) | null = null
   let cleanupConfirmListener: (() => void) | null = null
   let cleanupCompleteListener: (() => void) | null = null
   let cleanupErrorListener: (() => void) | null = null
+  let cleanupPlanListener: (() => void) | null = null
 
   // 当前终端 ID
   const currentTabId = computed(() => terminalStore.activeTabId)
@@ -77,6 +94,85 @@ export function useAgentMode(
     return agentState.value?.userTask
   })
 
+  const agentPlan = computed(() => {
+    return agentState.value?.plan
+  })
+
+  // 可以附加到当前任务的终端（已连接的其他标签）
+  const attachableTabs = computed(() => {
+    return terminalStore.tabs.filter(t => t.id !== currentTabId.value && t.ptyId && t.isConnected)
+  })
+
+  // 当前终端附加的终端（忽略已关闭或断开的标签）
+  const attachedTabIds = computed(() => {
+    const tabId = currentTabId.value
+    if (!tabId) return []
+    const ids = attachedTabIdsByTab.value[tabId] || []
+    return ids.filter(id => attachableTabs.value.some(t => t.id === id))
+  })
+
+  // 切换附加终端
+  const toggleAttachedTab = (attachTabId: string) => {
+    const tabId = currentTabId.value
+    if (!tabId) return
+    const ids = attachedTabIdsByTab.value[tabId] || []
+    attachedTabIdsByTab.value = {
+      ...attachedTabIdsByTab.value,
+      [tabId]: ids.includes(attachTabId) ? ids.filter(id => id !== attachTabId) : [...ids, attachTabId]
+    }
+  }
+
+  // 构建多终端任务的目标终端（第一个为当前终端）
+  // 目标名称：SSH 为 用户@主机，本地为 local，重名时追加序号
+  const buildAgentTargets = async (tabId: string, hostId: string): Promise<AgentTarget[] | undefined> => {
+    if (attachedTabIds.value.length === 0) return undefined
+
+    const targets: AgentTarget[] = []
+    const usedNames = new Set<string>()
+    for (const id of [tabId, ...attachedTabIds.value]) {
+      const tab = terminalStore.tabs.find(t => t.id === id)
+      const context = terminalStore.getAgentContext(id)
+      if (!tab || !context?.ptyId) continue
+
+      const baseName = tab.type === 'ssh' && tab.sshConfig
+        ? `${tab.sshConfig.username}@${tab.sshConfig.host}`
+        : 'local'
+      let name = baseName
+      for (let i = 2; usedNames.has(name); i++) {
+        name = `${baseName}#${i}`
+      }
+      usedNames.add(name)
+
+      targets.push({
+        id: name,
+        ptyId: context.ptyId,
+        terminalType: context.terminalType,
+        hostId: id === tabId ? hostId : await getHostIdByTabId(id),
+        systemInfo: context.systemInfo
+      })
+    }
+    return targets.length > 1 ? targets : undefined
+  }
+
+  // 任务步骤涉及的目标终端
+  const getGroupTargets = (group: AgentTaskGroup): string[] => {
+    const targets = new Set<string>()
+    for (const step of group.steps) {
+      if (step.target) targets.add(step.target)
+    }
+    return Array.from(targets)
+  }
+
+  // 按主机筛选后的任务步骤
+  const getVisibleSteps = (group: AgentTaskGroup): AgentStep[] => {
+    const target = stepTargetFilters.value[group.id]
+    return target ? group.steps.filter(s => s.target === target) : group.steps
+  }
+
+  const setStepTargetFilter = (groupId: string, target: string) => {
+    stepTargetFilters.value = { ...stepTargetFilters.value, [groupId]: target }
+  }
+
   // 切换任务步骤折叠状态
   const toggleStepsCollapse = (taskId: string) => {
     if (collapsedTaskIds.value.has(taskId)) {
@@ -170,7 +266,7 @@ export function useAgentMode(
   }
 
   // 保存 Agent 记录到历史
-  const saveAgentRecord = (
+  const saveAgentRecord = async (
     _tabId: string,
     userTask: string,
     startTime: number,
@@ -180,6 +276,7 @@ export function useAgentMode(
     const terminalInfo = getTerminalInfo()
     if (!terminalInfo) return
     
+    const agentId = agentState.value?.agentId
     const steps = agentState.value?.steps || []
     // 过滤掉 user_task 和 final_result 类型，只保留执行步骤
     const executionSteps = steps
@@ -195,16 +292,24 @@ export function useAgentMode(
         timestamp: s.timestamp
       }))
     
+    // 记录响应本次运行的 AI 配置（故障转移时可能有多个）
+    const duration = Date.now() - startTime
+    const runStatus = agentId
+      ? await window.electronAPI.agent.getStatus(agentId).catch(() => null)
+      : null
+
     // 使用 JSON.parse(JSON.stringify()) 确保移除所有 Vue Proxy，避免 IPC 序列化错误
     const record = JSON.parse(JSON.stringify({
       id: `agent_${startTime}`,
+      runId: agentId,
       timestamp: startTime,
       ...terminalInfo,
       userTask,
       steps: executionSteps,
       finalResult,
-      duration: Date.now() - startTime,
-      status
+      duration,
+      status,
+      aiProfiles: runStatus?.aiProfiles
     }))
     
     window.electronAPI.history.saveAgentRecord(record).catch(err => {
@@ -240,8 +345,19 @@ export function useAgentMode(
       return
     }
 
-    const startTime = Date.now()  // 记录开始时间
     inputText.value = ''
+    await startAgentTask(tabId, message)
+  }
+
+  // 按 Playbook 启动任务（参数已代入）
+  const runPlaybook = async (playbook: RenderedPlaybook) => {
+    if (isAgentRunning.value || !currentTabId.value) return
+    await startAgentTask(currentTabId.value, playbook.task, playbook)
+  }
+
+  // 在终端上启动新的 Agent 任务
+  const startAgentTask = async (tabId: string, message: string, playbook?: RenderedPlaybook) => {
+    const startTime = Date.now()  // 记录开始时间
 
     // 获取 Agent 上下文
     const context = terminalStore.getAgentContext(tabId)
@@ -272,11 +388,14 @@ export function useAgentMode(
     // 获取文档上下文
     const documentContext = await getDocumentContext()
 
+    // 多终端任务的目标终端
+    const targets = await buildAgentTargets(tabId, hostId)
+
     // 添加用户任务到步骤中（作为对话流的一部分）
     terminalStore.addAgentStep(tabId, {
       id: `user_task_${Date.now()}`,
       type: 'user_task',
-      content: message,
+      content: playbook ? `📘 ${playbook.name}\n${message}` : message,
       timestamp: Date.now()
     })
     await scrollToBottom()
@@ -284,22 +403,36 @@ export function useAgentMode(
     // 设置 Agent 状态：正在运行 + 用户任务
     terminalStore.setAgentRunning(tabId, true, undefined, message)
 
+    // 调用 Agent API，传递配置
+    await executeAgentRequest(tabId, message, startTime, hostId, () => window.electronAPI.agent.run(
+      context.ptyId,
+      message,
+      {
+        ...context,
+        hostId,  // 主机档案 ID
+        historyMessages,  // 添加历史对话
+        documentContext,  // 添加文档上下文
+        targets           // 多终端任务附加的终端
+      } as { ptyId: string; terminalOutput: string[]; systemInfo: { os: string; shell: string }; terminalType: 'local' | 'ssh'; hostId?: string; historyMessages?: { role: string; content: string }[]; documentContext?: string; targets?: AgentTarget[] },
+      { strictMode: strictMode.value, commandTimeout: commandTimeout.value * 1000 },  // 传递配置（超时时间转为毫秒）
+      undefined,
+      playbook ? JSON.parse(JSON.stringify(playbook)) : undefined
+    ))
+  }
+
+  // 执行 Agent 请求并处理结果（新任务和恢复的任务共用）
+  const executeAgentRequest = async (
+    tabId: string,
+    message: string,
+    startTime: number,
+    hostId: string,
+    request: () => Promise<{ success: boolean; result?: string; error?: string }>
+  ) => {
     let result: { success: boolean; result?: string; error?: string } | null = null
     let finalContent = ''
     
     try {
-      // 调用 Agent API，传递配置
-      result = await window.electronAPI.agent.run(
-        context.ptyId,
-        message,
-        {
-          ...context,
-          hostId,  // 主机档案 ID
-          historyMessages,  // 添加历史对话
-          documentContext   // 添加文档上下文
-        } as { ptyId: string; terminalOutput: string[]; systemInfo: { os: string; shell: string }; terminalType: 'local' | 'ssh'; hostId?: string; historyMessages?: { role: string; content: string }[]; documentContext?: string },
-        { strictMode: strictMode.value, commandTimeout: commandTimeout.value * 1000 }  // 传递配置（超时时间转为毫秒）
-      )
+      result = await request()
 
       // 添加最终结果到步骤中
       if (!result.success) {
@@ -361,6 +494,81 @@ export function useAgentMode(
     await scrollToBottomIfNeeded()
   }
 
+  // 检查当前终端所在主机是否有中断的任务
+  const loadInterruptedRun = async () => {
+    const tabId = currentTabId.value
+    if (!tabId || isAgentRunning.value) {
+      interruptedRun.value = null
+      return
+    }
+    try {
+      const hostId = await getHostIdByTabId(tabId)
+      const run = await window.electronAPI.agent.getInterruptedRun(hostId)
+      // 异步期间可能切换了标签
+      if (currentTabId.value === tabId) {
+        interruptedRun.value = run
+      }
+    } catch (error) {
+      console.error('获取中断的 Agent 任务失败:', error)
+    }
+  }
+
+  // 恢复中断的任务
+  const resumeAgent = async () => {
+    const run = interruptedRun.value
+    const tabId = currentTabId.value
+    if (!run || !tabId || isAgentRunning.value) return
+
+    const context = terminalStore.getAgentContext(tabId)
+    if (!context || !context.ptyId) {
+      console.error('无法获取终端上下文')
+      return
+    }
+    interruptedRun.value = null
+
+    const startTime = Date.now()
+    const hostId = await getHostIdByTabId(tabId)
+    const targets = await buildAgentTargets(tabId, hostId)
+
+    // 展示中断前的任务和步骤，后续步骤由后端继续推送
+    terminalStore.clearAgentState(tabId, true)
+    terminalStore.addAgentStep(tabId, {
+      id: `user_task_${run.createdAt}`,
+      type: 'user_task',
+      content: run.userTask,
+      timestamp: run.createdAt
+    })
+    for (const step of run.steps) {
+      terminalStore.addAgentStep(tabId, step)
+    }
+    terminalStore.setAgentRunning(tabId, true, run.id, run.userTask)
+    await scrollToBottom()
+
+    await executeAgentRequest(tabId, run.userTask, startTime, hostId, () => window.electronAPI.agent.resume(
+      run.id,
+      context.ptyId,
+      { ...context, hostId, targets } as { ptyId: string; terminalOutput: string[]; systemInfo: { os: string; shell: string }; terminalType: 'local' | 'ssh'; hostId?: string; targets?: AgentTarget[] },
+      { strictMode: strictMode.value, commandTimeout: commandTimeout.value * 1000 }
+    ))
+  }
+
+  // 放弃恢复中断的任务
+  const discardInterruptedRun = async () => {
+    const run = interruptedRun.value
+    if (!run) return
+    interruptedRun.value = null
+    try {
+      await window.electronAPI.agent.discardInterruptedRun(run.id)
+    } catch (error) {
+      console.error('放弃中断的 Agent 任务失败:', error)
+    }
+  }
+
+  // 切换终端时重新检查可恢复的任务
+  watch(currentTabId, () => {
+    loadInterruptedRun()
+  })
+
   // 中止 Agent
   const abortAgent = async () => {
     const agentId = agentState.value?.agentId
@@ -393,6 +601,32 @@ export function useAgentMode(
     }
   }
 
+  // 审批执行计划
+  const approvePlan = async (approved: boolean) => {
+    const agentId = agentState.value?.agentId
+    if (!agentId || agentPlan.value?.approvalStatus !== 'pending') return
+
+    try {
+      await window.electronAPI.agent.approvePlan(agentId, approved)
+    } catch (error) {
+      console.error('审批计划失败:', error)
+    }
+  }
+
+  // 调整执行计划（修改、跳过、重试步骤），返回错误信息
+  const adjustPlan = async (edit: AgentPlanEdit): Promise<string | undefined> => {
+    const agentId = agentState.value?.agentId
+    if (!agentId || !isAgentRunning.value) return
+
+    try {
+      const result = await window.electronAPI.agent.adjustPlan(agentId, edit)
+      return result.success ? undefined : result.error
+    } catch (error) {
+      console.error('调整计划失败:', error)
+      return String(error)
+    }
+  }
+
   // 发送 Agent 回复（用于用户点击选项快速回复）
   const sendAgentReply = async (message: string) => {
     if (!message.trim() || !currentTabId.value) return
@@ -479,6 +713,14 @@ export function useAgentMode(
       }
     })
 
+    // 监听执行计划更新
+    cleanupPlanListener = window.electronAPI.agent.onPlanUpdate((data) => {
+      const tabId = terminalStore.findTabIdByAgentId(data.agentId) || currentTabId.value
+      if (tabId) {
+        terminalStore.setAgentPlan(tabId, data.plan)
+      }
+    })
+
     // 监听错误
     cleanupErrorListener = window.electronAPI.agent.onError((data) => {
       const tabId = terminalStore.findTabIdByAgentId(data.agentId) || currentTabId.value
@@ -514,11 +756,16 @@ export function useAgentMode(
       cleanupErrorListener()
       cleanupErrorListener = null
     }
+    if (cleanupPlanListener) {
+      cleanupPlanListener()
+      cleanupPlanListener = null
+    }
   }
 
   // 生命周期
   onMounted(() => {
     setupAgentListeners()
+    loadInterruptedRun()
   })
 
   onUnmounted(() => {
@@ -531,16 +778,30 @@ export function useAgentMode(
     commandTimeout,
     collapsedTaskIds,
     pendingSupplements,
+    interruptedRun,
+    attachableTabs,
+    attachedTabIds,
+    toggleAttachedTab,
+    getGroupTargets,
+    getVisibleSteps,
+    stepTargetFilters,
+    setStepTargetFilter,
     agentState,
     isAgentRunning,
     pendingConfirm,
     agentUserTask,
+    agentPlan,
     agentTaskGroups,
     toggleStepsCollapse,
     isStepsCollapsed,
     runAgent,
+    runPlaybook,
+    resumeAgent,
+    discardInterruptedRun,
     abortAgent,
     confirmToolCall,
+    approvePlan,
+    adjustPlan,
     sendAgentReply,
     getStepIcon,
     getRiskClass
@@ -64,6 +64,15 @@ export function useAiChat(
     }
   }
 
+  // 获取用量统计上下文（按 tabId 而非 activeTab，避免请求期间切换标签导致主机错误）
+  const getUsageContext = (tabId: string): AiUsageContext => {
+    const tab = terminalStore.tabs.find(t => t.id === tabId)
+    const host = tab?.type === 'ssh' && tab.sshConfig
+      ? `${tab.sshConfig.username}@${tab.sshConfig.host}`
+      : 'local'
+    return { source: 'chat', host, terminalId: tabId }
+  }
+
   // 当前终端的 AI 加载状态（每个终端独立）
   const isLoading = computed(() => {
     const activeTab = terminalStore.activeTab
@@ -269,11 +278,11 @@ export function useAiChat(
           // 流式响应时使用智能滚动，不打断用户查看历史
           scrollToBottomIfNeeded()
         },
-        () => {
+        servedBy => {
           terminalStore.setAiLoading(tabId, false)
           scrollToBottomIfNeeded()
           
-          // 保存聊天记录
+          // 保存聊天记录（记录实际响应的 AI 配置）
           const terminalInfo = getTerminalInfo()
           if (terminalInfo) {
             const finalContent = terminalStore.getAiMessages(tabId)[messageIndex]?.content || ''
@@ -290,7 +299,8 @@ export function useAiChat(
                 timestamp: Date.now(),
                 ...terminalInfo,
                 role: 'assistant',
-                content: finalContent
+                content: finalContent,
+                aiProfile: servedBy
               }
             ])
           }
@@ -300,7 +310,8 @@ export function useAiChat(
           terminalStore.setAiLoading(tabId, false)
         },
         undefined,  // profileId
-        tabId       // requestId - 使用 tabId 区分不同终端的请求
+        tabId,      // requestId - 使用 tabId 区分不同终端的请求
+        getUsageContext(tabId)
       )
     } catch (error) {
       terminalStore.updateAiMessage(tabId, messageIndex, `错误: ${error}`)
@@ -365,7 +376,8 @@ export function useAiChat(
         terminalStore.setAiLoading(tabId, false)
       },
       undefined,
-      tabId
+      tabId,
+      getUsageContext(tabId)
     )
   }
 
@@ -431,7 +443,8 @@ export function useAiChat(
         terminalStore.setAiLoading(tabId, false)
       },
       undefined,
-      tabId
+      tabId,
+      getUsageContext(tabId)
     )
   }
 
@@ -511,7 +524,8 @@ export function useAiChat(
         terminalStore.setAiLoading(tabId, false)
       },
       undefined,
-      tabId
+      tabId,
+      getUsageContext(tabId)
     )
   }
 
@@ -576,7 +590,8 @@ export function useAiChat(
         terminalStore.setAiLoading(tabId, false)
       },
       undefined,
-      tabId
+      tabId,
+      getUsageContext(tabId)
     )
   }
 
@@ -637,7 +652,8 @@ export function useAiChat(
         terminalStore.setAiLoading(tabId, false)
       },
       undefined,
-      tabId
+      tabId,
+      getUsageContext(tabId)
     )
   }
 
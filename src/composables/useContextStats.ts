@@ -1,8 +1,8 @@
 /**
  * 上下文统计 composable
- * 估算 Token 使用量和上下文统计
+ * 统计 Token 使用量和上下文占用（按 AI 配置的离线词表计数，结果返回前先按字符估算）
  */
-import { computed, Ref, ComputedRef } from 'vue'
+import { computed, shallowRef, watch, Ref, ComputedRef } from 'vue'
 import type { AiMessage, AgentStep } from '../stores/terminal'
 
 // Agent 状态类型
@@ -25,6 +25,7 @@ interface AiProfile {
   model: string
   proxy?: string
   contextLength?: number
+  tokenizer?: string
 }
 
 // 上下文统计结果
@@ -33,8 +34,14 @@ export interface ContextStatsResult {
   tokenEstimate: number
   maxTokens: number
   percentage: number
+  tokenizer: string  // 实际使用的词表，heuristic 表示按字符估算
 }
 
+// 词表计数请求的防抖间隔（毫秒）
+const COUNT_DEBOUNCE_MS = 300
+// 词表计数失败后的重试间隔（毫秒）
+const COUNT_RETRY_MS = 5000
+
 export function useContextStats(
   agentMode: Ref<boolean>,
   messages: ComputedRef<AiMessage[]>,
@@ -42,11 +49,52 @@ export function useContextStats(
   agentUserTask: ComputedRef<string | undefined>,
   activeAiProfile: ComputedRef<AiProfile | null | undefined>
 ) {
-  // 估算文本的 token 数量
+  // 主进程按词表计算的 token 数（文本 → 数量），切换配置后清空
+  const exactCounts = shallowRef<Map<string, number>>(new Map())
+  const tokenizer = shallowRef('heuristic')
+  // 当前统计用到但尚未计数的文本，以及当前统计用到的全部文本
+  let pendingTexts = new Set<string>()
+  let usedTexts = new Set<string>()
+  let countTimer: ReturnType<typeof setTimeout> | null = null
+  let countGeneration = 0
+
+  const scheduleCount = (delay: number) => {
+    if (!countTimer) {
+      countTimer = setTimeout(requestExactCounts, delay)
+    }
+  }
+
+  const requestExactCounts = async () => {
+    countTimer = null
+    const texts = Array.from(pendingTexts)
+    if (texts.length === 0) return
+    pendingTexts = new Set()
+    const generation = countGeneration
+    try {
+      const result = await window.electronAPI.ai.countTokens(texts, activeAiProfile.value?.id)
+      if (generation !== countGeneration) return  // 期间切换了配置
+      // 只保留当前统计仍在使用的文本，避免流式输出的中间内容堆积
+      const next = new Map<string, number>()
+      exactCounts.value.forEach((count, text) => {
+        if (usedTexts.has(text)) next.set(text, count)
+      })
+      texts.forEach((text, i) => next.set(text, result.counts[i]))
+      tokenizer.value = result.tokenizer
+      exactCounts.value = next
+    } catch (e) {
+      console.error('Token 计数失败:', e)
+      if (generation !== countGeneration) return
+      // 仍在使用的文本重新排队，稍后重试
+      texts.forEach(text => {
+        if (usedTexts.has(text) && !exactCounts.value.has(text)) pendingTexts.add(text)
+      })
+      if (pendingTexts.size > 0) scheduleCount(COUNT_RETRY_MS)
+    }
+  }
+
+  // 按字符估算文本的 token 数量
   // 中文：约 1.5 字符/token，英文：约 4 字符/token
-  const estimateTokens = (text: string): number => {
-    if (!text) return 0
-    
+  const estimateTokensHeuristic = (text: string): number => {
     // 统计中文字符数量
     const chineseChars = (text.match(/[\u4e00-\u9fff\u3400-\u4dbf]/g) || []).length
     // 非中文字符数量
@@ -56,28 +104,34 @@ export function useContextStats(
     return Math.ceil(chineseChars / 1.5 + otherChars / 4)
   }
 
-  // 计算上下文使用情况
-  // 这个估算反映的是发送给 AI 的实际上下文大小
-  const contextStats = computed((): ContextStatsResult => {
-    let totalTokens = 0
+  // 文本的 token 数量：有词表计数结果时直接使用，否则按字符估算
+  const estimateTokens = (text: string): number => {
+    if (!text) return 0
+    return exactCounts.value.get(text) ?? estimateTokensHeuristic(text)
+  }
+
+  // 发送给 AI 的上下文内容：固定开销、消息数和各段文本（含格式开销）
+  const contextContent = computed(() => {
+    const entries: Array<{ text: string; overhead: number }> = []
+    let baseTokens = 0
     let messageCount = 0
     
     if (agentMode.value) {
       // Agent 模式：计算发送给 AI 的实际上下文
       // 1. System prompt (~200 tokens) + 工具定义 (~400 tokens)
-      totalTokens += 600
+      baseTokens = 600
       
       // 2. 历史任务（作为 user/assistant 消息对发送）
       const history = agentState.value?.history || []
       for (const item of history) {
-        totalTokens += estimateTokens(item.userTask) + 3  // user 消息 + 格式开销
-        totalTokens += estimateTokens(item.finalResult) + 3  // assistant 消息 + 格式开销
+        entries.push({ text: item.userTask, overhead: 3 })  // user 消息 + 格式开销
+        entries.push({ text: item.finalResult, overhead: 3 })  // assistant 消息 + 格式开销
         messageCount += 2
       }
       
       // 3. 当前用户任务
       if (agentUserTask.value) {
-        totalTokens += estimateTokens(agentUserTask.value) + 3
+        entries.push({ text: agentUserTask.value, overhead: 3 })
         messageCount++
       }
       
@@ -87,29 +141,59 @@ export function useContextStats(
       for (const step of allSteps) {
         if (step.type === 'message' || step.type === 'thinking') {
           // AI 的文字回复
-          totalTokens += estimateTokens(step.content) + 3
+          entries.push({ text: step.content, overhead: 3 })
         } else if (step.type === 'tool_call' || step.type === 'tool_result') {
           // 工具调用参数 + 工具结果
-          totalTokens += estimateTokens(step.content) + 10  // 工具调用有更多格式开销
+          entries.push({ text: step.content, overhead: 10 })  // 工具调用有更多格式开销
           if (step.toolResult) {
-            totalTokens += estimateTokens(step.toolResult) + 5
+            entries.push({ text: step.toolResult, overhead: 5 })
           }
         }
       }
     } else {
       // 普通对话模式
       // System prompt (~100 tokens)
-      totalTokens += 100
+      baseTokens = 100
       
       const msgs = messages.value.filter(msg => !msg.content.includes('中...'))
       messageCount = msgs.length
       
       for (const msg of msgs) {
-        totalTokens += estimateTokens(msg.content)
         // 每条消息格式开销（role 标记等）约 3 tokens
-        totalTokens += 3
+        entries.push({ text: msg.content, overhead: 3 })
       }
     }
+
+    return { baseTokens, messageCount, entries }
+  })
+
+  // 上下文内容变化或切换配置后，为尚未计数的文本排队请求词表计数
+  const queueExactCounts = () => {
+    usedTexts = new Set(contextContent.value.entries.map(entry => entry.text).filter(Boolean))
+    pendingTexts = new Set(Array.from(usedTexts).filter(text => !exactCounts.value.has(text)))
+    if (pendingTexts.size > 0) scheduleCount(COUNT_DEBOUNCE_MS)
+  }
+
+  watch(contextContent, queueExactCounts, { immediate: true })
+
+  watch(
+    () => [activeAiProfile.value?.id, activeAiProfile.value?.model, activeAiProfile.value?.tokenizer],
+    () => {
+      countGeneration++
+      exactCounts.value = new Map()
+      tokenizer.value = 'heuristic'
+      queueExactCounts()
+    }
+  )
+
+  // 计算上下文使用情况
+  // 这个估算反映的是发送给 AI 的实际上下文大小
+  const contextStats = computed((): ContextStatsResult => {
+    const { baseTokens, messageCount, entries } = contextContent.value
+    const totalTokens = entries.reduce(
+      (sum, entry) => sum + estimateTokens(entry.text) + entry.overhead,
+      baseTokens
+    )
     
     // 从当前 AI 配置获取上下文长度，默认 8000
     const maxTokens = activeAiProfile.value?.contextLength || 8000
@@ -118,7 +202,8 @@ export function useContextStats(
       messageCount,
       tokenEstimate: totalTokens,
       maxTokens,
-      percentage: Math.min(100, Math.round((totalTokens / maxTokens) * 100))
+      percentage: Math.min(100, Math.round((totalTokens / maxTokens) * 100)),
+      tokenizer: tokenizer.value
     }
   })
 
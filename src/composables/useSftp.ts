@@ -38,6 +38,7 @@ export interface SftpConnectionConfig {
   host: string
   port: number
   username: string
+  authType?: 'password' | 'privateKey' | 'agent'
   password?: string
   privateKeyPath?: string
   passphrase?: string
@@ -128,6 +129,7 @@ export function useSftp() {
         host: config.host,
         port: config.port,
         username: config.username,
+        authType: config.authType,
         password: config.password,
         privateKeyPath: config.privateKeyPath,
         passphrase: config.passphrase
@@ -69,9 +69,47 @@ export default {
     hostManager: 'Host Manager',
     aiAssistant: 'AI Assistant',
     settings: 'Settings',
+    recordings: 'Terminal Recordings',
     closeSidebar: 'Close Sidebar'
   },
 
+  // Terminal recordings
+  recording: {
+    title: 'Terminal Recordings',
+    close: 'Close',
+    loading: 'Loading...',
+    empty: 'No recordings yet. Start one from the terminal context menu',
+    selectHint: 'Select a recording on the left to play it back',
+    openFile: 'Open File',
+    openFolder: 'Open Folder',
+    delete: 'Delete',
+    confirmDelete: 'Delete recording "{name}"?',
+    play: 'Play',
+    pause: 'Pause',
+    speed: 'Playback speed',
+    unsupportedFormat: 'Unsupported recording format, only asciicast v2 is supported'
+  },
+
+  // Workspaces
+  workspace: {
+    title: 'Workspaces',
+    namePlaceholder: 'Workspace name',
+    save: 'Save Current',
+    empty: 'No workspaces yet. Save the current tab layout to restore it in one click later',
+    tabCount: '{count} tabs',
+    restore: 'Restore',
+    overwrite: 'Overwrite',
+    overwriteHint: 'Overwrite this workspace with the current tab layout',
+    delete: 'Delete',
+    startup: 'Restore on startup',
+    startupHint: 'Click ☆ to restore a workspace automatically on startup',
+    saved: 'Workspace "{name}" saved',
+    skippedOnSave: 'Saved. {count} SSH tabs without a saved session cannot be restored and were skipped',
+    skippedOnRestore: '{count} tabs could not be restored because their sessions were deleted',
+    confirmOverwrite: 'Overwrite workspace "{name}" with the current layout?',
+    confirmDelete: 'Delete workspace "{name}"?'
+  },
+
   // Settings
   settings: {
     title: 'Settings',
@@ -82,7 +120,10 @@ export default {
       knowledge: 'Knowledge Base',
       theme: 'Theme',
       terminal: 'Terminal',
+      risk: 'Command Policy',
+      schedule: 'Automation',
       data: 'Data',
+      usage: 'Usage',
       language: 'Language',
       about: 'About'
     },
@@ -139,6 +180,40 @@ export default {
     proxyPlaceholder: 'http://proxy:port (optional)',
     contextLength: 'Context Length',
     contextLengthHint: 'tokens',
+    provider: 'API Protocol',
+    providerOpenai: 'OpenAI Compatible',
+    providerAnthropic: 'Anthropic Messages API',
+    providerLocal: 'Local Model Server (Ollama / llama.cpp)',
+    discoverModels: 'Fetch Models',
+    discoveringModels: 'Fetching...',
+    noLocalModels: 'No models available on the server',
+    toolsSupported: 'This model supports native tool calling',
+    toolsNotSupported: 'This model does not support native tool calling; in auto mode the Agent will use the prompt-based tool protocol',
+    toolCallMode: 'Agent Tool Calling',
+    toolCallModeAuto: 'Auto (based on model capability)',
+    toolCallModeNative: 'Native tool calling (function calling)',
+    toolCallModePrompt: 'Prompt-based tool protocol',
+    toolCallModeHint: 'Choose the prompt-based protocol for models without function calling; the Agent will describe and parse tool calls as text',
+    tokenizer: 'Tokenizer',
+    tokenizerAuto: 'Auto (by model)',
+    tokenizerHeuristic: 'Character estimate',
+    tokenizerUser: 'user',
+    tokenizerHint: 'Used for context budgeting and stats. Place .tiktoken files in {dir}',
+    routing: 'Failover & Load Balancing',
+    routingDesc: 'When a profile is rate-limited (429), returns a server error (5xx) or times out, retry and switch to other profiles automatically.',
+    routingMode: 'Routing',
+    routingModeSingle: 'Current profile only',
+    routingModeFailover: 'Ordered failover',
+    routingModeWeighted: 'Weighted load balancing',
+    routingMaxRetries: 'Retries per profile',
+    routingFailoverHint: 'The current profile is tried first, then the profiles below in order',
+    routingWeightedHint: 'A profile is picked at random by weight; on failure the rest are tried from highest weight down',
+    routingWeight: 'Weight',
+    routingAddProfile: 'Add profile...',
+    moveUp: 'Move up',
+    moveDown: 'Move down',
+    thinkingBudget: 'Extended Thinking Budget',
+    thinkingBudgetHint: 'tokens, leave empty to disable; at least 1024',
     saveProfile: 'Save Profile',
     deleteProfile: 'Delete Profile',
     setActive: 'Set as Active',
@@ -175,7 +250,8 @@ export default {
       openai: 'OpenAI official API, supports GPT-3.5, GPT-4, etc.',
       qwen: 'Alibaba Qwen, fast access in China',
       deepseek: 'DeepSeek LLM, cost-effective',
-      ollama: 'Local Ollama deployment, data stays local'
+      ollama: 'Local Ollama deployment, data stays local',
+      anthropic: 'Anthropic Claude, native tool use and extended thinking'
     }
   },
 
@@ -445,7 +521,178 @@ export default {
     user: 'User',
     ai: 'AI',
     executionSteps: 'Execution Steps',
-    finalResult: 'Final Result'
+    finalResult: 'Final Result',
+    // File changes
+    fileChanges: 'Changed Files',
+    fileModified: 'Modified',
+    fileCreated: 'Created',
+    fileSkipped: 'File too large, no snapshot saved',
+    revertRunChanges: 'Revert All Changes from This Run',
+    reverting: 'Reverting...',
+    revertConfirm: 'Restore {count} file(s) to their content before this run? Created files will be deleted, and any later edits to these files will be lost.',
+    revertedAt: 'Reverted at {time}',
+    revertSuccess: 'Reverted changes to {count} file(s)',
+    revertPartialFailed: 'Failed to revert {failed} file(s)',
+    revertFailed: 'Revert failed'
+  },
+
+  // Usage Settings
+  usageSettings: {
+    title: 'Usage',
+    last7Days: 'Last 7 days',
+    last30Days: 'Last 30 days',
+    last90Days: 'Last 90 days',
+    requests: 'Requests',
+    inputTokens: 'Input tokens',
+    outputTokens: 'Output tokens',
+    cost: 'Cost',
+    byDay: 'By day',
+    byProfile: 'By AI profile',
+    byHost: 'By host',
+    byModel: 'By model',
+    unknownHost: 'No host',
+    local: 'Local',
+    noUsage: 'No usage recorded in the selected period',
+    loading: 'Loading...',
+    loadFailed: 'Failed to load usage statistics',
+    usageHint: 'Usage is taken from the token counts returned by the AI API; requests without reported usage are not counted',
+    pricing: 'Model prices',
+    pricingHint: 'Prices are per million tokens. A model name ending with * matches by prefix (e.g. gpt-4o*). Past costs are recalculated with the new prices',
+    currency: 'Currency symbol',
+    model: 'Model',
+    inputPrice: 'Input price',
+    outputPrice: 'Output price',
+    addPrice: 'Add price',
+    savePricing: 'Save prices',
+    pricingSaved: 'Prices saved',
+    unpricedModels: 'These models have no price configured and are counted at 0:'
+  },
+
+  // Command Policy
+  riskPolicySettings: {
+    title: 'Command Policy',
+    description: 'Before the Agent runs a command, it is checked against these rules: allowed commands run directly, commands requiring confirmation wait for you, and denied commands are never run',
+    rules: 'Policy rules',
+    noRules: 'No rules yet. All commands use the built-in risk assessment',
+    enabled: 'Enabled',
+    namePlaceholder: 'Rule name (optional)',
+    patternPlaceholder: 'Command regex, e.g. kubectl\\s+delete\\b.*-n\\s+prod',
+    invalidPattern: 'Invalid regular expression',
+    invalidRules: 'Some rules have an empty or invalid regular expression. Fix them before saving',
+    actions: {
+      allow: 'Allow',
+      confirm: 'Confirm',
+      deny: 'Deny'
+    },
+    scopes: {
+      all: 'All hosts',
+      host: 'Host',
+      group: 'Session group',
+      hostname: 'Hostname pattern'
+    },
+    useBuiltinRules: 'Use the built-in dangerous and moderate rules when no rule matches',
+    rulesHint: 'Rules are matched from top to bottom and the first match wins. Regexes are case-insensitive. Hostname patterns support * and ? wildcards. Built-in block rules (such as formatting disks) always apply; allow rules do not apply to compound commands containing ; && pipes or command substitution. In strict mode every command still requires confirmation',
+    addRule: 'Add rule',
+    save: 'Save policy',
+    saved: 'Policy saved',
+    import: 'Import',
+    export: 'Export',
+    importSuccess: 'Imported {count} rules. Save to apply them',
+    importFailed: 'Import failed: {error}',
+    exportSuccess: 'Exported to {path}',
+    exportFailed: 'Export failed: {error}',
+    test: 'Test a command',
+    testCommandPlaceholder: 'Enter a command to test',
+    testHostId: 'Host ID (e.g. root@10.0.0.1)',
+    testHostname: 'Hostname',
+    testGroup: 'Session group',
+    runTest: 'Test',
+    levels: {
+      safe: 'Runs directly',
+      moderate: 'Moderate risk',
+      dangerous: 'Needs confirmation',
+      blocked: 'Blocked'
+    },
+    matchedRule: 'Matched rule {index}: {name}',
+    matchedBuiltin: 'No rule matched, using the built-in risk assessment',
+    matchedNone: 'No rule matched and the built-in assessment is off',
+    interactiveBlocked: 'This is a full-screen interactive program and the Agent will not run it: {reason}'
+  },
+  scheduledTaskSettings: {
+    title: 'Scheduled Tasks',
+    description: 'Connect to the selected sessions on a cron schedule and run an agent task unattended. Operations that need confirmation are rejected, and a desktop notification is shown on failure.',
+    noTasks: 'No scheduled tasks',
+    addTask: 'New Task',
+    newTask: 'New Scheduled Task',
+    editTask: 'Edit Scheduled Task',
+    name: 'Name',
+    namePlaceholder: 'e.g. Daily disk check',
+    cron: 'Cron Expression',
+    cronHint: 'Format: minute hour day month weekday, e.g. 0 8 * * * runs every day at 8:00',
+    presets: 'Presets...',
+    cronPresets: {
+      daily8: 'Every day at 8:00',
+      hourly: 'Every hour',
+      weekdays9: 'Weekdays at 9:00',
+      weekly: 'Sundays at 3:00'
+    },
+    nextRuns: 'Next runs',
+    sessions: 'Target Sessions',
+    sessionsHint: 'The selected sessions are connected for each run and disconnected afterwards',
+    noSessions: 'No saved SSH sessions. Add one in the sidebar first',
+    missingSession: '(session deleted)',
+    task: 'Task',
+    taskPlaceholder: 'Describe what the agent should do...',
+    aiProfile: 'AI Profile',
+    defaultProfile: 'Use active profile',
+    maxSteps: 'Max Steps',
+    commandTimeout: 'Command Timeout (s)',
+    autoExecuteModerate: 'Auto-execute moderate-risk commands',
+    unattendedHint: 'Safe commands always run automatically. Moderate-risk commands are rejected unless checked; dangerous commands are always rejected',
+    notifyOnSuccess: 'Also notify on success',
+    save: 'Save',
+    saving: 'Saving...',
+    cancel: 'Cancel',
+    saved: 'Saved',
+    saveFailed: 'Failed to save',
+    enabled: 'Enabled',
+    runNow: 'Run Now',
+    edit: 'Edit',
+    delete: 'Delete',
+    confirmDelete: 'Delete scheduled task "{name}"?',
+    started: 'Started "{name}"',
+    runFailed: 'Failed to start',
+    nextRun: 'Next run',
+    lastRun: 'Last run',
+    status: {
+      running: 'Running',
+      completed: 'Succeeded',
+      failed: 'Failed'
+    },
+    historyHint: 'Run records are saved to the agent history'
+  },
+  headlessAgentSettings: {
+    title: 'Local Agent Access',
+    description: 'When enabled, CI scripts or ChatOps bots on this machine can run unattended agent tasks on saved sessions through a local socket, without using the UI. Only requests carrying the access token are accepted.',
+    enable: 'Enable local access',
+    listening: 'Listening',
+    notListening: 'Not listening',
+    socketPath: 'Socket Path',
+    token: 'Access Token',
+    tokenHint: 'The token grants the right to run commands on your sessions. Keep it secret',
+    show: 'Show',
+    hide: 'Hide',
+    copy: 'Copy',
+    copied: 'Copied',
+    regenerate: 'Regenerate',
+    confirmRegenerate: 'The old token stops working immediately. Continue?',
+    tokenRegenerated: 'New token generated',
+    example: 'Example',
+    exampleTask: 'Check disk usage',
+    riskSafe: 'Risk ceiling: safe commands only',
+    riskModerate: 'Risk ceiling: allow moderate commands',
+    protocolHint: 'Send one line of JSON (token, task, sessionId, riskCeiling, and optionally profileId, maxSteps, commandTimeout). The server streams step events line by line and ends with a result event containing status, result and exitCode. Dangerous commands are never run unattended.',
+    exitCodeHint: 'Exit codes: 0 success, 1 run failed or aborted, 2 request rejected (invalid token or parameters). Runs are saved to the agent history.'
   },
 
   // Language Settings
@@ -499,6 +746,13 @@ export default {
     closeError: 'Close Error',
     selectedContent: 'Terminal Content Selected',
     aiAnalyze: 'AI Analyze',
+    interruptedTask: 'Unfinished Agent task ({steps} rounds done)',
+    resumeTask: 'Resume',
+    discardTask: 'Discard',
+    attachTerminals: 'Multi-terminal',
+    attachedTerminals: '{count} terminals',
+    attachTerminalsTitle: 'Attach other open terminals so the Agent can operate on several hosts in one task',
+    allHosts: 'All hosts',
     thinking: 'Let me thinking...',
     agentStarting: 'Agent starting...',
     agentRunning: 'Agent Running',
@@ -511,6 +765,23 @@ export default {
     mediumRisk: 'Medium Risk',
     reject: 'Reject',
     allowExecute: 'Allow Execute',
+    diffPreview: 'Changes Preview',
+    diffNoChanges: 'File content is unchanged',
+    plan: {
+      title: 'Execution Plan',
+      parallel: 'Parallel',
+      branchSummary: '{total} branches · {running} running · {done} done',
+      failedCount: '{count} failed',
+      approvalHint: 'Plan awaiting approval: edit or skip steps first, execution starts once approved',
+      approve: 'Approve',
+      reject: 'Reject',
+      rejected: 'Not approved',
+      edit: 'Edit step',
+      skip: 'Skip step',
+      retry: 'Retry step',
+      descriptionPlaceholder: 'Step description',
+      commandPlaceholder: 'Command (optional)'
+    },
     supplementInfo: 'Supplement Info',
     pendingProcess: 'Pending',
     welcome: {
@@ -630,6 +901,20 @@ export default {
       authType: 'Authentication',
       authPassword: 'Password',
       authKey: 'Private Key',
+      authAgent: 'SSH Agent',
+      agentHint: 'Authenticate with keys from the local ssh-agent (SSH_AUTH_SOCK, or OpenSSH Agent on Windows)',
+      reconnect: 'Auto Reconnect',
+      reconnectInherit: 'Inherit from group',
+      reconnectEnable: 'On',
+      reconnectDisable: 'Off',
+      reconnectEnableGroup: 'Auto-reconnect sessions in this group',
+      reconnectMaxAttempts: 'Max attempts (0 = unlimited)',
+      reconnectHint: 'After an unexpected disconnect, retries after 2, 4, 8… seconds (up to 60s) and restores the last working directory',
+      totpSecret: 'TOTP Secret (optional)',
+      totpSecretPlaceholder: 'Base32 seed or otpauth:// URI',
+      totpSecretHint: 'Fills in the verification code when the server asks for one. Leave empty to enter it manually at login',
+      agentForward: 'Forward SSH Agent (-A)',
+      agentForwardHint: 'Lets the remote host use your local agent keys to reach other servers. Only enable for trusted hosts',
       password: 'Password',
       passwordPlaceholder: 'Enter password',
       privateKey: 'Private Key Path',
@@ -647,10 +932,14 @@ export default {
       jumpHost: 'Jump Host',
       jumpHostHost: 'Jump Host',
       jumpHostEnable: 'Enable Jump Host',
-      jumpHostHint: 'All hosts in this group will connect via this jump host',
+      jumpHostHint: 'All hosts in this group connect through these jump hosts in order (like ProxyJump a,b,c)',
       jumpHostInherit: 'Inherit from Group',
       jumpHostCustom: 'Custom',
       jumpHostDisable: 'Disable Jump Host',
+      jumpHopTitle: 'Hop {index}',
+      jumpHopMoveUp: 'Move up',
+      jumpHopMoveDown: 'Move down',
+      addJumpHop: 'Add Jump Host',
       encoding: 'Character Encoding',
       encodingHint: 'Character encoding used by remote server, default UTF-8',
       encodings: {
@@ -667,7 +956,45 @@ export default {
         'windows-1252': 'Windows-1252 (Western)',
         'koi8-r': 'KOI8-R (Russian)',
         'windows-1251': 'Windows-1251 (Russian)'
-      }
+      },
+      portForwards: 'Port Forwarding',
+      portForwardsHint: 'Started with the connection and stopped when it closes',
+      addPortForward: 'Add',
+      portForwardTypes: {
+        local: 'Local (-L)',
+        remote: 'Remote (-R)',
+        dynamic: 'Dynamic SOCKS5 (-D)'
+      },
+      portForwardEnabled: 'Enabled',
+      bindHost: 'Bind address',
+      bindPort: 'Bind port',
+      targetHost: 'Target host',
+      targetPort: 'Target port',
+      portForwardDescription: 'Description (optional)',
+      portForwardInvalid: 'Incomplete port forward: enter a valid bind port, and a target host and port for local/remote forwards'
+    },
+    portForward: {
+      starting: 'Starting',
+      error: 'Failed',
+      connections: '{count} connection(s)'
+    },
+    hostKey: {
+      title: 'Verify Host Key',
+      unknownHint: 'The authenticity of host {host} can\'t be established. Please verify the fingerprint below before trusting it.',
+      unknownJumpHostHint: 'The authenticity of jump host {host} can\'t be established. Please verify the fingerprint below before trusting it.',
+      keyType: 'Key Type',
+      fingerprint: 'Fingerprint',
+      verifyTip: 'Once trusted, the key is saved to known_hosts and checked on every connection. Connections are blocked if the key changes.',
+      trust: 'Trust and Connect',
+      reject: 'Reject'
+    },
+    keyboardInteractive: {
+      title: 'Login Verification',
+      hint: '{host} requires the following to complete login',
+      jumpHostHint: 'Jump host {host} requires the following to complete login',
+      autoFilled: 'Filled in automatically',
+      submit: 'Log In',
+      cancel: 'Cancel'
     }
   },
 
@@ -680,6 +1007,13 @@ export default {
     localTerminal: 'Local Terminal',
     sshTerminal: 'SSH Terminal',
     connecting: 'Connecting...',
+    reconnectIn: 'Disconnected, reconnecting in {seconds}s (attempt {attempt}/{max})',
+    reconnecting: 'Reconnecting (attempt {attempt}/{max})',
+    recording: 'Recording',
+    broadcastOff: 'Broadcast input: keystrokes typed in one terminal are sent to all terminals',
+    broadcastOn: 'Broadcast input is on ({count} terminals), click to turn off',
+    broadcastExclude: 'Receiving broadcast, click to exclude this terminal',
+    broadcastInclude: 'Excluded from broadcast, click to include',
     scrollLeft: 'Scroll Left',
     scrollRight: 'Scroll Right',
     selectShell: 'Select Shell'
@@ -870,5 +1204,66 @@ export default {
     selectDocToView: 'Select a document to view details',
     delete: 'Delete',
     chunk: 'chunks'
+  },
+  playbook: {
+    button: 'Playbook',
+    openTitle: 'Start the Agent from a predefined task template',
+    title: 'Playbooks',
+    close: 'Close',
+    loading: 'Loading...',
+    empty: 'No playbooks yet',
+    selectHint: 'Select a playbook to run, or create a new one',
+    new: 'New',
+    import: 'Import',
+    exportAll: 'Export all',
+    exportSelected: 'Export',
+    imported: 'Imported {count} playbook(s)',
+    importFailed: 'Import failed',
+    exported: 'Exported',
+    exportFailed: 'Export failed',
+    name: 'Name',
+    namePlaceholder: 'e.g. Restart service and check status',
+    description: 'Description',
+    parameters: 'Parameters',
+    paramName: 'Name',
+    paramLabel: 'Label',
+    paramDefault: 'Default',
+    paramOptions: 'Options (comma separated)',
+    required: 'Required',
+    insertPlaceholder: 'Insert this parameter into the task',
+    addParameter: 'Add parameter',
+    task: 'Task',
+    taskPlaceholder: 'Describe the task; use the button next to a parameter to reference it',
+    steps: 'Predefined steps',
+    stepsHint: 'The Agent follows these steps in order instead of planning on its own; leave empty to let the Agent plan',
+    stepDescription: 'Step',
+    stepPurpose: 'Purpose (optional)',
+    stepAlternative: 'Fallback if it fails (optional)',
+    checkpoint: 'Checkpoint',
+    addStep: 'Add step',
+    successChecks: 'Success checks',
+    checkDescription: 'Check',
+    checkCommand: 'Verification command (optional)',
+    checkExpect: 'Expected output regex (optional)',
+    addSuccessCheck: 'Add check',
+    riskCeiling: 'Risk ceiling',
+    riskCeilingNone: 'No limit',
+    riskCeilingHint: 'Commands above this risk level are rejected during the run',
+    riskLevels: {
+      safe: 'Safe commands only',
+      moderate: 'Allow moderate risk',
+      dangerous: 'Allow high risk'
+    },
+    save: 'Save',
+    saving: 'Saving...',
+    saved: 'Saved',
+    saveFailed: 'Save failed',
+    cancel: 'Cancel',
+    edit: 'Edit',
+    delete: 'Delete',
+    confirmDelete: 'Delete playbook "{name}"?',
+    run: 'Run on current terminal',
+    runFailed: 'Failed to start',
+    cannotRun: 'A task is already running on this terminal'
   }
 }
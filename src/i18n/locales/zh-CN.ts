@@ -69,9 +69,47 @@ export default {
     hostManager: '主机管理',
     aiAssistant: 'AI 助手',
     settings: '设置',
+    recordings: '终端录像',
     closeSidebar: '关闭侧边栏'
   },
 
+  // 终端录像
+  recording: {
+    title: '终端录像',
+    close: '关闭',
+    loading: '加载中...',
+    empty: '暂无录像，可在终端右键菜单中开始录制',
+    selectHint: '从左侧选择录像开始回放',
+    openFile: '打开文件',
+    openFolder: '打开目录',
+    delete: '删除',
+    confirmDelete: '确定要删除录像 "{name}" 吗？',
+    play: '播放',
+    pause: '暂停',
+    speed: '播放速度',
+    unsupportedFormat: '不支持的录像格式，仅支持 asciicast v2'
+  },
+
+  // 工作区
+  workspace: {
+    title: '工作区',
+    namePlaceholder: '工作区名称',
+    save: '保存当前',
+    empty: '暂无工作区，保存当前的标签页布局以便下次一键恢复',
+    tabCount: '{count} 个标签页',
+    restore: '恢复',
+    overwrite: '覆盖',
+    overwriteHint: '用当前的标签页布局覆盖此工作区',
+    delete: '删除',
+    startup: '启动时自动恢复',
+    startupHint: '点击 ☆ 设为启动时自动恢复的工作区',
+    saved: '已保存工作区 "{name}"',
+    skippedOnSave: '已保存，{count} 个未关联已保存会话的 SSH 标签页无法恢复，已忽略',
+    skippedOnRestore: '{count} 个标签页对应的会话已被删除，未能恢复',
+    confirmOverwrite: '确定用当前布局覆盖工作区 "{name}" 吗？',
+    confirmDelete: '确定要删除工作区 "{name}" 吗？'
+  },
+
   // 设置
   settings: {
     title: '设置',
@@ -82,7 +120,10 @@ export default {
       knowledge: '知识库',
       theme: '主题配色',
       terminal: '终端设置',
+      risk: '命令策略',
+      schedule: '自动化',
       data: '数据管理',
+      usage: '用量统计',
       language: '语言',
       about: '关于'
     },
@@ -139,6 +180,40 @@ export default {
     proxyPlaceholder: 'http://proxy:port（可选）',
     contextLength: '上下文长度',
     contextLengthHint: 'tokens',
+    provider: '接口协议',
+    providerOpenai: 'OpenAI 兼容',
+    providerAnthropic: 'Anthropic Messages API',
+    providerLocal: '本地模型服务（Ollama / llama.cpp）',
+    discoverModels: '获取模型',
+    discoveringModels: '获取中...',
+    noLocalModels: '服务上没有可用模型',
+    toolsSupported: '该模型支持原生工具调用',
+    toolsNotSupported: '该模型不支持原生工具调用，自动模式下 Agent 将使用提示词工具协议',
+    toolCallMode: 'Agent 工具调用方式',
+    toolCallModeAuto: '自动（按模型能力判断）',
+    toolCallModeNative: '原生工具调用（function calling）',
+    toolCallModePrompt: '提示词工具协议',
+    toolCallModeHint: '模型不支持 function calling 时选择提示词工具协议，Agent 将通过文本描述和解析工具调用',
+    tokenizer: 'Token 计数词表',
+    tokenizerAuto: '自动（按模型选择）',
+    tokenizerHeuristic: '按字符估算',
+    tokenizerUser: '用户',
+    tokenizerHint: '用于上下文预算和统计，可将 .tiktoken 词表放入 {dir}',
+    routing: '故障转移与负载均衡',
+    routingDesc: '当前配置被限流（429）、服务端出错（5xx）或超时时，自动重试并切换到其他配置。',
+    routingMode: '路由方式',
+    routingModeSingle: '仅使用当前配置',
+    routingModeFailover: '按顺序故障转移',
+    routingModeWeighted: '按权重负载均衡',
+    routingMaxRetries: '单个配置重试次数',
+    routingFailoverHint: '优先使用当前配置，失败后按以下顺序依次尝试',
+    routingWeightedHint: '按权重随机选择配置，失败后按权重从高到低尝试其余配置',
+    routingWeight: '权重',
+    routingAddProfile: '添加配置...',
+    moveUp: '上移',
+    moveDown: '下移',
+    thinkingBudget: '扩展思考预算',
+    thinkingBudgetHint: 'tokens，留空则不开启；至少 1024',
     saveProfile: '保存配置',
     deleteProfile: '删除配置',
     setActive: '设为当前',
@@ -175,7 +250,8 @@ export default {
       openai: 'OpenAI 官方 API，支持 GPT-3.5、GPT-4 等模型',
       qwen: '阿里云通义千问，国内访问速度快',
       deepseek: 'DeepSeek 大模型，性价比高',
-      ollama: '本地部署的 Ollama，数据不出本地'
+      ollama: '本地部署的 Ollama，数据不出本地',
+      anthropic: 'Anthropic Claude，原生支持工具调用与扩展思考'
     }
   },
 
@@ -445,7 +521,178 @@ export default {
     user: '用户',
     ai: 'AI',
     executionSteps: '执行步骤',
-    finalResult: '最终结果'
+    finalResult: '最终结果',
+    // 文件修改
+    fileChanges: '修改的文件',
+    fileModified: '修改',
+    fileCreated: '新建',
+    fileSkipped: '文件过大，未保存快照',
+    revertRunChanges: '撤销本次运行的所有修改',
+    reverting: '正在撤销...',
+    revertConfirm: '确定将 {count} 个文件恢复到本次运行修改前的内容吗？新建的文件会被删除，之后对这些文件的其他修改也会丢失。',
+    revertedAt: '已于 {time} 撤销',
+    revertSuccess: '已撤销 {count} 个文件的修改',
+    revertPartialFailed: '{failed} 个文件撤销失败',
+    revertFailed: '撤销失败'
+  },
+
+  // 用量统计
+  usageSettings: {
+    title: '用量统计',
+    last7Days: '最近 7 天',
+    last30Days: '最近 30 天',
+    last90Days: '最近 90 天',
+    requests: '请求次数',
+    inputTokens: '输入 tokens',
+    outputTokens: '输出 tokens',
+    cost: '费用',
+    byDay: '按天',
+    byProfile: '按 AI 配置',
+    byHost: '按主机',
+    byModel: '按模型',
+    unknownHost: '未关联主机',
+    local: '本地',
+    noUsage: '所选时间段内没有用量记录',
+    loading: '加载中...',
+    loadFailed: '加载用量统计失败',
+    usageHint: '用量取自 AI 接口返回的实际 token 数；接口未返回用量时不计入',
+    pricing: '模型单价',
+    pricingHint: '单价按每百万 tokens 计算，模型名以 * 结尾时按前缀匹配（如 gpt-4o*）。修改单价后历史费用会按新单价重新计算',
+    currency: '货币符号',
+    model: '模型',
+    inputPrice: '输入单价',
+    outputPrice: '输出单价',
+    addPrice: '添加单价',
+    savePricing: '保存单价',
+    pricingSaved: '单价已保存',
+    unpricedModels: '以下模型尚未配置单价，费用按 0 计算：'
+  },
+
+  // 命令策略
+  riskPolicySettings: {
+    title: '命令策略',
+    description: 'Agent 执行命令前按以下规则判断：允许的命令直接执行，需确认的命令等待你确认，禁止的命令不会执行',
+    rules: '策略规则',
+    noRules: '暂无规则，所有命令使用内置风险评估',
+    enabled: '启用',
+    namePlaceholder: '规则名称（可选）',
+    patternPlaceholder: '命令正则，如 kubectl\\s+delete\\b.*-n\\s+prod',
+    invalidPattern: '正则表达式无效',
+    invalidRules: '存在为空或无效的正则表达式，请修正后再保存',
+    actions: {
+      allow: '允许',
+      confirm: '需确认',
+      deny: '禁止'
+    },
+    scopes: {
+      all: '所有主机',
+      host: '指定主机',
+      group: '会话分组',
+      hostname: '主机名匹配'
+    },
+    useBuiltinRules: '没有规则命中时使用内置的高危和中危规则',
+    rulesHint: '规则从上到下依次匹配，第一条命中的规则生效；正则不区分大小写。主机名匹配支持 * 和 ? 通配符。内置的禁止规则（如格式化磁盘）始终生效；允许规则不作用于包含 ; && 管道或命令替换的复合命令。严格模式下所有命令仍需确认',
+    addRule: '添加规则',
+    save: '保存策略',
+    saved: '策略已保存',
+    import: '导入',
+    export: '导出',
+    importSuccess: '已导入 {count} 条规则，保存后生效',
+    importFailed: '导入失败: {error}',
+    exportSuccess: '已导出到 {path}',
+    exportFailed: '导出失败: {error}',
+    test: '测试命令',
+    testCommandPlaceholder: '输入要测试的命令',
+    testHostId: '主机标识（如 root@10.0.0.1）',
+    testHostname: '主机名',
+    testGroup: '会话分组',
+    runTest: '测试',
+    levels: {
+      safe: '直接执行',
+      moderate: '中等风险',
+      dangerous: '需要确认',
+      blocked: '禁止执行'
+    },
+    matchedRule: '命中第 {index} 条规则：{name}',
+    matchedBuiltin: '未命中规则，按内置风险评估',
+    matchedNone: '未命中规则，内置评估已关闭',
+    interactiveBlocked: '该命令是全屏交互程序，Agent 不会执行：{reason}'
+  },
+  scheduledTaskSettings: {
+    title: '定时任务',
+    description: '按 cron 表达式定时连接指定会话并以无人值守方式运行 Agent 任务。需要确认的操作会被直接拒绝，失败时发送桌面通知。',
+    noTasks: '暂无定时任务',
+    addTask: '新建任务',
+    newTask: '新建定时任务',
+    editTask: '编辑定时任务',
+    name: '任务名称',
+    namePlaceholder: '例如：每日磁盘巡检',
+    cron: 'Cron 表达式',
+    cronHint: '格式：分 时 日 月 周，例如 0 8 * * * 表示每天 8:00',
+    presets: '常用...',
+    cronPresets: {
+      daily8: '每天 8:00',
+      hourly: '每小时',
+      weekdays9: '工作日 9:00',
+      weekly: '每周日 3:00'
+    },
+    nextRuns: '接下来运行',
+    sessions: '目标会话',
+    sessionsHint: '每次运行时自动连接所选会话，运行结束后断开',
+    noSessions: '没有已保存的 SSH 会话，请先在侧边栏添加',
+    missingSession: '(会话已删除)',
+    task: '任务内容',
+    taskPlaceholder: '描述要让 Agent 完成的任务...',
+    aiProfile: 'AI 配置',
+    defaultProfile: '使用当前配置',
+    maxSteps: '最大步数',
+    commandTimeout: '命令超时（秒）',
+    autoExecuteModerate: '自动执行中风险命令',
+    unattendedHint: '安全命令总是自动执行；未勾选时中风险命令会被拒绝，高风险命令始终被拒绝',
+    notifyOnSuccess: '成功时也发送通知',
+    save: '保存',
+    saving: '保存中...',
+    cancel: '取消',
+    saved: '已保存',
+    saveFailed: '保存失败',
+    enabled: '启用',
+    runNow: '立即运行',
+    edit: '编辑',
+    delete: '删除',
+    confirmDelete: '确定删除定时任务「{name}」吗？',
+    started: '已开始运行「{name}」',
+    runFailed: '启动失败',
+    nextRun: '下次运行',
+    lastRun: '上次运行',
+    status: {
+      running: '运行中',
+      completed: '成功',
+      failed: '失败'
+    },
+    historyHint: '运行记录会保存到 Agent 历史中'
+  },
+  headlessAgentSettings: {
+    title: '本地 Agent 接入',
+    description: '启用后，本机的 CI 脚本或 ChatOps 机器人可以通过本地套接字，以无人值守方式在已保存的会话上运行 Agent 任务，无需操作界面。只有持有访问令牌的请求会被接受。',
+    enable: '启用本地接入',
+    listening: '正在监听',
+    notListening: '未在监听',
+    socketPath: '套接字路径',
+    token: '访问令牌',
+    tokenHint: '令牌相当于在你的会话上执行命令的权限，请妥善保管',
+    show: '显示',
+    hide: '隐藏',
+    copy: '复制',
+    copied: '已复制',
+    regenerate: '重新生成',
+    confirmRegenerate: '重新生成后旧令牌立即失效，确定继续吗？',
+    tokenRegenerated: '已生成新令牌',
+    example: '调用示例',
+    exampleTask: '检查磁盘使用情况',
+    riskSafe: '风险上限：仅安全命令',
+    riskModerate: '风险上限：允许中风险命令',
+    protocolHint: '发送一行 JSON 请求（token、task、sessionId、riskCeiling，可选 profileId、maxSteps、commandTimeout），服务端逐行返回 step 事件，最后返回包含 status、result 和 exitCode 的 result 事件。高风险命令不会在无人值守运行中执行。',
+    exitCodeHint: '退出码：0 成功，1 运行失败或中止，2 请求被拒绝（令牌或参数无效）。运行记录会保存到 Agent 历史中。'
   },
 
   // 语言设置
@@ -499,6 +746,13 @@ export default {
     closeError: '关闭错误提示',
     selectedContent: '已选中终端内容',
     aiAnalyze: 'AI 分析',
+    interruptedTask: '上次未完成的 Agent 任务（已执行 {steps} 轮）',
+    resumeTask: '恢复',
+    discardTask: '放弃',
+    attachTerminals: '多终端',
+    attachedTerminals: '{count} 个终端',
+    attachTerminalsTitle: '附加其他已打开的终端，让 Agent 在一个任务中操作多台主机',
+    allHosts: '全部主机',
     thinking: '让我想想...',
     agentStarting: 'Agent 启动中...',
     agentRunning: 'Agent 执行中',
@@ -511,6 +765,23 @@ export default {
     mediumRisk: '中风险',
     reject: '拒绝',
     allowExecute: '允许执行',
+    diffPreview: '修改预览',
+    diffNoChanges: '文件内容没有变化',
+    plan: {
+      title: '执行计划',
+      parallel: '并行执行',
+      branchSummary: '{total} 个分支 · {running} 运行中 · {done} 已完成',
+      failedCount: '{count} 个失败',
+      approvalHint: '计划等待批准：可以先修改或跳过步骤，批准后开始执行',
+      approve: '批准执行',
+      reject: '拒绝',
+      rejected: '未批准',
+      edit: '修改步骤',
+      skip: '跳过步骤',
+      retry: '重试步骤',
+      descriptionPlaceholder: '步骤描述',
+      commandPlaceholder: '命令（可选）'
+    },
     supplementInfo: '补充信息',
     pendingProcess: '等待处理',
     welcome: {
@@ -630,6 +901,20 @@ export default {
       authType: '认证方式',
       authPassword: '密码',
       authKey: '密钥',
+      authAgent: 'SSH Agent',
+      agentHint: '使用本地 ssh-agent 中的密钥认证（读取 SSH_AUTH_SOCK，Windows 下使用 OpenSSH Agent）',
+      reconnect: '断线自动重连',
+      reconnectInherit: '继承分组设置',
+      reconnectEnable: '开启',
+      reconnectDisable: '关闭',
+      reconnectEnableGroup: '组内会话断线自动重连',
+      reconnectMaxAttempts: '最多重试次数（0 为不限）',
+      reconnectHint: '连接意外断开后按 2、4、8… 秒（最长 60 秒）的间隔重试，并恢复断开前的工作目录',
+      totpSecret: 'TOTP 密钥（可选）',
+      totpSecretPlaceholder: 'Base32 种子或 otpauth:// 链接',
+      totpSecretHint: '服务器要求输入动态验证码时自动填写，留空则在登录时手动输入',
+      agentForward: '转发 SSH Agent（-A）',
+      agentForwardHint: '允许远程主机使用本地 agent 中的密钥继续登录其他服务器，仅对可信主机开启',
       password: '密码',
       passwordPlaceholder: '输入密码',
       privateKey: '私钥路径',
@@ -647,10 +932,14 @@ export default {
       jumpHost: '跳板机',
       jumpHostHost: '跳板机主机',
       jumpHostEnable: '启用跳板机',
-      jumpHostHint: '组内所有主机将通过此跳板机连接',
+      jumpHostHint: '组内所有主机将按顺序依次经过以下跳板机连接（等同 ProxyJump a,b,c）',
       jumpHostInherit: '继承分组配置',
       jumpHostCustom: '自定义配置',
       jumpHostDisable: '禁用跳板机',
+      jumpHopTitle: '第 {index} 跳',
+      jumpHopMoveUp: '上移',
+      jumpHopMoveDown: '下移',
+      addJumpHop: '添加跳板机',
       encoding: '字符编码',
       encodingHint: '远程服务器使用的字符编码，默认 UTF-8',
       encodings: {
@@ -667,7 +956,45 @@ export default {
         'windows-1252': 'Windows-1252（西欧）',
         'koi8-r': 'KOI8-R（俄语）',
         'windows-1251': 'Windows-1251（俄语）'
-      }
+      },
+      portForwards: '端口转发',
+      portForwardsHint: '随连接自动启动，断开时自动停止',
+      addPortForward: '添加',
+      portForwardTypes: {
+        local: '本地转发 (-L)',
+        remote: '远程转发 (-R)',
+        dynamic: '动态 SOCKS5 (-D)'
+      },
+      portForwardEnabled: '启用',
+      bindHost: '监听地址',
+      bindPort: '监听端口',
+      targetHost: '目标地址',
+      targetPort: '目标端口',
+      portForwardDescription: '备注（可选）',
+      portForwardInvalid: '端口转发配置不完整：请填写有效的监听端口，本地/远程转发还需填写目标地址和端口'
+    },
+    portForward: {
+      starting: '启动中',
+      error: '失败',
+      connections: '{count} 个连接'
+    },
+    hostKey: {
+      title: '确认主机公钥',
+      unknownHint: '首次连接主机 {host}，无法确认其真实性。请核对以下公钥指纹后再决定是否信任。',
+      unknownJumpHostHint: '首次连接跳板机 {host}，无法确认其真实性。请核对以下公钥指纹后再决定是否信任。',
+      keyType: '密钥类型',
+      fingerprint: '指纹',
+      verifyTip: '信任后公钥将记录到 known_hosts，之后连接时自动校验；若公钥发生变化将阻止连接。',
+      trust: '信任并连接',
+      reject: '拒绝'
+    },
+    keyboardInteractive: {
+      title: '登录验证',
+      hint: '{host} 要求输入以下信息以完成登录',
+      jumpHostHint: '跳板机 {host} 要求输入以下信息以完成登录',
+      autoFilled: '已自动填写',
+      submit: '登录',
+      cancel: '取消'
     }
   },
 
@@ -680,6 +1007,13 @@ export default {
     localTerminal: '本地终端',
     sshTerminal: 'SSH 终端',
     connecting: '连接中...',
+    reconnectIn: '连接已断开，{seconds} 秒后重连（第 {attempt}/{max} 次）',
+    reconnecting: '正在重连（第 {attempt}/{max} 次）',
+    recording: '录制中',
+    broadcastOff: '广播输入：在一个终端中键入，同步发送到所有终端',
+    broadcastOn: '广播输入已开启（{count} 个终端），点击关闭',
+    broadcastExclude: '参与广播中，点击排除此终端',
+    broadcastInclude: '已排除广播，点击加入',
     scrollLeft: '向左滚动',
     scrollRight: '向右滚动',
     selectShell: '选择 Shell'
@@ -870,5 +1204,66 @@ export default {
     selectDocToView: '选择一个文档查看详情',
     delete: '删除',
     chunk: '块'
+  },
+  playbook: {
+    button: 'Playbook',
+    openTitle: '使用预定义的任务模板启动 Agent',
+    title: 'Playbook',
+    close: '关闭',
+    loading: '加载中...',
+    empty: '还没有 Playbook',
+    selectHint: '选择一个 Playbook 运行，或新建一个',
+    new: '新建',
+    import: '导入',
+    exportAll: '导出全部',
+    exportSelected: '导出',
+    imported: '已导入 {count} 个 Playbook',
+    importFailed: '导入失败',
+    exported: '已导出',
+    exportFailed: '导出失败',
+    name: '名称',
+    namePlaceholder: '例如：重启服务并检查状态',
+    description: '说明',
+    parameters: '参数',
+    paramName: '参数名',
+    paramLabel: '显示名称',
+    paramDefault: '默认值',
+    paramOptions: '可选值（逗号分隔）',
+    required: '必填',
+    insertPlaceholder: '在任务描述中插入该参数',
+    addParameter: '添加参数',
+    task: '任务描述',
+    taskPlaceholder: '描述要完成的任务，点击参数后的按钮插入参数引用',
+    steps: '预定义步骤',
+    stepsHint: 'Agent 会按顺序执行这些步骤，不再自行规划；不填则由 Agent 规划',
+    stepDescription: '步骤',
+    stepPurpose: '目的（可选）',
+    stepAlternative: '失败时的备选方案（可选）',
+    checkpoint: '检查点',
+    addStep: '添加步骤',
+    successChecks: '成功检查',
+    checkDescription: '检查内容',
+    checkCommand: '验证命令（可选）',
+    checkExpect: '输出应匹配的正则（可选）',
+    addSuccessCheck: '添加检查',
+    riskCeiling: '风险上限',
+    riskCeilingNone: '不限制',
+    riskCeilingHint: '超过该风险等级的命令在运行中会被直接拒绝',
+    riskLevels: {
+      safe: '仅安全命令',
+      moderate: '允许中等风险',
+      dangerous: '允许高风险'
+    },
+    save: '保存',
+    saving: '保存中...',
+    saved: '已保存',
+    saveFailed: '保存失败',
+    cancel: '取消',
+    edit: '编辑',
+    delete: '删除',
+    confirmDelete: '确定删除 Playbook「{name}」吗？',
+    run: '在当前终端运行',
+    runFailed: '启动失败',
+    cannotRun: '当前终端有任务正在运行'
   }
 }
@@ -3,6 +3,12 @@ import { ref, computed } from 'vue'
 import { v4 as uuidv4 } from 'uuid'
 import { setLocale, type LocaleType } from '../i18n'
 
+// AI 接口协议
+export type AiProvider = 'openai' | 'anthropic' | 'local'
+
+// Agent 工具调用方式：自动判断、原生 function calling、提示词协议
+export type ToolCallMode = 'auto' | 'native' | 'prompt'
+
 export interface AiProfile {
   id: string
   name: string
@@ -11,6 +17,19 @@ export interface AiProfile {
   model: string
   proxy?: string
   contextLength?: number  // 模型上下文长度（tokens），默认 8000
+  provider?: AiProvider  // 接口协议，默认 OpenAI 兼容
+  thinkingBudget?: number  // Anthropic 扩展思考预算（tokens），不设置则不开启
+  supportsTools?: boolean  // 模型是否支持原生工具调用，未知时为空
+  toolCallMode?: ToolCallMode  // 工具调用方式，默认 auto
+  tokenizer?: string  // token 计数词表：auto（按模型推断）/ heuristic（按字符估算）/ 词表名称，默认 auto
+}
+
+// AI 请求路由：single 仅使用当前配置；failover 按顺序故障转移；weighted 按权重负载均衡
+export interface AiRoutingConfig {
+  mode: 'single' | 'failover' | 'weighted'
+  profileIds: string[]             // 故障转移链（按顺序）或负载均衡池
+  weights: Record<string, number>  // weighted 模式下各配置的权重，默认 1
+  maxRetries: number               // 单个配置遇到 429 / 5xx / 超时时的重试次数
 }
 
 // 跳板机配置
@@ -18,17 +37,20 @@ export interface JumpHostConfig {
   host: string
   port: number
   username: string
-  authType: 'password' | 'privateKey'
+  authType: 'password' | 'privateKey' | 'agent'
   password?: string
   privateKeyPath?: string
   passphrase?: string
+  totpSecret?: string   // TOTP 种子，用于自动填写键盘交互认证中的验证码
 }
 
 // 会话分组（支持跳板机继承）
 export interface SessionGroup {
   id: string
   name: string
-  jumpHost?: JumpHostConfig  // 可选的跳板机配置，组内会话自动继承
+  jumpHost?: JumpHostConfig  // 保留旧字段（单跳），兼容迁移
+  jumpHosts?: JumpHostConfig[]  // 可选的跳板机链（按顺序逐跳连接），组内会话自动继承
+  reconnect?: SshReconnectPolicy  // 组内会话默认的自动重连策略
 }
 
 // 支持的字符编码
@@ -53,14 +75,19 @@ export interface SshSession {
   host: string
   port: number
   username: string
-  authType: 'password' | 'privateKey'
+  authType: 'password' | 'privateKey' | 'agent'
   password?: string
   privateKeyPath?: string
   passphrase?: string
+  totpSecret?: string      // TOTP 种子，用于自动填写键盘交互认证中的验证码
+  agentForward?: boolean   // 转发本地 SSH Agent（等同于 ssh -A）
   group?: string           // 保留旧字段，兼容迁移
   groupId?: string         // 新字段：引用分组 ID
-  jumpHostOverride?: JumpHostConfig | null  // 覆盖分组跳板机：null 表示显式禁用，undefined 表示继承
+  jumpHostOverride?: JumpHostConfig | null  // 保留旧字段（单跳），兼容迁移
+  jumpHostsOverride?: JumpHostConfig[] | null  // 覆盖分组跳板机链：null 表示显式禁用，undefined 表示继承
   encoding?: SshEncoding   // 字符编码，默认 utf-8
+  portForwards?: PortForwardConfig[]  // 端口转发（随连接启动/停止）
+  reconnect?: SshReconnectPolicy  // 自动重连（未设置时继承分组）
 }
 
 // 本地终端编码类型（与 SSH 编码共用）
@@ -101,6 +128,12 @@ export const useConfigStore = defineStore('config', () => {
   // AI 配置
   const aiProfiles = ref<AiProfile[]>([])
   const activeAiProfileId = ref<string>('')
+  const aiRouting = ref<AiRoutingConfig>({
+    mode: 'single',
+    profileIds: [],
+    weights: {},
+    maxRetries: 2
+  })
 
   // SSH 会话
   const sshSessions = ref<SshSession[]>([])
@@ -108,6 +141,10 @@ export const useConfigStore = defineStore('config', () => {
   // 会话分组
   const sessionGroups = ref<SessionGroup[]>([])
 
+  // 工作区
+  const workspaces = ref<Workspace[]>([])
+  const startupWorkspaceId = ref<string>('')
+
   // 主题
   const currentTheme = ref<string>('one-dark')
 
@@ -155,6 +192,11 @@ export const useConfigStore = defineStore('config', () => {
       const activeId = await window.electronAPI.config.getActiveAiProfile()
       activeAiProfileId.value = activeId || ''
 
+      const routing = await window.electronAPI.config.getAiRouting()
+      if (routing) {
+        aiRouting.value = routing
+      }
+
       // 加载 SSH 会话
       const sessions = await window.electronAPI.config.getSshSessions()
       sshSessions.value = sessions || []
@@ -166,6 +208,14 @@ export const useConfigStore = defineStore('config', () => {
       // 数据迁移：将旧的 group 字符串转换为 SessionGroup
       await migrateGroupStringsToEntities()
 
+      // 数据迁移：将单个跳板机转换为跳板机链
+      await migrateJumpHostsToChains()
+
+      // 加载工作区
+      const savedWorkspaces = await window.electronAPI.config.getWorkspaces()
+      workspaces.value = savedWorkspaces || []
+      startupWorkspaceId.value = await window.electronAPI.config.getStartupWorkspace() || ''
+
       // 加载主题
       const theme = await window.electronAPI.config.getTheme()
       currentTheme.value = theme || 'one-dark'
@@ -231,6 +281,17 @@ export const useConfigStore = defineStore('config', () => {
     if (activeAiProfileId.value === id && aiProfiles.value.length > 0) {
       await setActiveAiProfile(aiProfiles.value[0].id)
     }
+
+    // 从故障转移链 / 负载均衡池中移除
+    if (aiRouting.value.profileIds.includes(id)) {
+      const weights = { ...aiRouting.value.weights }
+      delete weights[id]
+      await setAiRouting({
+        ...aiRouting.value,
+        profileIds: aiRouting.value.profileIds.filter(pid => pid !== id),
+        weights
+      })
+    }
   }
 
   async function setActiveAiProfile(id: string): Promise<void> {
@@ -238,6 +299,14 @@ export const useConfigStore = defineStore('config', () => {
     await window.electronAPI.config.setActiveAiProfile(id)
   }
 
+  /**
+   * 设置 AI 请求路由（故障转移 / 负载均衡）
+   */
+  async function setAiRouting(routing: AiRoutingConfig): Promise<void> {
+    aiRouting.value = routing
+    await window.electronAPI.config.setAiRouting(JSON.parse(JSON.stringify(routing)))
+  }
+
   // ==================== SSH 会话 ====================
 
   async function saveSshSessions(): Promise<void> {
@@ -304,26 +373,77 @@ export const useConfigStore = defineStore('config', () => {
   }
 
   /**
-   * 获取会话最终生效的跳板机配置
+   * 获取会话最终生效的跳板机链
    * 优先级：会话自定义 > 分组继承 > 无
    */
-  function getEffectiveJumpHost(session: SshSession): JumpHostConfig | undefined {
+  function getEffectiveJumpHosts(session: SshSession): JumpHostConfig[] {
     // 如果会话显式禁用跳板机
-    if (session.jumpHostOverride === null) {
-      return undefined
+    if (session.jumpHostsOverride === null) {
+      return []
     }
-    // 如果会话有自定义跳板机
-    if (session.jumpHostOverride) {
-      return session.jumpHostOverride
+    // 如果会话有自定义跳板机链
+    if (session.jumpHostsOverride?.length) {
+      return session.jumpHostsOverride
     }
-    // 继承分组的跳板机
+    // 继承分组的跳板机链
     if (session.groupId) {
       const group = sessionGroups.value.find(g => g.id === session.groupId)
-      return group?.jumpHost
+      return group?.jumpHosts || []
+    }
+    return []
+  }
+
+  /**
+   * 获取会话最终生效的自动重连策略
+   * 优先级：会话设置 > 分组设置 > 不重连
+   */
+  function getEffectiveReconnect(session: SshSession): SshReconnectPolicy | undefined {
+    if (session.reconnect) {
+      return session.reconnect.enabled ? session.reconnect : undefined
+    }
+    if (session.groupId) {
+      const group = sessionGroups.value.find(g => g.id === session.groupId)
+      return group?.reconnect?.enabled ? group.reconnect : undefined
     }
     return undefined
   }
 
+  // ==================== 工作区 ====================
+
+  async function saveWorkspaces(): Promise<void> {
+    const plainWorkspaces = JSON.parse(JSON.stringify(workspaces.value))
+    await window.electronAPI.config.setWorkspaces(plainWorkspaces)
+  }
+
+  /**
+   * 保存工作区（同 ID 存在时覆盖）
+   */
+  async function saveWorkspace(workspace: Workspace): Promise<void> {
+    const index = workspaces.value.findIndex(w => w.id === workspace.id)
+    if (index !== -1) {
+      workspaces.value[index] = workspace
+    } else {
+      workspaces.value.push(workspace)
+    }
+    await saveWorkspaces()
+  }
+
+  async function deleteWorkspace(id: string): Promise<void> {
+    workspaces.value = workspaces.value.filter(w => w.id !== id)
+    await saveWorkspaces()
+    if (startupWorkspaceId.value === id) {
+      await setStartupWorkspace('')
+    }
+  }
+
+  /**
+   * 设置启动时自动恢复的工作区（空字符串表示不恢复）
+   */
+  async function setStartupWorkspace(id: string): Promise<void> {
+    startupWorkspaceId.value = id
+    await window.electronAPI.config.setStartupWorkspace(id)
+  }
+
   // ==================== 主题 ====================
 
   async function setTheme(theme: string): Promise<void> {
@@ -410,14 +530,51 @@ export const useConfigStore = defineStore('config', () => {
     }
   }
 
+  /**
+   * 将旧的单个跳板机（jumpHost / jumpHostOverride）迁移为跳板机链
+   */
+  async function migrateJumpHostsToChains(): Promise<void> {
+    let groupsChanged = false
+    for (const group of sessionGroups.value) {
+      if (group.jumpHost) {
+        if (!group.jumpHosts?.length) {
+          group.jumpHosts = [group.jumpHost]
+        }
+        delete group.jumpHost
+        groupsChanged = true
+      }
+    }
+
+    let sessionsChanged = false
+    for (const session of sshSessions.value) {
+      if (session.jumpHostOverride !== undefined) {
+        if (session.jumpHostsOverride === undefined) {
+          session.jumpHostsOverride = session.jumpHostOverride ? [session.jumpHostOverride] : null
+        }
+        delete session.jumpHostOverride
+        sessionsChanged = true
+      }
+    }
+
+    if (groupsChanged) {
+      await saveSessionGroups()
+    }
+    if (sessionsChanged) {
+      await saveSshSessions()
+    }
+  }
+
   return {
     // 状态
     aiProfiles,
     activeAiProfileId,
     activeAiProfile,
+    aiRouting,
     hasAiConfig,
     sshSessions,
     sessionGroups,
+    workspaces,
+    startupWorkspaceId,
     currentTheme,
     uiTheme,
     terminalSettings,
@@ -432,6 +589,7 @@ export const useConfigStore = defineStore('config', () => {
     updateAiProfile,
     deleteAiProfile,
     setActiveAiProfile,
+    setAiRouting,
     addSshSession,
     updateSshSession,
     deleteSshSession,
@@ -439,7 +597,11 @@ export const useConfigStore = defineStore('config', () => {
     updateSessionGroup,
     deleteSessionGroup,
     getGroupByName,
-    getEffectiveJumpHost,
+    getEffectiveJumpHosts,
+    getEffectiveReconnect,
+    saveWorkspace,
+    deleteWorkspace,
+    setStartupWorkspace,
     setTheme,
     setUiTheme,
     setAgentMbti,
@@ -3,7 +3,7 @@ import { ref, computed } from 'vue'
 import { v4 as uuidv4 } from 'uuid'
 import stripAnsiLib from 'strip-ansi'
 import i18n from '../i18n'
-import type { JumpHostConfig } from './config'
+import type { JumpHostConfig, SshSession } from './config'
 import { useConfigStore } from './config'
 import type { TerminalScreenService, ScreenContent } from '../services/terminal-screen.service'
 import type { TerminalSnapshotManager, TerminalSnapshot, TerminalDiff } from '../services/terminal-snapshot.service'
@@ -38,6 +38,7 @@ export interface AgentStep {
   riskLevel?: RiskLevel
   timestamp: number
   isStreaming?: boolean
+  target?: string  // 多终端任务中执行该步骤的目标终端
 }
 
 export interface PendingConfirmation {
@@ -46,6 +47,7 @@ export interface PendingConfirmation {
   toolName: string
   toolArgs: Record<string, unknown>
   riskLevel: RiskLevel
+  diff?: string  // 写入文件的差异预览（unified diff）
 }
 
 // Agent 历史任务记录（完整保存执行过程）
@@ -63,6 +65,7 @@ export interface AgentState {
   steps: AgentStep[]
   pendingConfirm?: PendingConfirmation
   finalResult?: string   // Agent 完成后的最终回复
+  plan?: AgentPlan       // 当前任务的执行计划
   history: AgentHistoryItem[]  // 历史任务记录
 }
 
@@ -88,9 +91,30 @@ export interface TerminalTab {
     port: number
     username: string
   }
+  // 来源 SSH 会话 ID（从会话管理器连接时）
+  sessionId?: string
+  // 本地终端使用的 shell
+  shell?: string
+  // 打开时恢复的工作目录（工作区恢复时使用）
+  initialCwd?: string
+  // 端口转发运行状态
+  portForwards?: PortForwardStatus[]
+  // 自动重连状态（断开后等待或正在重连时存在）
+  reconnect?: {
+    state: 'waiting' | 'connecting'
+    attempt: number
+    maxAttempts: number
+    nextAttemptAt?: number  // 下一次重试的时间戳（waiting）
+  }
+  // 是否正在录制（asciicast 录像）
+  isRecording?: boolean
+  // 广播输入模式下不接收、也不发出广播
+  broadcastExcluded?: boolean
   systemInfo?: SystemInfo
   isConnected: boolean
   isLoading: boolean
+  // 连接失败原因
+  connectionError?: string
   // 终端输出缓冲（最近的输出）
   outputBuffer?: string[]
   // 最近检测到的错误
@@ -121,6 +145,44 @@ export interface SplitPane {
   size?: number
 }
 
+// 生成 cd 命令的路径参数（~ 开头的路径保留 ~ 展开）
+function quoteShellPath(dir: string): string {
+  const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`
+  return dir.startsWith('~/') ? `~/${quote(dir.slice(2))}` : quote(dir)
+}
+
+/**
+ * 分屏布局转换为工作区格式（tabId → 标签页序号），丢弃未保存标签页对应的窗格
+ */
+function toWorkspacePane(pane: SplitPane, tabIndexById: Map<string, number>): WorkspacePane | null {
+  if (pane.type === 'terminal') {
+    const tabIndex = pane.tabId ? tabIndexById.get(pane.tabId) : undefined
+    return tabIndex === undefined ? null : { type: 'terminal', tabIndex, size: pane.size }
+  }
+  const children = (pane.children || [])
+    .map(child => toWorkspacePane(child, tabIndexById))
+    .filter((child): child is WorkspacePane => child !== null)
+  if (children.length === 0) return null
+  if (children.length === 1) return { ...children[0], size: pane.size }
+  return { type: 'split', direction: pane.direction, children, size: pane.size }
+}
+
+/**
+ * 工作区布局还原为分屏布局（标签页序号 → 新标签页 ID），丢弃未能恢复的窗格
+ */
+function fromWorkspacePane(pane: WorkspacePane, tabIds: (string | undefined)[]): SplitPane | null {
+  if (pane.type === 'terminal') {
+    const tabId = pane.tabIndex !== undefined ? tabIds[pane.tabIndex] : undefined
+    return tabId ? { id: uuidv4(), type: 'terminal', tabId, size: pane.size } : null
+  }
+  const children = (pane.children || [])
+    .map(child => fromWorkspacePane(child, tabIds))
+    .filter((child): child is SplitPane => child !== null)
+  if (children.length === 0) return null
+  if (children.length === 1) return { ...children[0], size: pane.size }
+  return { id: uuidv4(), type: 'split', direction: pane.direction, children, size: pane.size }
+}
+
 export const useTerminalStore = defineStore('terminal', () => {
   // 状态
   const tabs = ref<TerminalTab[]>([])
@@ -133,6 +195,8 @@ export const useTerminalStore = defineStore('terminal', () => {
   const sshTerminalCounters = ref<Record<string, number>>({})
   // 需要获得焦点的终端 ID（用于从 AI 助手发送代码后自动聚焦）
   const pendingFocusTabId = ref<string>('')
+  // 广播输入模式：在一个终端中的键入同步发送到所有参与广播的终端
+  const broadcastMode = ref(false)
   
   // 屏幕服务实例存储（tabId -> TerminalScreenService）
   // 使用普通对象而非 ref，因为 TerminalScreenService 实例不需要响应式
@@ -144,6 +208,10 @@ export const useTerminalStore = defineStore('terminal', () => {
   // 计算属性
   const activeTab = computed(() => tabs.value.find(t => t.id === activeTabId.value))
   const tabCount = computed(() => tabs.value.length)
+  // 参与广播的终端（已连接且未排除）
+  const broadcastTabs = computed(() =>
+    tabs.value.filter(t => t.ptyId && t.isConnected && !t.broadcastExcluded)
+  )
 
   /**
    * 检测本地系统信息
@@ -217,6 +285,16 @@ export const useTerminalStore = defineStore('terminal', () => {
     }
   }
 
+  /**
+   * 更新 SSH 连接的端口转发状态
+   */
+  function updatePortForwards(ptyId: string, forwards: PortForwardStatus[]): void {
+    const tab = tabs.value.find(t => t.ptyId === ptyId)
+    if (tab) {
+      tab.portForwards = forwards
+    }
+  }
+
   /**
    * 追加终端输出到缓冲区
    */
@@ -337,12 +415,21 @@ export const useTerminalStore = defineStore('terminal', () => {
       host: string
       port: number
       username: string
+      authType?: 'password' | 'privateKey' | 'agent'
       password?: string
       privateKey?: string
-      jumpHost?: JumpHostConfig  // 跳板机配置
+      privateKeyPath?: string
+      passphrase?: string
+      totpSecret?: string  // TOTP 种子，用于自动填写验证码
+      agentForward?: boolean  // 转发本地 SSH Agent
+      jumpHosts?: JumpHostConfig[]  // 跳板机链
       encoding?: string  // 字符编码，默认 utf-8
+      sessionId?: string  // 来源会话 ID
+      portForwards?: PortForwardConfig[]  // 端口转发配置
+      reconnect?: SshReconnectPolicy  // 自动重连策略
     },
-    shell?: string  // 本地终端可指定 shell (cmd/powershell/bash 等)
+    shell?: string,  // 本地终端可指定 shell (cmd/powershell/bash 等)
+    cwd?: string  // 初始工作目录
   ): Promise<string> {
     const id = uuidv4()
     
@@ -356,7 +443,7 @@ export const useTerminalStore = defineStore('terminal', () => {
     } else if (sshConfig) {
       const sshKey = `${sshConfig.username}@${sshConfig.host}`
       // 如果有跳板机，在标题中显示
-      const jumpSuffix = sshConfig.jumpHost ? ` (via ${sshConfig.jumpHost.host})` : ''
+      const jumpSuffix = sshConfig.jumpHosts?.length ? ` (via ${sshConfig.jumpHosts.map(h => h.host).join(' → ')})` : ''
       sshTerminalCounters.value[sshKey] = (sshTerminalCounters.value[sshKey] || 0) + 1
       const count = sshTerminalCounters.value[sshKey]
       title = count > 1 ? `${sshKey}${jumpSuffix} (${count})` : `${sshKey}${jumpSuffix}`
@@ -369,7 +456,8 @@ export const useTerminalStore = defineStore('terminal', () => {
       title,
       type,
       isConnected: false,
-      isLoading: true
+      isLoading: true,
+      initialCwd: cwd
     }
 
     if (type === 'ssh' && sshConfig) {
@@ -378,6 +466,7 @@ export const useTerminalStore = defineStore('terminal', () => {
         port: sshConfig.port,
         username: sshConfig.username
       }
+      tab.sessionId = sshConfig.sessionId
     }
 
     tabs.value.push(tab)
@@ -396,9 +485,11 @@ export const useTerminalStore = defineStore('terminal', () => {
         const ptyId = await window.electronAPI.pty.create({
           cols: 80,
           rows: 24,
+          cwd,
           shell: shell,
           encoding: localEncoding
         })
+        reactiveTab.shell = shell
         reactiveTab.ptyId = ptyId
         reactiveTab.isConnected = true
         // 检测本地系统信息
@@ -408,17 +499,33 @@ export const useTerminalStore = defineStore('terminal', () => {
           host: sshConfig.host,
           port: sshConfig.port,
           username: sshConfig.username,
+          authType: sshConfig.authType,
           password: sshConfig.password,
           privateKey: sshConfig.privateKey,
-          jumpHost: sshConfig.jumpHost,  // 传递跳板机配置
+          privateKeyPath: sshConfig.privateKeyPath,
+          passphrase: sshConfig.passphrase,
+          totpSecret: sshConfig.totpSecret,
+          agentForward: sshConfig.agentForward,
+          // 传递跳板机链（去除响应式代理，避免 IPC 克隆错误）
+          jumpHosts: sshConfig.jumpHosts?.length ? JSON.parse(JSON.stringify(sshConfig.jumpHosts)) : undefined,
           encoding: sshConfig.encoding,  // 传递编码配置
+          // 去除响应式代理，避免 IPC 克隆错误
+          portForwards: sshConfig.portForwards ? JSON.parse(JSON.stringify(sshConfig.portForwards)) : undefined,
+          reconnect: sshConfig.reconnect ? { ...sshConfig.reconnect } : undefined,
           cols: 80,
           rows: 24
         })
         reactiveTab.ptyId = sshId
         reactiveTab.isConnected = true
+        // 恢复工作目录（命令前加空格，避免写入 shell 历史）
+        if (cwd) {
+          await window.electronAPI.ssh.write(sshId, ` cd ${quoteShellPath(cwd)}\r`)
+        }
+        if (sshConfig.portForwards?.length) {
+          reactiveTab.portForwards = await window.electronAPI.portForward.getStatus(sshId)
+        }
         // SSH 连接默认假设是 Linux/Unix 系统
-        const jumpInfo = sshConfig.jumpHost ? ` (via ${sshConfig.jumpHost.host})` : ''
+        const jumpInfo = sshConfig.jumpHosts?.length ? ` (via ${sshConfig.jumpHosts.map(h => h.host).join(' → ')})` : ''
         reactiveTab.systemInfo = {
           os: 'linux',
           shell: 'bash',
@@ -428,6 +535,9 @@ export const useTerminalStore = defineStore('terminal', () => {
     } catch (error) {
       console.error('Failed to create terminal:', error)
       reactiveTab.isConnected = false
+      // 去掉 IPC 调用附加的前缀，只保留主进程抛出的错误信息
+      const message = error instanceof Error ? error.message : String(error)
+      reactiveTab.connectionError = message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '')
     } finally {
       reactiveTab.isLoading = false
     }
@@ -435,6 +545,34 @@ export const useTerminalStore = defineStore('terminal', () => {
     return id
   }
 
+  /**
+   * 打开已保存的 SSH 会话
+   */
+  async function connectSshSession(session: SshSession, cwd?: string): Promise<string> {
+    const configStore = useConfigStore()
+    // 同一会话已有连接在运行端口转发时，新开的终端不再重复监听
+    const forwardsRunning = tabs.value.some(tab =>
+      tab.sessionId === session.id && tab.portForwards?.some(forward => forward.state !== 'stopped')
+    )
+
+    return createTab('ssh', {
+      host: session.host,
+      port: session.port,
+      username: session.username,
+      authType: session.authType,
+      password: session.password,
+      privateKeyPath: session.privateKeyPath,
+      passphrase: session.passphrase,
+      totpSecret: session.totpSecret,
+      agentForward: session.agentForward,
+      jumpHosts: configStore.getEffectiveJumpHosts(session),  // 传递跳板机链
+      encoding: session.encoding || 'utf-8',  // 传递编码配置
+      sessionId: session.id,
+      portForwards: forwardsRunning ? undefined : session.portForwards,
+      reconnect: configStore.getEffectiveReconnect(session)
+    }, undefined, cwd)
+  }
+
   /**
    * 关闭标签页
    */
@@ -495,6 +633,55 @@ export const useTerminalStore = defineStore('terminal', () => {
     }
   }
 
+  /**
+   * 更新自动重连状态
+   */
+  function updateReconnectState(tabId: string, event: SshReconnectEvent): void {
+    const tab = tabs.value.find(t => t.id === tabId)
+    if (!tab) return
+
+    if (event.state === 'waiting' || event.state === 'connecting') {
+      tab.isConnected = false
+      tab.reconnect = {
+        state: event.state,
+        attempt: event.attempt,
+        maxAttempts: event.maxAttempts,
+        nextAttemptAt: event.delay !== undefined ? Date.now() + event.delay : undefined
+      }
+    } else {
+      tab.isConnected = event.state === 'connected'
+      tab.reconnect = undefined
+    }
+  }
+
+  /**
+   * 开始录制终端会话
+   */
+  async function startRecording(tabId: string, cols: number, rows: number): Promise<RecordingStatus | null> {
+    const tab = tabs.value.find(t => t.id === tabId)
+    if (!tab?.ptyId || tab.isRecording) return null
+
+    const status = await window.electronAPI.recording.start(tab.ptyId, {
+      cols,
+      rows,
+      title: tab.title,
+      type: tab.type
+    })
+    tab.isRecording = true
+    return status
+  }
+
+  /**
+   * 停止录制终端会话，返回录像文件路径
+   */
+  async function stopRecording(tabId: string): Promise<string | null> {
+    const tab = tabs.value.find(t => t.id === tabId)
+    if (!tab?.ptyId || !tab.isRecording) return null
+
+    tab.isRecording = false
+    return window.electronAPI.recording.stop(tab.ptyId)
+  }
+
   /**
    * 向终端写入数据
    */
@@ -509,6 +696,41 @@ export const useTerminalStore = defineStore('terminal', () => {
     }
   }
 
+  /**
+   * 写入用户在终端中的输入
+   * 广播模式下，参与广播的终端输入会同步发送到其他所有参与广播的终端
+   */
+  async function writeUserInput(tabId: string, data: string): Promise<void> {
+    await Promise.all(getInputTargets(tabId).map(t => writeToTerminal(t.id, data)))
+  }
+
+  /**
+   * 获取用户输入的目标终端（非广播模式下仅为当前终端）
+   */
+  function getInputTargets(tabId: string): TerminalTab[] {
+    const tab = tabs.value.find(t => t.id === tabId)
+    if (!tab) return []
+    if (!broadcastMode.value || tab.broadcastExcluded) return [tab]
+    return [tab, ...broadcastTabs.value.filter(t => t.id !== tabId)]
+  }
+
+  /**
+   * 切换广播输入模式
+   */
+  function toggleBroadcastMode(enabled: boolean = !broadcastMode.value): void {
+    broadcastMode.value = enabled
+  }
+
+  /**
+   * 设置终端是否排除在广播之外
+   */
+  function setBroadcastExcluded(tabId: string, excluded: boolean): void {
+    const tab = tabs.value.find(t => t.id === tabId)
+    if (tab) {
+      tab.broadcastExcluded = excluded
+    }
+  }
+
   /**
    * 调整终端大小
    */
@@ -531,6 +753,100 @@ export const useTerminalStore = defineStore('terminal', () => {
     console.log('Split terminal:', direction)
   }
 
+  // ==================== 工作区 ====================
+
+  /**
+   * 将当前标签页与分屏布局保存为工作区
+   * 未关联已保存会话的 SSH 标签页无法重新连接，不会保存
+   * @param id 覆盖已有工作区时传入其 ID
+   */
+  async function captureWorkspace(name: string, id?: string): Promise<Workspace> {
+    const workspaceTabs: WorkspaceTab[] = []
+    const tabIndexById = new Map<string, number>()
+    let activeTabIndex = 0
+
+    for (const tab of tabs.value) {
+      if (tab.type === 'ssh' && !tab.sessionId) continue
+
+      let cwd: string | undefined
+      if (tab.ptyId && tab.isConnected) {
+        try {
+          const current = await window.electronAPI.terminalState.getCwd(tab.ptyId)
+          cwd = current && current !== '~' ? current : undefined
+        } catch {
+          // 无法获取时不恢复工作目录
+        }
+      }
+
+      if (tab.id === activeTabId.value) {
+        activeTabIndex = workspaceTabs.length
+      }
+      tabIndexById.set(tab.id, workspaceTabs.length)
+      workspaceTabs.push({
+        type: tab.type,
+        title: tab.title,
+        sessionId: tab.sessionId,
+        shell: tab.shell,
+        cwd
+      })
+    }
+
+    const now = Date.now()
+    return {
+      id: id || uuidv4(),
+      name,
+      tabs: workspaceTabs,
+      activeTabIndex,
+      splitLayout: splitLayout.value ? toWorkspacePane(splitLayout.value, tabIndexById) : null,
+      createdAt: now,
+      updatedAt: now
+    }
+  }
+
+  /**
+   * 恢复工作区：按顺序重新打开所有标签页（并发连接），并还原分屏布局
+   * @returns 恢复的标签页数量与因会话已删除而跳过的数量
+   */
+  async function restoreWorkspace(workspace: Workspace): Promise<{ restored: number; skipped: number }> {
+    const configStore = useConfigStore()
+    const tabIds: (string | undefined)[] = []
+    const pending: Promise<string>[] = []
+    let skipped = 0
+
+    // createTab 在首次等待前同步插入标签页，因此并发创建仍保持原有顺序
+    for (const workspaceTab of workspace.tabs) {
+      let task: Promise<string> | null = null
+      if (workspaceTab.type === 'local') {
+        task = createTab('local', undefined, workspaceTab.shell, workspaceTab.cwd)
+      } else {
+        const session = configStore.sshSessions.find(s => s.id === workspaceTab.sessionId)
+        if (session) {
+          task = connectSshSession(session, workspaceTab.cwd)
+        }
+      }
+
+      if (task) {
+        const index = tabIds.length
+        tabIds.push(undefined)
+        pending.push(task.then(tabId => (tabIds[index] = tabId)))
+      } else {
+        tabIds.push(undefined)
+        skipped++
+      }
+    }
+    await Promise.all(pending)
+
+    if (workspace.splitLayout) {
+      splitLayout.value = fromWorkspacePane(workspace.splitLayout, tabIds)
+    }
+    const activeId = tabIds[workspace.activeTabIndex] ?? tabIds.find(tabId => tabId)
+    if (activeId) {
+      activeTabId.value = activeId
+    }
+
+    return { restored: pending.length, skipped }
+  }
+
   /**
    * 重新排序标签页（用于拖拽）
    */
@@ -736,6 +1052,15 @@ export const useTerminalStore = defineStore('terminal', () => {
     }
   }
 
+  /**
+   * 更新当前任务的执行计划
+   */
+  function setAgentPlan(tabId: string, plan: AgentPlan | undefined): void {
+    const tab = tabs.value.find(t => t.id === tabId)
+    if (!tab?.agentState) return
+    tab.agentState.plan = plan
+  }
+
   /**
    * 设置待确认的工具调用
    */
@@ -1045,12 +1370,19 @@ export const useTerminalStore = defineStore('terminal', () => {
     splitLayout,
     pendingAiText,
     pendingFocusTabId,
+    broadcastMode,
+    broadcastTabs,
     createTab,
+    connectSshSession,
     closeTab,
     setActiveTab,
     updateTabTitle,
     updateConnectionStatus,
+    updateReconnectState,
+    startRecording,
+    stopRecording,
     updateSystemInfo,
+    updatePortForwards,
     appendOutput,
     clearError,
     updateSelectedText,
@@ -1058,8 +1390,14 @@ export const useTerminalStore = defineStore('terminal', () => {
     clearPendingAiText,
     getRecentOutput,
     writeToTerminal,
+    writeUserInput,
+    getInputTargets,
+    toggleBroadcastMode,
+    setBroadcastExcluded,
     resizeTerminal,
     splitTerminal,
+    captureWorkspace,
+    restoreWorkspace,
     reorderTabs,
     getAiMessages,
     addAiMessage,
@@ -1076,6 +1414,7 @@ export const useTerminalStore = defineStore('terminal', () => {
     setAgentRunning,
     setAgentId,
     addAgentStep,
+    setAgentPlan,
     setAgentPendingConfirm,
     clearAgentState,
     setAgentFinalResult,
@@ -19,14 +19,369 @@ interface AgentStep {
   riskLevel?: RiskLevel
   timestamp: number
   isStreaming?: boolean
+  target?: string
 }
 
+interface AgentTarget {
+  id: string
+  ptyId: string
+  terminalType: 'local' | 'ssh'
+  hostId?: string
+  systemInfo: { os: string; shell: string }
+}
+
+// Agent 任务计划（由 Agent 的 create_plan 工具创建）
+interface AgentPlanStep {
+  id: string
+  description: string
+  purpose: string
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'skipped' | 'blocked'
+  result?: string
+  error?: string
+  command?: string
+  dependencies?: string[]
+  dependencyType?: 'sequential' | 'conditional' | 'parallel'
+  retryCount?: number
+  actualDuration?: number  // 实际耗时（秒）
+  startTime?: number
+}
+
+interface AgentPlan {
+  id: string
+  originalTask: string
+  analysis: string
+  steps: AgentPlanStep[]
+  currentStepIndex: number
+  createdAt: number
+  updatedAt: number
+  approvalStatus?: 'pending' | 'approved' | 'rejected'  // 执行前的用户审批
+}
+
+// 用户对计划的修改
+type AgentPlanEdit =
+  | { type: 'modify'; stepId: string; description?: string; command?: string }
+  | { type: 'skip'; stepId: string }
+  | { type: 'retry'; stepId: string }
+
 interface PendingConfirmation {
   agentId: string
   toolCallId: string
   toolName: string
   toolArgs: Record<string, unknown>
   riskLevel: RiskLevel
+  diff?: string  // 写入文件的差异预览（unified diff）
+}
+
+// Agent 运行修改过的文件
+interface AgentFileChanges {
+  runId: string
+  files: Array<{
+    path: string
+    remote: boolean
+    hostId?: string
+    existed: boolean
+    skipped?: boolean
+  }>
+  revertedAt?: number
+}
+
+interface AgentFileRevertResult {
+  path: string
+  hostId?: string
+  success: boolean
+  error?: string
+}
+
+// 未知主机公钥确认请求
+interface HostKeyPromptRequest {
+  requestId: string
+  host: string
+  port: number
+  keyType: string
+  fingerprint: string
+  isJumpHost: boolean
+}
+
+// 键盘交互认证请求（密码 / OTP 验证码等服务器提示）
+interface KeyboardInteractiveRequest {
+  requestId: string
+  host: string
+  port: number
+  username: string
+  isJumpHost: boolean
+  name: string
+  instructions: string
+  prompts: Array<{ prompt: string; echo: boolean; autoFilled?: boolean }>
+}
+
+// 跳板机配置
+interface JumpHostConfig {
+  host: string
+  port: number
+  username: string
+  authType: 'password' | 'privateKey' | 'agent'
+  password?: string
+  privateKeyPath?: string
+  passphrase?: string
+  totpSecret?: string
+}
+
+// 自动重连策略
+interface SshReconnectPolicy {
+  enabled: boolean
+  maxAttempts?: number   // 最多重试次数，默认 5，0 表示不限
+  initialDelay?: number  // 首次重试前等待的秒数，之后每次翻倍
+  maxDelay?: number      // 重试间隔上限（秒）
+}
+
+// 自动重连状态
+interface SshReconnectEvent {
+  id: string
+  state: 'waiting' | 'connecting' | 'connected' | 'failed'
+  attempt: number
+  maxAttempts: number
+  delay?: number
+  reason?: string
+  error?: string
+}
+
+// 跳板机链中的某一跳（断开连接时标明出问题的跳）
+interface JumpHopInfo {
+  index: number
+  total: number
+  host: string
+  port: number
+}
+
+// 端口转发配置
+interface PortForwardConfig {
+  id: string
+  type: 'local' | 'remote' | 'dynamic'
+  bindHost?: string
+  bindPort: number
+  targetHost?: string
+  targetPort?: number
+  enabled?: boolean
+  description?: string
+}
+
+// AI 请求路由（故障转移 / 负载均衡）
+interface AiRoutingConfig {
+  mode: 'single' | 'failover' | 'weighted'
+  profileIds: string[]
+  weights: Record<string, number>
+  maxRetries: number
+}
+
+// 用量统计上下文（请求来源与所在主机）
+interface AiUsageContext {
+  source: 'chat' | 'agent' | 'knowledge'
+  host?: string
+  terminalId?: string
+  agentRunId?: string
+}
+
+// 模型单价（每百万 tokens），model 以 * 结尾时按前缀匹配
+interface ModelPrice {
+  model: string
+  inputPrice: number
+  outputPrice: number
+}
+
+interface ModelPricingConfig {
+  currency: string
+  prices: ModelPrice[]
+}
+
+// 命令风险策略规则
+interface RiskPolicyRule {
+  id: string
+  name?: string
+  enabled: boolean
+  pattern: string
+  action: 'allow' | 'confirm' | 'deny'
+  scope: 'all' | 'host' | 'group' | 'hostname'
+  scopeValue?: string
+}
+
+interface RiskPolicyConfig {
+  useBuiltinRules: boolean
+  rules: RiskPolicyRule[]
+}
+
+// 策略测试使用的目标主机
+interface RiskPolicyTestContext {
+  hostId?: string
+  hostname?: string
+  groupName?: string
+}
+
+interface RiskPolicyTestResult {
+  level: 'safe' | 'moderate' | 'dangerous' | 'blocked'
+  source: 'policy' | 'builtin' | 'default'
+  rule?: RiskPolicyRule
+  reason?: string  // 命中内置禁止规则或跳过允许规则的说明
+  interactiveBlocked?: string
+}
+
+// 定时任务（nextRunAt 由主进程计算，保存时忽略）
+interface ScheduledTask {
+  id: string
+  name: string
+  enabled: boolean
+  cron: string
+  sessionIds: string[]
+  task: string
+  profileId?: string
+  maxSteps: number
+  commandTimeout: number
+  autoExecuteModerate: boolean
+  notifyOnSuccess: boolean
+  createdAt: number
+  updatedAt: number
+  lastRunAt?: number
+  lastStatus?: 'running' | 'completed' | 'failed'
+  lastError?: string
+  nextRunAt?: number
+}
+
+// 本地 Agent 接入状态
+interface HeadlessAgentStatus {
+  enabled: boolean
+  listening: boolean
+  socketPath: string
+  token: string
+  error?: string
+}
+
+// Playbook（可复用的 Agent 任务模板）
+interface PlaybookParameter {
+  name: string
+  label?: string
+  description?: string
+  default?: string
+  required?: boolean
+  options?: string[]
+}
+
+interface PlaybookStep {
+  description: string
+  purpose?: string
+  checkpoint?: boolean
+  alternativeApproach?: string
+}
+
+interface PlaybookSuccessCheck {
+  description: string
+  command?: string
+  expect?: string
+}
+
+interface Playbook {
+  id: string
+  name: string
+  description?: string
+  task: string
+  parameters: PlaybookParameter[]
+  steps: PlaybookStep[]
+  successChecks: PlaybookSuccessCheck[]
+  riskCeiling?: 'safe' | 'moderate' | 'dangerous'
+  createdAt: number
+  updatedAt: number
+}
+
+// 代入参数后的 Playbook
+interface RenderedPlaybook {
+  playbookId: string
+  name: string
+  task: string
+  steps: PlaybookStep[]
+  successChecks: PlaybookSuccessCheck[]
+  riskCeiling?: 'safe' | 'moderate' | 'dangerous'
+}
+
+// 用量汇总项
+interface UsageBucket {
+  key: string
+  label: string
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  cost: number
+}
+
+interface UsageSummary {
+  currency: string
+  total: UsageBucket
+  byDay: UsageBucket[]
+  byProfile: UsageBucket[]
+  byHost: UsageBucket[]
+  byModel: UsageBucket[]
+  unpricedModels: string[]
+}
+
+// 工作区中的标签页
+interface WorkspaceTab {
+  type: 'local' | 'ssh'
+  title?: string
+  sessionId?: string
+  shell?: string
+  cwd?: string
+}
+
+// 工作区分屏布局（tabId 替换为标签页序号）
+interface WorkspacePane {
+  type: 'terminal' | 'split'
+  direction?: 'horizontal' | 'vertical'
+  children?: WorkspacePane[]
+  tabIndex?: number
+  size?: number
+}
+
+// 工作区
+interface Workspace {
+  id: string
+  name: string
+  tabs: WorkspaceTab[]
+  activeTabIndex: number
+  splitLayout: WorkspacePane | null
+  createdAt: number
+  updatedAt: number
+}
+
+// 终端录制状态
+interface RecordingStatus {
+  terminalId: string
+  filePath: string
+  startedAt: number
+}
+
+// 录像文件信息（asciicast v2）
+interface RecordingFileInfo {
+  filePath: string
+  fileName: string
+  title?: string
+  width: number
+  height: number
+  timestamp: number
+  duration: number
+  size: number
+}
+
+// 端口转发运行状态
+interface PortForwardStatus {
+  id: string
+  type: 'local' | 'remote' | 'dynamic'
+  bindHost: string
+  bindPort: number
+  targetHost?: string
+  targetPort?: number
+  description?: string
+  state: 'starting' | 'active' | 'error' | 'stopped'
+  error?: string
+  connections: number
+  bytesIn: number
+  bytesOut: number
 }
 
 interface HostProfile {
@@ -135,26 +490,54 @@ interface Window {
         port: number
         username: string
         password?: string
+        authType?: 'password' | 'privateKey' | 'agent'
         privateKey?: string
+        privateKeyPath?: string
         passphrase?: string
+        totpSecret?: string
+        agentForward?: boolean
         cols?: number
         rows?: number
         jumpHost?: {
           host: string
           port: number
           username: string
-          authType: 'password' | 'privateKey'
+          authType: 'password' | 'privateKey' | 'agent'
           password?: string
           privateKeyPath?: string
           passphrase?: string
         }
+        jumpHosts?: JumpHostConfig[]
         encoding?: string
+        portForwards?: PortForwardConfig[]
+        reconnect?: SshReconnectPolicy
       }) => Promise<string>
       write: (id: string, data: string) => Promise<void>
       resize: (id: string, cols: number, rows: number) => Promise<void>
       disconnect: (id: string) => Promise<void>
       onData: (id: string, callback: (data: string) => void) => () => void
-      onDisconnected: (id: string, callback: (event: { reason: string; error?: string }) => void) => () => void
+      onDisconnected: (id: string, callback: (event: { reason: string; error?: string; jumpHop?: JumpHopInfo }) => void) => () => void
+      onReconnect: (callback: (event: SshReconnectEvent) => void) => () => void
+      onHostKeyPrompt: (callback: (request: HostKeyPromptRequest) => void) => () => void
+      onHostKeyPromptCancel: (callback: (requestId: string) => void) => () => void
+      respondHostKey: (requestId: string, accepted: boolean) => Promise<void>
+      onKeyboardInteractive: (callback: (request: KeyboardInteractiveRequest) => void) => () => void
+      onKeyboardInteractiveCancel: (callback: (requestId: string) => void) => () => void
+      respondKeyboardInteractive: (requestId: string, answers: string[] | null) => Promise<void>
+    }
+    portForward: {
+      getStatus: (connectionId: string) => Promise<PortForwardStatus[]>
+      onStatus: (callback: (data: { connectionId: string; forwards: PortForwardStatus[] }) => void) => () => void
+    }
+    recording: {
+      start: (id: string, options: { cols: number; rows: number; title?: string; type: 'local' | 'ssh' }) => Promise<RecordingStatus>
+      stop: (id: string) => Promise<string | null>
+      getStatus: (id: string) => Promise<RecordingStatus | null>
+      list: () => Promise<RecordingFileInfo[]>
+      read: (filePath: string) => Promise<string>
+      delete: (filePath: string) => Promise<void>
+      openFolder: () => Promise<void>
+      selectFile: () => Promise<{ canceled: boolean; filePath: string }>
     }
     terminalState: {
       init: (id: string, type: 'local' | 'ssh', initialCwd?: string) => Promise<void>
@@ -331,17 +714,38 @@ interface Window {
     ai: {
       chat: (
         messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
-        profileId?: string
+        profileId?: string,
+        usageContext?: AiUsageContext
       ) => Promise<string>
       chatStream: (
         messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
         onChunk: (chunk: string) => void,
-        onDone: () => void,
+        onDone: (servedBy?: { id: string; name: string }) => void,
         onError: (error: string) => void,
         profileId?: string,
-        requestId?: string
+        requestId?: string,
+        usageContext?: AiUsageContext
       ) => void
       abort: (requestId?: string) => Promise<void>
+      listLocalModels: (
+        apiUrl: string,
+        proxy?: string
+      ) => Promise<{
+        server: 'ollama' | 'llamacpp' | 'openai'
+        baseUrl: string
+        models: Array<{
+          name: string
+          contextLength?: number
+          supportsTools?: boolean
+          size?: number
+          parameterSize?: string
+        }>
+      }>
+      listTokenizers: () => Promise<{
+        tokenizers: Array<{ id: string; source: 'bundled' | 'user' }>
+        userDir: string
+      }>
+      countTokens: (texts: string[], profileId?: string) => Promise<{ tokenizer: string; counts: number[] }>
     }
     config: {
       get: (key: string) => Promise<unknown>
@@ -355,6 +759,11 @@ interface Window {
           apiKey: string
           model: string
           proxy?: string
+          provider?: 'openai' | 'anthropic' | 'local'
+          thinkingBudget?: number
+          supportsTools?: boolean
+          toolCallMode?: 'auto' | 'native' | 'prompt'
+          tokenizer?: string
         }>
       >
       setAiProfiles: (
@@ -365,10 +774,24 @@ interface Window {
           apiKey: string
           model: string
           proxy?: string
+          provider?: 'openai' | 'anthropic' | 'local'
+          thinkingBudget?: number
+          supportsTools?: boolean
+          toolCallMode?: 'auto' | 'native' | 'prompt'
+          tokenizer?: string
         }>
       ) => Promise<void>
       getActiveAiProfile: () => Promise<string>
       setActiveAiProfile: (profileId: string) => Promise<void>
+      getAiRouting: () => Promise<AiRoutingConfig>
+      setAiRouting: (routing: AiRoutingConfig) => Promise<void>
+      getModelPricing: () => Promise<ModelPricingConfig>
+      setModelPricing: (pricing: ModelPricingConfig) => Promise<void>
+      getRiskPolicy: () => Promise<RiskPolicyConfig>
+      setRiskPolicy: (policy: RiskPolicyConfig) => Promise<void>
+      testRiskPolicy: (command: string, context: RiskPolicyTestContext, policy?: RiskPolicyConfig) => Promise<RiskPolicyTestResult>
+      exportRiskPolicy: (policy: RiskPolicyConfig) => Promise<{ success?: boolean; canceled?: boolean; error?: string; path?: string }>
+      importRiskPolicy: () => Promise<{ success?: boolean; canceled?: boolean; error?: string; policy?: RiskPolicyConfig }>
       getSshSessions: () => Promise<
         Array<{
           id: string
@@ -376,7 +799,7 @@ interface Window {
           host: string
           port: number
           username: string
-          authType: 'password' | 'privateKey'
+          authType: 'password' | 'privateKey' | 'agent'
           password?: string
           privateKeyPath?: string
           passphrase?: string
@@ -390,7 +813,7 @@ interface Window {
           host: string
           port: number
           username: string
-          authType: 'password' | 'privateKey'
+          authType: 'password' | 'privateKey' | 'agent'
           password?: string
           privateKeyPath?: string
           passphrase?: string
@@ -409,11 +832,13 @@ interface Window {
           host: string
           port: number
           username: string
-          authType: 'password' | 'privateKey'
+          authType: 'password' | 'privateKey' | 'agent'
           password?: string
           privateKeyPath?: string
           passphrase?: string
         }
+        jumpHosts?: JumpHostConfig[]
+        reconnect?: SshReconnectPolicy
       }>>
       setSessionGroups: (groups: Array<{
         id: string
@@ -422,12 +847,19 @@ interface Window {
           host: string
           port: number
           username: string
-          authType: 'password' | 'privateKey'
+          authType: 'password' | 'privateKey' | 'agent'
           password?: string
           privateKeyPath?: string
           passphrase?: string
         }
+        jumpHosts?: JumpHostConfig[]
+        reconnect?: SshReconnectPolicy
       }>) => Promise<void>
+      // 工作区
+      getWorkspaces: () => Promise<Workspace[]>
+      setWorkspaces: (workspaces: Workspace[]) => Promise<void>
+      getStartupWorkspace: () => Promise<string>
+      setStartupWorkspace: (workspaceId: string) => Promise<void>
       // Agent MBTI
       getAgentMbti: () => Promise<string | null>
       setAgentMbti: (mbti: string | null) => Promise<void>
@@ -485,6 +917,7 @@ interface Window {
           hostId?: string
           historyMessages?: { role: string; content: string }[]
           documentContext?: string
+          targets?: AgentTarget[]
         },
         config?: {
           enabled?: boolean
@@ -494,8 +927,37 @@ interface Window {
           autoExecuteModerate?: boolean
           strictMode?: boolean
         },
-        profileId?: string
+        profileId?: string,
+        playbook?: RenderedPlaybook
+      ) => Promise<{ success: boolean; result?: string; error?: string }>
+      resume: (
+        agentId: string,
+        ptyId: string,
+        context: {
+          ptyId: string
+          terminalOutput: string[]
+          systemInfo: { os: string; shell: string }
+          terminalType: 'local' | 'ssh'
+          hostId?: string
+          targets?: AgentTarget[]
+        },
+        config?: {
+          commandTimeout?: number
+          strictMode?: boolean
+        }
       ) => Promise<{ success: boolean; result?: string; error?: string }>
+      getInterruptedRun: (hostId: string) => Promise<{
+        id: string
+        hostId?: string
+        userTask: string
+        stepCount: number
+        steps: AgentStep[]
+        createdAt: number
+        updatedAt: number
+      } | null>
+      discardInterruptedRun: (agentId: string) => Promise<boolean>
+      getFileChanges: (agentId: string) => Promise<AgentFileChanges | null>
+      revertFileChanges: (agentId: string) => Promise<{ success: boolean; results?: AgentFileRevertResult[]; error?: string }>
       abort: (agentId: string) => Promise<boolean>
       confirm: (
         agentId: string,
@@ -503,7 +965,13 @@ interface Window {
         approved: boolean,
         modifiedArgs?: Record<string, unknown>
       ) => Promise<boolean>
-      getStatus: (agentId: string) => Promise<unknown>
+      approvePlan: (agentId: string, approved: boolean) => Promise<boolean>
+      adjustPlan: (agentId: string, edit: AgentPlanEdit) => Promise<{ success: boolean; error?: string }>
+      getStatus: (agentId: string) => Promise<{
+        isRunning: boolean
+        steps: AgentStep[]
+        aiProfiles: { id: string; name: string }[]
+      } | null>
       cleanup: (agentId: string) => Promise<void>
       updateConfig: (agentId: string, config: { strictMode?: boolean; commandTimeout?: number }) => Promise<boolean>
       addMessage: (agentId: string, message: string) => Promise<boolean>
@@ -511,6 +979,7 @@ interface Window {
       onNeedConfirm: (callback: (data: PendingConfirmation) => void) => () => void
       onComplete: (callback: (data: { agentId: string; result: string }) => void) => () => void
       onError: (callback: (data: { agentId: string; error: string }) => void) => () => void
+      onPlanUpdate: (callback: (data: { agentId: string; plan: AgentPlan }) => void) => () => void
     }
     // 历史记录操作
     history: {
@@ -522,6 +991,7 @@ interface Window {
         sshHost?: string
         role: 'user' | 'assistant'
         content: string
+        aiProfile?: { id: string; name: string }
       }) => Promise<void>
       saveChatRecords: (records: Array<{
         id: string
@@ -531,6 +1001,7 @@ interface Window {
         sshHost?: string
         role: 'user' | 'assistant'
         content: string
+        aiProfile?: { id: string; name: string }
       }>) => Promise<void>
       getChatRecords: (startDate?: string, endDate?: string) => Promise<Array<{
         id: string
@@ -540,9 +1011,11 @@ interface Window {
         sshHost?: string
         role: 'user' | 'assistant'
         content: string
+        aiProfile?: { id: string; name: string }
       }>>
       saveAgentRecord: (record: {
         id: string
+        runId?: string
         timestamp: number
         terminalId: string
         terminalType: 'local' | 'ssh'
@@ -552,9 +1025,11 @@ interface Window {
         finalResult?: string
         status: 'completed' | 'failed' | 'aborted'
         duration: number
+        aiProfiles?: { id: string; name: string }[]
       }) => Promise<void>
       getAgentRecords: (startDate?: string, endDate?: string) => Promise<Array<{
         id: string
+        runId?: string
         timestamp: number
         terminalId: string
         terminalType: 'local' | 'ssh'
@@ -564,6 +1039,7 @@ interface Window {
         finalResult: string
         status: 'completed' | 'failed' | 'aborted'
         duration: number
+        aiProfiles?: { id: string; name: string }[]
       }>>
       getStorageStats: () => Promise<{
         chatFiles: number
@@ -572,6 +1048,7 @@ interface Window {
         oldestRecord?: string
         newestRecord?: string
       }>
+      getUsageSummary: (startDate?: string, endDate?: string) => Promise<UsageSummary>
       getDataPath: () => Promise<string>
       openDataFolder: () => Promise<void>
       exportToFolder: (options: {
@@ -631,6 +1108,7 @@ interface Window {
         host: string
         port: number
         username: string
+        authType?: 'password' | 'privateKey' | 'agent'
         password?: string
         privateKey?: string | Buffer
         privateKeyPath?: string
@@ -801,6 +1279,30 @@ interface Window {
         startTime: number
       }) => void) => () => void
     }
+    // 定时任务
+    scheduler: {
+      getAll: () => Promise<ScheduledTask[]>
+      save: (task: ScheduledTask) => Promise<{ success: boolean; task?: ScheduledTask; error?: string }>
+      delete: (id: string) => Promise<boolean>
+      runNow: (id: string) => Promise<{ success: boolean; error?: string }>
+      previewCron: (expression: string, count?: number) => Promise<{ valid: boolean; error?: string; nextRuns: number[] }>
+      onTaskUpdated: (callback: (task: ScheduledTask) => void) => () => void
+    }
+    // 本地 Agent 接入
+    headlessAgent: {
+      getStatus: () => Promise<HeadlessAgentStatus>
+      setEnabled: (enabled: boolean) => Promise<HeadlessAgentStatus>
+      regenerateToken: () => Promise<HeadlessAgentStatus>
+    }
+    // Playbook 操作
+    playbook: {
+      getAll: () => Promise<Playbook[]>
+      save: (playbook: Playbook) => Promise<{ success: boolean; playbook?: Playbook; error?: string }>
+      delete: (id: string) => Promise<boolean>
+      render: (id: string, values: Record<string, string>) => Promise<{ success: boolean; playbook?: RenderedPlaybook; error?: string }>
+      export: (ids?: string[]) => Promise<{ success?: boolean; canceled?: boolean; error?: string; path?: string }>
+      import: () => Promise<{ success?: boolean; canceled?: boolean; error?: string; count?: number }>
+    }
     // 文档解析操作
     document: {
       selectFiles: () => Promise<{